@@ -0,0 +1,40 @@
+// content-store/fileStore.ts
+import { createHash } from "crypto";
+import fs from "fs/promises";
+import path from "path";
+
+const HASH_PATTERN = /^0x[0-9a-f]{64}$/;
+
+export const contentHashOf = (data: Uint8Array): string => "0x" + createHash("sha256").update(data).digest("hex");
+
+export const isContentHash = (hash: string): boolean => HASH_PATTERN.test(hash);
+
+// Same contract as the frontend ContentStore: blobs addressed by their sha256, one file per hash
+export class FileContentStore {
+  constructor(private readonly dir: string) {}
+
+  private pathOf(hash: string): string {
+    if (!isContentHash(hash)) throw new Error(`Invalid content hash: ${hash}`);
+    return path.join(this.dir, hash.substring(2));
+  }
+
+  async put(data: Uint8Array): Promise<string> {
+    const hash = contentHashOf(data);
+    await fs.mkdir(this.dir, { recursive: true });
+    // Write then rename so a reader never sees a partial blob
+    const target = this.pathOf(hash);
+    const temp = `${target}.${process.pid}.tmp`;
+    await fs.writeFile(temp, data);
+    await fs.rename(temp, target);
+    return hash;
+  }
+
+  async get(hash: string): Promise<Uint8Array | null> {
+    try {
+      return await fs.readFile(this.pathOf(hash));
+    } catch (e: unknown) {
+      if (e instanceof Error && "code" in e && e.code === "ENOENT") return null;
+      throw e;
+    }
+  }
+}
@@ -0,0 +1,85 @@
+// content-store/server.ts
+// Development content store for proposal bodies and attachments: PUT/GET /content/<sha256>.
+// Run with `npm run content-store` and point the frontend's `contentStoreUrl` at it.
+import http from "http";
+import path from "path";
+import { FileContentStore, contentHashOf, isContentHash } from "./fileStore";
+
+const PORT = Number(process.env.CONTENT_STORE_PORT || 8787);
+const DIR = process.env.CONTENT_STORE_DIR || path.join(__dirname, "data");
+const MAX_BYTES = Number(process.env.CONTENT_STORE_MAX_BYTES || 50 * 1024 * 1024); // Attachments include datasets
+
+const store = new FileContentStore(DIR);
+
+const CORS_HEADERS = {
+  "Access-Control-Allow-Origin": "*",
+  "Access-Control-Allow-Methods": "GET, PUT, OPTIONS",
+  "Access-Control-Allow-Headers": "Content-Type"
+};
+
+const reply = (res: http.ServerResponse, status: number, body: string) => {
+  res.writeHead(status, { ...CORS_HEADERS, "Content-Type": "text/plain" });
+  res.end(body);
+};
+
+const readBody = (req: http.IncomingMessage): Promise<Buffer | null> =>
+  new Promise((resolve, reject) => {
+    const chunks: Buffer[] = [];
+    let size = 0;
+    req.on("data", (chunk: Buffer) => {
+      size += chunk.length;
+      if (size > MAX_BYTES) {
+        // Stop reading; the handler answers 413 before the connection is closed
+        req.removeAllListeners("data");
+        req.pause();
+        resolve(null);
+        return;
+      }
+      chunks.push(chunk);
+    });
+    req.on("end", () => resolve(Buffer.concat(chunks)));
+    req.on("error", reject);
+  });
+
+const handle = async (req: http.IncomingMessage, res: http.ServerResponse) => {
+  if (req.method === "OPTIONS") { res.writeHead(204, CORS_HEADERS); res.end(); return; }
+
+  const match = /^\/content\/([^/?]+)$/.exec(req.url || "");
+  const hash = match ? match[1].toLowerCase() : "";
+  if (!isContentHash(hash)) { reply(res, 404, "Not found"); return; }
+
+  if (req.method === "GET") {
+    const data = await store.get(hash);
+    if (!data) { reply(res, 404, "Not found"); return; }
+    res.writeHead(200, { ...CORS_HEADERS, "Content-Type": "application/octet-stream", "Content-Length": data.length });
+    res.end(data);
+    return;
+  }
+
+  if (req.method === "PUT") {
+    const body = await readBody(req);
+    if (!body) {
+      // The rest of the upload is never read, so the connection cannot be reused
+      res.setHeader("Connection", "close");
+      res.on("finish", () => req.destroy());
+      reply(res, 413, `Content larger than ${MAX_BYTES} bytes`);
+      return;
+    }
+    // The hash is recomputed, so nothing can be stored under a hash it does not have
+    if (contentHashOf(body) !== hash) { reply(res, 400, "Content does not match its hash"); return; }
+    await store.put(body);
+    reply(res, 201, hash);
+    return;
+  }
+
+  reply(res, 405, "Method not allowed");
+};
+
+http
+  .createServer((req, res) => {
+    handle(req, res).catch(e => {
+      console.error("Content store error:", e);
+      if (!res.headersSent) reply(res, 500, "Internal error");
+    });
+  })
+  .listen(PORT, () => console.log(`Content store serving ${DIR} on http://localhost:${PORT}`));
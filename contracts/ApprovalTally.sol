@@ -0,0 +1,260 @@
+// SPDX-License-Identifier: BSD-3-Clause-Clear
+pragma solidity ^0.8.24;
+
+import { FHE, euint32, euint64, ebool } from "@fhevm/solidity/lib/FHE.sol";
+import { Science_DAO_FHE, IResearchIP } from "./Science_DAO.sol";
+
+// Encrypted tally and reveal of an approval batch, linked into the DAO to keep it under the contract size limit.
+// Runs through delegatecall, so storage, events and ACL grants all belong to the DAO.
+library ApprovalTally {
+    using FHE for euint32;
+    using FHE for euint64;
+    using FHE for ebool;
+
+    // Work done per call: proposals scored, ordered pairs compared, proposals funded. Each chunk keeps a
+    // transaction well inside the per-transaction HCU limits however large the batch is.
+    uint256 internal constant SCORE_CHUNK = 8;
+    uint256 internal constant RANK_CHUNK = 20;
+    uint256 internal constant FUND_CHUNK = 16;
+
+    // Advances the tally by one chunk and returns true once every proposal is decided, ranked by composite
+    // score and funded down the ranking. A call never carries on into the next phase after doing work, so
+    // ciphertexts built in one phase start the next from a fresh transaction.
+    function tallyStep(
+        uint256 batchId,
+        uint256[] storage ids,
+        mapping(uint256 => Science_DAO_FHE.Proposal) storage proposals,
+        mapping(uint256 => Science_DAO_FHE.ProposalTally) storage tallies,
+        mapping(uint256 => Science_DAO_FHE.ProposalRanking) storage rankings,
+        Science_DAO_FHE.BatchResult storage result,
+        Science_DAO_FHE.BatchBudget storage budget,
+        Science_DAO_FHE.BatchQuorum storage quorum,
+        Science_DAO_FHE.ScoringWeights storage weights,
+        uint32 minCompositeScore
+    ) external returns (bool done) {
+        uint256 count = ids.length;
+        uint256 cursor = result.tallyCursor;
+        uint256 steps = 0;
+
+        if (result.tallyPhase == Science_DAO_FHE.TallyPhase.Scoring) {
+            if (cursor == 0) {
+                // Weights and threshold changed mid-tally must not mix into one ranking
+                result.scoringWeights = weights;
+                result.minCompositeScore = minCompositeScore;
+            }
+            while (cursor < count && steps < SCORE_CHUNK) {
+                uint256 id = ids[cursor];
+                _scoreProposal(batchId, id, proposals[id], tallies[id], rankings[id], result, quorum);
+                cursor++;
+                steps++;
+            }
+            if (cursor < count) return _pause(result, cursor);
+            result.tallyPhase = Science_DAO_FHE.TallyPhase.Ranking;
+            cursor = 0;
+            if (steps > 0) return _pause(result, cursor);
+        }
+
+        if (result.tallyPhase == Science_DAO_FHE.TallyPhase.Ranking) {
+            // Pair cursor = i * count + j: proposal j is compared against proposal i
+            uint256 pairs = count * count;
+            while (cursor < pairs && steps < RANK_CHUNK) {
+                uint256 i = cursor / count;
+                uint256 j = cursor % count;
+                cursor++;
+                if (i == j) continue;
+                _compare(rankings[ids[i]], rankings[ids[j]], j < i);
+                steps++;
+            }
+            if (cursor < pairs) return _pause(result, cursor);
+            result.tallyPhase = Science_DAO_FHE.TallyPhase.Funding;
+            cursor = 0;
+            result.encryptedApprovedCount = FHE.asEuint32(0);
+            result.encryptedTotalFunding = FHE.asEuint64(0);
+            FHE.allowThis(result.encryptedApprovedCount);
+            FHE.allowThis(result.encryptedTotalFunding);
+            if (steps > 0) return _pause(result, cursor);
+        }
+
+        while (cursor < count && steps < FUND_CHUNK) {
+            uint256 id = ids[cursor];
+            _fund(rankings[id], tallies[id], result, budget);
+            cursor++;
+            steps++;
+        }
+        _pause(result, cursor);
+        return cursor == count;
+    }
+
+    // Handles decrypted for a batch: the two totals, then (approved, approvals, rank, funded) for every proposal
+    function ciphertexts(
+        uint256[] storage ids,
+        mapping(uint256 => Science_DAO_FHE.ProposalTally) storage tallies,
+        mapping(uint256 => Science_DAO_FHE.ProposalRanking) storage rankings,
+        Science_DAO_FHE.BatchResult storage result
+    ) external view returns (bytes32[] memory cts) {
+        cts = new bytes32[](2 + ids.length * 4);
+        cts[0] = result.encryptedApprovedCount.toBytes32();
+        cts[1] = result.encryptedTotalFunding.toBytes32();
+
+        for (uint256 i = 0; i < ids.length; i++) {
+            Science_DAO_FHE.ProposalTally storage tally_ = tallies[ids[i]];
+            Science_DAO_FHE.ProposalRanking storage ranking = rankings[ids[i]];
+            cts[2 + i * 4] = tally_.encryptedApproved.toBytes32();
+            cts[3 + i * 4] = tally_.encryptedApprovals.toBytes32();
+            cts[4 + i * 4] = ranking.encryptedRank.toBytes32();
+            cts[5 + i * 4] = ranking.encryptedFunded.toBytes32();
+        }
+    }
+
+    // Publishes every proposal outcome and mints research IP for the approved ones
+    function reveal(
+        uint256 batchId,
+        uint256[] storage ids,
+        mapping(uint256 => Science_DAO_FHE.Proposal) storage proposals,
+        mapping(uint256 => Science_DAO_FHE.ProposalTally) storage tallies,
+        mapping(uint256 => Science_DAO_FHE.ProposalRanking) storage rankings,
+        IResearchIP researchIP,
+        bytes memory cleartexts
+    ) external returns (uint256 approvedCount, uint256 totalFunding) {
+        approvedCount = _wordAt(cleartexts, 0);
+        totalFunding = _wordAt(cleartexts, 1);
+
+        for (uint256 i = 0; i < ids.length; i++) {
+            uint256 word = 2 + i * 4;
+            uint256 id = ids[i];
+            Science_DAO_FHE.Proposal storage proposal = proposals[id];
+            Science_DAO_FHE.ProposalTally storage tally_ = tallies[id];
+            Science_DAO_FHE.ProposalRanking storage ranking = rankings[id];
+            tally_.revealed = true;
+            tally_.approved = _wordAt(cleartexts, word) != 0;
+            tally_.approvals = uint64(_wordAt(cleartexts, word + 1));
+            ranking.rank = uint32(_wordAt(cleartexts, word + 2));
+            ranking.funded = _wordAt(cleartexts, word + 3) != 0;
+            emit Science_DAO_FHE.ProposalOutcomeRevealed(
+                batchId,
+                id,
+                proposal.provider,
+                tally_.approved,
+                tally_.approvals,
+                tally_.ballots,
+                tally_.totalWeight,
+                ranking.rank,
+                ranking.funded
+            );
+            if (tally_.approved && address(researchIP) != address(0)) {
+                researchIP.mint(id, batchId, proposal.provider, proposal.metadata, proposal.contentHash);
+            }
+        }
+    }
+
+    function _pause(Science_DAO_FHE.BatchResult storage result, uint256 cursor) private returns (bool) {
+        result.tallyCursor = uint64(cursor);
+        return false;
+    }
+
+    // Decides the proposal and scores it; eligible means approved by the batch threshold and quorum
+    // and at or above the score threshold
+    function _scoreProposal(
+        uint256 batchId,
+        uint256 proposalId,
+        Science_DAO_FHE.Proposal storage proposal,
+        Science_DAO_FHE.ProposalTally storage tally_,
+        Science_DAO_FHE.ProposalRanking storage ranking,
+        Science_DAO_FHE.BatchResult storage result,
+        Science_DAO_FHE.BatchQuorum storage quorum
+    ) private {
+        _tallyProposal(batchId, proposalId, tally_, quorum);
+        euint32 score = _compositeScore(proposal, result.scoringWeights);
+        ebool eligible = tally_.encryptedApproved.and(score.ge(result.minCompositeScore));
+
+        ranking.encryptedCompositeScore = score;
+        ranking.encryptedEligible = eligible;
+        ranking.encryptedEligibleFunding = FHE.select(eligible, FHE.asEuint64(proposal.encryptedFundingAmount), FHE.asEuint64(0));
+        ranking.encryptedRank = FHE.asEuint32(0);
+        ranking.encryptedFundingAbove = FHE.asEuint64(0);
+        FHE.allowThis(ranking.encryptedCompositeScore);
+        FHE.allowThis(ranking.encryptedEligible);
+        FHE.allowThis(ranking.encryptedEligibleFunding);
+        FHE.allowThis(ranking.encryptedRank);
+        FHE.allowThis(ranking.encryptedFundingAbove);
+        FHE.allow(ranking.encryptedCompositeScore, proposal.provider);
+    }
+
+    // Counts `other` towards the rank of `ranking` when it scores higher; ties go to the earlier submission
+    function _compare(
+        Science_DAO_FHE.ProposalRanking storage ranking,
+        Science_DAO_FHE.ProposalRanking storage other,
+        bool otherIsEarlier
+    ) private {
+        ebool above = otherIsEarlier
+            ? other.encryptedCompositeScore.ge(ranking.encryptedCompositeScore)
+            : other.encryptedCompositeScore.gt(ranking.encryptedCompositeScore);
+        ranking.encryptedRank = ranking.encryptedRank.add(above.asEuint32());
+        ranking.encryptedFundingAbove = ranking.encryptedFundingAbove.add(
+            FHE.select(above, other.encryptedEligibleFunding, FHE.asEuint64(0))
+        );
+        FHE.allowThis(ranking.encryptedRank);
+        FHE.allowThis(ranking.encryptedFundingAbove);
+    }
+
+    // Walk down the ranking until the cap is reached: a proposal is funded only if
+    // everything eligible above it plus its own request still fits in the budget.
+    // The sums are 64-bit, so oversized requests cannot wrap back under the cap.
+    function _fund(
+        Science_DAO_FHE.ProposalRanking storage ranking,
+        Science_DAO_FHE.ProposalTally storage tally_,
+        Science_DAO_FHE.BatchResult storage result,
+        Science_DAO_FHE.BatchBudget storage budget
+    ) private {
+        ebool funded = ranking.encryptedEligible;
+        if (budget.capSet) {
+            funded = funded.and(ranking.encryptedFundingAbove.add(ranking.encryptedEligibleFunding).le(FHE.asEuint64(budget.encryptedCap)));
+        }
+        ranking.encryptedFunded = funded;
+        result.encryptedApprovedCount = result.encryptedApprovedCount.add(tally_.encryptedApproved.asEuint32());
+        result.encryptedTotalFunding = result.encryptedTotalFunding.add(
+            FHE.select(funded, ranking.encryptedEligibleFunding, FHE.asEuint64(0))
+        );
+        FHE.allowThis(ranking.encryptedFunded);
+        FHE.allowThis(result.encryptedApprovedCount);
+        FHE.allowThis(result.encryptedTotalFunding);
+    }
+
+    function _tallyProposal(
+        uint256 batchId,
+        uint256 proposalId,
+        Science_DAO_FHE.ProposalTally storage tally_,
+        Science_DAO_FHE.BatchQuorum storage quorum
+    ) private {
+        if (!FHE.isInitialized(tally_.encryptedApprovals)) tally_.encryptedApprovals = FHE.asEuint64(0);
+        ebool passed;
+        if (quorum.approvalPercent == 0) {
+            // Approved when strictly more than half of the cast weight approves: approvals > totalWeight - approvals
+            passed = FHE.gt(tally_.encryptedApprovals, FHE.sub(tally_.totalWeight, tally_.encryptedApprovals));
+        } else {
+            // approvals * 100 >= totalWeight * percent, widened so large token weights cannot overflow
+            passed = FHE.ge(FHE.mul(FHE.asEuint128(tally_.encryptedApprovals), uint128(100)), uint128(tally_.totalWeight) * quorum.approvalPercent);
+        }
+        // Ballot counts and weights are public, so quorum is known before anything is decrypted
+        bool quorumMet = tally_.ballots >= quorum.minBallots && tally_.totalWeight >= quorum.minWeight;
+        if (!quorumMet) emit Science_DAO_FHE.QuorumNotMet(batchId, proposalId, tally_.ballots, tally_.totalWeight);
+        tally_.encryptedApproved = passed.and(FHE.asEbool(quorumMet));
+        FHE.allowThis(tally_.encryptedApprovals);
+        FHE.allowThis(tally_.encryptedApproved);
+    }
+
+    function _compositeScore(
+        Science_DAO_FHE.Proposal storage proposal,
+        Science_DAO_FHE.ScoringWeights storage weights
+    ) private returns (euint32) {
+        return proposal.encryptedImpactScore.mul(weights.impact)
+            .add(proposal.encryptedFeasibilityScore.mul(weights.feasibility))
+            .add(proposal.encryptedNoveltyScore.mul(weights.novelty));
+    }
+
+    function _wordAt(bytes memory data, uint256 index) private pure returns (uint256 value) {
+        assembly {
+            value := mload(add(data, mul(add(index, 1), 32)))
+        }
+    }
+}
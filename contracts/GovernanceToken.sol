@@ -0,0 +1,45 @@
+// SPDX-License-Identifier: BSD-3-Clause-Clear
+pragma solidity ^0.8.24;
+
+import { ERC20 } from "@openzeppelin/contracts/token/ERC20/ERC20.sol";
+import { ERC20Permit } from "@openzeppelin/contracts/token/ERC20/extensions/ERC20Permit.sol";
+import { ERC20Votes } from "@openzeppelin/contracts/token/ERC20/extensions/ERC20Votes.sol";
+import { Nonces } from "@openzeppelin/contracts/utils/Nonces.sol";
+
+// Checkpointed governance token; the DAO weights ballots by voting power at each batch's snapshot.
+// Holders must delegate (to themselves or someone else) before their balance counts as voting power.
+contract GovernanceToken is ERC20, ERC20Permit, ERC20Votes {
+    address public owner;
+
+    error NotOwner();
+
+    event OwnershipTransferred(address indexed oldOwner, address indexed newOwner);
+
+    modifier onlyOwner() {
+        if (msg.sender != owner) revert NotOwner();
+        _;
+    }
+
+    constructor(uint256 initialSupply) ERC20("Science DAO Governance", "SDG") ERC20Permit("Science DAO Governance") {
+        owner = msg.sender;
+        _mint(msg.sender, initialSupply);
+    }
+
+    function transferOwnership(address newOwner) external onlyOwner {
+        address oldOwner = owner;
+        owner = newOwner;
+        emit OwnershipTransferred(oldOwner, newOwner);
+    }
+
+    function mint(address to, uint256 amount) external onlyOwner {
+        _mint(to, amount);
+    }
+
+    function _update(address from, address to, uint256 value) internal override(ERC20, ERC20Votes) {
+        super._update(from, to, value);
+    }
+
+    function nonces(address account) public view override(ERC20Permit, Nonces) returns (uint256) {
+        return super.nonces(account);
+    }
+}
@@ -0,0 +1,85 @@
+// SPDX-License-Identifier: BSD-3-Clause-Clear
+pragma solidity ^0.8.24;
+
+import { Science_DAO_FHE } from "./Science_DAO.sol";
+
+// Paginated read views over the DAO's proposals, linked in like ApprovalTally to keep the DAO under the size limit.
+// Pages run newest first; `total` is the number of matching proposals, so callers can compute their page count.
+library ProposalViews {
+    // One page of an id list kept by the DAO, such as a batch's or a proposer's proposals
+    function pageOf(
+        uint256[] storage ids,
+        uint256 offset,
+        uint256 limit,
+        mapping(uint256 => Science_DAO_FHE.Proposal) storage proposals,
+        mapping(uint256 => Science_DAO_FHE.ProposalTally) storage tallies,
+        mapping(uint256 => Science_DAO_FHE.ProposalRanking) storage rankings
+    ) external view returns (Science_DAO_FHE.ProposalView[] memory page, uint256 total) {
+        total = ids.length;
+        uint256 size = offset >= total ? 0 : _min(limit, total - offset);
+        page = new Science_DAO_FHE.ProposalView[](size);
+        for (uint256 i = 0; i < size; i++) {
+            uint256 id = ids[total - 1 - offset - i];
+            page[i] = _viewOf(id, proposals[id], tallies[id], rankings[id]);
+        }
+    }
+
+    // Scans every proposal id, so the cost grows with proposalCount; meant for eth_call only
+    function pageByStatus(
+        uint256 proposalCount,
+        Science_DAO_FHE.ProposalStatus status,
+        uint256 offset,
+        uint256 limit,
+        mapping(uint256 => Science_DAO_FHE.Proposal) storage proposals,
+        mapping(uint256 => Science_DAO_FHE.ProposalTally) storage tallies,
+        mapping(uint256 => Science_DAO_FHE.ProposalRanking) storage rankings
+    ) external view returns (Science_DAO_FHE.ProposalView[] memory page, uint256 total) {
+        page = new Science_DAO_FHE.ProposalView[](_min(limit, proposalCount));
+        uint256 size = 0;
+        for (uint256 id = proposalCount; id >= 1; id--) {
+            if (_statusOf(proposals[id], tallies[id]) != status) continue;
+            if (total >= offset && size < page.length) {
+                page[size++] = _viewOf(id, proposals[id], tallies[id], rankings[id]);
+            }
+            total++;
+        }
+        // Trim the unused tail of the page
+        assembly {
+            mstore(page, size)
+        }
+    }
+
+    function _viewOf(
+        uint256 id,
+        Science_DAO_FHE.Proposal storage proposal,
+        Science_DAO_FHE.ProposalTally storage tally,
+        Science_DAO_FHE.ProposalRanking storage ranking
+    ) private view returns (Science_DAO_FHE.ProposalView memory) {
+        return Science_DAO_FHE.ProposalView({
+            proposalId: id,
+            batchId: proposal.batchId,
+            provider: proposal.provider,
+            metadata: proposal.metadata,
+            category: proposal.category,
+            contentHash: proposal.contentHash,
+            submittedAt: proposal.submittedAt,
+            version: proposal.version,
+            status: _statusOf(proposal, tally),
+            ballots: tally.ballots,
+            funded: ranking.funded
+        });
+    }
+
+    function _statusOf(
+        Science_DAO_FHE.Proposal storage proposal,
+        Science_DAO_FHE.ProposalTally storage tally
+    ) private view returns (Science_DAO_FHE.ProposalStatus) {
+        if (proposal.withdrawn) return Science_DAO_FHE.ProposalStatus.Withdrawn;
+        if (!tally.revealed) return Science_DAO_FHE.ProposalStatus.Pending;
+        return tally.approved ? Science_DAO_FHE.ProposalStatus.Approved : Science_DAO_FHE.ProposalStatus.Rejected;
+    }
+
+    function _min(uint256 a, uint256 b) private pure returns (uint256) {
+        return a < b ? a : b;
+    }
+}
@@ -0,0 +1,92 @@
+// SPDX-License-Identifier: BSD-3-Clause-Clear
+pragma solidity ^0.8.24;
+
+import { FHE, euint32 } from "@fhevm/solidity/lib/FHE.sol";
+import { Science_DAO_FHE, IResearchIP } from "./Science_DAO.sol";
+
+// Tally and reveal of a quadratic funding batch, linked into the DAO like ApprovalTally.
+// Runs through delegatecall, so storage, events and ACL grants all belong to the DAO.
+library QuadraticFunding {
+    using FHE for euint32;
+
+    // Running sums are already encrypted; only proposals nobody contributed to need zero handles
+    function tally(
+        uint256[] storage ids,
+        mapping(uint256 => Science_DAO_FHE.QuadraticTally) storage tallies
+    ) external {
+        for (uint256 i = 0; i < ids.length; i++) {
+            Science_DAO_FHE.QuadraticTally storage tally_ = tallies[ids[i]];
+            if (!FHE.isInitialized(tally_.encryptedTotal)) tally_.encryptedTotal = FHE.asEuint32(0);
+            if (!FHE.isInitialized(tally_.encryptedSqrtSum)) tally_.encryptedSqrtSum = FHE.asEuint32(0);
+            FHE.allowThis(tally_.encryptedTotal);
+            FHE.allowThis(tally_.encryptedSqrtSum);
+        }
+    }
+
+    // One (total, sqrtSum) pair per proposal
+    function ciphertexts(
+        uint256[] storage ids,
+        mapping(uint256 => Science_DAO_FHE.QuadraticTally) storage tallies
+    ) external view returns (bytes32[] memory cts) {
+        cts = new bytes32[](ids.length * 2);
+        for (uint256 i = 0; i < ids.length; i++) {
+            Science_DAO_FHE.QuadraticTally storage tally_ = tallies[ids[i]];
+            cts[i * 2] = tally_.encryptedTotal.toBytes32();
+            cts[i * 2 + 1] = tally_.encryptedSqrtSum.toBytes32();
+        }
+    }
+
+    // Proposal i ideally receives (sum sqrt(c))^2 - sum c, and the pool is shared in
+    // proportion to those ideals. Only per-proposal aggregates are ever decrypted.
+    function reveal(
+        uint256 batchId,
+        uint256[] storage ids,
+        mapping(uint256 => Science_DAO_FHE.Proposal) storage proposals,
+        mapping(uint256 => Science_DAO_FHE.QuadraticTally) storage tallies,
+        mapping(uint256 => Science_DAO_FHE.ProposalTally) storage proposalTallies,
+        mapping(uint256 => Science_DAO_FHE.ProposalRanking) storage rankings,
+        uint256 pool,
+        IResearchIP researchIP,
+        bytes memory cleartexts
+    ) external returns (uint256 fundedCount, uint256 totalFunding) {
+        uint256[] memory ideals = new uint256[](ids.length);
+        uint256 idealSum = 0;
+        for (uint256 i = 0; i < ids.length; i++) {
+            Science_DAO_FHE.QuadraticTally storage tally_ = tallies[ids[i]];
+            tally_.total = uint32(_wordAt(cleartexts, i * 2));
+            tally_.sqrtSum = uint32(_wordAt(cleartexts, i * 2 + 1));
+            uint256 square = uint256(tally_.sqrtSum) * tally_.sqrtSum;
+            // Floored square roots can leave the square just under the total
+            ideals[i] = square > tally_.total ? square - tally_.total : 0;
+            idealSum += ideals[i];
+        }
+
+        for (uint256 i = 0; i < ids.length; i++) {
+            uint256 id = ids[i];
+            Science_DAO_FHE.QuadraticTally storage tally_ = tallies[id];
+            tally_.matched = idealSum == 0 ? 0 : uint32((pool * ideals[i]) / idealSum);
+            tally_.revealed = true;
+
+            // Anything contributed or matched counts as funded for the treasury and IP flows
+            bool funded = uint256(tally_.total) + tally_.matched > 0;
+            proposalTallies[id].revealed = true;
+            proposalTallies[id].approved = funded;
+            rankings[id].funded = funded;
+            if (funded) fundedCount++;
+            totalFunding += uint256(tally_.total) + tally_.matched;
+
+            emit Science_DAO_FHE.QuadraticMatchRevealed(batchId, id, proposals[id].provider, tally_.total, tally_.contributors, tally_.sqrtSum, tally_.matched);
+            if (funded && address(researchIP) != address(0)) {
+                Science_DAO_FHE.Proposal storage proposal = proposals[id];
+                researchIP.mint(id, batchId, proposal.provider, proposal.metadata, proposal.contentHash);
+            }
+        }
+        if (totalFunding > type(uint64).max) totalFunding = type(uint64).max;
+    }
+
+    function _wordAt(bytes memory data, uint256 index) private pure returns (uint256 value) {
+        assembly {
+            value := mload(add(data, mul(add(index, 1), 32)))
+        }
+    }
+}
@@ -0,0 +1,245 @@
+// SPDX-License-Identifier: BSD-3-Clause-Clear
+pragma solidity ^0.8.24;
+
+import { ERC721 } from "@openzeppelin/contracts/token/ERC721/ERC721.sol";
+import { ERC2981 } from "@openzeppelin/contracts/token/common/ERC2981.sol";
+import { Base64 } from "@openzeppelin/contracts/utils/Base64.sol";
+import { Strings } from "@openzeppelin/contracts/utils/Strings.sol";
+
+// One token per approved proposal, minted by the DAO to the treasury when a batch result is revealed.
+// Licenses sold against a token split their revenue between the treasury and the original proposer.
+contract ResearchIP is ERC721, ERC2981 {
+    using Strings for uint256;
+    using Strings for address;
+
+    address public owner;
+    address public immutable dao;
+    address public treasury; // Receives newly minted IP tokens
+
+    struct IPRecord {
+        uint256 proposalId;
+        uint256 batchId;
+        address proposer;
+        bytes32 contentHash; // sha256 of the off-chain proposal content the DAO approved
+        string metadata; // Proposal metadata JSON (title, category)
+        uint256 mintedAt;
+    }
+
+    uint256 public totalMinted;
+    mapping(uint256 => IPRecord) public ipRecords; // tokenId => IPRecord
+    mapping(uint256 => uint256) public tokenOfProposal; // proposalId => tokenId
+
+    uint96 public constant MAX_BPS = 10000;
+    uint96 public constant DEFAULT_ROYALTY_BPS = 500; // 5% secondary-sale royalty to the treasury
+    uint96 public proposerShareBps = 3000; // Proposer's cut of license revenue, the rest goes to the treasury
+
+    struct LicenseOffer {
+        uint256 tokenId;
+        string terms; // Human-readable license terms or a link to them
+        uint256 price; // Wei per license
+        uint64 duration; // Seconds a purchased license stays valid
+        bool active;
+    }
+
+    struct License {
+        uint256 offerId;
+        uint256 tokenId;
+        address licensee;
+        uint64 startsAt;
+        uint64 expiresAt;
+        uint256 pricePaid;
+    }
+
+    struct Revenue {
+        uint256 total;
+        uint256 toTreasury;
+        uint256 toProposer;
+    }
+
+    LicenseOffer[] public licenseOffers;
+    License[] public licenses;
+    mapping(uint256 => uint256[]) internal tokenOfferIds; // tokenId => offer ids
+    mapping(uint256 => uint256[]) internal tokenLicenseIds; // tokenId => license ids
+    mapping(uint256 => Revenue) public revenueOf; // tokenId => Revenue
+    mapping(address => uint256) public pendingWithdrawals; // Proposer earnings, pulled with withdrawRevenue
+
+    error NotOwner();
+    error NotDao();
+    error AlreadyMinted();
+    error InvalidShare();
+    error OfferDoesNotExist();
+    error OfferInactive();
+    error IncorrectPayment();
+    error NothingToWithdraw();
+    error TransferFailed();
+
+    event OwnershipTransferred(address indexed oldOwner, address indexed newOwner);
+    event TreasurySet(address indexed oldTreasury, address indexed newTreasury);
+    event ResearchIPMinted(uint256 indexed tokenId, uint256 indexed proposalId, address indexed proposer, uint256 batchId, bytes32 contentHash);
+    event ProposerShareSet(uint96 oldShareBps, uint96 newShareBps);
+    event DefaultRoyaltySet(address indexed receiver, uint96 royaltyBps);
+    event LicenseOfferCreated(uint256 indexed offerId, uint256 indexed tokenId, uint256 price, uint64 duration, string terms);
+    event LicenseOfferStatusSet(uint256 indexed offerId, bool active);
+    event LicensePurchased(uint256 indexed licenseId, uint256 indexed offerId, uint256 indexed tokenId, address licensee, uint64 expiresAt, uint256 toTreasury, uint256 toProposer);
+    event RevenueWithdrawn(address indexed account, uint256 amount);
+
+    modifier onlyOwner() {
+        if (msg.sender != owner) revert NotOwner();
+        _;
+    }
+
+    constructor(address _dao, address _treasury) ERC721("Science DAO Research IP", "SDIP") {
+        owner = msg.sender;
+        dao = _dao;
+        treasury = _treasury;
+        emit TreasurySet(address(0), _treasury);
+        _setDefaultRoyalty(_treasury, DEFAULT_ROYALTY_BPS);
+        emit DefaultRoyaltySet(_treasury, DEFAULT_ROYALTY_BPS);
+    }
+
+    function transferOwnership(address newOwner) external onlyOwner {
+        address oldOwner = owner;
+        owner = newOwner;
+        emit OwnershipTransferred(oldOwner, newOwner);
+    }
+
+    function setTreasury(address newTreasury) external onlyOwner {
+        address oldTreasury = treasury;
+        treasury = newTreasury;
+        emit TreasurySet(oldTreasury, newTreasury);
+    }
+
+    function setProposerShare(uint96 newShareBps) external onlyOwner {
+        if (newShareBps > MAX_BPS) revert InvalidShare();
+        uint96 oldShareBps = proposerShareBps;
+        proposerShareBps = newShareBps;
+        emit ProposerShareSet(oldShareBps, newShareBps);
+    }
+
+    function setDefaultRoyalty(address receiver, uint96 royaltyBps) external onlyOwner {
+        if (royaltyBps > MAX_BPS) revert InvalidShare();
+        _setDefaultRoyalty(receiver, royaltyBps);
+        emit DefaultRoyaltySet(receiver, royaltyBps);
+    }
+
+    function mint(
+        uint256 proposalId,
+        uint256 batchId,
+        address proposer,
+        string calldata metadata,
+        bytes32 contentHash
+    ) external returns (uint256 tokenId) {
+        if (msg.sender != dao) revert NotDao();
+        if (tokenOfProposal[proposalId] != 0) revert AlreadyMinted();
+
+        tokenId = ++totalMinted; // Ids start at 1 so 0 means "not minted"
+        ipRecords[tokenId] = IPRecord({
+            proposalId: proposalId,
+            batchId: batchId,
+            proposer: proposer,
+            contentHash: contentHash,
+            metadata: metadata,
+            mintedAt: block.timestamp
+        });
+        tokenOfProposal[proposalId] = tokenId;
+        // Plain _mint: the treasury is not an ERC721 receiver
+        _mint(treasury, tokenId);
+
+        emit ResearchIPMinted(tokenId, proposalId, proposer, batchId, contentHash);
+    }
+
+    function createLicenseOffer(
+        uint256 tokenId,
+        string calldata terms,
+        uint256 price,
+        uint64 duration
+    ) external onlyOwner returns (uint256 offerId) {
+        _requireOwned(tokenId);
+        offerId = licenseOffers.length;
+        licenseOffers.push(LicenseOffer({ tokenId: tokenId, terms: terms, price: price, duration: duration, active: true }));
+        tokenOfferIds[tokenId].push(offerId);
+        emit LicenseOfferCreated(offerId, tokenId, price, duration, terms);
+    }
+
+    function setLicenseOfferActive(uint256 offerId, bool active) external onlyOwner {
+        if (offerId >= licenseOffers.length) revert OfferDoesNotExist();
+        licenseOffers[offerId].active = active;
+        emit LicenseOfferStatusSet(offerId, active);
+    }
+
+    function purchaseLicense(uint256 offerId) external payable returns (uint256 licenseId) {
+        if (offerId >= licenseOffers.length) revert OfferDoesNotExist();
+        LicenseOffer storage offer = licenseOffers[offerId];
+        if (!offer.active) revert OfferInactive();
+        if (msg.value != offer.price) revert IncorrectPayment();
+
+        uint64 expiresAt = uint64(block.timestamp) + offer.duration;
+        licenseId = licenses.length;
+        licenses.push(License({
+            offerId: offerId,
+            tokenId: offer.tokenId,
+            licensee: msg.sender,
+            startsAt: uint64(block.timestamp),
+            expiresAt: expiresAt,
+            pricePaid: msg.value
+        }));
+        tokenLicenseIds[offer.tokenId].push(licenseId);
+
+        uint256 toProposer = (msg.value * proposerShareBps) / MAX_BPS;
+        uint256 toTreasury = msg.value - toProposer;
+        Revenue storage revenue = revenueOf[offer.tokenId];
+        revenue.total += msg.value;
+        revenue.toTreasury += toTreasury;
+        revenue.toProposer += toProposer;
+        pendingWithdrawals[ipRecords[offer.tokenId].proposer] += toProposer;
+
+        emit LicensePurchased(licenseId, offerId, offer.tokenId, msg.sender, expiresAt, toTreasury, toProposer);
+        _sendValue(treasury, toTreasury);
+    }
+
+    function withdrawRevenue() external {
+        uint256 amount = pendingWithdrawals[msg.sender];
+        if (amount == 0) revert NothingToWithdraw();
+        pendingWithdrawals[msg.sender] = 0;
+        _sendValue(msg.sender, amount);
+        emit RevenueWithdrawn(msg.sender, amount);
+    }
+
+    function isLicenseActive(uint256 licenseId) external view returns (bool) {
+        return licenseId < licenses.length && block.timestamp < licenses[licenseId].expiresAt;
+    }
+
+    function getTokenOfferIds(uint256 tokenId) external view returns (uint256[] memory) {
+        return tokenOfferIds[tokenId];
+    }
+
+    function getTokenLicenseIds(uint256 tokenId) external view returns (uint256[] memory) {
+        return tokenLicenseIds[tokenId];
+    }
+
+    function supportsInterface(bytes4 interfaceId) public view override(ERC721, ERC2981) returns (bool) {
+        return super.supportsInterface(interfaceId);
+    }
+
+    // On-chain JSON with the public attributes; title and category live in `ipRecords(tokenId).metadata`
+    function tokenURI(uint256 tokenId) public view override returns (string memory) {
+        _requireOwned(tokenId);
+        IPRecord storage record = ipRecords[tokenId];
+        bytes memory json = abi.encodePacked(
+            '{"name":"Research IP #', tokenId.toString(),
+            '","description":"Research IP from Science DAO batch #', record.batchId.toString(),
+            '","attributes":[{"trait_type":"Proposal","value":', record.proposalId.toString(),
+            '},{"trait_type":"Batch","value":', record.batchId.toString(),
+            '},{"trait_type":"Proposer","value":"', record.proposer.toHexString(),
+            '"},{"trait_type":"Content Hash","value":"', uint256(record.contentHash).toHexString(32),
+            '"}]}'
+        );
+        return string.concat("data:application/json;base64,", Base64.encode(json));
+    }
+
+    function _sendValue(address to, uint256 amount) internal {
+        if (amount == 0) return;
+        (bool ok, ) = payable(to).call{ value: amount }("");
+        if (!ok) revert TransferFailed();
+    }
+}
@@ -0,0 +1,277 @@
+// SPDX-License-Identifier: BSD-3-Clause-Clear
+pragma solidity ^0.8.24;
+
+interface IScienceDao {
+    function isProposalFunded(uint256 proposalId, address provider) external view returns (bool);
+    function isTreasurer(address account) external view returns (bool);
+}
+
+interface IERC20 {
+    function transfer(address to, uint256 amount) external returns (bool);
+    function transferFrom(address from, address to, uint256 amount) external returns (bool);
+    function balanceOf(address account) external view returns (uint256);
+}
+
+// Holds DAO funds (ETH and ERC-20) and pays funded proposals out milestone by milestone.
+contract ScienceTreasury {
+    address public constant ETH = address(0);
+
+    address public owner;
+    IScienceDao public immutable dao;
+    mapping(address => bool) public isReviewer;
+    uint256 public reviewerCount;
+    uint256 public requiredSignoffs;
+
+    enum MilestoneStatus {
+        Pending, // Waiting for the proposer to claim it
+        Claimed, // Claimed with evidence, collecting reviewer sign-offs
+        Released // Paid out to the proposer
+    }
+
+    struct Milestone {
+        uint256 amount;
+        string description;
+        MilestoneStatus status;
+        string evidence; // Proof of completion supplied with the latest claim
+        uint256 claimedAt;
+        uint32 signoffs;
+        uint32 rejections;
+        uint32 claimRound; // Bumped on each claim so earlier sign-offs do not carry over
+    }
+
+    struct Schedule {
+        uint256 proposalId;
+        address proposer;
+        address token; // ETH for native payouts
+        uint256 totalAmount;
+        uint256 releasedAmount;
+        uint256 nextMilestone; // Milestones are claimed strictly in order
+        bool exists;
+    }
+
+    uint256 public scheduleCount;
+    mapping(uint256 => Schedule) public schedules; // scheduleId => Schedule
+    mapping(uint256 => Milestone[]) internal milestones; // scheduleId => Milestones
+    mapping(uint256 => uint256) public scheduleIdOf; // proposalId => scheduleId
+    mapping(address => uint256) public lockedBalance; // token => amount committed to unreleased milestones
+    mapping(uint256 => mapping(uint256 => mapping(uint32 => mapping(address => bool)))) public hasReviewed; // scheduleId => milestone => claimRound => reviewer
+
+    error NotOwner();
+    error NotReviewer();
+    error NotTreasurer();
+    error NotProposer();
+    error ProposalNotFunded();
+    error ScheduleExists();
+    error ScheduleDoesNotExist();
+    error InvalidMilestones();
+    error InsufficientTreasuryBalance();
+    error InvalidMilestoneState();
+    error AlreadyReviewed();
+    error InvalidSignoffThreshold();
+    error TransferFailed();
+
+    event OwnershipTransferred(address indexed oldOwner, address indexed newOwner);
+    event ReviewerAdded(address indexed reviewer);
+    event ReviewerRemoved(address indexed reviewer);
+    event RequiredSignoffsSet(uint256 oldRequired, uint256 newRequired);
+    event Deposited(address indexed token, address indexed from, uint256 amount);
+    event Withdrawn(address indexed token, address indexed to, uint256 amount);
+    event ScheduleCreated(uint256 indexed scheduleId, uint256 indexed proposalId, address indexed proposer, address token, uint256 totalAmount, uint256 milestoneCount);
+    event MilestoneClaimed(uint256 indexed scheduleId, uint256 indexed milestoneIndex, string evidence);
+    event MilestoneReviewed(uint256 indexed scheduleId, uint256 indexed milestoneIndex, address indexed reviewer, bool approve);
+    event MilestoneRejected(uint256 indexed scheduleId, uint256 indexed milestoneIndex);
+    event MilestoneReleased(uint256 indexed scheduleId, uint256 indexed milestoneIndex, address indexed proposer, uint256 amount);
+
+    modifier onlyOwner() {
+        if (msg.sender != owner) revert NotOwner();
+        _;
+    }
+
+    // The owner or anyone holding the DAO's treasurer role
+    modifier onlyTreasurer() {
+        if (msg.sender != owner && !dao.isTreasurer(msg.sender)) revert NotTreasurer();
+        _;
+    }
+
+    modifier onlyReviewer() {
+        if (!isReviewer[msg.sender]) revert NotReviewer();
+        _;
+    }
+
+    constructor(address _dao) {
+        owner = msg.sender;
+        dao = IScienceDao(_dao);
+        isReviewer[owner] = true;
+        reviewerCount = 1;
+        emit ReviewerAdded(owner);
+        requiredSignoffs = 1;
+    }
+
+    receive() external payable {
+        emit Deposited(ETH, msg.sender, msg.value);
+    }
+
+    function transferOwnership(address newOwner) external onlyOwner {
+        address oldOwner = owner;
+        owner = newOwner;
+        emit OwnershipTransferred(oldOwner, newOwner);
+    }
+
+    function addReviewer(address reviewer) external onlyOwner {
+        if (!isReviewer[reviewer]) {
+            isReviewer[reviewer] = true;
+            reviewerCount++;
+            emit ReviewerAdded(reviewer);
+        }
+    }
+
+    function removeReviewer(address reviewer) external onlyOwner {
+        if (isReviewer[reviewer]) {
+            if (reviewerCount - 1 < requiredSignoffs) revert InvalidSignoffThreshold();
+            isReviewer[reviewer] = false;
+            reviewerCount--;
+            emit ReviewerRemoved(reviewer);
+        }
+    }
+
+    function setRequiredSignoffs(uint256 newRequired) external onlyOwner {
+        if (newRequired == 0 || newRequired > reviewerCount) revert InvalidSignoffThreshold();
+        uint256 oldRequired = requiredSignoffs;
+        requiredSignoffs = newRequired;
+        emit RequiredSignoffsSet(oldRequired, newRequired);
+    }
+
+    function depositToken(address token, uint256 amount) external {
+        if (!IERC20(token).transferFrom(msg.sender, address(this), amount)) revert TransferFailed();
+        emit Deposited(token, msg.sender, amount);
+    }
+
+    // Withdraws funds that are not committed to any milestone schedule
+    function withdraw(address token, address to, uint256 amount) external onlyTreasurer {
+        if (amount > availableBalance(token)) revert InsufficientTreasuryBalance();
+        _transfer(token, to, amount);
+        emit Withdrawn(token, to, amount);
+    }
+
+    function createSchedule(
+        uint256 proposalId,
+        address proposer,
+        address token,
+        uint256[] calldata amounts,
+        string[] calldata descriptions
+    ) external onlyTreasurer returns (uint256 scheduleId) {
+        if (!dao.isProposalFunded(proposalId, proposer)) revert ProposalNotFunded();
+        if (scheduleIdOf[proposalId] != 0) revert ScheduleExists();
+        if (amounts.length == 0 || amounts.length != descriptions.length) revert InvalidMilestones();
+
+        uint256 total = 0;
+        for (uint256 i = 0; i < amounts.length; i++) {
+            if (amounts[i] == 0) revert InvalidMilestones();
+            total += amounts[i];
+        }
+        if (total > availableBalance(token)) revert InsufficientTreasuryBalance();
+
+        scheduleId = ++scheduleCount; // Ids start at 1 so 0 means "no schedule"
+        schedules[scheduleId] = Schedule({
+            proposalId: proposalId,
+            proposer: proposer,
+            token: token,
+            totalAmount: total,
+            releasedAmount: 0,
+            nextMilestone: 0,
+            exists: true
+        });
+        for (uint256 i = 0; i < amounts.length; i++) {
+            milestones[scheduleId].push(Milestone({
+                amount: amounts[i],
+                description: descriptions[i],
+                status: MilestoneStatus.Pending,
+                evidence: "",
+                claimedAt: 0,
+                signoffs: 0,
+                rejections: 0,
+                claimRound: 0
+            }));
+        }
+        scheduleIdOf[proposalId] = scheduleId;
+        lockedBalance[token] += total;
+
+        emit ScheduleCreated(scheduleId, proposalId, proposer, token, total, amounts.length);
+    }
+
+    function claimMilestone(uint256 scheduleId, string calldata evidence) external {
+        Schedule storage schedule = _requireSchedule(scheduleId);
+        if (msg.sender != schedule.proposer) revert NotProposer();
+        if (schedule.nextMilestone >= milestones[scheduleId].length) revert InvalidMilestoneState();
+
+        Milestone storage milestone = milestones[scheduleId][schedule.nextMilestone];
+        if (milestone.status != MilestoneStatus.Pending) revert InvalidMilestoneState();
+        milestone.status = MilestoneStatus.Claimed;
+        milestone.evidence = evidence;
+        milestone.claimedAt = block.timestamp;
+        milestone.signoffs = 0;
+        milestone.rejections = 0;
+        milestone.claimRound++;
+
+        emit MilestoneClaimed(scheduleId, schedule.nextMilestone, evidence);
+    }
+
+    function reviewMilestone(uint256 scheduleId, uint256 milestoneIndex, bool approve) external onlyReviewer {
+        Schedule storage schedule = _requireSchedule(scheduleId);
+        if (milestoneIndex >= milestones[scheduleId].length) revert InvalidMilestoneState();
+        Milestone storage milestone = milestones[scheduleId][milestoneIndex];
+        if (milestone.status != MilestoneStatus.Claimed) revert InvalidMilestoneState();
+        if (hasReviewed[scheduleId][milestoneIndex][milestone.claimRound][msg.sender]) revert AlreadyReviewed();
+        hasReviewed[scheduleId][milestoneIndex][milestone.claimRound][msg.sender] = true;
+
+        emit MilestoneReviewed(scheduleId, milestoneIndex, msg.sender, approve);
+
+        if (approve) {
+            milestone.signoffs++;
+            if (milestone.signoffs >= requiredSignoffs) {
+                _release(scheduleId, schedule, milestoneIndex, milestone);
+            }
+        } else {
+            milestone.rejections++;
+            // Enough rejections send the milestone back to the proposer for a new claim
+            if (milestone.rejections >= requiredSignoffs) {
+                milestone.status = MilestoneStatus.Pending;
+                emit MilestoneRejected(scheduleId, milestoneIndex);
+            }
+        }
+    }
+
+    function availableBalance(address token) public view returns (uint256) {
+        uint256 balance = token == ETH ? address(this).balance : IERC20(token).balanceOf(address(this));
+        uint256 locked = lockedBalance[token];
+        return balance > locked ? balance - locked : 0;
+    }
+
+    function getMilestones(uint256 scheduleId) external view returns (Milestone[] memory) {
+        return milestones[scheduleId];
+    }
+
+    function _release(uint256 scheduleId, Schedule storage schedule, uint256 milestoneIndex, Milestone storage milestone) internal {
+        milestone.status = MilestoneStatus.Released;
+        schedule.releasedAmount += milestone.amount;
+        schedule.nextMilestone = milestoneIndex + 1;
+        lockedBalance[schedule.token] -= milestone.amount;
+
+        _transfer(schedule.token, schedule.proposer, milestone.amount);
+        emit MilestoneReleased(scheduleId, milestoneIndex, schedule.proposer, milestone.amount);
+    }
+
+    function _transfer(address token, address to, uint256 amount) internal {
+        if (token == ETH) {
+            (bool ok, ) = payable(to).call{ value: amount }("");
+            if (!ok) revert TransferFailed();
+        } else if (!IERC20(token).transfer(to, amount)) {
+            revert TransferFailed();
+        }
+    }
+
+    function _requireSchedule(uint256 scheduleId) internal view returns (Schedule storage schedule) {
+        schedule = schedules[scheduleId];
+        if (!schedule.exists) revert ScheduleDoesNotExist();
+    }
+}
@@ -1,15 +1,38 @@
+// SPDX-License-Identifier: BSD-3-Clause-Clear
 pragma solidity ^0.8.24;
 
-import { FHE, euint32, ebool } from "@fhevm/solidity/lib/FHE.sol";
+import { FHE, euint16, euint32, euint64, ebool, externalEuint32, externalEbool } from "@fhevm/solidity/lib/FHE.sol";
 import { SepoliaConfig } from "@fhevm/solidity/config/ZamaConfig.sol";
+import { IVotes } from "@openzeppelin/contracts/governance/utils/IVotes.sol";
+import { ApprovalTally } from "./ApprovalTally.sol";
+import { QuadraticFunding } from "./QuadraticFunding.sol";
+import { ProposalViews } from "./ProposalViews.sol";
 
+interface IResearchIP {
+    function mint(
+        uint256 proposalId,
+        uint256 batchId,
+        address proposer,
+        string calldata metadata,
+        bytes32 contentHash
+    ) external returns (uint256 tokenId);
+}
 
 contract Science_DAO_FHE is SepoliaConfig {
+    using FHE for euint16;
     using FHE for euint32;
+    using FHE for euint64;
     using FHE for ebool;
 
     address public owner;
-    mapping(address => bool) public isProvider;
+
+    enum Role {
+        Proposer, // Submits proposals
+        Voter, // Casts ballots and contributions, and can delegate them
+        Admin, // Runs batches and the scoring configuration
+        Treasurer // Sets batch budgets and matching pools
+    }
+    mapping(Role => mapping(address => bool)) public hasRole; // role => account => granted
     bool public paused;
     uint256 public cooldownSeconds;
     mapping(address => uint256) public lastSubmissionTime;
@@ -23,15 +46,167 @@ contract Science_DAO_FHE is SepoliaConfig {
         euint32 encryptedImpactScore;   // Encrypted impact score (e.g., 1-100)
         euint32 encryptedFeasibilityScore; // Encrypted feasibility score (e.g., 1-100)
         euint32 encryptedNoveltyScore; // Encrypted novelty score (e.g., 1-100)
+        string metadata; // Public proposal metadata (title, category) as JSON
+        string category; // Same category as in the metadata, kept separately so delegations can be scoped to it
+        bytes32 contentHash; // sha256 of the off-chain proposal content: markdown body and attachment hashes
+        uint256 batchId;
+        address provider;
+        uint256 submittedAt;
         bool exists;
+        uint32 version; // Bumped by every amendment and resubmission
+        bool withdrawn; // Pulled out of its batch by the proposer; kept for history and resubmission
+    }
+    uint256 public proposalCount; // Ids start at 1 so 0 means "no proposal"
+    mapping(uint256 => Proposal) public proposals; // proposalId => Proposal
+    mapping(uint256 => uint256[]) public batchProposalIds; // batchId => ids of the proposals in the batch, in submission order
+    mapping(uint256 => uint256) public resubmittedAs; // proposalId => id it was carried over to
+    mapping(address => uint256[]) internal proposerProposalIds; // provider => ids of every proposal they submitted or resubmitted
+
+    // Derived from the proposal and its revealed tally, never stored
+    enum ProposalStatus {
+        Pending, // Not revealed yet
+        Approved,
+        Rejected,
+        Withdrawn
+    }
+
+    // Public fields of a proposal returned by the paginated views; the encrypted values are left out
+    struct ProposalView {
+        uint256 proposalId;
+        uint256 batchId;
+        address provider;
+        string metadata;
+        string category;
+        bytes32 contentHash;
+        uint256 submittedAt;
+        uint32 version;
+        ProposalStatus status;
+        uint32 ballots;
+        bool funded;
     }
-    mapping(uint256 => mapping(address => Proposal)) public batchProposals; // batchId => provider => Proposal
 
     struct Vote {
         ebool encryptedVote; // Encrypted vote (true for approve, false for reject)
+        uint32 weight; // Voter's stake at the batch snapshot, public like the token balance it comes from
+        address castBy; // The voter, or their delegate when cast through submitDelegatedVotes
         bool exists;
     }
-    mapping(uint256 => mapping(address => mapping(address => Vote))) public proposalVotes; // batchId => proposalProvider => voter => Vote
+    mapping(uint256 => mapping(address => Vote)) public proposalVotes; // proposalId => voter => Vote
+
+    struct ProposalTally {
+        euint64 encryptedApprovals; // Running encrypted sum of the weight behind approve ballots
+        ebool encryptedApproved; // Weighted majority outcome, computed when the batch is tallied
+        uint32 ballots; // Number of distinct voters (public, ballots themselves stay encrypted)
+        uint64 totalWeight; // Sum of the weights of all ballots cast, wide enough for every voter at the uint32 weight cap
+        bool revealed;
+        bool approved;
+        uint64 approvals;
+    }
+    mapping(uint256 => ProposalTally) public proposalTallies; // proposalId => ProposalTally
+
+    uint32 public constant MAX_SCORE = 100; // Scores are clamped to 0..MAX_SCORE on submission
+    uint32 public constant MAX_CONTRIBUTION = type(uint16).max; // Contributions are clamped to 16 bits to keep their square root cheap
+    uint32 public constant MAX_TOTAL_WEIGHT = 1000; // Keeps the weighted composite well inside euint32
+
+    struct ScoringWeights {
+        uint32 impact;
+        uint32 feasibility;
+        uint32 novelty;
+    }
+    ScoringWeights public scoringWeights;
+    uint32 public minCompositeScore; // Funding threshold on the weighted composite score
+
+    IResearchIP public researchIP; // Mints an IP token for every approved proposal, unset disables minting
+
+    uint256 public constant VOTE_WEIGHT_UNIT = 1e18; // One vote per whole governance token
+    IVotes public governanceToken; // Unset means one ballot per voter
+    mapping(uint256 => uint256) public batchSnapshotBlock; // batchId => block whose voting power weights the batch
+
+    struct ProposalRanking {
+        euint32 encryptedCompositeScore; // impact * w.impact + feasibility * w.feasibility + novelty * w.novelty
+        euint32 encryptedRank; // 0-based position in the batch ordered by composite score
+        ebool encryptedFunded; // Approved, above the score threshold and within the batch budget
+        uint32 rank;
+        bool funded;
+        // Working state of the chunked tally
+        ebool encryptedEligible; // Approved and at or above the score threshold
+        euint64 encryptedEligibleFunding; // The requested funding when eligible, zero otherwise
+        euint64 encryptedFundingAbove; // Eligible funding requested by the proposals ranked above
+    }
+    mapping(uint256 => ProposalRanking) public proposalRankings; // proposalId => ProposalRanking
+
+    struct BatchBudget {
+        euint32 encryptedCap; // Maximum total funding the batch may allocate
+        bool capSet;
+        bool encrypted; // True when the admin supplied the cap as an encrypted input
+        uint32 cap; // Plaintext cap, zero when `encrypted`
+    }
+    mapping(uint256 => BatchBudget) public batchBudgets;
+
+    // Approval batches only; all zero means no quorum and a simple majority of the cast weight
+    struct BatchQuorum {
+        uint32 minBallots; // Distinct voters a proposal needs before it can be approved
+        uint64 minWeight; // Total ballot weight a proposal needs before it can be approved
+        uint32 approvalPercent; // Share of the cast weight that must approve, 0 for a strict majority
+    }
+    mapping(uint256 => BatchQuorum) public batchQuorums;
+
+    enum BatchMode {
+        Approval, // Encrypted approve/reject ballots, ranked by composite score
+        Quadratic // Encrypted contributions matched from a pool by quadratic funding
+    }
+    mapping(uint256 => BatchMode) public batchModes;
+
+    // Proposals are accepted until submissionEnd, ballots from then until votingEnd
+    struct BatchSchedule {
+        uint64 submissionEnd;
+        uint64 votingEnd;
+    }
+    mapping(uint256 => BatchSchedule) public batchSchedules;
+
+    struct Contribution {
+        euint32 encryptedAmount; // Pledged amount in budget units, at most MAX_CONTRIBUTION
+        euint32 encryptedSqrt; // floor(sqrt(amount)), computed on submission
+        bool exists;
+    }
+    mapping(uint256 => mapping(address => Contribution)) public contributions; // proposalId => contributor => Contribution
+
+    struct QuadraticTally {
+        euint32 encryptedTotal; // Sum of contributions
+        euint32 encryptedSqrtSum; // Sum of the square roots of contributions
+        uint32 contributors;
+        bool revealed;
+        uint32 total;
+        uint32 sqrtSum;
+        uint32 matched; // Share of the matching pool, in budget units
+    }
+    mapping(uint256 => QuadraticTally) public quadraticTallies; // proposalId => QuadraticTally
+    mapping(uint256 => uint32) public matchingPools; // batchId => matching pool in budget units
+
+    // Category-scoped delegations; the empty category (key 0) covers every category without its own delegate
+    mapping(address => mapping(bytes32 => address)) public delegates; // delegator => category key => delegate
+
+    // An approval tally runs in bounded chunks over several transactions to stay inside the HCU limits
+    enum TallyPhase {
+        Scoring, // Decide and score every proposal
+        Ranking, // Compare every ordered pair of proposals
+        Funding // Fund down the ranking until the cap is reached
+    }
+
+    struct BatchResult {
+        euint32 encryptedApprovedCount; // Number of proposals with a majority of approve ballots
+        euint64 encryptedTotalFunding; // Sum of the funding allocated to funded proposals, never above the cap
+        bool tallied;
+        bool decrypted;
+        uint32 approvedCount;
+        uint64 totalFunding;
+        TallyPhase tallyPhase;
+        uint64 tallyCursor; // Proposals or pairs of the current phase already processed
+        ScoringWeights scoringWeights; // Pinned when the tally starts
+        uint32 minCompositeScore; // Pinned when the tally starts
+        bool decryptionPending; // Set while the oracle has an outstanding request for this batch
+    }
+    mapping(uint256 => BatchResult) public batchResults;
 
     struct DecryptionContext {
         uint256 batchId;
@@ -43,29 +218,63 @@ contract Science_DAO_FHE is SepoliaConfig {
     // Custom Errors
     error NotOwner();
     error NotProvider();
+    error NotVoter();
+    error NotAdmin();
+    error NotTreasurer();
+    error SelfVote();
     error Paused();
     error CooldownActive();
-    error BatchClosed();
+    error BatchNotOpen();
     error ProposalDoesNotExist();
+    error ProposalExists();
+    error InvalidProposalState();
     error VoteDoesNotExist();
+    error AlreadyVoted();
     error InvalidBatchState();
     error ReplayAttempt();
     error StateMismatch();
     error InvalidCleartextLength();
+    error InvalidWeights();
+    error NoVotingPower();
+    error WrongBatchMode();
+    error WrongPhase();
+    error InvalidSchedule();
+    error InvalidQuorum();
+    error NotDelegate();
+    error InvalidDelegate();
 
     // Events
     event OwnershipTransferred(address indexed oldOwner, address indexed newOwner);
-    event ProviderAdded(address indexed provider);
-    event ProviderRemoved(address indexed provider);
+    event RoleGranted(Role indexed role, address indexed account);
+    event RoleRevoked(Role indexed role, address indexed account);
     event PausedContract(address indexed account);
     event UnpausedContract(address indexed account);
     event CooldownSecondsSet(uint256 oldCooldown, uint256 newCooldown);
-    event BatchOpened(uint256 indexed batchId);
+    event BatchOpened(uint256 indexed batchId, BatchMode mode, uint64 submissionEnd, uint64 votingEnd);
     event BatchClosed(uint256 indexed batchId);
-    event ProposalSubmitted(address indexed provider, uint256 indexed batchId, bytes32 encryptedFundingAmount, bytes32 encryptedImpactScore, bytes32 encryptedFeasibilityScore, bytes32 encryptedNoveltyScore);
-    event VoteSubmitted(address indexed voter, uint256 indexed batchId, address indexed proposalProvider, bytes32 encryptedVote);
+    event BatchFinalized(uint256 indexed batchId, address indexed caller);
+    event ProposalSubmitted(uint256 indexed proposalId, address indexed provider, uint256 indexed batchId, bytes32 contentHash, bytes32 encryptedFundingAmount, bytes32 encryptedImpactScore, bytes32 encryptedFeasibilityScore, bytes32 encryptedNoveltyScore);
+    event ProposalAmended(uint256 indexed proposalId, address indexed provider, uint256 indexed batchId, uint32 version, bytes32 contentHash, string note);
+    event ProposalWithdrawn(uint256 indexed proposalId, address indexed provider, uint256 indexed batchId);
+    event ProposalResubmitted(uint256 indexed proposalId, uint256 indexed fromProposalId, address indexed provider, uint256 batchId, uint32 version);
+    event VoteSubmitted(address indexed voter, uint256 indexed batchId, uint256 indexed proposalId, bytes32 encryptedVote);
+    event VoteWithdrawn(address indexed voter, uint256 indexed batchId, uint256 indexed proposalId);
+    event DelegatedVoteCast(address indexed delegate, address indexed delegator, uint256 indexed batchId, uint256 proposalId);
+    event DelegateSet(address indexed delegator, address indexed delegate, string category);
+    event ContributionSubmitted(address indexed contributor, uint256 indexed batchId, uint256 indexed proposalId, bytes32 encryptedAmount);
+    event BatchTallyAdvanced(uint256 indexed batchId, TallyPhase phase, uint64 cursor, bool done);
     event DecryptionRequested(uint256 indexed requestId, uint256 indexed batchId);
     event DecryptionCompleted(uint256 indexed requestId, uint256 indexed batchId, uint256 totalApprovedProposals, uint256 totalFundingAmount);
+    event ProposalOutcomeRevealed(uint256 indexed batchId, uint256 indexed proposalId, address indexed provider, bool approved, uint64 approvals, uint32 ballots, uint64 totalWeight, uint32 rank, bool funded);
+    event ScoringWeightsSet(uint32 impact, uint32 feasibility, uint32 novelty);
+    event MinCompositeScoreSet(uint32 oldThreshold, uint32 newThreshold);
+    event BatchBudgetSet(uint256 indexed batchId, bool encrypted, uint32 cap);
+    event ResearchIPSet(address indexed oldResearchIP, address indexed newResearchIP);
+    event GovernanceTokenSet(address indexed oldToken, address indexed newToken);
+    event MatchingPoolSet(uint256 indexed batchId, uint32 pool);
+    event BatchQuorumSet(uint256 indexed batchId, uint32 minBallots, uint64 minWeight, uint32 approvalPercent);
+    event QuorumNotMet(uint256 indexed batchId, uint256 indexed proposalId, uint32 ballots, uint64 totalWeight);
+    event QuadraticMatchRevealed(uint256 indexed batchId, uint256 indexed proposalId, address indexed provider, uint32 contributed, uint32 contributors, uint32 sqrtSum, uint32 matched);
 
     modifier onlyOwner() {
         if (msg.sender != owner) revert NotOwner();
@@ -73,7 +282,22 @@ contract Science_DAO_FHE is SepoliaConfig {
     }
 
     modifier onlyProvider() {
-        if (!isProvider[msg.sender]) revert NotProvider();
+        if (!hasRole[Role.Proposer][msg.sender]) revert NotProvider();
+        _;
+    }
+
+    modifier onlyVoter() {
+        if (!hasRole[Role.Voter][msg.sender]) revert NotVoter();
+        _;
+    }
+
+    modifier onlyAdmin() {
+        if (!hasRole[Role.Admin][msg.sender]) revert NotAdmin();
+        _;
+    }
+
+    modifier onlyTreasurer() {
+        if (!hasRole[Role.Treasurer][msg.sender]) revert NotTreasurer();
         _;
     }
 
@@ -84,9 +308,13 @@ contract Science_DAO_FHE is SepoliaConfig {
 
     constructor() {
         owner = msg.sender;
-        isProvider[owner] = true;
-        emit ProviderAdded(owner);
+        _setRole(Role.Proposer, owner, true);
+        _setRole(Role.Voter, owner, true);
+        _setRole(Role.Admin, owner, true);
+        _setRole(Role.Treasurer, owner, true);
         cooldownSeconds = 60; // Default cooldown
+        scoringWeights = ScoringWeights({ impact: 40, feasibility: 30, novelty: 30 });
+        emit ScoringWeightsSet(40, 30, 30);
         currentBatchId = 1; // Start with batch 1
     }
 
@@ -96,137 +324,561 @@ contract Science_DAO_FHE is SepoliaConfig {
         emit OwnershipTransferred(oldOwner, newOwner);
     }
 
-    function addProvider(address provider) external onlyOwner {
-        if (!isProvider[provider]) {
-            isProvider[provider] = true;
-            emit ProviderAdded(provider);
-        }
+    // Admins manage members; only the owner can grant or revoke the admin role itself
+    function grantRole(Role role, address account) external onlyAdmin {
+        if (role == Role.Admin && msg.sender != owner) revert NotOwner();
+        _setRole(role, account, true);
     }
 
-    function removeProvider(address provider) external onlyOwner {
-        if (isProvider[provider]) {
-            isProvider[provider] = false;
-            emit ProviderRemoved(provider);
-        }
+    function revokeRole(Role role, address account) external onlyAdmin {
+        if (role == Role.Admin && msg.sender != owner) revert NotOwner();
+        _setRole(role, account, false);
+    }
+
+    function addProvider(address provider) external onlyAdmin {
+        _setRole(Role.Proposer, provider, true);
     }
 
-    function pause() external onlyOwner whenNotPaused {
+    function removeProvider(address provider) external onlyAdmin {
+        _setRole(Role.Proposer, provider, false);
+    }
+
+    function isProvider(address account) external view returns (bool) {
+        return hasRole[Role.Proposer][account];
+    }
+
+    // The treasury lets DAO treasurers create milestone schedules
+    function isTreasurer(address account) external view returns (bool) {
+        return hasRole[Role.Treasurer][account];
+    }
+
+    function _setRole(Role role, address account, bool granted) internal {
+        if (hasRole[role][account] == granted) return;
+        hasRole[role][account] = granted;
+        if (granted) emit RoleGranted(role, account);
+        else emit RoleRevoked(role, account);
+    }
+
+    function pause() external onlyAdmin whenNotPaused {
         paused = true;
         emit PausedContract(msg.sender);
     }
 
-    function unpause() external onlyOwner {
+    function unpause() external onlyAdmin {
         if (!paused) revert InvalidBatchState(); // Or a more specific error
         paused = false;
         emit UnpausedContract(msg.sender);
     }
 
-    function setCooldownSeconds(uint256 newCooldownSeconds) external onlyOwner {
+    function setCooldownSeconds(uint256 newCooldownSeconds) external onlyAdmin {
         uint256 oldCooldown = cooldownSeconds;
         cooldownSeconds = newCooldownSeconds;
         emit CooldownSecondsSet(oldCooldown, newCooldownSeconds);
     }
 
-    function openBatch() external onlyOwner whenNotPaused {
+    function setScoringWeights(uint32 impact, uint32 feasibility, uint32 novelty) external onlyAdmin {
+        uint256 total = uint256(impact) + feasibility + novelty;
+        if (total == 0 || total > MAX_TOTAL_WEIGHT) revert InvalidWeights();
+        scoringWeights = ScoringWeights({ impact: impact, feasibility: feasibility, novelty: novelty });
+        emit ScoringWeightsSet(impact, feasibility, novelty);
+    }
+
+    function setMinCompositeScore(uint32 newThreshold) external onlyAdmin {
+        uint32 oldThreshold = minCompositeScore;
+        minCompositeScore = newThreshold;
+        emit MinCompositeScoreSet(oldThreshold, newThreshold);
+    }
+
+    function setResearchIP(address newResearchIP) external onlyOwner {
+        address oldResearchIP = address(researchIP);
+        researchIP = IResearchIP(newResearchIP);
+        emit ResearchIPSet(oldResearchIP, newResearchIP);
+    }
+
+    // Only between batches, so every ballot in a batch is weighted by the same token
+    function setGovernanceToken(address newToken) external onlyOwner {
         if (batchOpen) revert InvalidBatchState();
+        address oldToken = address(governanceToken);
+        governanceToken = IVotes(newToken);
+        emit GovernanceTokenSet(oldToken, newToken);
+    }
+
+    function setBatchBudget(uint256 batchId, uint32 cap) external onlyTreasurer {
+        _setBatchBudget(batchId, FHE.asEuint32(cap), false, cap);
+    }
+
+    function setEncryptedBatchBudget(
+        uint256 batchId,
+        externalEuint32 _encryptedCapInput,
+        bytes calldata _inputProof
+    ) external onlyTreasurer {
+        _setBatchBudget(batchId, FHE.fromExternal(_encryptedCapInput, _inputProof), true, 0);
+    }
+
+    function setMatchingPool(uint256 batchId, uint32 pool) external onlyTreasurer {
+        _requireConfigurable(batchId);
+        matchingPools[batchId] = pool;
+        emit MatchingPoolSet(batchId, pool);
+    }
+
+    function setBatchQuorum(uint256 batchId, uint32 minBallots, uint64 minWeight, uint32 approvalPercent) external onlyAdmin {
+        _requireConfigurable(batchId);
+        if (approvalPercent > 100) revert InvalidQuorum();
+        batchQuorums[batchId] = BatchQuorum({ minBallots: minBallots, minWeight: minWeight, approvalPercent: approvalPercent });
+        emit BatchQuorumSet(batchId, minBallots, minWeight, approvalPercent);
+    }
+
+    function openBatch(BatchMode mode, uint64 submissionEnd, uint64 votingEnd) external onlyAdmin whenNotPaused {
+        if (batchOpen) revert InvalidBatchState();
+        if (submissionEnd <= block.timestamp || votingEnd <= submissionEnd) revert InvalidSchedule();
         batchOpen = true;
         currentBatchId++;
-        emit BatchOpened(currentBatchId);
+        batchModes[currentBatchId] = mode;
+        batchSchedules[currentBatchId] = BatchSchedule({ submissionEnd: submissionEnd, votingEnd: votingEnd });
+        // Snapshot the previous block: getPastVotes only accepts finalized timepoints,
+        // and this lets ballots be cast in the same block the batch opens
+        batchSnapshotBlock[currentBatchId] = block.number - 1;
+        emit BatchOpened(currentBatchId, mode, submissionEnd, votingEnd);
     }
 
-    function closeBatch() external onlyOwner whenNotPaused {
+    // Admin override to end a batch early; results still have to be requested separately
+    function closeBatch() external onlyAdmin whenNotPaused {
         if (!batchOpen) revert InvalidBatchState();
         batchOpen = false;
         emit BatchClosed(currentBatchId);
     }
 
+    // Anyone can close the batch once voting has ended, which also starts the tally
+    function finalizeBatch() external whenNotPaused {
+        uint256 batchId = currentBatchId;
+        if (!batchOpen || block.timestamp < batchSchedules[batchId].votingEnd) revert WrongPhase();
+        batchOpen = false;
+        emit BatchClosed(batchId);
+        emit BatchFinalized(batchId, msg.sender);
+        _advanceTally(batchId);
+    }
+
+    // Anyone can advance the tally of a closed batch; the call that completes it requests the result decryption
+    function tallyBatch(uint256 batchId) external whenNotPaused {
+        if (batchId == currentBatchId && batchOpen) revert InvalidBatchState();
+        if (batchId == 0 || batchId > currentBatchId) revert InvalidBatchState();
+        if (batchResults[batchId].tallied) revert InvalidBatchState();
+        _advanceTally(batchId);
+    }
+
     function submitProposal(
-        euint32 _encryptedFundingAmount,
-        euint32 _encryptedImpactScore,
-        euint32 _encryptedFeasibilityScore,
-        euint32 _encryptedNoveltyScore
+        externalEuint32 _encryptedFundingAmountInput,
+        externalEuint32 _encryptedImpactScoreInput,
+        externalEuint32 _encryptedFeasibilityScoreInput,
+        externalEuint32 _encryptedNoveltyScoreInput,
+        bytes calldata _inputProof,
+        string calldata _metadata,
+        string calldata _category,
+        bytes32 _contentHash
+    ) external onlyProvider whenNotPaused returns (uint256 proposalId) {
+        _checkSubmissionWindow();
+        proposalId = ++proposalCount;
+        Proposal storage proposal = proposals[proposalId];
+        _setEncryptedInputs(
+            proposal,
+            _encryptedFundingAmountInput,
+            _encryptedImpactScoreInput,
+            _encryptedFeasibilityScoreInput,
+            _encryptedNoveltyScoreInput,
+            _inputProof
+        );
+        _setProposalText(proposal, _metadata, _category, _contentHash);
+        _enterBatch(proposalId, 1);
+    }
+
+    // Replaces a live proposal during the submission phase; every amendment bumps the version and is logged
+    function amendProposal(
+        uint256 proposalId,
+        externalEuint32 _encryptedFundingAmountInput,
+        externalEuint32 _encryptedImpactScoreInput,
+        externalEuint32 _encryptedFeasibilityScoreInput,
+        externalEuint32 _encryptedNoveltyScoreInput,
+        bytes calldata _inputProof,
+        string calldata _metadata,
+        string calldata _category,
+        bytes32 _contentHash,
+        string calldata _note
     ) external onlyProvider whenNotPaused {
+        Proposal storage proposal = proposals[proposalId];
+        if (proposal.provider != msg.sender) revert NotProvider();
+        if (proposal.withdrawn || proposal.batchId != currentBatchId) revert InvalidProposalState();
+        _checkSubmissionWindow();
+        _setEncryptedInputs(
+            proposal,
+            _encryptedFundingAmountInput,
+            _encryptedImpactScoreInput,
+            _encryptedFeasibilityScoreInput,
+            _encryptedNoveltyScoreInput,
+            _inputProof
+        );
+        _setProposalText(proposal, _metadata, _category, _contentHash);
+        proposal.version += 1;
+        emit ProposalAmended(proposalId, msg.sender, currentBatchId, proposal.version, _contentHash, _note);
+    }
+
+    // Pulls a proposal out of its batch before voting ends; it is left out of the tally and can be resubmitted
+    function withdrawProposal(uint256 proposalId) external whenNotPaused {
+        Proposal storage proposal = proposals[proposalId];
+        if (proposal.provider != msg.sender) revert NotProvider();
+        if (proposal.withdrawn) revert InvalidProposalState();
+        uint256 batchId = proposal.batchId;
+        if (!batchOpen || batchId != currentBatchId || block.timestamp >= batchSchedules[batchId].votingEnd) revert WrongPhase();
+        proposal.withdrawn = true;
+
+        // Shift the rest down so score ties still go to the earlier submission
+        uint256[] storage ids = batchProposalIds[batchId];
+        uint256 i = 0;
+        while (ids[i] != proposalId) i++;
+        for (; i + 1 < ids.length; i++) ids[i] = ids[i + 1];
+        ids.pop();
+
+        emit ProposalWithdrawn(proposalId, msg.sender, batchId);
+    }
+
+    // Carries a withdrawn or rejected proposal from an earlier batch into the current one without re-encrypting it
+    function resubmitProposal(uint256 fromProposalId) external onlyProvider whenNotPaused returns (uint256 proposalId) {
+        Proposal storage source = proposals[fromProposalId];
+        ProposalTally storage outcome = proposalTallies[fromProposalId];
+        if (source.provider != msg.sender) revert NotProvider();
+        if (source.batchId >= currentBatchId) revert InvalidProposalState();
+        if (!source.withdrawn && !(outcome.revealed && !outcome.approved)) revert InvalidProposalState();
+        if (resubmittedAs[fromProposalId] != 0) revert ProposalExists();
+        _checkSubmissionWindow();
+
+        proposalId = ++proposalCount;
+        resubmittedAs[fromProposalId] = proposalId;
+        Proposal storage proposal = proposals[proposalId];
+        // The contract and the provider kept their ACL grants on these handles
+        proposal.encryptedFundingAmount = source.encryptedFundingAmount;
+        proposal.encryptedImpactScore = source.encryptedImpactScore;
+        proposal.encryptedFeasibilityScore = source.encryptedFeasibilityScore;
+        proposal.encryptedNoveltyScore = source.encryptedNoveltyScore;
+        proposal.metadata = source.metadata;
+        proposal.category = source.category;
+        proposal.contentHash = source.contentHash;
+        _enterBatch(proposalId, source.version + 1);
+        emit ProposalResubmitted(proposalId, fromProposalId, msg.sender, currentBatchId, proposal.version);
+    }
+
+    // Cooldown and phase checks shared by every submission path
+    function _checkSubmissionWindow() internal {
         if (block.timestamp < lastSubmissionTime[msg.sender] + cooldownSeconds) {
             revert CooldownActive();
         }
-        if (!batchOpen) revert BatchClosed();
+        if (!batchOpen) revert BatchNotOpen();
+        if (block.timestamp >= batchSchedules[currentBatchId].submissionEnd) revert WrongPhase();
+        lastSubmissionTime[msg.sender] = block.timestamp;
+    }
 
-        uint256 batchId = currentBatchId;
-        Proposal storage proposal = batchProposals[batchId][msg.sender];
+    function _setEncryptedInputs(
+        Proposal storage proposal,
+        externalEuint32 _encryptedFundingAmountInput,
+        externalEuint32 _encryptedImpactScoreInput,
+        externalEuint32 _encryptedFeasibilityScoreInput,
+        externalEuint32 _encryptedNoveltyScoreInput,
+        bytes calldata _inputProof
+    ) internal {
+        // Verify the inputs were encrypted for this contract and sender
+        proposal.encryptedFundingAmount = FHE.fromExternal(_encryptedFundingAmountInput, _inputProof);
+        proposal.encryptedImpactScore = FHE.fromExternal(_encryptedImpactScoreInput, _inputProof).min(MAX_SCORE);
+        proposal.encryptedFeasibilityScore = FHE.fromExternal(_encryptedFeasibilityScoreInput, _inputProof).min(MAX_SCORE);
+        proposal.encryptedNoveltyScore = FHE.fromExternal(_encryptedNoveltyScoreInput, _inputProof).min(MAX_SCORE);
 
-        proposal.encryptedFundingAmount = _encryptedFundingAmount;
-        proposal.encryptedImpactScore = _encryptedImpactScore;
-        proposal.encryptedFeasibilityScore = _encryptedFeasibilityScore;
-        proposal.encryptedNoveltyScore = _encryptedNoveltyScore;
-        proposal.exists = true;
+        // The contract keeps access for later aggregation, the provider for user decryption
+        FHE.allowThis(proposal.encryptedFundingAmount);
+        FHE.allowThis(proposal.encryptedImpactScore);
+        FHE.allowThis(proposal.encryptedFeasibilityScore);
+        FHE.allowThis(proposal.encryptedNoveltyScore);
+        FHE.allow(proposal.encryptedFundingAmount, msg.sender);
+        FHE.allow(proposal.encryptedImpactScore, msg.sender);
+        FHE.allow(proposal.encryptedFeasibilityScore, msg.sender);
+        FHE.allow(proposal.encryptedNoveltyScore, msg.sender);
+    }
 
-        lastSubmissionTime[msg.sender] = block.timestamp;
+    // Adds a new proposal of the sender to the current batch
+    function _enterBatch(uint256 proposalId, uint32 version) internal {
+        uint256 batchId = currentBatchId;
+        Proposal storage proposal = proposals[proposalId];
+        batchProposalIds[batchId].push(proposalId);
+        proposerProposalIds[msg.sender].push(proposalId);
+        proposal.batchId = batchId;
+        proposal.provider = msg.sender;
+        proposal.submittedAt = block.timestamp;
+        proposal.exists = true;
+        proposal.version = version;
         emit ProposalSubmitted(
+            proposalId,
             msg.sender,
             batchId,
-            _encryptedFundingAmount.toBytes32(),
-            _encryptedImpactScore.toBytes32(),
-            _encryptedFeasibilityScore.toBytes32(),
-            _encryptedNoveltyScore.toBytes32()
+            proposal.contentHash,
+            proposal.encryptedFundingAmount.toBytes32(),
+            proposal.encryptedImpactScore.toBytes32(),
+            proposal.encryptedFeasibilityScore.toBytes32(),
+            proposal.encryptedNoveltyScore.toBytes32()
         );
     }
 
     function submitVote(
-        uint256 batchId,
-        address proposalProvider,
-        ebool _encryptedVote
-    ) external onlyProvider whenNotPaused {
+        uint256 proposalId,
+        externalEbool _encryptedVoteInput,
+        bytes calldata _inputProof
+    ) external onlyVoter whenNotPaused {
+        _submitOwnVote(proposalId, _encryptedVoteInput, _inputProof, false);
+    }
+
+    // Replaces the sender's own ballot while voting is open; the new choice stays encrypted like the old one
+    function updateVote(
+        uint256 proposalId,
+        externalEbool _encryptedVoteInput,
+        bytes calldata _inputProof
+    ) external onlyVoter whenNotPaused {
+        _submitOwnVote(proposalId, _encryptedVoteInput, _inputProof, true);
+    }
+
+    // Takes back the ballot counted for the sender, including one their delegate cast, while voting is open
+    function withdrawVote(uint256 proposalId) external onlyVoter whenNotPaused {
+        _requireVotingPhase(proposals[proposalId].batchId, BatchMode.Approval);
+        if (!proposalVotes[proposalId][msg.sender].exists) revert VoteDoesNotExist();
+        _removeVote(proposalId, msg.sender);
+    }
+
+    // Casts one encrypted ballot for every listed delegator whose delegate for the proposal's category is the sender.
+    // Ballots a delegator cast themselves always take precedence and are left untouched.
+    function submitDelegatedVotes(
+        uint256 proposalId,
+        address[] calldata delegators,
+        externalEbool _encryptedVoteInput,
+        bytes calldata _inputProof
+    ) external onlyVoter whenNotPaused {
+        if (block.timestamp < lastSubmissionTime[msg.sender] + cooldownSeconds) {
+            revert CooldownActive();
+        }
+        Proposal storage proposal = _votableProposal(proposalId, BatchMode.Approval);
+        // A proposer cannot review their own proposal, not even with delegated power
+        if (msg.sender == proposal.provider) revert SelfVote();
+
+        ebool _encryptedVote = FHE.fromExternal(_encryptedVoteInput, _inputProof);
+        FHE.allowThis(_encryptedVote);
+        FHE.allow(_encryptedVote, msg.sender);
+        for (uint256 i = 0; i < delegators.length; i++) {
+            address delegator = delegators[i];
+            if (delegateFor(delegator, proposal.category) != msg.sender) revert NotDelegate();
+            if (!hasRole[Role.Voter][delegator]) revert NotVoter();
+            Vote storage existing = proposalVotes[proposalId][delegator];
+            if (existing.exists && existing.castBy == delegator) continue;
+            _castVote(proposalId, delegator, _encryptedVote);
+            emit DelegatedVoteCast(msg.sender, delegator, proposal.batchId, proposalId);
+        }
+
+        lastSubmissionTime[msg.sender] = block.timestamp;
+    }
+
+    // Passing the zero address revokes the delegation for `category`
+    function setDelegate(string calldata category, address delegate) external onlyVoter {
+        if (delegate == msg.sender) revert InvalidDelegate();
+        bytes32 key = _categoryKey(category);
+        address previous = delegates[msg.sender][key];
+        if (previous == delegate) return;
+        // Ballots the previous delegate cast in the open batch stop counting as soon as the delegation changes
+        if (previous != address(0) && batchOpen) {
+            _withdrawDelegatedVotes(currentBatchId, msg.sender, previous, key);
+        }
+        delegates[msg.sender][key] = delegate;
+        emit DelegateSet(msg.sender, delegate, category);
+    }
+
+    // A category-specific delegate overrides the catch-all one
+    function delegateFor(address delegator, string memory category) public view returns (address) {
+        address delegate = delegates[delegator][_categoryKey(category)];
+        return delegate != address(0) ? delegate : delegates[delegator][bytes32(0)];
+    }
+
+    function _submitOwnVote(
+        uint256 proposalId,
+        externalEbool _encryptedVoteInput,
+        bytes calldata _inputProof,
+        bool update
+    ) internal {
         if (block.timestamp < lastSubmissionTime[msg.sender] + cooldownSeconds) { // Reusing submission cooldown for simplicity
             revert CooldownActive();
         }
-        // Check if proposal exists
-        if (!batchProposals[batchId][proposalProvider].exists) {
-            revert ProposalDoesNotExist();
+        _votableProposal(proposalId, BatchMode.Approval);
+        // A ballot is never replaced by accident: submitting twice reverts, updating needs a ballot of your own
+        Vote storage existing = proposalVotes[proposalId][msg.sender];
+        bool ownBallot = existing.exists && existing.castBy == msg.sender;
+        if (update && !ownBallot) revert VoteDoesNotExist();
+        if (!update && ownBallot) revert AlreadyVoted();
+
+        ebool _encryptedVote = FHE.fromExternal(_encryptedVoteInput, _inputProof);
+        _castVote(proposalId, msg.sender, _encryptedVote);
+
+        lastSubmissionTime[msg.sender] = block.timestamp; // Update submission time
+    }
+
+    // The proposal must still be in a batch of `mode` that is in its voting phase
+    function _votableProposal(uint256 proposalId, BatchMode mode) internal view returns (Proposal storage proposal) {
+        proposal = proposals[proposalId];
+        if (!proposal.exists || proposal.withdrawn) revert ProposalDoesNotExist();
+        _requireVotingPhase(proposal.batchId, mode);
+    }
+
+    // Ballots only count while their batch is in its voting phase, so tallies are final once it closes
+    function _requireVotingPhase(uint256 batchId, BatchMode mode) internal view {
+        if (!batchOpen || batchId != currentBatchId) revert BatchNotOpen();
+        if (batchModes[batchId] != mode) revert WrongBatchMode();
+        BatchSchedule storage schedule = batchSchedules[batchId];
+        if (block.timestamp < schedule.submissionEnd || block.timestamp >= schedule.votingEnd) revert WrongPhase();
+    }
+
+    function _castVote(uint256 proposalId, address voter, ebool _encryptedVote) internal {
+        uint256 batchId = proposals[proposalId].batchId;
+        if (voter == proposals[proposalId].provider) revert SelfVote();
+        Vote storage vote = proposalVotes[proposalId][voter];
+        ProposalTally storage tally = proposalTallies[proposalId];
+        euint64 approvals = _initIfNeeded(tally.encryptedApprovals);
+        if (vote.exists) {
+            // Replace the previous ballot in the running count; the snapshot weight cannot change
+            approvals = approvals.sub(FHE.select(vote.encryptedVote, FHE.asEuint64(vote.weight), FHE.asEuint64(0)));
+        } else {
+            uint32 weight = votingWeightOf(batchId, voter);
+            if (weight == 0) revert NoVotingPower();
+            vote.weight = weight;
+            tally.ballots += 1;
+            tally.totalWeight += weight;
         }
+        // The weight is public, only the direction it is added in stays encrypted
+        tally.encryptedApprovals = approvals.add(FHE.select(_encryptedVote, FHE.asEuint64(vote.weight), FHE.asEuint64(0)));
+        FHE.allowThis(tally.encryptedApprovals);
 
-        Vote storage vote = proposalVotes[batchId][proposalProvider][msg.sender];
         vote.encryptedVote = _encryptedVote;
+        vote.castBy = msg.sender;
         vote.exists = true;
 
-        lastSubmissionTime[msg.sender] = block.timestamp; // Update submission time
-        emit VoteSubmitted(msg.sender, batchId, proposalProvider, _encryptedVote.toBytes32());
+        FHE.allowThis(_encryptedVote);
+        FHE.allow(_encryptedVote, voter);
+
+        emit VoteSubmitted(voter, batchId, proposalId, _encryptedVote.toBytes32());
     }
 
-    function requestBatchResultDecryption(uint256 batchId) external onlyOwner whenNotPaused {
+    function _withdrawDelegatedVotes(uint256 batchId, address delegator, address delegate, bytes32 key) internal {
+        uint256[] storage ids = batchProposalIds[batchId];
+        for (uint256 i = 0; i < ids.length; i++) {
+            Vote storage vote = proposalVotes[ids[i]][delegator];
+            if (!vote.exists || vote.castBy != delegate) continue;
+            bytes32 proposalKey = _categoryKey(proposals[ids[i]].category);
+            // The catch-all delegation only covered categories without a delegate of their own
+            bool covered = key == bytes32(0) ? delegates[delegator][proposalKey] == address(0) : proposalKey == key;
+            if (covered) _removeVote(ids[i], delegator);
+        }
+    }
+
+    // Takes an existing ballot back out of the running tally
+    function _removeVote(uint256 proposalId, address voter) internal {
+        Vote storage vote = proposalVotes[proposalId][voter];
+        ProposalTally storage tally = proposalTallies[proposalId];
+        tally.encryptedApprovals = tally.encryptedApprovals.sub(FHE.select(vote.encryptedVote, FHE.asEuint64(vote.weight), FHE.asEuint64(0)));
+        FHE.allowThis(tally.encryptedApprovals);
+        tally.ballots -= 1;
+        tally.totalWeight -= vote.weight;
+        delete proposalVotes[proposalId][voter];
+        emit VoteWithdrawn(voter, proposals[proposalId].batchId, proposalId);
+    }
+
+    // Split out of submitProposal to keep its stack shallow
+    function _setProposalText(Proposal storage proposal, string calldata metadata, string calldata category, bytes32 contentHash) internal {
+        proposal.metadata = metadata;
+        proposal.category = category;
+        proposal.contentHash = contentHash;
+    }
+
+    function _categoryKey(string memory category) internal pure returns (bytes32) {
+        return bytes(category).length == 0 ? bytes32(0) : keccak256(bytes(category));
+    }
+
+    function submitContribution(
+        uint256 proposalId,
+        externalEuint32 _encryptedAmountInput,
+        bytes calldata _inputProof
+    ) external onlyVoter whenNotPaused {
+        if (block.timestamp < lastSubmissionTime[msg.sender] + cooldownSeconds) {
+            revert CooldownActive();
+        }
+        Proposal storage proposal = _votableProposal(proposalId, BatchMode.Quadratic);
+        if (msg.sender == proposal.provider) revert SelfVote();
+
+        euint32 amount = FHE.fromExternal(_encryptedAmountInput, _inputProof).min(MAX_CONTRIBUTION);
+        euint32 root = _encryptedSqrt(FHE.asEuint16(amount));
+
+        Contribution storage contribution = contributions[proposalId][msg.sender];
+        QuadraticTally storage tally = quadraticTallies[proposalId];
+        euint32 total = _initIfNeeded(tally.encryptedTotal);
+        euint32 sqrtSum = _initIfNeeded(tally.encryptedSqrtSum);
+        if (contribution.exists) {
+            // A new contribution replaces the previous one
+            total = total.sub(contribution.encryptedAmount);
+            sqrtSum = sqrtSum.sub(contribution.encryptedSqrt);
+        } else {
+            tally.contributors += 1;
+        }
+        tally.encryptedTotal = total.add(amount);
+        tally.encryptedSqrtSum = sqrtSum.add(root);
+        FHE.allowThis(tally.encryptedTotal);
+        FHE.allowThis(tally.encryptedSqrtSum);
+
+        contribution.encryptedAmount = amount;
+        contribution.encryptedSqrt = root;
+        contribution.exists = true;
+        FHE.allowThis(amount);
+        FHE.allowThis(root);
+        FHE.allow(amount, msg.sender);
+
+        lastSubmissionTime[msg.sender] = block.timestamp;
+        emit ContributionSubmitted(msg.sender, proposal.batchId, proposalId, amount.toBytes32());
+    }
+
+    function requestBatchResultDecryption(uint256 batchId) external onlyAdmin whenNotPaused {
         if (block.timestamp < lastDecryptionRequestTime[msg.sender] + cooldownSeconds) {
             revert CooldownActive();
         }
         // Basic check: batch should be closed for results
         if (batchId == currentBatchId && batchOpen) revert InvalidBatchState(); // Cannot request for currently open batch
+        if (batchId == 0 || batchId > currentBatchId) revert InvalidBatchState(); // Batch was never opened
+        if (batchResults[batchId].decrypted) revert InvalidBatchState(); // Results already published
+        if (batchResults[batchId].decryptionPending) revert InvalidBatchState(); // Wait for the outstanding request
+        lastDecryptionRequestTime[msg.sender] = block.timestamp;
+        if (batchResults[batchId].tallied) {
+            _requestResultDecryption(batchId);
+        } else {
+            _advanceTally(batchId);
+        }
+    }
 
+    function _requestResultDecryption(uint256 batchId) internal {
         // 1. Prepare Ciphertexts
-        // For simplicity, this example will only decrypt the total approved proposals and total funding.
-        // A real system might decrypt individual proposal results or more complex aggregations.
-        // Here, we'll assume these aggregated values are already computed and stored as euint32.
-        // For this example, let's assume we have two euint32 values to decrypt:
-        // - totalApprovedProposalsEncrypted
-        // - totalFundingAmountEncrypted
-        // These would need to be computed in a separate FHE aggregation step (not shown for brevity).
-        // For this contract, we'll imagine they are stored or passed in.
-        // As a placeholder, we'll use dummy encrypted values.
-        // In a real scenario, these would be results of FHE computations.
-
-        euint32 memory totalApprovedProposalsEncrypted = FHE.asEuint32(0); // Placeholder
-        euint32 memory totalFundingAmountEncrypted = FHE.asEuint32(0); // Placeholder
-
-        bytes32[] memory cts = new bytes32[](2);
-        cts[0] = totalApprovedProposalsEncrypted.toBytes32();
-        cts[1] = totalFundingAmountEncrypted.toBytes32();
+        // The aggregates are computed once per batch and persisted, so the callback
+        // can rebuild exactly the same handle list from storage.
+        bytes32[] memory cts = _batchCiphertexts(batchId);
+        if (cts.length == 0) {
+            // A quadratic batch without proposals has nothing to decrypt: publish empty results right away
+            batchResults[batchId].decrypted = true;
+            emit DecryptionCompleted(0, batchId, 0, 0);
+            return;
+        }
 
         // 2. Compute State Hash
-        bytes32 stateHash = keccak256(abi.encode(cts, address(this)));
+        bytes32 stateHash = _hashCiphertexts(cts);
 
         // 3. Request Decryption
         uint256 requestId = FHE.requestDecryption(cts, this.myCallback.selector);
 
         // 4. Store Context
         decryptionContexts[requestId] = DecryptionContext({ batchId: batchId, stateHash: stateHash, processed: false });
-        lastDecryptionRequestTime[msg.sender] = block.timestamp;
+        batchResults[batchId].decryptionPending = true;
 
         emit DecryptionRequested(requestId, batchId);
     }
@@ -245,23 +897,12 @@ contract Science_DAO_FHE is SepoliaConfig {
         }
 
         // b. State Verification
-        // Rebuild the cts array from current contract storage in the *exact same order* as in step 1.
-        // This is crucial: the state must be identical to when the decryption was requested.
-        // For this example, we need to retrieve the *original* encrypted values that were used
-        // to form the `cts` array for this `requestId`.
-        // This contract doesn't store these intermediate aggregated encrypted values directly for each request,
-        // so this part is illustrative of the pattern. A real contract would need to store or recompute them.
-        // For this example, we'll assume `context.batchId` is enough to retrieve/recompute them.
-
-        // Placeholder: Recompute/retrieve the original encrypted values for this batchId
-        euint32 memory totalApprovedProposalsEncrypted_recomputed = FHE.asEuint32(0); // Placeholder
-        euint32 memory totalFundingAmountEncrypted_recomputed = FHE.asEuint32(0); // Placeholder
-
-        bytes32[] memory currentCts = new bytes32[](2);
-        currentCts[0] = totalApprovedProposalsEncrypted_recomputed.toBytes32();
-        currentCts[1] = totalFundingAmountEncrypted_recomputed.toBytes32();
-
-        bytes32 currentStateHash = keccak256(abi.encode(currentCts, address(this)));
+        // Rebuild the cts array from the persisted aggregates in the *exact same order* as in step 1.
+        uint256 batchId = context.batchId;
+        if (batchResults[batchId].decrypted) revert InvalidBatchState(); // Another request already published the results
+        bytes32[] memory currentCts = _batchCiphertexts(batchId);
+
+        bytes32 currentStateHash = _hashCiphertexts(currentCts);
         if (currentStateHash != context.stateHash) {
             revert StateMismatch();
         }
@@ -270,41 +911,169 @@ contract Science_DAO_FHE is SepoliaConfig {
         FHE.checkSignatures(requestId, cleartexts, proof);
 
         // d. Decode & Finalize
-        if (cleartexts.length != 2 * 32) { // Expecting 2 uint256 values
+        if (cleartexts.length != currentCts.length * 32) { // One uint256 word per requested handle
             revert InvalidCleartextLength();
         }
 
-        uint256 totalApprovedProposalsCleartext = abi.decode(cleartexts[0:32], (uint256));
-        uint256 totalFundingAmountCleartext = abi.decode(cleartexts[32:64], (uint256));
-
         context.processed = true;
-        emit DecryptionCompleted(requestId, context.batchId, totalApprovedProposalsCleartext, totalFundingAmountCleartext);
+        (uint256 totalApprovedProposalsCleartext, uint256 totalFundingAmountCleartext) = batchModes[batchId] == BatchMode.Quadratic
+            ? QuadraticFunding.reveal(
+                batchId,
+                batchProposalIds[batchId],
+                proposals,
+                quadraticTallies,
+                proposalTallies,
+                proposalRankings,
+                matchingPools[batchId],
+                researchIP,
+                cleartexts
+            )
+            : ApprovalTally.reveal(
+                batchId,
+                batchProposalIds[batchId],
+                proposals,
+                proposalTallies,
+                proposalRankings,
+                researchIP,
+                cleartexts
+            );
+
+        BatchResult storage result = batchResults[batchId];
+        result.decrypted = true;
+        result.decryptionPending = false;
+        result.approvedCount = uint32(totalApprovedProposalsCleartext);
+        result.totalFunding = uint64(totalFundingAmountCleartext);
+
+        emit DecryptionCompleted(requestId, batchId, totalApprovedProposalsCleartext, totalFundingAmountCleartext);
+    }
+
+    // Proposals still in the batch, in submission order
+    function getBatchProposalIds(uint256 batchId) external view returns (uint256[] memory) {
+        return batchProposalIds[batchId];
+    }
+
+    // Paginated views, newest first; `total` counts every match so callers can page without loading everything
+    function getBatchProposalsPage(uint256 batchId, uint256 offset, uint256 limit) external view returns (ProposalView[] memory, uint256) {
+        return ProposalViews.pageOf(batchProposalIds[batchId], offset, limit, proposals, proposalTallies, proposalRankings);
+    }
+
+    function getProposerProposalsPage(address proposer, uint256 offset, uint256 limit) external view returns (ProposalView[] memory, uint256) {
+        return ProposalViews.pageOf(proposerProposalIds[proposer], offset, limit, proposals, proposalTallies, proposalRankings);
+    }
+
+    function getProposalsByStatusPage(ProposalStatus status, uint256 offset, uint256 limit) external view returns (ProposalView[] memory, uint256) {
+        return ProposalViews.pageByStatus(proposalCount, status, offset, limit, proposals, proposalTallies, proposalRankings);
     }
 
     // Internal Helper Functions
+    // Whole governance tokens delegated to `voter` at the batch snapshot, or 1 without a governance token
+    function votingWeightOf(uint256 batchId, address voter) public view returns (uint32) {
+        if (address(governanceToken) == address(0)) return 1;
+        uint256 weight = governanceToken.getPastVotes(voter, batchSnapshotBlock[batchId]) / VOTE_WEIGHT_UNIT;
+        return weight > type(uint32).max ? type(uint32).max : uint32(weight);
+    }
+
+    // True once the batch result has been revealed and the proposal made the funded cut
+    function isProposalFunded(uint256 proposalId, address provider) external view returns (bool) {
+        return proposals[proposalId].provider == provider && proposalTallies[proposalId].revealed && proposalRankings[proposalId].funded;
+    }
+
+    function _batchCiphertexts(uint256 batchId) internal view returns (bytes32[] memory) {
+        if (batchModes[batchId] == BatchMode.Quadratic) {
+            return QuadraticFunding.ciphertexts(batchProposalIds[batchId], quadraticTallies);
+        }
+        return ApprovalTally.ciphertexts(batchProposalIds[batchId], proposalTallies, proposalRankings, batchResults[batchId]);
+    }
+
+    function _advanceTally(uint256 batchId) internal {
+        if (_tallyStep(batchId)) _requestResultDecryption(batchId);
+    }
+
+    // Runs the next chunk of the batch tally and returns true once it is complete
+    function _tallyStep(uint256 batchId) internal returns (bool done) {
+        BatchResult storage result = batchResults[batchId];
+        uint256[] storage ids = batchProposalIds[batchId];
+        if (batchModes[batchId] == BatchMode.Quadratic) {
+            QuadraticFunding.tally(ids, quadraticTallies);
+            done = true;
+        } else {
+            done = ApprovalTally.tallyStep(
+                batchId,
+                ids,
+                proposals,
+                proposalTallies,
+                proposalRankings,
+                result,
+                batchBudgets[batchId],
+                batchQuorums[batchId],
+                scoringWeights,
+                minCompositeScore
+            );
+        }
+        result.tallied = done;
+        emit BatchTallyAdvanced(batchId, result.tallyPhase, result.tallyCursor, done);
+    }
+
+    // Budget, quorum and pool of a batch are fixed once its submission phase ends, so they cannot be
+    // tuned to the ballot counts that become public while it is voting
+    function _requireConfigurable(uint256 batchId) internal view {
+        if (batchId > currentBatchId) return; // Not opened yet
+        if (batchId < currentBatchId || !batchOpen) revert InvalidBatchState();
+        if (block.timestamp >= batchSchedules[batchId].submissionEnd) revert WrongPhase();
+    }
+
+    function _setBatchBudget(uint256 batchId, euint32 encryptedCap, bool encrypted, uint32 cap) internal {
+        _requireConfigurable(batchId);
+        FHE.allowThis(encryptedCap);
+        FHE.allow(encryptedCap, owner);
+        FHE.allow(encryptedCap, msg.sender); // The treasurer who set it
+        batchBudgets[batchId] = BatchBudget({ encryptedCap: encryptedCap, capSet: true, encrypted: encrypted, cap: cap });
+        emit BatchBudgetSet(batchId, encrypted, cap);
+    }
+
     function _hashCiphertexts(bytes32[] memory cts) internal view returns (bytes32) {
         return keccak256(abi.encode(cts, address(this)));
     }
 
-    function _initIfNeeded(euint32 storage self) internal {
+    // Integer square root over a ciphertext, deciding one bit of the 8-bit result per step.
+    // Working in 16 bits keeps the eight chained steps under the per-transaction HCU depth limit.
+    function _encryptedSqrt(euint16 x) internal returns (euint32) {
+        euint16 root = FHE.asEuint16(0);
+        for (uint16 bit = 1 << 7; bit > 0; bit >>= 1) {
+            euint16 candidate = root.or(bit);
+            root = FHE.select(candidate.mul(candidate).le(x), candidate, root);
+        }
+        return FHE.asEuint32(root);
+    }
+
+    function _initIfNeeded(euint32 self) internal returns (euint32) {
+        if (!FHE.isInitialized(self)) {
+            return FHE.asEuint32(0);
+        }
+        return self;
+    }
+
+    function _initIfNeeded(euint64 self) internal returns (euint64) {
         if (!FHE.isInitialized(self)) {
-            self = FHE.asEuint32(0);
+            return FHE.asEuint64(0);
         }
+        return self;
     }
 
-    function _initIfNeeded(ebool storage self) internal {
+    function _initIfNeeded(ebool self) internal returns (ebool) {
         if (!FHE.isInitialized(self)) {
-            self = FHE.asEbool(false);
+            return FHE.asEbool(false);
         }
+        return self;
     }
 
-    function _requireInitialized(euint32 storage self) internal view {
+    function _requireInitialized(euint32 self) internal pure {
         if (!FHE.isInitialized(self)) {
             revert("Ciphertext not initialized");
         }
     }
 
-    function _requireInitialized(ebool storage self) internal view {
+    function _requireInitialized(ebool self) internal pure {
         if (!FHE.isInitialized(self)) {
             revert("Ciphertext not initialized");
         }
@@ -2,8 +2,9 @@
 import fs from "fs";
 import path from "path";
 import readline from "readline";
-import { ethers as hardhatEthers } from "hardhat";
-import { Wallet, JsonRpcProvider } from "ethers";
+import { artifacts, ethers as hardhatEthers, fhevm, network } from "hardhat";
+import { Wallet, JsonRpcProvider, id } from "ethers";
+import { GovernanceToken__factory, Science_DAO_FHE__factory } from "../types";
 
 const WORD_LIBRARY = [
   'api', 'ape', 'auth', 'backend', 'config', 'controller', 'database', 'endpoint',
@@ -291,6 +292,9 @@ class DifferentialGenerator {
   }
 }
 
+// Must match abiVersionOf in frontend/web/src/deployments.ts
+const abiVersionOf = (abi: unknown): string => id(JSON.stringify(abi)).slice(0, 18);
+
 async function ask(prompt: string): Promise<string> {
   const rl = readline.createInterface({ input: process.stdin, output: process.stdout });
   return new Promise<string>((resolve) =>
@@ -325,21 +329,67 @@ async function main() {
     privateKey = await ask("Enter the deployer private key (testnet only): ");
   }
 
-  const DEFAULT_RPC = "https://sepolia.drpc.org";
-  const rpc = DEFAULT_RPC;
+  // The in-process hardhat network is gone when this script exits, leaving nothing to register
+  if (!("url" in network.config)) {
+    throw new Error("Pick a network with --network, e.g. run `npx hardhat node` and deploy with --network localhost");
+  }
+  const rpc = network.config.url;
 
-  const provider = new JsonRpcProvider(rpc);
+  // Without the response cache, nonces are read fresh even when an automining local node confirms deploys back to back
+  const provider = new JsonRpcProvider(rpc, undefined, { cacheTimeout: -1 });
+  const chainId = Number((await provider.getNetwork()).chainId);
+  if (network.config.chainId !== undefined && network.config.chainId !== chainId) {
+    throw new Error(`${rpc} serves chain ${chainId}, but the ${network.name} network expects ${network.config.chainId}`);
+  }
   const wallet = new Wallet(privateKey, provider);
 
-  console.log("Deployer account:", wallet.address);
+  console.log(`Deploying to ${network.name} (chain ${chainId}) as`, wallet.address);
 
   try {
-    const UniversalAdapterFactory = await hardhatEthers.getContractFactory("UniversalAdapter", wallet);
-    const factory = await UniversalAdapterFactory.deploy();
+    // The batch tallies and paginated views are external libraries, linked in to keep the DAO under the contract size limit
+    const libraries: Record<string, string> = {};
+    for (const name of ["ApprovalTally", "QuadraticFunding", "ProposalViews"]) {
+      const LibraryFactory = await hardhatEthers.getContractFactory(name, wallet);
+      const library = await LibraryFactory.deploy();
+      await library.waitForDeployment();
+      libraries[name] = await library.getAddress();
+      console.log(`${name} library deployed at:`, libraries[name]);
+    }
+
+    const factory = await new Science_DAO_FHE__factory({
+      "contracts/ApprovalTally.sol:ApprovalTally": libraries.ApprovalTally,
+      "contracts/QuadraticFunding.sol:QuadraticFunding": libraries.QuadraticFunding,
+      "contracts/ProposalViews.sol:ProposalViews": libraries.ProposalViews,
+    }, wallet).deploy();
     await factory.waitForDeployment();
 
-    const deployedAddress = (factory as any).target || (factory as any).address;
-    console.log("UniversalAdapter contract deployed at:", deployedAddress);
+    const deployedAddress = await factory.getAddress();
+    // Event scans start here, so it is never left unknown
+    const deployReceipt = await factory.deploymentTransaction()?.wait();
+    if (!deployReceipt) throw new Error("Science_DAO_FHE deployment receipt unavailable; cannot record its deploy block");
+    const deployBlock = deployReceipt.blockNumber;
+    console.log("Science_DAO_FHE contract deployed at:", deployedAddress, "in block", deployBlock);
+
+    const TreasuryFactory = await hardhatEthers.getContractFactory("ScienceTreasury", wallet);
+    const treasury = await TreasuryFactory.deploy(deployedAddress);
+    await treasury.waitForDeployment();
+    const treasuryAddress = await treasury.getAddress();
+    console.log("ScienceTreasury contract deployed at:", treasuryAddress);
+
+    const ResearchIPFactory = await hardhatEthers.getContractFactory("ResearchIP", wallet);
+    const researchIP = await ResearchIPFactory.deploy(deployedAddress, treasuryAddress);
+    await researchIP.waitForDeployment();
+    const researchIPAddress = await researchIP.getAddress();
+    await (await factory.setResearchIP(researchIPAddress)).wait();
+    console.log("ResearchIP contract deployed at:", researchIPAddress);
+
+    const governanceToken = await new GovernanceToken__factory(wallet).deploy(hardhatEthers.parseEther("1000000"));
+    await governanceToken.waitForDeployment();
+    const governanceTokenAddress = await governanceToken.getAddress();
+    // Balances only count as voting power once delegated
+    await (await governanceToken.delegate(wallet.address)).wait();
+    await (await factory.setGovernanceToken(governanceTokenAddress)).wait();
+    console.log("GovernanceToken contract deployed at:", governanceTokenAddress);
 
     if (fs.existsSync(walletsPath)) {
       const walletsContent = fs.readFileSync(walletsPath, "utf-8");
@@ -356,12 +406,36 @@ async function main() {
 
     const frontendConfigDir = path.join(__dirname, "..", "frontend", "web", "src");
     if (!fs.existsSync(frontendConfigDir)) {
-      console.warn("Frontend src directory not found, skipping config.json write:", frontendConfigDir);
+      console.warn("Frontend src directory not found, skipping deployments.json write:", frontendConfigDir);
     } else {
-      const config = {
-        network: rpc,
+      // Deployments on other chains stay as they are; the first chain ever deployed to is the frontend's default
+      const registryPath = path.join(frontendConfigDir, "deployments.json");
+      const registry = fs.existsSync(registryPath)
+        ? JSON.parse(fs.readFileSync(registryPath, "utf-8"))
+        : { defaultChainId: chainId, deployments: {} };
+      const daoArtifact = await artifacts.readArtifact("Science_DAO_FHE");
+      // A local node runs the mock protocol with its own ACL; the frontend falls back to Sepolia's otherwise
+      await fhevm.initializeCLIApi();
+      const aclAddress = fhevm.isMock ? (await fhevm.getRelayerMetadata()).ACLAddress : "";
+      registry.deployments[chainId] = {
+        name: network.name,
+        // The frontend's RPC pool; keyed endpoints belong in RPC_URLS at build time rather than in this file
+        rpcUrls: (process.env.FRONTEND_RPC_URLS || rpc).split(",").map(url => url.trim()).filter(Boolean),
         contractAddress: deployedAddress,
+        treasuryAddress,
+        researchIPAddress,
+        governanceTokenAddress,
         deployer: wallet.address,
+        deployBlock,
+        abiVersion: abiVersionOf(daoArtifact.abi),
+        indexerUrl: process.env.INDEXER_URL || "", // Empty reads history, search and stats from the chain
+        aclAddress,
+      };
+      fs.writeFileSync(registryPath, JSON.stringify(registry, null, 2));
+      console.log(`Registered the ${network.name} deployment in frontend/web/src/deployments.json`);
+
+      const config = {
+        contentStoreUrl: process.env.CONTENT_STORE_URL || "", // Empty keeps proposal content in browser memory
       };
       fs.writeFileSync(
         path.join(frontendConfigDir, "config.json"),
@@ -369,24 +443,19 @@ async function main() {
       );
       console.log("Wrote frontend config: frontend/web/src/config.json");
 
-      try {
-        const artifactPath = path.join(
-          __dirname,
-          "..",
-          "artifacts",
-          "contracts",
-          "UniversalAdapter.sol",
-          "UniversalAdapter.json"
-        );
-        const targetAbiPath = path.join(frontendConfigDir, "abi");
-        if (!fs.existsSync(targetAbiPath)) fs.mkdirSync(targetAbiPath, { recursive: true });
-        fs.copyFileSync(artifactPath, path.join(targetAbiPath, "UniversalAdapter.json"));
-        console.log("Copied ABI to frontend/web/src/abi/UniversalAdapter.json");
-      } catch (e) {
-        console.warn(
-          "Failed to copy ABI automatically. Please copy artifacts/.../UniversalAdapter.json manually to frontend/web/src/abi/UniversalAdapter.json",
-          e
-        );
+      const targetAbiPath = path.join(frontendConfigDir, "abi");
+      if (!fs.existsSync(targetAbiPath)) fs.mkdirSync(targetAbiPath, { recursive: true });
+      for (const [source, name] of [["Science_DAO.sol", "Science_DAO_FHE"], ["ScienceTreasury.sol", "ScienceTreasury"], ["ResearchIP.sol", "ResearchIP"], ["GovernanceToken.sol", "GovernanceToken"]]) {
+        try {
+          const artifactPath = path.join(__dirname, "..", "artifacts", "contracts", source, `${name}.json`);
+          fs.copyFileSync(artifactPath, path.join(targetAbiPath, `${name}.json`));
+          console.log(`Copied ABI to frontend/web/src/abi/${name}.json`);
+        } catch (e) {
+          console.warn(
+            `Failed to copy ABI automatically. Please copy artifacts/.../${name}.json manually to frontend/web/src/abi/${name}.json`,
+            e
+          );
+        }
       }
     }
   } catch (error) {
@@ -2,22 +2,50 @@
 import { ConnectButton } from '@rainbow-me/rainbowkit';
 import '@rainbow-me/rainbowkit/styles.css';
 import React, { useEffect, useState } from "react";
-import { ethers } from "ethers";
-import { getContractReadOnly, getContractWithSigner } from "./contract";
+import { getBrowserSigner, getDaoClientQuorum, getDaoClientReadOnly, getDaoClientWithSigner, getGovernanceTokenClientReadOnly, getGovernanceTokenClientWithSigner, getTreasuryClientReadOnly } from "./contract";
+import { getActiveDeployment, scanFromBlock } from "./deployments";
+import { VoterWeight, getVoterWeight } from "./governance";
+import { isScienceDaoError } from "./daoErrors";
+import { BUDGET_SCALE, MAX_CONTRIBUTION_UNITS, encryptBudget, encryptContribution, encryptProposalInputs, encryptVote, fromBudgetUnits, toBudgetUnits } from "./fheEncryption";
+import { userDecrypt } from "./fheDecryption";
+import { BatchResultSummary, BudgetSummary, MatchSummary, StageCountdown, VotingStage, applyProposalOutcomes, applyQuadraticMatches, applyQuorumFailures, loadBatchResults, scheduleFromDurations, votingStageOf } from "./batchResults";
+import { BallotRef, BatchMode, BatchQuorum, BatchState, PROPOSAL_STATUSES, ProposalPage, ProposalParticipation, ProposalStatus, ProposalSummary, RESEARCH_CATEGORIES, Role, ScoringConfig, StoredVote, parseProposalMetadata } from "./scienceDao";
+import { LIFECYCLE_LABELS, LIFECYCLE_STATES, LifecycleState, TimelineEntry, buildTimeline, lifecycleStateOf, loadDraft, saveDraft } from "./lifecycle";
+import { ContentIntegrity, ProposalAttachment, ProposalContent, VerifiedContent, getContentStore, getVerified, hasContent, loadProposalContent, publishProposalContent } from "./contentStore";
+import { delegatorsOf, effectiveDelegate, loadDelegations } from "./delegation";
+import { getIndexer } from "./indexer";
+import MilestoneTimeline from "./components/MilestoneTimeline";
+import IPPortfolio from "./components/IPPortfolio";
+import LicensingPanel from "./components/LicensingPanel";
+import DelegationPanel from "./components/DelegationPanel";
+import MembersPanel from "./components/MembersPanel";
+import MyVotesPanel from "./components/MyVotesPanel";
+import NetworkNotice from "./components/NetworkNotice";
 import "./App.css";
-import { useAccount, useSignMessage } from 'wagmi';
+import { useAccount } from 'wagmi';
 
 interface ResearchProposal {
   id: string;
+  proposalId: bigint;
+  batchId: number;
+  provider: string;
   title: string;
-  description: string;
-  encryptedBudget: string;
-  timestamp: number;
-  proposer: string;
+  description: string; // Only set by proposals from before bodies moved off-chain
   category: string;
+  contentHash: string; // The encrypted inputs are not part of the bulk views; getProposal loads them on demand
+  timestamp: number;
+  batchMode: BatchMode;
   status: "pending" | "approved" | "rejected";
-  votesFor: number;
-  votesAgainst: number;
+  voteCount: number;
+  approvalCount: number | null;
+  totalWeight: number | null;
+  rank: number | null;
+  funded: boolean | null;
+  match: MatchSummary | null;
+  quorumFailed: boolean;
+  version: number;
+  withdrawn: boolean;
+  completed: boolean;
 }
 
 interface FAQItem {
@@ -25,22 +53,83 @@ interface FAQItem {
   answer: string;
 }
 
-const FHEEncryptNumber = (value: number): string => {
-  return `FHE-${btoa(value.toString())}`;
+type AppView = "proposals" | "myVotes" | "delegation" | "portfolio" | "licensing" | "members";
+
+const APP_VIEWS: { id: AppView; label: string; adminOnly?: boolean }[] = [
+  { id: "proposals", label: "Proposals" },
+  { id: "myVotes", label: "My Votes" },
+  { id: "delegation", label: "Delegation" },
+  { id: "portfolio", label: "IP Portfolio" },
+  { id: "licensing", label: "Licensing" },
+  { id: "members", label: "Members", adminOnly: true }
+];
+
+// The constructor reserves batch 1 and openBatch increments before opening
+const FIRST_BATCH_ID = 2;
+
+const EMPTY_PROPOSAL = { title: "", description: "", category: "", budget: 0, impactScore: 50, feasibilityScore: 50, noveltyScore: 50 };
+
+const BATCH_MODE_LABELS: Record<BatchMode, string> = {
+  approval: "Approval voting",
+  quadratic: "Quadratic funding"
+};
+
+// The list shows one batch, the connected account's proposals, or every proposal in one status
+type ProposalListFilter = "batch" | "mine" | ProposalStatus;
+
+const PROPOSAL_STATUS_LABELS: Record<ProposalStatus, string> = {
+  pending: "Pending",
+  approved: "Approved",
+  rejected: "Rejected",
+  withdrawn: "Withdrawn"
+};
+
+const EMPTY_STATUS_TOTALS: Record<ProposalStatus, number> = { pending: 0, approved: 0, rejected: 0, withdrawn: 0 };
+
+const STAGE_LABELS: Record<VotingStage, string> = {
+  submission: "Submissions",
+  voting: "Voting",
+  finalizing: "Awaiting finalization",
+  closed: "Closed"
+};
+
+const formatCountdown = (seconds: number): string => {
+  const days = Math.floor(seconds / 86400);
+  const hours = Math.floor((seconds % 86400) / 3600);
+  const minutes = Math.floor((seconds % 3600) / 60);
+  if (days > 0) return `${days}d ${hours}h`;
+  if (hours > 0) return `${hours}h ${minutes}m`;
+  return `${minutes}m ${seconds % 60}s`;
 };
 
-const FHEDecryptNumber = (encryptedData: string): number => {
-  if (encryptedData.startsWith('FHE-')) {
-    return parseFloat(atob(encryptedData.substring(4)));
-  }
-  return parseFloat(encryptedData);
+const describeStage = ({ stage, secondsLeft }: StageCountdown): string =>
+  secondsLeft === null ? STAGE_LABELS[stage] : `${STAGE_LABELS[stage]} · ${formatCountdown(secondsLeft)} left`;
+
+const nowSeconds = () => Math.floor(Date.now() / 1000);
+
+const INTEGRITY_LABELS: Record<ContentIntegrity, string> = {
+  verified: "Content verified",
+  mismatch: "Content does not match its on-chain hash",
+  missing: "Content not found in the store"
+};
+
+const formatBytes = (bytes: number): string => {
+  if (bytes < 1024) return `${bytes} B`;
+  if (bytes < 1024 * 1024) return `${(bytes / 1024).toFixed(1)} KB`;
+  return `${(bytes / (1024 * 1024)).toFixed(1)} MB`;
 };
 
-const generatePublicKey = () => `0x${Array(2000).fill(0).map(() => Math.floor(Math.random() * 16).toString(16)).join('')}`;
+const describeThreshold = (quorum: BatchQuorum): string =>
+  quorum.approvalPercent === 0 ? "More than half of the cast weight" : `At least ${quorum.approvalPercent}% of the cast weight`;
+
+const describeBudget = (budget: BudgetSummary): string => {
+  if (budget.kind === "public") return `Cap ${budget.cap} ETH`;
+  if (budget.kind === "encrypted") return "Cap encrypted";
+  return "No cap";
+};
 
 const App: React.FC = () => {
   const { address, isConnected } = useAccount();
-  const { signMessageAsync } = useSignMessage();
   const [loading, setLoading] = useState(true);
   const [proposals, setProposals] = useState<ResearchProposal[]>([]);
   const [filteredProposals, setFilteredProposals] = useState<ResearchProposal[]>([]);
@@ -48,25 +137,47 @@ const App: React.FC = () => {
   const [showCreateModal, setShowCreateModal] = useState(false);
   const [creating, setCreating] = useState(false);
   const [transactionStatus, setTransactionStatus] = useState<{ visible: boolean; status: "pending" | "success" | "error"; message: string; }>({ visible: false, status: "pending", message: "" });
-  const [newProposalData, setNewProposalData] = useState({ title: "", description: "", category: "", budget: 0 });
+  const [newProposalData, setNewProposalData] = useState(EMPTY_PROPOSAL);
+  // Set while the create modal amends a live proposal instead of submitting a new one
+  const [amendingProposal, setAmendingProposal] = useState<ResearchProposal | null>(null);
+  const [amendmentNote, setAmendmentNote] = useState("");
+  const [draftSavedAt, setDraftSavedAt] = useState<number | null>(null);
+  const [attachments, setAttachments] = useState<File[]>([]);
+  // Attachments of the amended version that the new version keeps referencing
+  const [keptAttachments, setKeptAttachments] = useState<ProposalAttachment[]>([]);
   const [selectedProposal, setSelectedProposal] = useState<ResearchProposal | null>(null);
   const [decryptedBudget, setDecryptedBudget] = useState<number | null>(null);
   const [isDecrypting, setIsDecrypting] = useState(false);
-  const [publicKey, setPublicKey] = useState<string>("");
-  const [contractAddress, setContractAddress] = useState<string>("");
-  const [chainId, setChainId] = useState<number>(0);
-  const [startTimestamp, setStartTimestamp] = useState<number>(0);
-  const [durationDays, setDurationDays] = useState<number>(30);
   const [searchTerm, setSearchTerm] = useState<string>("");
-  const [statusFilter, setStatusFilter] = useState<string>("all");
+  // With an indexer the search runs over every proposal, once typing pauses
+  const [indexedSearch, setIndexedSearch] = useState("");
+  const [listFilter, setListFilter] = useState<ProposalListFilter>("batch");
+  // Pages come from the contract's paginated views; `proposals` only ever holds the current page
   const [currentPage, setCurrentPage] = useState<number>(1);
+  const [pageTotal, setPageTotal] = useState(0);
   const itemsPerPage = 5;
+  // The batch filter shows one batch at a time; null follows the current batch
+  const [viewBatchId, setViewBatchId] = useState<number | null>(null);
+  const [statusTotals, setStatusTotals] = useState<Record<ProposalStatus, number>>(EMPTY_STATUS_TOTALS);
+  const [participationCount, setParticipationCount] = useState(0);
+  // Every proposal of the shown batch once its results are revealed, for the ranked and matched results
+  const [revealedBatch, setRevealedBatch] = useState<ResearchProposal[]>([]);
   const [showFAQ, setShowFAQ] = useState(false);
+  const [batchState, setBatchState] = useState<BatchState | null>(null);
+  const [userRoles, setUserRoles] = useState<Role[]>([]);
+  const [batchResults, setBatchResults] = useState<BatchResultSummary[]>([]);
+  const [ballots, setBallots] = useState<BallotRef[]>([]);
+  const [showAdminPanel, setShowAdminPanel] = useState(false);
+  const [scoringConfig, setScoringConfig] = useState<ScoringConfig | null>(null);
+  const [activeView, setActiveView] = useState<AppView>("proposals");
+  const [nextBatchMode, setNextBatchMode] = useState<BatchMode>("approval");
+  const [submissionHours, setSubmissionHours] = useState(72);
+  const [votingHours, setVotingHours] = useState(72);
+  const [now, setNow] = useState(nowSeconds());
 
-  const approvedCount = proposals.filter(p => p.status === "approved").length;
-  const pendingCount = proposals.filter(p => p.status === "pending").length;
-  const rejectedCount = proposals.filter(p => p.status === "rejected").length;
-  const totalVotes = proposals.reduce((sum, p) => sum + p.votesFor + p.votesAgainst, 0);
+  const { approved: approvedCount, pending: pendingCount, rejected: rejectedCount } = statusTotals;
+  const totalProposals = PROPOSAL_STATUSES.reduce((sum, status) => sum + statusTotals[status], 0);
+  const totalVotes = participationCount;
 
   const faqItems: FAQItem[] = [
     {
@@ -89,71 +200,174 @@ const App: React.FC = () => {
 
   useEffect(() => {
     loadProposals().finally(() => setLoading(false));
-    const initSignatureParams = async () => {
-      const contract = await getContractReadOnly();
-      if (contract) setContractAddress(await contract.getAddress());
-      if (window.ethereum) {
-        const chainIdHex = await window.ethereum.request({ method: 'eth_chainId' });
-        setChainId(parseInt(chainIdHex, 16));
-      }
-      setStartTimestamp(Math.floor(Date.now() / 1000));
-      setDurationDays(30);
-      setPublicKey(generatePublicKey());
-    };
-    initSignatureParams();
-  }, []);
+  }, [viewBatchId, listFilter, currentPage, listFilter === "mine" ? address : undefined, indexedSearch]);
 
   useEffect(() => {
     filterProposals();
-  }, [proposals, searchTerm, statusFilter]);
+  }, [proposals, searchTerm]);
+
+  useEffect(() => {
+    if (!getIndexer()) return;
+    const timer = setTimeout(() => { setIndexedSearch(searchTerm.trim()); setCurrentPage(1); }, 400);
+    return () => clearTimeout(timer);
+  }, [searchTerm]);
+
+  // Any change of what is listed starts again from the first page
+  const changeListFilter = (filter: ProposalListFilter) => { setListFilter(filter); setCurrentPage(1); };
+  const changeViewBatch = (batchId: number) => { setViewBatchId(batchId); setCurrentPage(1); };
+
+  // Drives the phase countdowns
+  useEffect(() => {
+    const timer = setInterval(() => setNow(nowSeconds()), 1000);
+    return () => clearInterval(timer);
+  }, []);
+
+  useEffect(() => {
+    const loadRoles = async () => {
+      if (!address) { setUserRoles([]); return; }
+      try {
+        // Roles unlock the admin and voting controls, so they are a quorum read
+        const client = await getDaoClientQuorum();
+        if (!client) return;
+        setUserRoles(await client.getRoles(address));
+      } catch (e) { console.error("Error loading DAO roles:", e); }
+    };
+    loadRoles();
+  }, [address]);
+
+  const isAdmin = userRoles.includes("admin");
+  const isVoter = userRoles.includes("voter");
+
+  const stageOfBatch = (batchId: number): StageCountdown => {
+    const summary = batchResults.find(r => r.batchId === batchId);
+    return summary ? votingStageOf(summary, now) : { stage: "closed", secondsLeft: null };
+  };
+  const currentStage = batchState ? stageOfBatch(Number(batchState.currentBatchId)) : null;
+
+  const lifecycleOf = (proposal: ResearchProposal): LifecycleState =>
+    lifecycleStateOf({ ...proposal, stage: stageOfBatch(proposal.batchId).stage });
+
+  // A proposal goes into review when its batch's submission phase ends
+  const votingStartOf = (batchId: bigint): number | null =>
+    batchResults.find(r => r.batchId === Number(batchId))?.submissionEnd ?? null;
+
+  // Replayed from VoteSubmitted/VoteWithdrawn, so it never needs the encrypted choice
+  const hasVoted = (proposal: ResearchProposal) => !!address && ballots.some(b =>
+    b.proposalId === proposal.proposalId &&
+    b.voter.toLowerCase() === address.toLowerCase()
+  );
 
   const loadProposals = async () => {
     setIsRefreshing(true);
     try {
-      const contract = await getContractReadOnly();
-      if (!contract) return;
+      const [client, quorumClient] = await Promise.all([getDaoClientReadOnly(), getDaoClientQuorum()]);
+      if (!client) return;
       
-      // Check contract availability
-      const isAvailable = await contract.isAvailable();
-      if (!isAvailable) return;
+      // The batch phase decides which actions are offered, so enough RPC endpoints must agree on it
+      const state = await (quorumClient ?? client).getBatchState();
+      const shownBatchId = BigInt(viewBatchId ?? state.currentBatchId);
+      const offset = (currentPage - 1) * itemsPerPage;
+      const indexer = getIndexer();
+      const loadPage = (): Promise<ProposalPage> => {
+        if (indexer && indexedSearch) {
+          if (listFilter === "mine" && !address) return Promise.resolve({ items: [], total: 0 });
+          return indexer.searchProposals({
+            q: indexedSearch,
+            batchId: listFilter === "batch" ? shownBatchId : undefined,
+            provider: listFilter === "mine" ? address : undefined,
+            status: listFilter === "batch" || listFilter === "mine" ? undefined : listFilter
+          }, offset, itemsPerPage);
+        }
+        if (listFilter === "batch") return client.getBatchProposalsPage(shownBatchId, offset, itemsPerPage);
+        if (listFilter === "mine") return address ? client.getProposerProposalsPage(address, offset, itemsPerPage) : Promise.resolve({ items: [], total: 0 });
+        return client.getProposalsByStatusPage(listFilter, offset, itemsPerPage);
+      };
+
+      // The per-status totals scan the contract's storage unless an indexer already counted them
+      const loadTotals = async (): Promise<Record<ProposalStatus, number>> => {
+        if (indexer) return (await indexer.getStats()).byStatus;
+        const pages = await Promise.all(PROPOSAL_STATUSES.map(status => client.getProposalsByStatusPage(status, 0, 0)));
+        return Object.fromEntries(PROPOSAL_STATUSES.map((status, i) => [status, pages[i].total])) as Record<ProposalStatus, number>;
+      };
+
+      // One page of proposals from the contract or the indexer, ballots and outcomes from the DAO event history
+      const deployBlock = scanFromBlock();
+      const [page, totals, votes, contributions, outcomes, matches, quorumFailures] = await Promise.all([
+        loadPage(),
+        loadTotals(),
+        client.getSubmittedVotes(deployBlock),
+        client.getSubmittedContributions(deployBlock),
+        client.getProposalOutcomes(deployBlock),
+        client.getQuadraticMatches(deployBlock),
+        client.getQuorumFailures(deployBlock)
+      ]);
+      setBatchState(state);
+      setBallots(votes);
+      setStatusTotals(totals);
+      setParticipationCount(votes.length + contributions.length);
+      const results = await loadBatchResults(client, state);
+      setBatchResults(results);
+      const batchModes = new Map(results.map(r => [r.batchId, r.mode]));
+
+      // The list shrank under the current page (a withdrawal, a refresh after finalization); the effect reloads
+      const lastPage = Math.max(1, Math.ceil(page.total / itemsPerPage));
+      if (currentPage > lastPage) { setCurrentPage(lastPage); return; }
       
-      // Load proposal keys
-      const keysBytes = await contract.getData("proposal_keys");
-      let keys: string[] = [];
-      if (keysBytes.length > 0) {
-        try {
-          const keysStr = ethers.toUtf8String(keysBytes);
-          if (keysStr.trim() !== '') keys = JSON.parse(keysStr);
-        } catch (e) { console.error("Error parsing proposal keys:", e); }
+      // Quadratic batches collect contributions instead of ballots; both count as participation
+      const voteCounts = new Map<bigint, number>();
+      for (const vote of [...votes, ...contributions]) {
+        voteCounts.set(vote.proposalId, (voteCounts.get(vote.proposalId) || 0) + 1);
       }
-      
-      // Load each proposal
-      const list: ResearchProposal[] = [];
-      for (const key of keys) {
+
+      const toProposal = (summary: ProposalSummary): ResearchProposal => {
+        const metadata = parseProposalMetadata(summary.metadata);
+        return {
+          id: summary.proposalId.toString(),
+          proposalId: summary.proposalId,
+          batchId: Number(summary.batchId),
+          provider: summary.provider,
+          title: metadata.title || "Untitled proposal",
+          description: metadata.description || "",
+          category: summary.category || metadata.category || "Other",
+          contentHash: summary.contentHash,
+          timestamp: Number(summary.submittedAt),
+          batchMode: batchModes.get(Number(summary.batchId)) ?? "approval",
+          status: "pending",
+          voteCount: voteCounts.get(summary.proposalId) || 0,
+          approvalCount: null,
+          totalWeight: null,
+          rank: null,
+          funded: null,
+          match: null,
+          quorumFailed: false,
+          version: summary.version,
+          withdrawn: summary.status === "withdrawn",
+          completed: false
+        };
+      };
+      const decide = (summaries: ProposalSummary[]) =>
+        applyQuorumFailures(applyQuadraticMatches(applyProposalOutcomes(summaries.map(toProposal), outcomes), matches), quorumFailures);
+      const decided = decide(page.items);
+
+      // Completed once the treasury has released every milestone of the proposal's schedule
+      const treasury = await getTreasuryClientReadOnly();
+      await Promise.all(decided.map(async proposal => {
+        if (!treasury || proposal.status !== "approved") return;
         try {
-          const proposalBytes = await contract.getData(`proposal_${key}`);
-          if (proposalBytes.length > 0) {
-            try {
-              const proposalData = JSON.parse(ethers.toUtf8String(proposalBytes));
-              list.push({ 
-                id: key, 
-                title: proposalData.title,
-                description: proposalData.description,
-                encryptedBudget: proposalData.budget,
-                timestamp: proposalData.timestamp, 
-                proposer: proposalData.proposer, 
-                category: proposalData.category, 
-                status: proposalData.status || "pending",
-                votesFor: proposalData.votesFor || 0,
-                votesAgainst: proposalData.votesAgainst || 0
-              });
-            } catch (e) { console.error(`Error parsing proposal data for ${key}:`, e); }
-          }
-        } catch (e) { console.error(`Error loading proposal ${key}:`, e); }
+          const schedule = await treasury.getScheduleFor(proposal.proposalId);
+          proposal.completed = !!schedule && schedule.totalAmount > 0n && schedule.releasedAmount === schedule.totalAmount;
+        } catch (e) { console.error(`Error loading milestone schedule for ${proposal.id}:`, e); }
+      }));
+      setProposals(decided);
+      setPageTotal(page.total);
+
+      // Rankings span the whole batch, so a revealed batch is fetched in a single call
+      const shownResult = results.find(r => r.batchId === Number(shownBatchId));
+      if (shownResult?.phase === "decrypted" && shownResult.proposalCount > 0) {
+        setRevealedBatch(decide((await client.getBatchProposalsPage(shownBatchId, 0, shownResult.proposalCount)).items));
+      } else {
+        setRevealedBatch([]);
       }
-      
-      list.sort((a, b) => b.timestamp - a.timestamp);
-      setProposals(list);
     } catch (e) { console.error("Error loading proposals:", e); } 
     finally { setIsRefreshing(false); setLoading(false); }
   };
@@ -161,8 +375,8 @@ const App: React.FC = () => {
   const filterProposals = () => {
     let filtered = proposals;
     
-    // Apply search filter
-    if (searchTerm) {
+    // Without an indexer, search only narrows the loaded page; which proposals are listed is the contract's call
+    if (searchTerm && !getIndexer()) {
       filtered = filtered.filter(proposal => 
         proposal.title.toLowerCase().includes(searchTerm.toLowerCase()) ||
         proposal.description.toLowerCase().includes(searchTerm.toLowerCase()) ||
@@ -170,11 +384,6 @@ const App: React.FC = () => {
       );
     }
     
-    // Apply status filter
-    if (statusFilter !== "all") {
-      filtered = filtered.filter(proposal => proposal.status === statusFilter);
-    }
-    
     setFilteredProposals(filtered);
   };
 
@@ -184,82 +393,211 @@ const App: React.FC = () => {
     setTransactionStatus({ visible: true, status: "pending", message: "Encrypting budget data with Zama FHE..." });
     try {
       // Encrypt budget using Zama FHE
-      const encryptedBudget = FHEEncryptNumber(newProposalData.budget);
-      const contract = await getContractWithSigner();
-      if (!contract) throw new Error("Failed to get contract with signer");
+      const client = await getDaoClientWithSigner();
+      const inputs = await encryptProposalInputs(await client.getAddress(), address!, {
+        fundingAmount: newProposalData.budget,
+        impactScore: newProposalData.impactScore,
+        feasibilityScore: newProposalData.feasibilityScore,
+        noveltyScore: newProposalData.noveltyScore
+      });
       
-      // Generate unique ID
-      const proposalId = `prop-${Date.now()}-${Math.random().toString(36).substring(2, 9)}`;
+      // The body and attachments go to the content store; only their hash is recorded on-chain
+      setTransactionStatus({ visible: true, status: "pending", message: "Uploading proposal content..." });
+      const contentHash = await publishProposalContent(getContentStore(), newProposalData.title, newProposalData.description, attachments, keptAttachments);
       
-      // Create proposal data
-      const proposalData = { 
+      // Public metadata stored alongside the encrypted handles
+      const metadata = JSON.stringify({
         title: newProposalData.title,
-        description: newProposalData.description,
-        budget: encryptedBudget,
-        timestamp: Math.floor(Date.now() / 1000), 
-        proposer: address, 
-        category: newProposalData.category, 
-        status: "pending",
-        votesFor: 0,
-        votesAgainst: 0
-      };
+        category: newProposalData.category
+      });
       
-      // Store proposal
-      await contract.setData(`proposal_${proposalId}`, ethers.toUtf8Bytes(JSON.stringify(proposalData)));
-      
-      // Update keys list
-      const keysBytes = await contract.getData("proposal_keys");
-      let keys: string[] = [];
-      if (keysBytes.length > 0) {
-        try { keys = JSON.parse(ethers.toUtf8String(keysBytes)); } 
-        catch (e) { console.error("Error parsing keys:", e); }
+      if (amendingProposal) {
+        setTransactionStatus({ visible: true, status: "pending", message: "Submitting encrypted amendment..." });
+        await client.amendProposal(amendingProposal.proposalId, inputs, metadata, newProposalData.category, contentHash, amendmentNote.trim());
+        setTransactionStatus({ visible: true, status: "success", message: `Proposal amended to v${amendingProposal.version + 1}.` });
+      } else {
+        setTransactionStatus({ visible: true, status: "pending", message: "Submitting encrypted proposal..." });
+        await client.submitProposal(inputs, metadata, newProposalData.category, contentHash);
+        saveDraft(address!, null);
+        setDraftSavedAt(null);
+        setTransactionStatus({ visible: true, status: "success", message: "Research proposal submitted securely with FHE encryption!" });
       }
-      keys.push(proposalId);
-      await contract.setData("proposal_keys", ethers.toUtf8Bytes(JSON.stringify(keys)));
       
-      setTransactionStatus({ visible: true, status: "success", message: "Research proposal submitted securely with FHE encryption!" });
       await loadProposals();
       setTimeout(() => {
         setTransactionStatus({ visible: false, status: "pending", message: "" });
-        setShowCreateModal(false);
-        setNewProposalData({ title: "", description: "", category: "", budget: 0 });
+        closeCreateModal();
+        setNewProposalData(EMPTY_PROPOSAL);
+        setAttachments([]);
       }, 2000);
     } catch (e: any) {
-      const errorMessage = e.message.includes("user rejected transaction") ? "Transaction rejected by user" : "Submission failed: " + (e.message || "Unknown error");
+      const errorMessage = isScienceDaoError(e, "UserRejected") ? "Transaction rejected by user" : "Submission failed: " + (e.message || "Unknown error");
       setTransactionStatus({ visible: true, status: "error", message: errorMessage });
       setTimeout(() => setTransactionStatus({ visible: false, status: "pending", message: "" }), 3000);
     } finally { setCreating(false); }
   };
 
-  const voteOnProposal = async (proposalId: string, support: boolean) => {
+  // Restores the locally saved draft, if any
+  const openCreateModal = () => {
+    const draft = address ? loadDraft(address) : null;
+    if (draft) {
+      const { savedAt, ...data } = draft;
+      setNewProposalData(data);
+      setDraftSavedAt(savedAt);
+    }
+    setShowCreateModal(true);
+  };
+
+  // Amending re-encrypts every value, so only the public metadata and the off-chain content can be prefilled
+  const openAmendModal = async (proposal: ResearchProposal) => {
+    setSelectedProposal(null);
+    setAmendingProposal(proposal);
+    setAmendmentNote("");
+    setAttachments([]);
+    setKeptAttachments([]);
+    setNewProposalData({ ...EMPTY_PROPOSAL, title: proposal.title, description: proposal.description, category: proposal.category });
+    setShowCreateModal(true);
+    if (!hasContent(proposal.contentHash)) return;
+    try {
+      const { value } = await loadProposalContent(getContentStore(), proposal.contentHash);
+      if (!value) return;
+      setNewProposalData(data => ({ ...data, description: value.body }));
+      setKeptAttachments(value.attachments);
+    } catch (e) { console.error("Error loading proposal content:", e); }
+  };
+
+  // An amendment's prefilled data is never left behind for the next new submission
+  const closeCreateModal = () => {
+    setShowCreateModal(false);
+    if (amendingProposal) {
+      setNewProposalData(EMPTY_PROPOSAL);
+      setAttachments([]);
+    }
+    setKeptAttachments([]);
+    setAmendingProposal(null);
+  };
+
+  const saveProposalDraft = () => {
+    if (!address) { alert("Please connect wallet first"); return; }
+    const savedAt = nowSeconds();
+    saveDraft(address, { ...newProposalData, savedAt });
+    setDraftSavedAt(savedAt);
+  };
+
+  const withdrawProposal = async (proposal: ResearchProposal) => {
+    if (!isConnected) { alert("Please connect wallet first"); return; }
+    setTransactionStatus({ visible: true, status: "pending", message: "Withdrawing your proposal..." });
+    try {
+      const client = await getDaoClientWithSigner();
+      await client.withdrawProposal(proposal.proposalId);
+      
+      setTransactionStatus({ visible: true, status: "success", message: "Proposal withdrawn. You can resubmit it to a later batch." });
+      setSelectedProposal(null);
+      await loadProposals();
+      setTimeout(() => setTransactionStatus({ visible: false, status: "pending", message: "" }), 2000);
+    } catch (e: any) {
+      setTransactionStatus({ visible: true, status: "error", message: "Withdrawal failed: " + (e.message || "Unknown error") });
+      setTimeout(() => setTransactionStatus({ visible: false, status: "pending", message: "" }), 3000);
+    }
+  };
+
+  const resubmitProposal = async (proposal: ResearchProposal) => {
+    if (!isConnected || !batchState) { alert("Please connect wallet first"); return; }
+    setTransactionStatus({ visible: true, status: "pending", message: `Resubmitting to batch #${batchState.currentBatchId}...` });
+    try {
+      const client = await getDaoClientWithSigner();
+      await client.resubmitProposal(proposal.proposalId);
+      
+      setTransactionStatus({ visible: true, status: "success", message: `Proposal resubmitted to batch #${batchState.currentBatchId} as v${proposal.version + 1}.` });
+      setSelectedProposal(null);
+      await loadProposals();
+      setTimeout(() => setTransactionStatus({ visible: false, status: "pending", message: "" }), 2000);
+    } catch (e: any) {
+      setTransactionStatus({ visible: true, status: "error", message: "Resubmission failed: " + (e.message || "Unknown error") });
+      setTimeout(() => setTransactionStatus({ visible: false, status: "pending", message: "" }), 3000);
+    }
+  };
+
+  const voteOnProposal = async (proposal: ResearchProposal, support: boolean) => {
     if (!isConnected) { alert("Please connect wallet first"); return; }
     setTransactionStatus({ visible: true, status: "pending", message: "Processing encrypted vote with FHE..." });
     try {
-      const contract = await getContractReadOnly();
-      if (!contract) throw new Error("Failed to get contract");
+      const client = await getDaoClientWithSigner();
+      const vote = await encryptVote(await client.getAddress(), address!, support);
+      await client.submitVote(proposal.proposalId, vote);
       
-      // Load proposal data
-      const proposalBytes = await contract.getData(`proposal_${proposalId}`);
-      if (proposalBytes.length === 0) throw new Error("Proposal not found");
-      const proposalData = JSON.parse(ethers.toUtf8String(proposalBytes));
+      setTransactionStatus({ visible: true, status: "success", message: "Encrypted ballot recorded!" });
+      await loadProposals();
+      setTimeout(() => setTransactionStatus({ visible: false, status: "pending", message: "" }), 2000);
+    } catch (e: any) {
+      setTransactionStatus({ visible: true, status: "error", message: "Voting failed: " + (e.message || "Unknown error") });
+      setTimeout(() => setTransactionStatus({ visible: false, status: "pending", message: "" }), 3000);
+    }
+  };
+
+  const changeVote = async (proposal: ResearchProposal, support: boolean) => {
+    if (!isConnected) { alert("Please connect wallet first"); return; }
+    setTransactionStatus({ visible: true, status: "pending", message: "Encrypting your updated ballot..." });
+    try {
+      const client = await getDaoClientWithSigner();
+      const vote = await encryptVote(await client.getAddress(), address!, support);
+      await client.updateVote(proposal.proposalId, vote);
       
-      // Update vote count
-      if (support) {
-        proposalData.votesFor = (proposalData.votesFor || 0) + 1;
-      } else {
-        proposalData.votesAgainst = (proposalData.votesAgainst || 0) + 1;
-      }
+      setTransactionStatus({ visible: true, status: "success", message: "Encrypted ballot updated!" });
+      await loadProposals();
+      setTimeout(() => setTransactionStatus({ visible: false, status: "pending", message: "" }), 2000);
+    } catch (e: any) {
+      setTransactionStatus({ visible: true, status: "error", message: "Vote update failed: " + (e.message || "Unknown error") });
+      setTimeout(() => setTransactionStatus({ visible: false, status: "pending", message: "" }), 3000);
+    }
+  };
+
+  const withdrawVote = async (proposal: ResearchProposal) => {
+    if (!isConnected) { alert("Please connect wallet first"); return; }
+    setTransactionStatus({ visible: true, status: "pending", message: "Withdrawing your ballot..." });
+    try {
+      const client = await getDaoClientWithSigner();
+      await client.withdrawVote(proposal.proposalId);
+      
+      setTransactionStatus({ visible: true, status: "success", message: "Ballot withdrawn." });
+      await loadProposals();
+      setTimeout(() => setTransactionStatus({ visible: false, status: "pending", message: "" }), 2000);
+    } catch (e: any) {
+      setTransactionStatus({ visible: true, status: "error", message: "Withdrawal failed: " + (e.message || "Unknown error") });
+      setTimeout(() => setTransactionStatus({ visible: false, status: "pending", message: "" }), 3000);
+    }
+  };
+
+  const voteForDelegators = async (proposal: ResearchProposal, delegators: string[], support: boolean) => {
+    if (!isConnected) { alert("Please connect wallet first"); return; }
+    setTransactionStatus({ visible: true, status: "pending", message: `Casting encrypted ballot for ${delegators.length} delegators...` });
+    try {
+      const client = await getDaoClientWithSigner();
+      const vote = await encryptVote(await client.getAddress(), address!, support);
+      await client.submitDelegatedVotes(proposal.proposalId, delegators, vote);
       
-      // Save updated proposal
-      const contractWithSigner = await getContractWithSigner();
-      if (!contractWithSigner) throw new Error("Failed to get contract with signer");
-      await contractWithSigner.setData(`proposal_${proposalId}`, ethers.toUtf8Bytes(JSON.stringify(proposalData)));
+      setTransactionStatus({ visible: true, status: "success", message: "Delegated ballots recorded!" });
+      await loadProposals();
+      setTimeout(() => setTransactionStatus({ visible: false, status: "pending", message: "" }), 2000);
+    } catch (e: any) {
+      setTransactionStatus({ visible: true, status: "error", message: "Delegated voting failed: " + (e.message || "Unknown error") });
+      setTimeout(() => setTransactionStatus({ visible: false, status: "pending", message: "" }), 3000);
+    }
+  };
+
+  const contributeToProposal = async (proposal: ResearchProposal, eth: number) => {
+    if (!isConnected) { alert("Please connect wallet first"); return; }
+    setTransactionStatus({ visible: true, status: "pending", message: "Encrypting contribution with Zama FHE..." });
+    try {
+      const client = await getDaoClientWithSigner();
+      const amount = await encryptContribution(await client.getAddress(), address!, eth);
+      await client.submitContribution(proposal.proposalId, amount);
       
-      setTransactionStatus({ visible: true, status: "success", message: `Vote ${support ? "for" : "against"} proposal recorded!` });
+      setTransactionStatus({ visible: true, status: "success", message: "Encrypted contribution recorded!" });
       await loadProposals();
       setTimeout(() => setTransactionStatus({ visible: false, status: "pending", message: "" }), 2000);
     } catch (e: any) {
-      setTransactionStatus({ visible: true, status: "error", message: "Voting failed: " + (e.message || "Unknown error") });
+      setTransactionStatus({ visible: true, status: "error", message: "Contribution failed: " + (e.message || "Unknown error") });
       setTimeout(() => setTransactionStatus({ visible: false, status: "pending", message: "" }), 3000);
     }
   };
@@ -268,86 +606,167 @@ const App: React.FC = () => {
     if (!isConnected) { alert("Please connect wallet first"); return null; }
     setIsDecrypting(true);
     try {
-      const message = `publickey:${publicKey}\ncontractAddresses:${contractAddress}\ncontractsChainId:${chainId}\nstartTimestamp:${startTimestamp}\ndurationDays:${durationDays}`;
-      await signMessageAsync({ message });
-      await new Promise(resolve => setTimeout(resolve, 1500));
-      return FHEDecryptNumber(encryptedData);
+      // Reuses the cached EIP-712 authorization while it is still valid
+      const signer = await getBrowserSigner();
+      const values = await userDecrypt(signer, [{ handle: encryptedData, contractAddress: getActiveDeployment().contractAddress }]);
+      const value = values[encryptedData];
+      if (value === undefined) {
+        setTransactionStatus({ visible: true, status: "error", message: "You are not authorized to decrypt this value" });
+        setTimeout(() => setTransactionStatus({ visible: false, status: "pending", message: "" }), 3000);
+        return null;
+      }
+      return fromBudgetUnits(BigInt(value));
     } catch (e) { console.error("Decryption failed:", e); return null; } 
     finally { setIsDecrypting(false); }
   };
 
-  const approveProposal = async (proposalId: string) => {
-    if (!isConnected) { alert("Please connect wallet first"); return; }
-    setTransactionStatus({ visible: true, status: "pending", message: "Updating proposal status..." });
+  const toggleBatch = async () => {
+    if (!isConnected || !batchState) return;
+    const opening = !batchState.batchOpen;
+    setTransactionStatus({ visible: true, status: "pending", message: opening ? "Opening new proposal batch..." : "Closing current batch..." });
     try {
-      const contract = await getContractReadOnly();
-      if (!contract) throw new Error("Failed to get contract");
+      const client = await getDaoClientWithSigner();
+      if (opening) await client.openBatch(scheduleFromDurations(submissionHours, votingHours), nextBatchMode); else await client.closeBatch();
       
-      // Load proposal data
-      const proposalBytes = await contract.getData(`proposal_${proposalId}`);
-      if (proposalBytes.length === 0) throw new Error("Proposal not found");
-      const proposalData = JSON.parse(ethers.toUtf8String(proposalBytes));
-      
-      // Update status
-      proposalData.status = "approved";
-      
-      // Save updated proposal
-      const contractWithSigner = await getContractWithSigner();
-      if (!contractWithSigner) throw new Error("Failed to get contract with signer");
-      await contractWithSigner.setData(`proposal_${proposalId}`, ethers.toUtf8Bytes(JSON.stringify(proposalData)));
-      
-      setTransactionStatus({ visible: true, status: "success", message: "Proposal approved! Research IP will be minted as NFT." });
+      setTransactionStatus({ visible: true, status: "success", message: opening ? `Batch opened for proposals (${BATCH_MODE_LABELS[nextBatchMode]}).` : "Batch closed for review." });
       await loadProposals();
       setTimeout(() => setTransactionStatus({ visible: false, status: "pending", message: "" }), 2000);
     } catch (e: any) {
-      setTransactionStatus({ visible: true, status: "error", message: "Approval failed: " + (e.message || "Unknown error") });
+      setTransactionStatus({ visible: true, status: "error", message: "Batch update failed: " + (e.message || "Unknown error") });
       setTimeout(() => setTransactionStatus({ visible: false, status: "pending", message: "" }), 3000);
     }
   };
 
-  const rejectProposal = async (proposalId: string) => {
+  const finalizeBatch = async () => {
     if (!isConnected) { alert("Please connect wallet first"); return; }
-    setTransactionStatus({ visible: true, status: "pending", message: "Updating proposal status..." });
+    setTransactionStatus({ visible: true, status: "pending", message: "Closing the batch and starting its tally..." });
     try {
-      const contract = await getContractReadOnly();
-      if (!contract) throw new Error("Failed to get contract");
+      const client = await getDaoClientWithSigner();
+      const { requestId, published } = await client.finalizeBatch();
       
-      // Load proposal data
-      const proposalBytes = await contract.getData(`proposal_${proposalId}`);
-      if (proposalBytes.length === 0) throw new Error("Proposal not found");
-      const proposalData = JSON.parse(ethers.toUtf8String(proposalBytes));
+      setTransactionStatus({ visible: true, status: "success", message: published
+        ? "Batch finalized. It had no proposals, so its empty results are published."
+        : requestId !== null
+          ? "Batch finalized. Results appear once the oracle responds."
+          : "Batch finalized. Its tally needs more transactions; continue it from the batch results." });
+      await loadProposals();
+      setTimeout(() => setTransactionStatus({ visible: false, status: "pending", message: "" }), 2000);
+    } catch (e: any) {
+      setTransactionStatus({ visible: true, status: "error", message: "Finalization failed: " + (e.message || "Unknown error") });
+      setTimeout(() => setTransactionStatus({ visible: false, status: "pending", message: "" }), 3000);
+    }
+  };
+
+  const continueTally = async (batchId: number) => {
+    if (!isConnected) { alert("Please connect wallet first"); return; }
+    setTransactionStatus({ visible: true, status: "pending", message: "Tallying the next chunk of encrypted ballots..." });
+    try {
+      const client = await getDaoClientWithSigner();
+      const { requestId, published } = await client.tallyBatch(BigInt(batchId));
       
-      // Update status
-      proposalData.status = "rejected";
+      setTransactionStatus({ visible: true, status: "success", message: published
+        ? "Tally complete. The batch had no proposals, so its empty results are published."
+        : requestId !== null
+          ? "Tally complete. Results appear once the oracle responds."
+          : "Tally advanced. Continue it until the results are requested." });
+      await loadProposals();
+      setTimeout(() => setTransactionStatus({ visible: false, status: "pending", message: "" }), 2000);
+    } catch (e: any) {
+      setTransactionStatus({ visible: true, status: "error", message: "Tally failed: " + (e.message || "Unknown error") });
+      setTimeout(() => setTransactionStatus({ visible: false, status: "pending", message: "" }), 3000);
+    }
+  };
+
+  const requestBatchResults = async (batchId: number) => {
+    if (!isConnected) { alert("Please connect wallet first"); return; }
+    setTransactionStatus({ visible: true, status: "pending", message: "Requesting decryption of the batch results..." });
+    try {
+      const client = await getDaoClientWithSigner();
+      await client.requestBatchResultDecryption(BigInt(batchId));
       
-      // Save updated proposal
-      const contractWithSigner = await getContractWithSigner();
-      if (!contractWithSigner) throw new Error("Failed to get contract with signer");
-      await contractWithSigner.setData(`proposal_${proposalId}`, ethers.toUtf8Bytes(JSON.stringify(proposalData)));
+      setTransactionStatus({ visible: true, status: "success", message: "Decryption requested. Results appear once the oracle responds." });
+      await loadProposals();
+      setTimeout(() => setTransactionStatus({ visible: false, status: "pending", message: "" }), 2000);
+    } catch (e: any) {
+      setTransactionStatus({ visible: true, status: "error", message: "Result request failed: " + (e.message || "Unknown error") });
+      setTimeout(() => setTransactionStatus({ visible: false, status: "pending", message: "" }), 3000);
+    }
+  };
+
+  const openAdminPanel = async () => {
+    setShowAdminPanel(true);
+    try {
+      const client = await getDaoClientReadOnly();
+      if (client) setScoringConfig(await client.getScoringConfig());
+    } catch (e) { console.error("Error loading scoring config:", e); }
+  };
+
+  const runAdminAction = async (pending: string, success: string, action: () => Promise<unknown>) => {
+    if (!isConnected) { alert("Please connect wallet first"); return; }
+    setTransactionStatus({ visible: true, status: "pending", message: pending });
+    try {
+      await action();
       
-      setTransactionStatus({ visible: true, status: "success", message: "Proposal rejected." });
+      setTransactionStatus({ visible: true, status: "success", message: success });
       await loadProposals();
       setTimeout(() => setTransactionStatus({ visible: false, status: "pending", message: "" }), 2000);
     } catch (e: any) {
-      setTransactionStatus({ visible: true, status: "error", message: "Rejection failed: " + (e.message || "Unknown error") });
+      setTransactionStatus({ visible: true, status: "error", message: "Admin update failed: " + (e.message || "Unknown error") });
       setTimeout(() => setTransactionStatus({ visible: false, status: "pending", message: "" }), 3000);
     }
   };
 
+  const saveScoringWeights = (impact: number, feasibility: number, novelty: number) =>
+    runAdminAction("Updating scoring weights...", "Scoring weights updated.", async () => {
+      const client = await getDaoClientWithSigner();
+      await client.setScoringWeights(impact, feasibility, novelty);
+      setScoringConfig(await client.getScoringConfig());
+    });
+
+  const saveMinCompositeScore = (threshold: number) =>
+    runAdminAction("Updating funding threshold...", "Funding threshold updated.", async () => {
+      const client = await getDaoClientWithSigner();
+      await client.setMinCompositeScore(threshold);
+      setScoringConfig(await client.getScoringConfig());
+    });
+
+  const saveBatchBudget = (batchId: number, eth: number, encrypted: boolean) =>
+    runAdminAction(encrypted ? "Encrypting batch budget with Zama FHE..." : "Setting batch budget...", `Budget cap set for batch #${batchId}.`, async () => {
+      const client = await getDaoClientWithSigner();
+      if (encrypted) {
+        const cap = await encryptBudget(await client.getAddress(), address!, eth);
+        await client.setEncryptedBatchBudget(BigInt(batchId), cap);
+      } else {
+        await client.setBatchBudget(BigInt(batchId), toBudgetUnits(eth));
+      }
+    });
+
+  const saveMatchingPool = (batchId: number, eth: number) =>
+    runAdminAction("Setting matching pool...", `Matching pool set for batch #${batchId}.`, async () => {
+      const client = await getDaoClientWithSigner();
+      await client.setMatchingPool(BigInt(batchId), toBudgetUnits(eth));
+    });
+
+  const saveBatchQuorum = (batchId: number, quorum: BatchQuorum) =>
+    runAdminAction("Setting quorum...", `Quorum and approval threshold set for batch #${batchId}.`, async () => {
+      const client = await getDaoClientWithSigner();
+      await client.setBatchQuorum(BigInt(batchId), quorum);
+    });
+
   const isProposer = (proposerAddress: string) => address?.toLowerCase() === proposerAddress.toLowerCase();
 
-  // Pagination logic
-  const totalPages = Math.ceil(filteredProposals.length / itemsPerPage);
-  const currentItems = filteredProposals.slice(
-    (currentPage - 1) * itemsPerPage,
-    currentPage * itemsPerPage
-  );
+  // Batch paging comes first, then pages within the batch
+  const shownBatchId = viewBatchId ?? (batchState ? Number(batchState.currentBatchId) : null);
+
+  // The contract already sliced the page
+  const totalPages = Math.ceil(pageTotal / itemsPerPage);
+  const currentItems = filteredProposals;
 
   const renderStats = () => {
     return (
       <div className="stats-grid">
         <div className="stat-item">
-          <div className="stat-value">{proposals.length}</div>
+          <div className="stat-value">{totalProposals}</div>
           <div className="stat-label">Total Proposals</div>
         </div>
         <div className="stat-item">
@@ -367,7 +786,7 @@ const App: React.FC = () => {
   };
 
   const renderPieChart = () => {
-    const total = proposals.length || 1;
+    const total = totalProposals || 1;
     const approvedPercentage = (approvedCount / total) * 100;
     const pendingPercentage = (pendingCount / total) * 100;
     const rejectedPercentage = (rejectedCount / total) * 100;
@@ -379,7 +798,7 @@ const App: React.FC = () => {
           <div className="pie-segment pending" style={{ transform: `rotate(${(approvedPercentage + pendingPercentage) * 3.6}deg)` }}></div>
           <div className="pie-segment rejected" style={{ transform: `rotate(${(approvedPercentage + pendingPercentage + rejectedPercentage) * 3.6}deg)` }}></div>
           <div className="pie-center">
-            <div className="pie-value">{proposals.length}</div>
+            <div className="pie-value">{totalProposals}</div>
             <div className="pie-label">Proposals</div>
           </div>
         </div>
@@ -392,6 +811,91 @@ const App: React.FC = () => {
     );
   };
 
+  const renderBatchResults = () => {
+    if (batchResults.length === 0) return <p className="no-results">No batches opened yet</p>;
+    return (
+      <div className="batch-results">
+        {batchResults.map(result => (
+          <div className="batch-result-row" key={result.batchId}>
+            <span className="batch-id">Batch #{result.batchId}</span>
+            <span className={`batch-phase ${result.phase}`}>{result.phase}</span>
+            <span>{result.proposalCount} proposals</span>
+            <span className="batch-mode">{BATCH_MODE_LABELS[result.mode]}</span>
+            {result.phase === "decrypted" ? (
+              <span>{result.approvedCount} {result.mode === "quadratic" ? "funded" : "approved"} · {result.totalFunding} ETH allocated</span>
+            ) : (
+              <span className="encrypted-total">Totals encrypted</span>
+            )}
+            <span className="batch-budget">{describeBudget(result.budget)}</span>
+            {isConnected && (result.phase === "closed" || result.phase === "tallying") && (
+              <button className="tech-button" onClick={() => continueTally(result.batchId)}>Continue Tally</button>
+            )}
+            {isAdmin && result.phase === "tallied" && (
+              <button className="tech-button" onClick={() => requestBatchResults(result.batchId)}>Request Results</button>
+            )}
+          </div>
+        ))}
+      </div>
+    );
+  };
+
+  const renderRankedResults = () => {
+    const ranked = revealedBatch.filter(p => p.rank !== null);
+    if (ranked.length === 0) return null;
+    const batchIds = [...new Set(ranked.map(p => p.batchId))].sort((a, b) => b - a);
+    return (
+      <div className="ranked-results-section">
+        <h2>Ranked Results</h2>
+        {batchIds.map(batchId => (
+          <div className="ranked-batch tech-card" key={batchId}>
+            <h3>Batch #{batchId}</h3>
+            {ranked
+              .filter(p => p.batchId === batchId)
+              .sort((a, b) => (a.rank ?? 0) - (b.rank ?? 0))
+              .map(p => (
+                <div className="ranked-row" key={p.id} onClick={() => setSelectedProposal(p)}>
+                  <span className="rank">#{(p.rank ?? 0) + 1}</span>
+                  <span className="proposal-title">{p.title}</span>
+                  <span className={`status-badge ${p.status}`}>{p.status}</span>
+                  <span className={`funded-badge ${p.funded ? "funded" : "unfunded"}`}>{p.funded ? "Funded" : "Not funded"}</span>
+                </div>
+              ))}
+          </div>
+        ))}
+      </div>
+    );
+  };
+
+  const renderMatchedResults = () => {
+    const matched = revealedBatch.filter(p => p.match !== null);
+    if (matched.length === 0) return null;
+    const batchIds = [...new Set(matched.map(p => p.batchId))].sort((a, b) => b - a);
+    return (
+      <div className="ranked-results-section">
+        <h2>Quadratic Funding Results</h2>
+        {batchIds.map(batchId => {
+          const pool = batchResults.find(r => r.batchId === batchId)?.matchingPool ?? 0;
+          return (
+            <div className="ranked-batch tech-card" key={batchId}>
+              <h3>Batch #{batchId} · Matching pool {pool} ETH</h3>
+              {matched
+                .filter(p => p.batchId === batchId)
+                .sort((a, b) => (b.match?.matched ?? 0) - (a.match?.matched ?? 0))
+                .map(p => (
+                  <div className="ranked-row match-row" key={p.id} onClick={() => setSelectedProposal(p)}>
+                    <span className="proposal-title">{p.title}</span>
+                    <span>{p.match!.contributors} contributors</span>
+                    <span>{p.match!.contributed} ETH contributed</span>
+                    <span className="matched-amount">+{p.match!.matched} ETH matched</span>
+                  </div>
+                ))}
+            </div>
+          );
+        })}
+      </div>
+    );
+  };
+
   if (loading) return (
     <div className="loading-screen">
       <div className="tech-spinner"></div>
@@ -407,9 +911,19 @@ const App: React.FC = () => {
           <h1>Science<span>DAO</span></h1>
         </div>
         <div className="header-actions">
-          <button onClick={() => setShowCreateModal(true)} className="create-proposal-btn tech-button">
+          <button onClick={openCreateModal} className="create-proposal-btn tech-button">
             <div className="add-icon"></div>Submit Proposal
           </button>
+          <div className="view-tabs">
+            {APP_VIEWS.filter(view => !view.adminOnly || isAdmin).map(view => (
+              <button key={view.id} className={`tech-button ${activeView === view.id ? "active" : ""}`} onClick={() => setActiveView(view.id)}>
+                {view.label}
+              </button>
+            ))}
+          </div>
+          {isAdmin && (
+            <button className="tech-button" onClick={openAdminPanel}>Admin</button>
+          )}
           <button className="tech-button" onClick={() => setShowFAQ(!showFAQ)}>
             {showFAQ ? "Hide FAQ" : "Show FAQ"}
           </button>
@@ -418,6 +932,8 @@ const App: React.FC = () => {
       </header>
 
       <div className="main-content">
+        <NetworkNotice />
+
         <div className="welcome-banner">
           <div className="welcome-text">
             <h2>Decentralized Research Funding</h2>
@@ -440,122 +956,215 @@ const App: React.FC = () => {
           </div>
         )}
 
-        <div className="dashboard-grid">
-          <div className="dashboard-card tech-card">
-            <h3>Science DAO Overview</h3>
-            <p>A decentralized autonomous organization for funding scientific research using <strong>Zama FHE technology</strong> to ensure private voting and secure budget management.</p>
-            <div className="fhe-badge"><span>FHE-Powered Voting</span></div>
-          </div>
+        {activeView === "myVotes" && <MyVotesPanel userAddress={address} />}
+
+        {activeView === "delegation" && <DelegationPanel userAddress={address} />}
+
+        {activeView === "members" && isAdmin && <MembersPanel userAddress={address} />}
+
+        {activeView === "portfolio" && <IPPortfolio />}
+
+        {activeView === "licensing" && <LicensingPanel userAddress={address} />}
+
+        {activeView === "proposals" && (
+          <>
+            <div className="dashboard-grid">
+              <div className="dashboard-card tech-card">
+                <h3>Science DAO Overview</h3>
+                <p>A decentralized autonomous organization for funding scientific research using <strong>Zama FHE technology</strong> to ensure private voting and secure budget management.</p>
+                <div className="fhe-badge"><span>FHE-Powered Voting</span></div>
+              </div>
           
-          <div className="dashboard-card tech-card">
-            <h3>Funding Statistics</h3>
-            {renderStats()}
-          </div>
+              <div className="dashboard-card tech-card">
+                <h3>Funding Statistics</h3>
+                {renderStats()}
+              </div>
           
-          <div className="dashboard-card tech-card">
-            <h3>Proposal Status Distribution</h3>
-            {renderPieChart()}
-          </div>
-        </div>
+              <div className="dashboard-card tech-card">
+                <h3>Proposal Status Distribution</h3>
+                {renderPieChart()}
+              </div>
 
-        <div className="proposals-section">
-          <div className="section-header">
-            <h2>Research Proposals</h2>
-            <div className="header-actions">
-              <div className="search-filter">
-                <input 
-                  type="text" 
-                  placeholder="Search proposals..." 
-                  value={searchTerm}
-                  onChange={(e) => setSearchTerm(e.target.value)}
-                  className="tech-input"
-                />
-                <select 
-                  value={statusFilter} 
-                  onChange={(e) => setStatusFilter(e.target.value)}
-                  className="tech-select"
-                >
-                  <option value="all">All Status</option>
-                  <option value="pending">Pending</option>
-                  <option value="approved">Approved</option>
-                  <option value="rejected">Rejected</option>
-                </select>
+              <div className="dashboard-card tech-card">
+                <h3>Batch Results</h3>
+                {renderBatchResults()}
               </div>
-              <button onClick={loadProposals} className="refresh-btn tech-button" disabled={isRefreshing}>
-                {isRefreshing ? "Refreshing..." : "Refresh"}
-              </button>
             </div>
-          </div>
 
-          <div className="proposals-list tech-card">
-            <div className="table-header">
-              <div className="header-cell">Title</div>
-              <div className="header-cell">Category</div>
-              <div className="header-cell">Proposer</div>
-              <div className="header-cell">Date</div>
-              <div className="header-cell">Status</div>
-              <div className="header-cell">Votes</div>
-              <div className="header-cell">Actions</div>
-            </div>
+            {renderRankedResults()}
 
-            {currentItems.length === 0 ? (
-              <div className="no-proposals">
-                <div className="no-proposals-icon"></div>
-                <p>No research proposals found</p>
-                <button className="tech-button primary" onClick={() => setShowCreateModal(true)}>Submit First Proposal</button>
-              </div>
-            ) : currentItems.map(proposal => (
-              <div className="proposal-row" key={proposal.id} onClick={() => setSelectedProposal(proposal)}>
-                <div className="table-cell proposal-title">{proposal.title}</div>
-                <div className="table-cell">{proposal.category}</div>
-                <div className="table-cell">{proposal.proposer.substring(0, 6)}...{proposal.proposer.substring(38)}</div>
-                <div className="table-cell">{new Date(proposal.timestamp * 1000).toLocaleDateString()}</div>
-                <div className="table-cell"><span className={`status-badge ${proposal.status}`}>{proposal.status}</span></div>
-                <div className="table-cell">{proposal.votesFor} / {proposal.votesAgainst}</div>
-                <div className="table-cell actions">
-                  {!isProposer(proposal.proposer) && proposal.status === "pending" && (
+            {renderMatchedResults()}
+
+            <div className="proposals-section">
+              <div className="section-header">
+                <h2>Research Proposals</h2>
+                <div className="header-actions">
+                  <div className="search-filter">
+                    <input 
+                      type="text" 
+                      placeholder={getIndexer() ? "Search proposals..." : "Search this page..."} 
+                      value={searchTerm}
+                      onChange={(e) => setSearchTerm(e.target.value)}
+                      className="tech-input"
+                    />
+                    <select 
+                      value={listFilter} 
+                      onChange={(e) => changeListFilter(e.target.value as ProposalListFilter)}
+                      className="tech-select"
+                    >
+                      <option value="batch">By Batch</option>
+                      <option value="mine" disabled={!address}>My Proposals</option>
+                      {PROPOSAL_STATUSES.map(status => (
+                        <option value={status} key={status}>{PROPOSAL_STATUS_LABELS[status]}</option>
+                      ))}
+                    </select>
+                  </div>
+                  {listFilter === "batch" && batchState && shownBatchId !== null && (
+                    <div className="batch-pager">
+                      <button className="tech-button" disabled={shownBatchId <= FIRST_BATCH_ID} onClick={() => changeViewBatch(shownBatchId - 1)}>
+                        ‹ Batch
+                      </button>
+                      <span>Batch #{shownBatchId}{shownBatchId === Number(batchState.currentBatchId) && " (current)"}</span>
+                      <button className="tech-button" disabled={shownBatchId >= Number(batchState.currentBatchId)} onClick={() => changeViewBatch(shownBatchId + 1)}>
+                        Batch ›
+                      </button>
+                    </div>
+                  )}
+                  {batchState && currentStage && (
+                    <span className="batch-indicator">
+                      Batch #{batchState.currentBatchId.toString()} · {describeStage(currentStage)}
+                    </span>
+                  )}
+                  {isConnected && currentStage?.stage === "finalizing" && (
+                    <button onClick={finalizeBatch} className="tech-button primary">Finalize Batch</button>
+                  )}
+                  {isAdmin && batchState && !batchState.batchOpen && (
                     <>
-                      <button className="action-btn tech-button success" onClick={(e) => { e.stopPropagation(); voteOnProposal(proposal.id, true); }}>Vote For</button>
-                      <button className="action-btn tech-button danger" onClick={(e) => { e.stopPropagation(); voteOnProposal(proposal.id, false); }}>Vote Against</button>
+                      <select value={nextBatchMode} onChange={(e) => setNextBatchMode(e.target.value as BatchMode)} className="tech-select">
+                        <option value="approval">{BATCH_MODE_LABELS.approval}</option>
+                        <option value="quadratic">{BATCH_MODE_LABELS.quadratic}</option>
+                      </select>
+                      <label className="phase-duration">
+                        Submissions (h)
+                        <input type="number" value={submissionHours} min="1" step="1" className="tech-input"
+                          onChange={(e) => setSubmissionHours(Math.max(1, Number(e.target.value) || 0))} />
+                      </label>
+                      <label className="phase-duration">
+                        Voting (h)
+                        <input type="number" value={votingHours} min="1" step="1" className="tech-input"
+                          onChange={(e) => setVotingHours(Math.max(1, Number(e.target.value) || 0))} />
+                      </label>
                     </>
                   )}
-                  {isProposer(proposal.proposer) && proposal.status === "pending" && (
-                    <span className="proposer-badge">Your Proposal</span>
+                  {isAdmin && batchState && (
+                    <button onClick={toggleBatch} className="tech-button">
+                      {batchState.batchOpen ? "Close Batch" : "Open New Batch"}
+                    </button>
                   )}
+                  <button onClick={loadProposals} className="refresh-btn tech-button" disabled={isRefreshing}>
+                    {isRefreshing ? "Refreshing..." : "Refresh"}
+                  </button>
                 </div>
               </div>
-            ))}
-          </div>
 
-          {totalPages > 1 && (
-            <div className="pagination">
-              <button 
-                className="tech-button" 
-                disabled={currentPage === 1}
-                onClick={() => setCurrentPage(currentPage - 1)}
-              >
-                Previous
-              </button>
-              <span>Page {currentPage} of {totalPages}</span>
-              <button 
-                className="tech-button"
-                disabled={currentPage === totalPages}
-                onClick={() => setCurrentPage(currentPage + 1)}
-              >
-                Next
-              </button>
+              <div className="proposals-list tech-card">
+                <div className="table-header">
+                  <div className="header-cell">Title</div>
+                  <div className="header-cell">Category</div>
+                  <div className="header-cell">Provider</div>
+                  <div className="header-cell">Date</div>
+                  <div className="header-cell">Status</div>
+                  <div className="header-cell">Phase</div>
+                  <div className="header-cell">Ballots</div>
+                  <div className="header-cell">Actions</div>
+                </div>
+
+                {currentItems.length === 0 ? (
+                  <div className="no-proposals">
+                    <div className="no-proposals-icon"></div>
+                    <p>No research proposals found</p>
+                    <button className="tech-button primary" onClick={openCreateModal}>Submit First Proposal</button>
+                  </div>
+                ) : currentItems.map(proposal => {
+                  const stage = stageOfBatch(proposal.batchId);
+                  const voting = stage.stage === "voting" && proposal.status === "pending" && !proposal.withdrawn;
+                  const lifecycle = lifecycleOf(proposal);
+                  return (
+                    <div className="proposal-row" key={proposal.id} onClick={() => setSelectedProposal(proposal)}>
+                      <div className="table-cell proposal-title">{proposal.title}</div>
+                      <div className="table-cell">{proposal.category}</div>
+                      <div className="table-cell">{proposal.provider.substring(0, 6)}...{proposal.provider.substring(38)}</div>
+                      <div className="table-cell">{new Date(proposal.timestamp * 1000).toLocaleDateString()}</div>
+                      <div className="table-cell">
+                        <span className={`status-badge ${lifecycle}`}>{LIFECYCLE_LABELS[lifecycle]}</span>
+                        {proposal.version > 1 && <span className="version-badge">v{proposal.version}</span>}
+                        {proposal.quorumFailed && <span className="quorum-badge">No quorum</span>}
+                      </div>
+                      <div className="table-cell">
+                        <span className={`stage-badge ${stage.stage}`}>{STAGE_LABELS[stage.stage]}</span>
+                        {stage.secondsLeft !== null && <span className="stage-countdown">{formatCountdown(stage.secondsLeft)} left</span>}
+                      </div>
+                      <div className="table-cell">{proposal.voteCount}</div>
+                      <div className="table-cell actions">
+                        {isVoter && !isProposer(proposal.provider) && voting && proposal.batchMode === "quadratic" && (
+                          <span className="contribute-hint">Open to contribute</span>
+                        )}
+                        {hasVoted(proposal) && <span className="voted-badge">Voted</span>}
+                        {isVoter && !isProposer(proposal.provider) && voting && proposal.batchMode === "approval" && !hasVoted(proposal) && (
+                          <>
+                            <button className="action-btn tech-button success" onClick={(e) => { e.stopPropagation(); voteOnProposal(proposal, true); }}>Vote For</button>
+                            <button className="action-btn tech-button danger" onClick={(e) => { e.stopPropagation(); voteOnProposal(proposal, false); }}>Vote Against</button>
+                          </>
+                        )}
+                        {isProposer(proposal.provider) && proposal.status === "pending" && !proposal.withdrawn && (
+                          <span className="proposer-badge">Your Proposal</span>
+                        )}
+                      </div>
+                    </div>
+                  );
+                })}
+              </div>
+
+              {totalPages > 1 && (
+                <div className="pagination">
+                  <button 
+                    className="tech-button" 
+                    disabled={currentPage === 1}
+                    onClick={() => setCurrentPage(currentPage - 1)}
+                  >
+                    Previous
+                  </button>
+                  <span>Page {currentPage} of {totalPages} · {pageTotal} proposals</span>
+                  <button 
+                    className="tech-button"
+                    disabled={currentPage === totalPages}
+                    onClick={() => setCurrentPage(currentPage + 1)}
+                  >
+                    Next
+                  </button>
+                </div>
+              )}
             </div>
-          )}
-        </div>
+          </>
+        )}
       </div>
 
       {showCreateModal && (
         <ModalCreate 
           onSubmit={submitProposal} 
-          onClose={() => setShowCreateModal(false)} 
+          onClose={closeCreateModal} 
           creating={creating} 
           proposalData={newProposalData} 
           setProposalData={setNewProposalData}
+          amending={amendingProposal}
+          amendmentNote={amendmentNote}
+          setAmendmentNote={setAmendmentNote}
+          onSaveDraft={saveProposalDraft}
+          draftSavedAt={draftSavedAt}
+          attachments={attachments}
+          setAttachments={setAttachments}
+          keptAttachments={keptAttachments}
+          setKeptAttachments={setKeptAttachments}
         />
       )}
 
@@ -567,9 +1176,38 @@ const App: React.FC = () => {
           setDecryptedBudget={setDecryptedBudget}
           isDecrypting={isDecrypting}
           decryptWithSignature={decryptWithSignature}
-          isProposer={isProposer(selectedProposal.proposer)}
-          onApprove={approveProposal}
-          onReject={rejectProposal}
+          isProposer={isProposer(selectedProposal.provider)}
+          isVoter={isVoter}
+          hasVoted={hasVoted(selectedProposal)}
+          stage={stageOfBatch(selectedProposal.batchId)}
+          lifecycle={lifecycleOf(selectedProposal)}
+          currentBatch={batchState && batchState.batchOpen && currentStage ? { batchId: Number(batchState.currentBatchId), stage: currentStage.stage } : null}
+          votingStartOf={votingStartOf}
+          now={now}
+          quorum={batchResults.find(r => r.batchId === selectedProposal.batchId)?.quorum ?? null}
+          onVote={voteOnProposal}
+          onChangeVote={changeVote}
+          onWithdrawVote={withdrawVote}
+          onContribute={contributeToProposal}
+          onDelegatedVote={voteForDelegators}
+          onAmend={openAmendModal}
+          onWithdraw={withdrawProposal}
+          onResubmit={resubmitProposal}
+          userAddress={address}
+        />
+      )}
+
+      {showAdminPanel && (
+        <AdminPanelModal
+          onClose={() => setShowAdminPanel(false)}
+          batchState={batchState}
+          batchResults={batchResults}
+          scoringConfig={scoringConfig}
+          onSaveWeights={saveScoringWeights}
+          onSaveThreshold={saveMinCompositeScore}
+          onSetBudget={saveBatchBudget}
+          onSetMatchingPool={saveMatchingPool}
+          onSetQuorum={saveBatchQuorum}
         />
       )}
 
@@ -614,9 +1252,21 @@ interface ModalCreateProps {
   creating: boolean;
   proposalData: any;
   setProposalData: (data: any) => void;
+  amending: ResearchProposal | null;
+  amendmentNote: string;
+  setAmendmentNote: (note: string) => void;
+  onSaveDraft: () => void;
+  draftSavedAt: number | null;
+  attachments: File[];
+  setAttachments: (files: File[]) => void;
+  keptAttachments: ProposalAttachment[];
+  setKeptAttachments: (attachments: ProposalAttachment[]) => void;
 }
 
-const ModalCreate: React.FC<ModalCreateProps> = ({ onSubmit, onClose, creating, proposalData, setProposalData }) => {
+const ModalCreate: React.FC<ModalCreateProps> = ({
+  onSubmit, onClose, creating, proposalData, setProposalData, amending, amendmentNote, setAmendmentNote, onSaveDraft, draftSavedAt,
+  attachments, setAttachments, keptAttachments, setKeptAttachments
+}) => {
   const handleChange = (e: React.ChangeEvent<HTMLInputElement | HTMLSelectElement | HTMLTextAreaElement>) => {
     const { name, value } = e.target;
     setProposalData({ ...proposalData, [name]: value });
@@ -627,6 +1277,17 @@ const ModalCreate: React.FC<ModalCreateProps> = ({ onSubmit, onClose, creating,
     setProposalData({ ...proposalData, [name]: parseFloat(value) });
   };
 
+  const handleScoreChange = (e: React.ChangeEvent<HTMLInputElement>) => {
+    const { name, value } = e.target;
+    const score = Math.min(100, Math.max(0, Math.round(Number(value) || 0)));
+    setProposalData({ ...proposalData, [name]: score });
+  };
+
+  const handleFiles = (e: React.ChangeEvent<HTMLInputElement>) => {
+    setAttachments([...attachments, ...Array.from(e.target.files ?? [])]);
+    e.target.value = "";
+  };
+
   const handleSubmit = () => {
     if (!proposalData.title || !proposalData.category || !proposalData.budget) { 
       alert("Please fill required fields"); 
@@ -639,7 +1300,7 @@ const ModalCreate: React.FC<ModalCreateProps> = ({ onSubmit, onClose, creating,
     <div className="modal-overlay">
       <div className="create-modal tech-card">
         <div className="modal-header">
-          <h2>Submit Research Proposal</h2>
+          <h2>{amending ? `Amend Proposal (v${amending.version} → v${amending.version + 1})` : "Submit Research Proposal"}</h2>
           <button onClick={onClose} className="close-modal">&times;</button>
         </div>
         <div className="modal-body">
@@ -647,9 +1308,16 @@ const ModalCreate: React.FC<ModalCreateProps> = ({ onSubmit, onClose, creating,
             <div className="key-icon"></div> 
             <div>
               <strong>FHE Encryption Notice</strong>
-              <p>Your research budget will be encrypted with Zama FHE before submission</p>
+              <p>Your research budget and self-assessed scores will be encrypted with Zama FHE before submission. The description and attachments go to the content store and only their hash is recorded on-chain.</p>
             </div>
           </div>
+
+          {amending && (
+            <p className="admin-hint">An amendment replaces every value of your proposal, so re-enter the budget and scores. Ballots are only cast after the submission phase, so none are lost.</p>
+          )}
+          {!amending && draftSavedAt !== null && (
+            <p className="admin-hint">Draft saved {new Date(draftSavedAt * 1000).toLocaleString()}. Drafts stay in this browser and are never sent on-chain.</p>
+          )}
           
           <div className="form-grid">
             <div className="form-group">
@@ -668,28 +1336,44 @@ const ModalCreate: React.FC<ModalCreateProps> = ({ onSubmit, onClose, creating,
               <label>Research Category *</label>
               <select name="category" value={proposalData.category} onChange={handleChange} className="tech-select">
                 <option value="">Select category</option>
-                <option value="Biology">Biology</option>
-                <option value="Physics">Physics</option>
-                <option value="Chemistry">Chemistry</option>
-                <option value="Medicine">Medicine</option>
-                <option value="Computer Science">Computer Science</option>
-                <option value="Engineering">Engineering</option>
-                <option value="Mathematics">Mathematics</option>
-                <option value="Other">Other</option>
+                {RESEARCH_CATEGORIES.map(category => <option value={category} key={category}>{category}</option>)}
               </select>
             </div>
             
             <div className="form-group full-width">
-              <label>Research Description</label>
+              <label>Research Description (Markdown)</label>
               <textarea 
                 name="description" 
                 value={proposalData.description} 
                 onChange={handleChange} 
                 placeholder="Describe your research project, methodology, and expected outcomes..."
                 className="tech-textarea"
-                rows={4}
+                rows={8}
               />
             </div>
+
+            <div className="form-group full-width">
+              <label>Attachments</label>
+              <input type="file" multiple onChange={handleFiles} className="tech-input" />
+              {(keptAttachments.length > 0 || attachments.length > 0) && (
+                <ul className="attachment-list">
+                  {keptAttachments.map((attachment, index) => (
+                    <li key={attachment.hash}>
+                      <span>{attachment.name}</span>
+                      <span className="attachment-size">{formatBytes(attachment.size)} · kept from v{amending?.version}</span>
+                      <button className="tech-button" onClick={() => setKeptAttachments(keptAttachments.filter((_, i) => i !== index))}>Remove</button>
+                    </li>
+                  ))}
+                  {attachments.map((file, index) => (
+                    <li key={`${file.name}-${index}`}>
+                      <span>{file.name}</span>
+                      <span className="attachment-size">{formatBytes(file.size)}</span>
+                      <button className="tech-button" onClick={() => setAttachments(attachments.filter((_, i) => i !== index))}>Remove</button>
+                    </li>
+                  ))}
+                </ul>
+              )}
+            </div>
             
             <div className="form-group">
               <label>Funding Request (ETH) *</label>
@@ -704,6 +1388,61 @@ const ModalCreate: React.FC<ModalCreateProps> = ({ onSubmit, onClose, creating,
                 min="0"
               />
             </div>
+            
+            <div className="form-group">
+              <label>Impact Score (0-100)</label>
+              <input 
+                type="number" 
+                name="impactScore" 
+                value={proposalData.impactScore} 
+                onChange={handleScoreChange} 
+                className="tech-input"
+                step="1"
+                min="0"
+                max="100"
+              />
+            </div>
+            
+            <div className="form-group">
+              <label>Feasibility Score (0-100)</label>
+              <input 
+                type="number" 
+                name="feasibilityScore" 
+                value={proposalData.feasibilityScore} 
+                onChange={handleScoreChange} 
+                className="tech-input"
+                step="1"
+                min="0"
+                max="100"
+              />
+            </div>
+            
+            <div className="form-group">
+              <label>Novelty Score (0-100)</label>
+              <input 
+                type="number" 
+                name="noveltyScore" 
+                value={proposalData.noveltyScore} 
+                onChange={handleScoreChange} 
+                className="tech-input"
+                step="1"
+                min="0"
+                max="100"
+              />
+            </div>
+
+            {amending && (
+              <div className="form-group full-width">
+                <label>Amendment Note</label>
+                <input
+                  type="text"
+                  value={amendmentNote}
+                  onChange={(e) => setAmendmentNote(e.target.value)}
+                  placeholder="What changed in this version..."
+                  className="tech-input"
+                />
+              </div>
+            )}
           </div>
           
           <div className="encryption-preview">
@@ -716,7 +1455,7 @@ const ModalCreate: React.FC<ModalCreateProps> = ({ onSubmit, onClose, creating,
               <div className="encryption-arrow">→</div>
               <div className="encrypted-data">
                 <span>Encrypted Data:</span>
-                <div>{proposalData.budget ? FHEEncryptNumber(proposalData.budget).substring(0, 50) + '...' : 'No value entered'}</div>
+                <div>{proposalData.budget ? `euint32(${Math.round(proposalData.budget * BUDGET_SCALE)} milli-ETH) + input proof` : 'No value entered'}</div>
               </div>
             </div>
           </div>
@@ -732,8 +1471,11 @@ const ModalCreate: React.FC<ModalCreateProps> = ({ onSubmit, onClose, creating,
         
         <div className="modal-footer">
           <button onClick={onClose} className="cancel-btn tech-button">Cancel</button>
+          {!amending && (
+            <button onClick={onSaveDraft} disabled={creating} className="tech-button">Save Draft</button>
+          )}
           <button onClick={handleSubmit} disabled={creating} className="submit-btn tech-button primary">
-            {creating ? "Encrypting with FHE..." : "Submit Proposal"}
+            {creating ? "Encrypting with FHE..." : amending ? "Submit Amendment" : "Submit Proposal"}
           </button>
         </div>
       </div>
@@ -749,22 +1491,178 @@ interface ProposalDetailModalProps {
   isDecrypting: boolean;
   decryptWithSignature: (encryptedData: string) => Promise<number | null>;
   isProposer: boolean;
-  onApprove: (proposalId: string) => void;
-  onReject: (proposalId: string) => void;
+  isVoter: boolean;
+  hasVoted: boolean;
+  stage: StageCountdown;
+  lifecycle: LifecycleState;
+  currentBatch: { batchId: number; stage: VotingStage } | null; // Only while a batch is open
+  votingStartOf: (batchId: bigint) => number | null;
+  now: number;
+  quorum: BatchQuorum | null;
+  onVote: (proposal: ResearchProposal, support: boolean) => void;
+  onChangeVote: (proposal: ResearchProposal, support: boolean) => void;
+  onWithdrawVote: (proposal: ResearchProposal) => void;
+  onContribute: (proposal: ResearchProposal, eth: number) => void;
+  onDelegatedVote: (proposal: ResearchProposal, delegators: string[], support: boolean) => void;
+  onAmend: (proposal: ResearchProposal) => void;
+  onWithdraw: (proposal: ResearchProposal) => void;
+  onResubmit: (proposal: ResearchProposal) => void;
+  userAddress?: string;
 }
 
 const ProposalDetailModal: React.FC<ProposalDetailModalProps> = ({
-  proposal, onClose, decryptedBudget, setDecryptedBudget, isDecrypting, decryptWithSignature, isProposer, onApprove, onReject
+  proposal, onClose, decryptedBudget, setDecryptedBudget, isDecrypting, decryptWithSignature, isProposer, isVoter, hasVoted, stage, lifecycle,
+  currentBatch, votingStartOf, now, quorum, onVote, onChangeVote, onWithdrawVote, onContribute, onDelegatedVote, onAmend, onWithdraw, onResubmit, userAddress
 }) => {
+  // The paginated views leave the ciphertext handles out, so the budget handle is read on its own
+  const [fundingHandle, setFundingHandle] = useState<string | null>(null);
+  useEffect(() => {
+    setFundingHandle(null);
+    const loadFundingHandle = async () => {
+      try {
+        const dao = await getDaoClientReadOnly();
+        if (!dao) return;
+        setFundingHandle((await dao.getProposal(proposal.proposalId)).fundingAmount);
+      } catch (e) { console.error("Error loading encrypted budget:", e); }
+    };
+    loadFundingHandle();
+  }, [proposal.id]);
+
   const handleDecrypt = async () => {
     if (decryptedBudget !== null) { 
       setDecryptedBudget(null); 
       return; 
     }
-    const decrypted = await decryptWithSignature(proposal.encryptedBudget);
+    if (!fundingHandle) return;
+    const decrypted = await decryptWithSignature(fundingHandle);
     if (decrypted !== null) setDecryptedBudget(decrypted);
   };
 
+  const [voterWeight, setVoterWeight] = useState<VoterWeight | null>(null);
+  const [delegating, setDelegating] = useState(false);
+  const [contribution, setContribution] = useState(0);
+  // Proposers never review or fund their own proposal, the contract rejects it as a self-vote
+  const inVoting = stage.stage === "voting" && proposal.status === "pending" && !proposal.withdrawn;
+  const canVote = isVoter && !isProposer && inVoting && proposal.batchMode === "approval";
+  const canContribute = isVoter && !isProposer && inVoting && proposal.batchMode === "quadratic";
+
+  const [myVote, setMyVote] = useState<StoredVote | null>(null);
+  const [participation, setParticipation] = useState<ProposalParticipation | null>(null);
+  const [delegators, setDelegators] = useState<string[]>([]);
+  const [myDelegate, setMyDelegate] = useState<string | null>(null);
+  const votingOpen = canVote;
+  const [timeline, setTimeline] = useState<TimelineEntry[]>([]);
+  const [content, setContent] = useState<VerifiedContent<ProposalContent> | null>(null);
+  const [downloadMessage, setDownloadMessage] = useState<string | null>(null);
+
+  // Amendments only during the submission phase, withdrawal until voting ends, resubmission of
+  // withdrawn or rejected proposals into a later batch that still accepts submissions
+  const inCurrentBatch = !!currentBatch && currentBatch.batchId === proposal.batchId;
+  const canAmend = isProposer && inCurrentBatch && currentBatch!.stage === "submission" && !proposal.withdrawn;
+  const canWithdraw = isProposer && inCurrentBatch && (currentBatch!.stage === "submission" || currentBatch!.stage === "voting") && !proposal.withdrawn;
+  const canResubmit = isProposer && !!currentBatch && currentBatch.stage === "submission" && currentBatch.batchId > proposal.batchId &&
+    (proposal.withdrawn || proposal.status === "rejected");
+
+  const loadTimeline = async () => {
+    try {
+      const dao = await getDaoClientReadOnly();
+      if (!dao) return;
+      const indexer = getIndexer();
+      const history = indexer ? await indexer.getProposalHistory(proposal.provider) : await dao.getProposalHistory(proposal.provider, scanFromBlock());
+      setTimeline(buildTimeline(history, proposal.proposalId, votingStartOf, proposal, now));
+    } catch (e) { console.error("Error loading proposal history:", e); }
+  };
+
+  const loadVoterWeight = async () => {
+    if (!userAddress || !canVote) return;
+    try {
+      const [dao, token] = await Promise.all([getDaoClientReadOnly(), getGovernanceTokenClientReadOnly()]);
+      if (!dao) return;
+      const [weight, vote] = await Promise.all([
+        getVoterWeight(dao, token, BigInt(proposal.batchId), userAddress),
+        dao.getVote(proposal.proposalId, userAddress)
+      ]);
+      setVoterWeight(weight);
+      setMyVote(vote.exists ? vote : null);
+    } catch (e) { console.error("Error loading voting weight:", e); }
+  };
+
+  // Only counts are read; who voted which way stays encrypted
+  const loadParticipation = async () => {
+    if (proposal.batchMode !== "approval") return;
+    try {
+      const dao = await getDaoClientReadOnly();
+      if (dao) setParticipation(await dao.getProposalParticipation(proposal.proposalId));
+    } catch (e) { console.error("Error loading quorum progress:", e); }
+  };
+
+  const loadDelegationState = async () => {
+    if (!userAddress || !votingOpen) return;
+    try {
+      const dao = await getDaoClientReadOnly();
+      if (!dao) return;
+      const delegations = await loadDelegations(dao, scanFromBlock());
+      setDelegators(delegatorsOf(delegations, userAddress, proposal.category).filter(d => d.toLowerCase() !== proposal.provider.toLowerCase()));
+      setMyDelegate(effectiveDelegate(delegations, userAddress, proposal.category));
+    } catch (e) { console.error("Error loading delegations:", e); }
+  };
+
+  useEffect(() => {
+    loadVoterWeight();
+    loadDelegationState();
+    loadParticipation();
+  }, [proposal.id, userAddress, hasVoted]);
+
+  useEffect(() => {
+    loadTimeline();
+  }, [proposal.id, lifecycle]);
+
+  // The store is never trusted: content only shows once it hashes to what the chain recorded
+  const loadContent = async () => {
+    setContent(null);
+    if (!hasContent(proposal.contentHash)) return;
+    try {
+      setContent(await loadProposalContent(getContentStore(), proposal.contentHash));
+    } catch (e) {
+      console.error("Error loading proposal content:", e);
+      setContent({ integrity: "missing", value: null });
+    }
+  };
+
+  useEffect(() => {
+    loadContent();
+  }, [proposal.id, proposal.contentHash]);
+
+  const downloadAttachment = async (attachment: ProposalAttachment) => {
+    setDownloadMessage(null);
+    try {
+      const { integrity, value } = await getVerified(getContentStore(), attachment.hash);
+      if (!value) { setDownloadMessage(`${attachment.name}: ${INTEGRITY_LABELS[integrity]}`); return; }
+      const url = URL.createObjectURL(new Blob([new Uint8Array(value)], { type: attachment.mimeType }));
+      const link = document.createElement("a");
+      link.href = url;
+      link.download = attachment.name;
+      link.click();
+      URL.revokeObjectURL(url);
+    } catch (e: any) {
+      setDownloadMessage(`${attachment.name}: download failed (${e.message || "Unknown error"})`);
+    }
+  };
+
+  // Only a ballot the user cast themselves can be updated; one their delegate cast can still be withdrawn or overridden
+  const ownBallot = !!myVote && !!userAddress && myVote.castBy.toLowerCase() === userAddress.toLowerCase();
+
+  const delegateToSelf = async () => {
+    if (!userAddress) return;
+    setDelegating(true);
+    try {
+      const token = await getGovernanceTokenClientWithSigner();
+      await token.delegate(userAddress);
+      await loadVoterWeight();
+    } catch (e) { console.error("Delegation failed:", e); }
+    finally { setDelegating(false); }
+  };
+
   return (
     <div className="modal-overlay">
       <div className="proposal-detail-modal tech-card">
@@ -776,25 +1674,118 @@ const ProposalDetailModal: React.FC<ProposalDetailModalProps> = ({
         <div className="modal-body">
           <div className="proposal-info">
             <div className="info-item"><span>Category:</span><strong>{proposal.category}</strong></div>
-            <div className="info-item"><span>Proposer:</span><strong>{proposal.proposer.substring(0, 6)}...{proposal.proposer.substring(38)}</strong></div>
+            <div className="info-item"><span>Provider:</span><strong>{proposal.provider.substring(0, 6)}...{proposal.provider.substring(38)}</strong></div>
+            <div className="info-item"><span>Proposal:</span><strong>#{proposal.id}</strong></div>
+            <div className="info-item"><span>Batch:</span><strong>#{proposal.batchId}</strong></div>
             <div className="info-item"><span>Submitted:</span><strong>{new Date(proposal.timestamp * 1000).toLocaleString()}</strong></div>
-            <div className="info-item"><span>Status:</span><strong className={`status-badge ${proposal.status}`}>{proposal.status}</strong></div>
-            <div className="info-item"><span>Votes For:</span><strong>{proposal.votesFor}</strong></div>
-            <div className="info-item"><span>Votes Against:</span><strong>{proposal.votesAgainst}</strong></div>
+            <div className="info-item"><span>Status:</span><strong className={`status-badge ${lifecycle}`}>{LIFECYCLE_LABELS[lifecycle]}</strong></div>
+            <div className="info-item"><span>Version:</span><strong>v{proposal.version}</strong></div>
+            <div className="info-item"><span>Phase:</span><strong>{describeStage(stage)}</strong></div>
+            <div className="info-item"><span>Encrypted Ballots:</span><strong>{proposal.voteCount}</strong></div>
+            {proposal.match && (
+              <>
+                <div className="info-item"><span>Contributed:</span><strong>{proposal.match.contributed} ETH from {proposal.match.contributors} members</strong></div>
+                <div className="info-item"><span>Matched:</span><strong>{proposal.match.matched} ETH</strong></div>
+              </>
+            )}
+            {proposal.approvalCount !== null && (
+              <div className="info-item"><span>Approving Weight:</span><strong>{proposal.approvalCount} of {proposal.totalWeight ?? proposal.voteCount}</strong></div>
+            )}
           </div>
           
+          {quorum && participation && (
+            <div className="quorum-section">
+              <h3>Quorum</h3>
+              <div className="quorum-progress-row">
+                <span>Ballots cast</span>
+                <strong>{participation.ballots}{quorum.minBallots > 0 && ` / ${quorum.minBallots}`}</strong>
+              </div>
+              {quorum.minBallots > 0 && (
+                <div className="milestone-progress"><div className="milestone-progress-bar" style={{ width: `${Math.min(100, participation.ballots / quorum.minBallots * 100)}%` }}></div></div>
+              )}
+              <div className="quorum-progress-row">
+                <span>Ballot weight</span>
+                <strong>{participation.totalWeight}{quorum.minWeight > 0 && ` / ${quorum.minWeight}`}</strong>
+              </div>
+              {quorum.minWeight > 0 && (
+                <div className="milestone-progress"><div className="milestone-progress-bar" style={{ width: `${Math.min(100, participation.totalWeight / quorum.minWeight * 100)}%` }}></div></div>
+              )}
+              <div className="quorum-progress-row">
+                <span>Approval threshold</span>
+                <strong>{describeThreshold(quorum)}</strong>
+              </div>
+              {proposal.quorumFailed && <p className="admin-hint">This proposal missed the quorum and was rejected regardless of its ballots.</p>}
+            </div>
+          )}
+
+          <div className="lifecycle-section">
+            <h3>Lifecycle</h3>
+            <div className="lifecycle-steps">
+              {LIFECYCLE_STATES.filter(state => state !== "draft" && (state !== "withdrawn" || lifecycle === "withdrawn") && (state !== "rejected" || lifecycle === "rejected")).map(state => (
+                <span key={state} className={`lifecycle-step ${timeline.some(e => e.state === state) || state === lifecycle ? "reached" : ""} ${state === lifecycle ? "current" : ""}`}>
+                  {LIFECYCLE_LABELS[state]}
+                </span>
+              ))}
+            </div>
+            {timeline.length === 0 && <p className="no-results">No on-chain history yet</p>}
+            <ol className="lifecycle-timeline">
+              {timeline.map((entry, index) => (
+                <li className={`lifecycle-entry ${entry.state}`} key={index}>
+                  <span className="lifecycle-label">{entry.label}</span>
+                  {entry.timestamp !== null && <span className="lifecycle-time">{new Date(entry.timestamp * 1000).toLocaleString()}</span>}
+                  {entry.detail && <span className="lifecycle-detail">{entry.detail}</span>}
+                </li>
+              ))}
+            </ol>
+            {(canAmend || canWithdraw || canResubmit) && (
+              <div className="action-buttons">
+                {canAmend && <button className="tech-button" onClick={() => onAmend(proposal)}>Amend Proposal</button>}
+                {canWithdraw && <button className="tech-button danger" onClick={() => onWithdraw(proposal)}>Withdraw Proposal</button>}
+                {canResubmit && <button className="tech-button primary" onClick={() => onResubmit(proposal)}>Resubmit to Batch #{currentBatch!.batchId}</button>}
+              </div>
+            )}
+          </div>
+
           <div className="proposal-description">
             <h3>Research Description</h3>
-            <p>{proposal.description || "No description provided."}</p>
+            {hasContent(proposal.contentHash) ? (
+              <>
+                <div className="content-integrity-row">
+                  {content === null
+                    ? <span className="integrity-badge loading">Verifying content...</span>
+                    : <span className={`integrity-badge ${content.integrity}`}>{INTEGRITY_LABELS[content.integrity]}</span>}
+                  <span className="content-hash" title={proposal.contentHash}>{proposal.contentHash.substring(0, 18)}...</span>
+                </div>
+                {content?.value && (
+                  <>
+                    <div className="proposal-body">{content.value.body || "No description provided."}</div>
+                    {content.value.attachments.length > 0 && (
+                      <ul className="attachment-list">
+                        {content.value.attachments.map(attachment => (
+                          <li key={attachment.hash}>
+                            <span>{attachment.name}</span>
+                            <span className="attachment-size">{formatBytes(attachment.size)}</span>
+                            <button className="tech-button" onClick={() => downloadAttachment(attachment)}>Download</button>
+                          </li>
+                        ))}
+                      </ul>
+                    )}
+                    {downloadMessage && <p className="admin-hint">{downloadMessage}</p>}
+                  </>
+                )}
+              </>
+            ) : (
+              <p>{proposal.description || "No description provided."}</p>
+            )}
           </div>
           
           <div className="budget-section">
             <h3>Funding Request</h3>
-            <div className="encrypted-data">{proposal.encryptedBudget.substring(0, 100)}...</div>
+            <div className="encrypted-data">{fundingHandle ? `${fundingHandle.substring(0, 100)}...` : "Loading..."}</div>
             <div className="fhe-tag"><div className="fhe-icon"></div><span>FHE Encrypted Budget</span></div>
             
             {(isProposer || proposal.status === "approved") && (
-              <button className="decrypt-btn tech-button" onClick={handleDecrypt} disabled={isDecrypting}>
+              <button className="decrypt-btn tech-button" onClick={handleDecrypt} disabled={isDecrypting || !fundingHandle}>
                 {isDecrypting ? <span className="decrypt-spinner"></span> : 
                  decryptedBudget !== null ? "Hide Budget" : "Decrypt Budget with Signature"}
               </button>
@@ -811,17 +1802,82 @@ const ProposalDetailModal: React.FC<ProposalDetailModalProps> = ({
               </div>
             )}
           </div>
+
+          {proposal.status === "approved" && (
+            <MilestoneTimeline proposalId={proposal.proposalId} provider={proposal.provider} funded={proposal.funded} userAddress={userAddress} />
+          )}
           
-          {isProposer && proposal.status === "pending" && (
+          {canContribute && (
+            <div className="admin-actions">
+              <h3>Quadratic Funding</h3>
+              <p className="admin-hint">Your contribution stays encrypted. Matching favours proposals backed by many members over a few large contributors; contributing again replaces your previous amount. Contributions are capped at {fromBudgetUnits(MAX_CONTRIBUTION_UNITS)} ETH.</p>
+              <div className="admin-row">
+                <input
+                  type="number"
+                  value={contribution}
+                  onChange={(e) => setContribution(parseFloat(e.target.value) || 0)}
+                  className="tech-input"
+                  step="0.01"
+                  min="0"
+                  max={fromBudgetUnits(MAX_CONTRIBUTION_UNITS)}
+                  placeholder="Amount in ETH"
+                />
+                <button className="tech-button success" disabled={contribution <= 0 || contribution > fromBudgetUnits(MAX_CONTRIBUTION_UNITS)} onClick={() => onContribute(proposal, contribution)}>
+                  Contribute
+                </button>
+              </div>
+            </div>
+          )}
+
+          {votingOpen && delegators.length > 0 && (
+            <div className="admin-actions">
+              <h3>Delegated Review</h3>
+              <p className="admin-hint">{delegators.length} members delegated their {proposal.category} ballots to you. Ballots they cast themselves are kept.</p>
+              <div className="action-buttons">
+                <button className="tech-button success" onClick={() => onDelegatedVote(proposal, delegators, true)}>
+                  Approve for Delegators
+                </button>
+                <button className="tech-button danger" onClick={() => onDelegatedVote(proposal, delegators, false)}>
+                  Reject for Delegators
+                </button>
+              </div>
+            </div>
+          )}
+
+          {canVote && (
             <div className="admin-actions">
-              <h3>Proposal Management</h3>
+              <h3>Encrypted Review</h3>
+              {voterWeight && (
+                <div className="voter-weight">
+                  <span>Your ballot weight: <strong>{voterWeight.weight}</strong></span>
+                  {voterWeight.weight === 0 && <span className="voter-weight-hint">You had no delegated voting power when this batch opened.</span>}
+                  {voterWeight.balance > 0n && !voterWeight.delegatee && (
+                    <button className="tech-button" onClick={delegateToSelf} disabled={delegating}>
+                      {delegating ? "Delegating..." : "Delegate to Self"}
+                    </button>
+                  )}
+                </div>
+              )}
+              {myDelegate && !ownBallot && (
+                <p className="admin-hint">Your {proposal.category} ballots are delegated to {myDelegate.substring(0, 6)}...{myDelegate.substring(38)}. Voting yourself overrides their ballot.</p>
+              )}
+              {myVote && (
+                <p className="admin-hint">
+                  {ownBallot ? "You voted on this proposal." : "Your delegate voted on this proposal for you."} Your choice stays encrypted; decrypt it from My Votes.
+                </p>
+              )}
               <div className="action-buttons">
-                <button className="tech-button success" onClick={() => onApprove(proposal.id)}>
-                  Approve Proposal
+                <button className="tech-button success" onClick={() => ownBallot ? onChangeVote(proposal, true) : onVote(proposal, true)}>
+                  {ownBallot ? "Change to Approve" : "Approve Proposal"}
                 </button>
-                <button className="tech-button danger" onClick={() => onReject(proposal.id)}>
-                  Reject Proposal
+                <button className="tech-button danger" onClick={() => ownBallot ? onChangeVote(proposal, false) : onVote(proposal, false)}>
+                  {ownBallot ? "Change to Reject" : "Reject Proposal"}
                 </button>
+                {myVote && (
+                  <button className="tech-button" onClick={() => onWithdrawVote(proposal)}>
+                    Withdraw Ballot
+                  </button>
+                )}
               </div>
             </div>
           )}
@@ -835,4 +1891,237 @@ const ProposalDetailModal: React.FC<ProposalDetailModalProps> = ({
   );
 };
 
-export default App;
\ No newline at end of file
+export default App;
+
+interface AdminPanelModalProps {
+  onClose: () => void;
+  batchState: BatchState | null;
+  batchResults: BatchResultSummary[];
+  scoringConfig: ScoringConfig | null;
+  onSaveWeights: (impact: number, feasibility: number, novelty: number) => void;
+  onSaveThreshold: (threshold: number) => void;
+  onSetBudget: (batchId: number, eth: number, encrypted: boolean) => void;
+  onSetMatchingPool: (batchId: number, eth: number) => void;
+  onSetQuorum: (batchId: number, quorum: BatchQuorum) => void;
+}
+
+const AdminPanelModal: React.FC<AdminPanelModalProps> = ({
+  onClose, batchState, batchResults, scoringConfig, onSaveWeights, onSaveThreshold, onSetBudget, onSetMatchingPool, onSetQuorum
+}) => {
+  const [weights, setWeights] = useState({ impact: 400, feasibility: 300, novelty: 300 });
+  const [threshold, setThreshold] = useState(0);
+  const [budgetBatchId, setBudgetBatchId] = useState(batchState ? Number(batchState.currentBatchId) : 0);
+  const [budgetEth, setBudgetEth] = useState(0);
+  const [encryptBudgetInput, setEncryptBudgetInput] = useState(false);
+  const [poolBatchId, setPoolBatchId] = useState(batchState ? Number(batchState.currentBatchId) : 0);
+  const [poolEth, setPoolEth] = useState(0);
+  const [quorumBatchId, setQuorumBatchId] = useState(batchState ? Number(batchState.currentBatchId) : 0);
+  const [quorumInput, setQuorumInput] = useState<BatchQuorum>({ minBallots: 0, minWeight: 0, approvalPercent: 0 });
+
+  useEffect(() => {
+    if (!scoringConfig) return;
+    setWeights({ impact: scoringConfig.impactWeight, feasibility: scoringConfig.feasibilityWeight, novelty: scoringConfig.noveltyWeight });
+    setThreshold(scoringConfig.minCompositeScore);
+  }, [scoringConfig]);
+
+  const handleWeightChange = (e: React.ChangeEvent<HTMLInputElement>) => {
+    const { name, value } = e.target;
+    setWeights({ ...weights, [name]: Math.max(0, Math.round(Number(value) || 0)) });
+  };
+
+  const handleQuorumChange = (e: React.ChangeEvent<HTMLInputElement>) => {
+    const { name, value } = e.target;
+    setQuorumInput({ ...quorumInput, [name]: Math.max(0, Math.round(Number(value) || 0)) });
+  };
+
+  const totalWeight = weights.impact + weights.feasibility + weights.novelty;
+  // Budgets, pools and quorums are fixed once a batch leaves its submission phase
+  const editableBatches = batchResults.filter(r => votingStageOf(r, nowSeconds()).stage === "submission");
+
+  return (
+    <div className="modal-overlay">
+      <div className="admin-modal tech-card">
+        <div className="modal-header">
+          <h2>DAO Administration</h2>
+          <button onClick={onClose} className="close-modal">&times;</button>
+        </div>
+        
+        <div className="modal-body">
+          <div className="admin-section">
+            <h3>Scoring Weights</h3>
+            <p className="admin-hint">Composite score = weighted sum of impact, feasibility and novelty. Weights add up to at most 1000.</p>
+            <div className="form-grid">
+              <div className="form-group">
+                <label>Impact Weight</label>
+                <input type="number" name="impact" value={weights.impact} onChange={handleWeightChange} className="tech-input" min="1" />
+              </div>
+              <div className="form-group">
+                <label>Feasibility Weight</label>
+                <input type="number" name="feasibility" value={weights.feasibility} onChange={handleWeightChange} className="tech-input" min="1" />
+              </div>
+              <div className="form-group">
+                <label>Novelty Weight</label>
+                <input type="number" name="novelty" value={weights.novelty} onChange={handleWeightChange} className="tech-input" min="1" />
+              </div>
+            </div>
+            <button
+              className="tech-button primary"
+              disabled={totalWeight > 1000 || !weights.impact || !weights.feasibility || !weights.novelty}
+              onClick={() => onSaveWeights(weights.impact, weights.feasibility, weights.novelty)}
+            >
+              Save Weights ({totalWeight}/1000)
+            </button>
+          </div>
+
+          <div className="admin-section">
+            <h3>Funding Threshold</h3>
+            <p className="admin-hint">Approved proposals need at least this composite score to be funded (max {(scoringConfig?.maxScore ?? 100) * 1000}).</p>
+            <div className="admin-row">
+              <input type="number" value={threshold} onChange={(e) => setThreshold(Math.max(0, Math.round(Number(e.target.value) || 0)))} className="tech-input" min="0" />
+              <button className="tech-button primary" onClick={() => onSaveThreshold(threshold)}>Save Threshold</button>
+            </div>
+          </div>
+
+          <div className="admin-section">
+            <h3>Batch Budget Cap</h3>
+            <p className="admin-hint">Funded proposals are selected in score order until the cap is reached. An encrypted cap keeps the budget private until results are revealed.</p>
+            <div className="admin-row">
+              <input
+                type="number"
+                value={budgetBatchId}
+                onChange={(e) => setBudgetBatchId(Math.max(0, Math.round(Number(e.target.value) || 0)))}
+                className="tech-input"
+                min={batchState ? Number(batchState.currentBatchId) : 0}
+              />
+              <input
+                type="number"
+                value={budgetEth}
+                onChange={(e) => setBudgetEth(parseFloat(e.target.value) || 0)}
+                className="tech-input"
+                step="0.01"
+                min="0"
+                placeholder="Cap in ETH"
+              />
+              <label className="admin-checkbox">
+                <input type="checkbox" checked={encryptBudgetInput} onChange={(e) => setEncryptBudgetInput(e.target.checked)} />
+                Encrypt cap
+              </label>
+              <button className="tech-button primary" disabled={!budgetBatchId} onClick={() => onSetBudget(budgetBatchId, budgetEth, encryptBudgetInput)}>
+                Set Cap
+              </button>
+            </div>
+            <div className="batch-results">
+              {editableBatches.length === 0 && <p className="no-results">No batches accept a new cap</p>}
+              {editableBatches.map(result => (
+                <div className="batch-result-row" key={result.batchId}>
+                  <span className="batch-id">Batch #{result.batchId}</span>
+                  <span className={`batch-phase ${result.phase}`}>{result.phase}</span>
+                  <span className="batch-budget">{describeBudget(result.budget)}</span>
+                </div>
+              ))}
+            </div>
+          </div>
+
+          <div className="admin-section">
+            <h3>Matching Pool</h3>
+            <p className="admin-hint">Quadratic funding batches share this pool in proportion to (sum of square roots of contributions)² minus contributions.</p>
+            <div className="admin-row">
+              <input
+                type="number"
+                value={poolBatchId}
+                onChange={(e) => setPoolBatchId(Math.max(0, Math.round(Number(e.target.value) || 0)))}
+                className="tech-input"
+                min={batchState ? Number(batchState.currentBatchId) : 0}
+              />
+              <input
+                type="number"
+                value={poolEth}
+                onChange={(e) => setPoolEth(parseFloat(e.target.value) || 0)}
+                className="tech-input"
+                step="0.01"
+                min="0"
+                placeholder="Pool in ETH"
+              />
+              <button className="tech-button primary" disabled={!poolBatchId} onClick={() => onSetMatchingPool(poolBatchId, poolEth)}>
+                Set Pool
+              </button>
+            </div>
+            <div className="batch-results">
+              {editableBatches.filter(r => r.mode === "quadratic").map(result => (
+                <div className="batch-result-row" key={result.batchId}>
+                  <span className="batch-id">Batch #{result.batchId}</span>
+                  <span className={`batch-phase ${result.phase}`}>{result.phase}</span>
+                  <span className="batch-budget">Pool {result.matchingPool} ETH</span>
+                </div>
+              ))}
+            </div>
+          </div>
+
+          <div className="admin-section">
+            <h3>Quorum &amp; Approval Threshold</h3>
+            <p className="admin-hint">Approval batches only. Proposals below either minimum are rejected before anything is decrypted. A threshold of 0% keeps the simple majority.</p>
+            <div className="form-grid">
+              <div className="form-group">
+                <label>Batch</label>
+                <input
+                  type="number"
+                  value={quorumBatchId}
+                  onChange={(e) => setQuorumBatchId(Math.max(0, Math.round(Number(e.target.value) || 0)))}
+                  className="tech-input"
+                  min={batchState ? Number(batchState.currentBatchId) : 0}
+                />
+              </div>
+              <div className="form-group">
+                <label>Minimum Ballots</label>
+                <input type="number" name="minBallots" value={quorumInput.minBallots} onChange={handleQuorumChange} className="tech-input" min="0" />
+              </div>
+              <div className="form-group">
+                <label>Minimum Weight</label>
+                <input type="number" name="minWeight" value={quorumInput.minWeight} onChange={handleQuorumChange} className="tech-input" min="0" />
+              </div>
+              <div className="form-group">
+                <label>Approval Threshold (%)</label>
+                <input type="number" name="approvalPercent" value={quorumInput.approvalPercent} onChange={handleQuorumChange} className="tech-input" min="0" max="100" />
+              </div>
+            </div>
+            <button
+              className="tech-button primary"
+              disabled={!quorumBatchId || quorumInput.approvalPercent > 100}
+              onClick={() => onSetQuorum(quorumBatchId, quorumInput)}
+            >
+              Set Quorum
+            </button>
+            <div className="batch-results">
+              {editableBatches.filter(r => r.mode === "approval").map(result => (
+                <div className="batch-result-row" key={result.batchId}>
+                  <span className="batch-id">Batch #{result.batchId}</span>
+                  <span className={`batch-phase ${result.phase}`}>{result.phase}</span>
+                  <span className="batch-budget">{result.quorum.minBallots} ballots · {result.quorum.minWeight} weight · {describeThreshold(result.quorum)}</span>
+                </div>
+              ))}
+            </div>
+          </div>
+
+          <div className="admin-section">
+            <h3>Allocations</h3>
+            <div className="batch-results">
+              {batchResults.filter(r => r.phase === "decrypted").length === 0 && <p className="no-results">No decrypted batches yet</p>}
+              {batchResults.filter(r => r.phase === "decrypted").map(result => (
+                <div className="batch-result-row" key={result.batchId}>
+                  <span className="batch-id">Batch #{result.batchId}</span>
+                  <span>{result.approvedCount} approved</span>
+                  <span>{result.totalFunding} ETH allocated</span>
+                  <span className="batch-budget">{describeBudget(result.budget)}</span>
+                </div>
+              ))}
+            </div>
+          </div>
+        </div>
+        
+        <div className="modal-footer">
+          <button onClick={onClose} className="close-btn tech-button">Close</button>
+        </div>
+      </div>
+    </div>
+  );
+};
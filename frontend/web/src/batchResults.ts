@@ -0,0 +1,182 @@
+// batchResults.ts
+import { fromBudgetUnits } from "./fheEncryption";
+import { BatchBudget, BatchMode, BatchQuorum, BatchSchedule, BatchState, Handle, ProposalOutcome, QuadraticMatch, QuorumFailure, ScienceDaoClient, StoredBatchResult } from "./scienceDao";
+
+// "tallying": the tally has started but needs more tallyBatch calls before the results can be requested
+// "decrypting": the results were requested and the oracle has not answered yet
+export type BatchPhase = "open" | "closed" | "tallying" | "tallied" | "decrypting" | "decrypted";
+
+export interface BatchResultSummary {
+  batchId: number;
+  phase: BatchPhase;
+  mode: BatchMode;
+  matchingPool: number; // ETH, only used by quadratic batches
+  submissionEnd: number; // Unix seconds
+  votingEnd: number; // Unix seconds
+  quorum: BatchQuorum;
+  proposalCount: number;
+  approvedCount: number | null;
+  totalFunding: number | null; // ETH, null until the oracle publishes the decrypted totals
+  budget: BudgetSummary;
+}
+
+export type BudgetSummary =
+  | { kind: "uncapped" }
+  | { kind: "public"; cap: number } // ETH
+  | { kind: "encrypted"; encryptedCap: Handle };
+
+const phaseOf = (batchId: bigint, state: BatchState, result: StoredBatchResult): BatchPhase => {
+  if (result.decrypted) return "decrypted";
+  if (result.decryptionPending) return "decrypting";
+  if (result.tallied) return "tallied";
+  if (batchId === state.currentBatchId && state.batchOpen) return "open";
+  if (result.tallyPhase !== "scoring" || result.tallyCursor > 0) return "tallying";
+  return "closed";
+};
+
+const budgetOf = (budget: BatchBudget): BudgetSummary => {
+  if (!budget.capSet) return { kind: "uncapped" };
+  if (budget.encrypted) return { kind: "encrypted", encryptedCap: budget.encryptedCap };
+  return { kind: "public", cap: fromBudgetUnits(budget.cap) };
+};
+
+/**
+ * Reads the per-batch tally state for every batch that has been opened,
+ * newest first. Totals are only filled in once the decryption callback has run.
+ */
+export async function loadBatchResults(client: ScienceDaoClient, state: BatchState): Promise<BatchResultSummary[]> {
+  // Batch ids start at 2: the constructor reserves 1 and openBatch increments before opening
+  const batchIds: bigint[] = [];
+  for (let batchId = state.currentBatchId; batchId >= 2n; batchId--) batchIds.push(batchId);
+  // Every batch is read at once so the calls share multicall batches
+  return Promise.all(batchIds.map(async (batchId): Promise<BatchResultSummary> => {
+    const [result, proposalIds, budget, mode, matchingPool, schedule, quorum] = await Promise.all([
+      client.getBatchResult(batchId),
+      client.getBatchProposalIds(batchId),
+      client.getBatchBudget(batchId),
+      client.getBatchMode(batchId),
+      client.getMatchingPool(batchId),
+      client.getBatchSchedule(batchId),
+      client.getBatchQuorum(batchId)
+    ]);
+    return {
+      batchId: Number(batchId),
+      phase: phaseOf(batchId, state, result),
+      mode,
+      matchingPool: fromBudgetUnits(matchingPool),
+      submissionEnd: Number(schedule.submissionEnd),
+      votingEnd: Number(schedule.votingEnd),
+      quorum,
+      proposalCount: proposalIds.length,
+      approvedCount: result.decrypted ? Number(result.approvedCount) : null,
+      totalFunding: result.decrypted ? fromBudgetUnits(result.totalFunding) : null,
+      budget: budgetOf(budget)
+    };
+  }));
+}
+
+// Time-boxed stage of an open batch; "finalizing" means voting ended and anyone may finalize
+export type VotingStage = "submission" | "voting" | "finalizing" | "closed";
+
+export interface StageCountdown {
+  stage: VotingStage;
+  secondsLeft: number | null; // Until the current stage ends, null once no deadline is ahead
+}
+
+// Mirrors the contract's phase checks against `now` (unix seconds)
+export function votingStageOf(summary: BatchResultSummary, now: number): StageCountdown {
+  if (summary.phase !== "open") return { stage: "closed", secondsLeft: null };
+  if (now < summary.submissionEnd) return { stage: "submission", secondsLeft: summary.submissionEnd - now };
+  if (now < summary.votingEnd) return { stage: "voting", secondsLeft: summary.votingEnd - now };
+  return { stage: "finalizing", secondsLeft: null };
+}
+
+// Builds a schedule starting now from phase lengths in hours
+export function scheduleFromDurations(submissionHours: number, votingHours: number, now: number = Math.floor(Date.now() / 1000)): BatchSchedule {
+  const submissionEnd = now + Math.round(submissionHours * 3600);
+  return { submissionEnd: BigInt(submissionEnd), votingEnd: BigInt(submissionEnd + Math.round(votingHours * 3600)) };
+}
+
+export interface OutcomeTarget {
+  proposalId: bigint;
+  status: "pending" | "approved" | "rejected";
+  approvalCount: number | null;
+  totalWeight: number | null;
+  rank: number | null;
+  funded: boolean | null;
+}
+
+/**
+ * Overlays the revealed per-proposal outcomes onto loaded proposals.
+ * Proposals of batches that have not been decrypted keep their current status.
+ */
+export function applyProposalOutcomes<T extends OutcomeTarget>(proposals: T[], outcomes: ProposalOutcome[]): T[] {
+  const byId = new Map<bigint, ProposalOutcome>();
+  for (const outcome of outcomes) {
+    byId.set(outcome.proposalId, outcome);
+  }
+  return proposals.map(proposal => {
+    const outcome = byId.get(proposal.proposalId);
+    if (!outcome) return proposal;
+    return {
+      ...proposal,
+      status: outcome.approved ? "approved" : "rejected",
+      approvalCount: outcome.approvals,
+      totalWeight: outcome.totalWeight,
+      rank: outcome.rank,
+      funded: outcome.funded
+    };
+  });
+}
+
+export interface QuorumTarget {
+  proposalId: bigint;
+  quorumFailed: boolean;
+}
+
+// Marks proposals that missed their batch quorum; the contract rejects them whatever their ballots say
+export function applyQuorumFailures<T extends QuorumTarget>(proposals: T[], failures: QuorumFailure[]): T[] {
+  const failed = new Set(failures.map(f => f.proposalId));
+  return proposals.map(proposal =>
+    failed.has(proposal.proposalId) ? { ...proposal, quorumFailed: true } : proposal
+  );
+}
+
+export interface MatchSummary {
+  contributed: number; // ETH
+  contributors: number;
+  matched: number; // ETH from the matching pool
+}
+
+export interface MatchTarget {
+  proposalId: bigint;
+  status: "pending" | "approved" | "rejected";
+  funded: boolean | null;
+  match: MatchSummary | null;
+}
+
+/**
+ * Overlays revealed quadratic funding results onto proposals of quadratic batches.
+ * A proposal counts as approved once it received any contribution or match.
+ */
+export function applyQuadraticMatches<T extends MatchTarget>(proposals: T[], matches: QuadraticMatch[]): T[] {
+  const byId = new Map<bigint, QuadraticMatch>();
+  for (const match of matches) {
+    byId.set(match.proposalId, match);
+  }
+  return proposals.map(proposal => {
+    const match = byId.get(proposal.proposalId);
+    if (!match) return proposal;
+    const funded = match.contributed + match.matched > 0n;
+    return {
+      ...proposal,
+      status: funded ? "approved" : "rejected",
+      funded,
+      match: {
+        contributed: fromBudgetUnits(match.contributed),
+        contributors: match.contributors,
+        matched: fromBudgetUnits(match.matched)
+      }
+    };
+  });
+}
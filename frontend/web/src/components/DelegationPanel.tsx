@@ -0,0 +1,129 @@
+// DelegationPanel.tsx
+import React, { useEffect, useState } from "react";
+import { ethers } from "ethers";
+import { getDaoClientReadOnly, getDaoClientWithSigner } from "../contract";
+import { scanFromBlock } from "../deployments";
+import { ALL_CATEGORIES, Delegation, loadDelegations } from "../delegation";
+import { RESEARCH_CATEGORIES } from "../scienceDao";
+
+interface DelegationPanelProps {
+  userAddress?: string;
+}
+
+const shortAddress = (address: string) => `${address.substring(0, 6)}...${address.substring(38)}`;
+const categoryLabel = (category: string) => category === ALL_CATEGORIES ? "All categories" : category;
+
+const DelegationPanel: React.FC<DelegationPanelProps> = ({ userAddress }) => {
+  const [loading, setLoading] = useState(true);
+  const [delegations, setDelegations] = useState<Delegation[]>([]);
+  const [category, setCategory] = useState(ALL_CATEGORIES);
+  const [delegate, setDelegate] = useState("");
+  const [busy, setBusy] = useState(false);
+  const [message, setMessage] = useState<string | null>(null);
+
+  const load = async () => {
+    setLoading(true);
+    try {
+      const client = await getDaoClientReadOnly();
+      if (client) setDelegations(await loadDelegations(client, scanFromBlock()));
+    } catch (e) { console.error("Error loading delegations:", e); }
+    finally { setLoading(false); }
+  };
+
+  useEffect(() => {
+    load();
+  }, [userAddress]);
+
+  const run = async (action: () => Promise<unknown>, success: string) => {
+    setBusy(true);
+    setMessage(null);
+    try {
+      await action();
+      setMessage(success);
+      await load();
+    } catch (e: any) {
+      setMessage("Delegation update failed: " + (e.message || "Unknown error"));
+    } finally { setBusy(false); }
+  };
+
+  const saveDelegate = () => run(async () => {
+    const client = await getDaoClientWithSigner();
+    await client.setDelegate(category, delegate.trim());
+    setDelegate("");
+  }, `Voting power for ${categoryLabel(category).toLowerCase()} delegated.`);
+
+  const revoke = (delegation: Delegation) => run(async () => {
+    const client = await getDaoClientWithSigner();
+    await client.revokeDelegate(delegation.category);
+  }, `Delegation for ${categoryLabel(delegation.category).toLowerCase()} revoked.`);
+
+  const isUser = (address: string) => !!userAddress && address.toLowerCase() === userAddress.toLowerCase();
+  const outgoing = delegations.filter(d => isUser(d.delegator));
+  const incoming = delegations.filter(d => isUser(d.delegate));
+
+  return (
+    <div className="delegation-section">
+      <div className="section-header">
+        <h2>Delegation</h2>
+        <div className="header-actions">
+          <button onClick={load} className="refresh-btn tech-button" disabled={loading}>
+            {loading ? "Refreshing..." : "Refresh"}
+          </button>
+        </div>
+      </div>
+
+      {!userAddress && <p className="no-results">Connect a wallet to manage delegations</p>}
+      {message && <p className="delegation-message">{message}</p>}
+
+      {userAddress && (
+        <div className="delegation-grid">
+          <div className="tech-card">
+            <h3>You Delegate To</h3>
+            <p className="admin-hint">A delegate casts encrypted ballots for you. A category delegate overrides your catch-all delegate, and a ballot you cast yourself always wins. Revoking while a batch is open withdraws the ballots your delegate cast for you in it.</p>
+            {outgoing.length === 0 && <p className="no-results">You have not delegated your vote</p>}
+            {outgoing.map(d => (
+              <div className="delegation-row" key={d.category}>
+                <span className="delegation-category">{categoryLabel(d.category)}</span>
+                <span>{shortAddress(d.delegate)}</span>
+                <button className="tech-button danger" disabled={busy} onClick={() => revoke(d)}>Revoke</button>
+              </div>
+            ))}
+            <div className="delegation-form">
+              <select value={category} onChange={(e) => setCategory(e.target.value)} className="tech-select">
+                <option value={ALL_CATEGORIES}>All categories</option>
+                {RESEARCH_CATEGORIES.map(c => <option value={c} key={c}>{c}</option>)}
+              </select>
+              <input
+                type="text"
+                value={delegate}
+                onChange={(e) => setDelegate(e.target.value)}
+                placeholder="Delegate address (0x...)"
+                className="tech-input"
+              />
+              <button
+                className="tech-button primary"
+                disabled={busy || !ethers.isAddress(delegate.trim()) || isUser(delegate.trim())}
+                onClick={saveDelegate}
+              >
+                Delegate
+              </button>
+            </div>
+          </div>
+
+          <div className="tech-card">
+            <h3>Delegated To You ({incoming.length})</h3>
+            {incoming.length === 0 && <p className="no-results">Nobody has delegated to you yet</p>}
+            {incoming.map(d => (
+              <div className="delegation-row" key={`${d.delegator}-${d.category}`}>
+                <span>{shortAddress(d.delegator)}</span>
+                <span className="delegation-category">{categoryLabel(d.category)}</span>
+              </div>
+            ))}
+          </div>
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default DelegationPanel;
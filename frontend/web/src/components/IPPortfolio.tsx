@@ -0,0 +1,74 @@
+// IPPortfolio.tsx
+import React, { useEffect, useState } from "react";
+import { getResearchIPClientReadOnly } from "../contract";
+import { ResearchIPToken } from "../researchIP";
+import { parseProposalMetadata } from "../scienceDao";
+
+const shortAddress = (address: string) => `${address.substring(0, 6)}...${address.substring(38)}`;
+
+const IPPortfolio: React.FC = () => {
+  const [loading, setLoading] = useState(true);
+  const [available, setAvailable] = useState(false);
+  const [tokens, setTokens] = useState<ResearchIPToken[]>([]);
+  const [categoryFilter, setCategoryFilter] = useState("all");
+
+  const loadTokens = async () => {
+    setLoading(true);
+    try {
+      const client = await getResearchIPClientReadOnly();
+      setAvailable(!!client);
+      if (client) setTokens(await client.getMintedTokens());
+    } catch (e) { console.error("Error loading research IP:", e); }
+    finally { setLoading(false); }
+  };
+
+  useEffect(() => {
+    loadTokens();
+  }, []);
+
+  const entries = tokens.map(token => ({ token, metadata: parseProposalMetadata(token.metadata) }));
+  const categories = [...new Set(entries.map(e => e.metadata.category || "Other"))].sort();
+  const visible = entries.filter(e => categoryFilter === "all" || (e.metadata.category || "Other") === categoryFilter);
+
+  return (
+    <div className="ip-portfolio-section">
+      <div className="section-header">
+        <h2>IP Portfolio</h2>
+        <div className="header-actions">
+          <select value={categoryFilter} onChange={(e) => setCategoryFilter(e.target.value)} className="tech-select">
+            <option value="all">All Categories</option>
+            {categories.map(category => <option value={category} key={category}>{category}</option>)}
+          </select>
+          <button onClick={loadTokens} className="refresh-btn tech-button" disabled={loading}>
+            {loading ? "Refreshing..." : "Refresh"}
+          </button>
+        </div>
+      </div>
+
+      {!loading && !available && <p className="no-results">No research IP contract configured for this deployment</p>}
+      {!loading && available && visible.length === 0 && <p className="no-results">No research IP minted yet</p>}
+
+      <div className="ip-grid">
+        {visible.map(({ token, metadata }) => (
+          <div className="ip-card tech-card" key={token.tokenId.toString()}>
+            <div className="ip-card-header">
+              <span className="ip-token-id">#{token.tokenId.toString()}</span>
+              <span className="ip-category">{metadata.category || "Other"}</span>
+            </div>
+            <h3>{metadata.title || "Untitled research"}</h3>
+            <div className="proposal-info">
+              <div className="info-item"><span>Proposal:</span><strong>#{token.proposalId.toString()}</strong></div>
+              <div className="info-item"><span>Batch:</span><strong>#{token.batchId.toString()}</strong></div>
+              <div className="info-item"><span>Proposer:</span><strong>{shortAddress(token.proposer)}</strong></div>
+              <div className="info-item"><span>Holder:</span><strong>{shortAddress(token.holder)}</strong></div>
+              <div className="info-item"><span>Minted:</span><strong>{new Date(token.mintedAt * 1000).toLocaleDateString()}</strong></div>
+            </div>
+            <div className="ip-content-hash" title={token.contentHash}>Content hash: {token.contentHash.substring(0, 18)}...</div>
+          </div>
+        ))}
+      </div>
+    </div>
+  );
+};
+
+export default IPPortfolio;
@@ -0,0 +1,229 @@
+// LicensingPanel.tsx
+import React, { useEffect, useState } from "react";
+import { ethers } from "ethers";
+import { getResearchIPClientReadOnly, getResearchIPClientWithSigner } from "../contract";
+import { License, LicenseOffer, LicenseRevenue, MAX_BPS, ResearchIPToken, isLicenseActive } from "../researchIP";
+import { parseProposalMetadata } from "../scienceDao";
+
+interface LicensingPanelProps {
+  userAddress?: string;
+}
+
+interface TokenLicensing {
+  token: ResearchIPToken;
+  offers: LicenseOffer[];
+  licenses: License[];
+  revenue: LicenseRevenue;
+}
+
+interface OfferDraft {
+  terms: string;
+  price: string;
+  durationDays: string;
+}
+
+const EMPTY_OFFER: OfferDraft = { terms: "", price: "", durationDays: "365" };
+const SECONDS_PER_DAY = 86400;
+const ROYALTY_SAMPLE_PRICE = ethers.parseEther("1");
+
+const formatEth = (wei: bigint) => `${ethers.formatEther(wei)} ETH`;
+const shortAddress = (address: string) => `${address.substring(0, 6)}...${address.substring(38)}`;
+
+const LicensingPanel: React.FC<LicensingPanelProps> = ({ userAddress }) => {
+  const [loading, setLoading] = useState(true);
+  const [available, setAvailable] = useState(false);
+  const [entries, setEntries] = useState<TokenLicensing[]>([]);
+  const [proposerShareBps, setProposerShareBps] = useState(0);
+  const [royaltyBps, setRoyaltyBps] = useState(0);
+  const [pendingEarnings, setPendingEarnings] = useState(0n);
+  const [isAdmin, setIsAdmin] = useState(false);
+  const [drafts, setDrafts] = useState<Record<string, OfferDraft>>({});
+  const [busy, setBusy] = useState(false);
+  const [message, setMessage] = useState<string | null>(null);
+
+  const load = async () => {
+    setLoading(true);
+    try {
+      const client = await getResearchIPClientReadOnly();
+      setAvailable(!!client);
+      if (!client) return;
+      const tokens = await client.getMintedTokens();
+      const loaded = await Promise.all(tokens.map(async token => {
+        const [offers, licenses, revenue] = await Promise.all([
+          client.getOffers(token.tokenId),
+          client.getLicenses(token.tokenId),
+          client.getRevenue(token.tokenId)
+        ]);
+        return { token, offers, licenses, revenue };
+      }));
+      setEntries(loaded);
+      setProposerShareBps(await client.getProposerShareBps());
+      if (tokens.length > 0) {
+        const royalty = await client.royaltyInfo(tokens[0].tokenId, ROYALTY_SAMPLE_PRICE);
+        setRoyaltyBps(Number((royalty.amount * BigInt(MAX_BPS)) / ROYALTY_SAMPLE_PRICE));
+      }
+      if (userAddress) {
+        setPendingEarnings(await client.pendingWithdrawal(userAddress));
+        setIsAdmin((await client.owner()).toLowerCase() === userAddress.toLowerCase());
+      }
+    } catch (e) { console.error("Error loading licensing data:", e); }
+    finally { setLoading(false); }
+  };
+
+  useEffect(() => {
+    load();
+  }, [userAddress]);
+
+  const run = async (action: () => Promise<unknown>, success: string) => {
+    setBusy(true);
+    setMessage(null);
+    try {
+      await action();
+      setMessage(success);
+      await load();
+    } catch (e: any) {
+      setMessage("Licensing update failed: " + (e.message || "Unknown error"));
+    } finally { setBusy(false); }
+  };
+
+  const draftFor = (tokenId: bigint) => drafts[tokenId.toString()] ?? EMPTY_OFFER;
+
+  const updateDraft = (tokenId: bigint, field: keyof OfferDraft, value: string) => {
+    setDrafts({ ...drafts, [tokenId.toString()]: { ...draftFor(tokenId), [field]: value } });
+  };
+
+  const createOffer = (tokenId: bigint) => run(async () => {
+    const draft = draftFor(tokenId);
+    const client = await getResearchIPClientWithSigner();
+    await client.createLicenseOffer(tokenId, draft.terms.trim(), ethers.parseEther(draft.price || "0"), Math.round(Number(draft.durationDays) * SECONDS_PER_DAY));
+    setDrafts({ ...drafts, [tokenId.toString()]: EMPTY_OFFER });
+  }, "License offer published.");
+
+  const toggleOffer = (offer: LicenseOffer) => run(async () => {
+    const client = await getResearchIPClientWithSigner();
+    await client.setLicenseOfferActive(offer.offerId, !offer.active);
+  }, offer.active ? "License offer withdrawn." : "License offer reactivated.");
+
+  const purchase = (offer: LicenseOffer) => run(async () => {
+    const client = await getResearchIPClientWithSigner();
+    await client.purchaseLicense(offer);
+  }, "License purchased.");
+
+  const withdraw = () => run(async () => {
+    const client = await getResearchIPClientWithSigner();
+    await client.withdrawRevenue();
+  }, "Licensing revenue withdrawn.");
+
+  return (
+    <div className="licensing-section">
+      <div className="section-header">
+        <h2>Licensing</h2>
+        <div className="header-actions">
+          <button onClick={load} className="refresh-btn tech-button" disabled={loading}>
+            {loading ? "Refreshing..." : "Refresh"}
+          </button>
+        </div>
+      </div>
+
+      {!loading && !available && <p className="no-results">No research IP contract configured for this deployment</p>}
+
+      {available && (
+        <div className="licensing-summary tech-card">
+          <span>Revenue split: <strong>{proposerShareBps / 100}%</strong> proposer · <strong>{(MAX_BPS - proposerShareBps) / 100}%</strong> treasury</span>
+          <span>Resale royalty (ERC-2981): <strong>{royaltyBps / 100}%</strong></span>
+          {userAddress && (
+            <span>
+              Your earnings: <strong>{formatEth(pendingEarnings)}</strong>
+              {pendingEarnings > 0n && <button className="tech-button primary" disabled={busy} onClick={withdraw}>Withdraw</button>}
+            </span>
+          )}
+        </div>
+      )}
+
+      {message && <p className="licensing-message">{message}</p>}
+      {!loading && available && entries.length === 0 && <p className="no-results">No research IP available for licensing yet</p>}
+
+      {entries.map(({ token, offers, licenses, revenue }) => {
+        const metadata = parseProposalMetadata(token.metadata);
+        const activeLicenses = licenses.filter(l => isLicenseActive(l));
+        const draft = draftFor(token.tokenId);
+        return (
+          <div className="licensing-card tech-card" key={token.tokenId.toString()}>
+            <div className="ip-card-header">
+              <span className="ip-token-id">#{token.tokenId.toString()}</span>
+              <span className="ip-category">{metadata.category || "Other"}</span>
+            </div>
+            <h3>{metadata.title || "Untitled research"}</h3>
+            <div className="licensing-revenue">
+              <span>Earned: <strong>{formatEth(revenue.total)}</strong></span>
+              <span>Treasury: {formatEth(revenue.toTreasury)}</span>
+              <span>Proposer ({shortAddress(token.proposer)}): {formatEth(revenue.toProposer)}</span>
+            </div>
+
+            <h4>Offers</h4>
+            {offers.length === 0 && <p className="no-results">No license offers</p>}
+            {offers.map(offer => (
+              <div className={`license-offer ${offer.active ? "active" : "inactive"}`} key={offer.offerId.toString()}>
+                <span className="license-terms">{offer.terms}</span>
+                <span>{formatEth(offer.price)} · {Math.round(offer.duration / SECONDS_PER_DAY)} days</span>
+                {offer.active && userAddress && (
+                  <button className="tech-button success" disabled={busy} onClick={() => purchase(offer)}>Buy License</button>
+                )}
+                {isAdmin && (
+                  <button className="tech-button" disabled={busy} onClick={() => toggleOffer(offer)}>{offer.active ? "Withdraw" : "Reactivate"}</button>
+                )}
+              </div>
+            ))}
+
+            <h4>Active Licenses ({activeLicenses.length})</h4>
+            {activeLicenses.map(license => (
+              <div className="license-row" key={license.licenseId.toString()}>
+                <span>{shortAddress(license.licensee)}</span>
+                <span>until {new Date(license.expiresAt * 1000).toLocaleDateString()}</span>
+                <span>{formatEth(license.pricePaid)}</span>
+              </div>
+            ))}
+
+            {isAdmin && (
+              <div className="license-offer-form">
+                <input
+                  type="text"
+                  value={draft.terms}
+                  onChange={(e) => updateDraft(token.tokenId, "terms", e.target.value)}
+                  placeholder="License terms..."
+                  className="tech-input"
+                />
+                <input
+                  type="number"
+                  value={draft.price}
+                  onChange={(e) => updateDraft(token.tokenId, "price", e.target.value)}
+                  placeholder="Price (ETH)"
+                  className="tech-input"
+                  step="0.01"
+                  min="0"
+                />
+                <input
+                  type="number"
+                  value={draft.durationDays}
+                  onChange={(e) => updateDraft(token.tokenId, "durationDays", e.target.value)}
+                  placeholder="Days"
+                  className="tech-input"
+                  min="1"
+                />
+                <button
+                  className="tech-button primary"
+                  disabled={busy || !draft.terms.trim() || !(Number(draft.durationDays) > 0)}
+                  onClick={() => createOffer(token.tokenId)}
+                >
+                  Publish Offer
+                </button>
+              </div>
+            )}
+          </div>
+        );
+      })}
+    </div>
+  );
+};
+
+export default LicensingPanel;
@@ -0,0 +1,144 @@
+// MembersPanel.tsx
+import React, { useEffect, useState } from "react";
+import { ethers } from "ethers";
+import { getDaoClientReadOnly, getDaoClientWithSigner } from "../contract";
+import { scanFromBlock } from "../deployments";
+import { Member, ROLE_LABELS, loadMembers } from "../members";
+import { ROLES, Role } from "../scienceDao";
+
+interface MembersPanelProps {
+  userAddress?: string;
+}
+
+const shortAddress = (address: string) => `${address.substring(0, 6)}...${address.substring(38)}`;
+
+const MembersPanel: React.FC<MembersPanelProps> = ({ userAddress }) => {
+  const [loading, setLoading] = useState(true);
+  const [members, setMembers] = useState<Member[]>([]);
+  const [isOwner, setIsOwner] = useState(false);
+  const [newMember, setNewMember] = useState("");
+  const [newRoles, setNewRoles] = useState<Role[]>(["proposer", "voter"]);
+  const [busy, setBusy] = useState(false);
+  const [message, setMessage] = useState<string | null>(null);
+
+  const load = async () => {
+    setLoading(true);
+    try {
+      const client = await getDaoClientReadOnly();
+      if (!client) return;
+      setMembers(await loadMembers(client, scanFromBlock()));
+      if (userAddress) setIsOwner((await client.owner()).toLowerCase() === userAddress.toLowerCase());
+    } catch (e) { console.error("Error loading members:", e); }
+    finally { setLoading(false); }
+  };
+
+  useEffect(() => {
+    load();
+  }, [userAddress]);
+
+  const run = async (action: () => Promise<unknown>, success: string) => {
+    setBusy(true);
+    setMessage(null);
+    try {
+      await action();
+      setMessage(success);
+      await load();
+    } catch (e: any) {
+      setMessage("Member update failed: " + (e.message || "Unknown error"));
+    } finally { setBusy(false); }
+  };
+
+  // Proposers go through the original provider functions, every other role through grantRole/revokeRole
+  const setRole = async (role: Role, account: string, granted: boolean) => {
+    const client = await getDaoClientWithSigner();
+    if (role === "proposer") {
+      await (granted ? client.addProvider(account) : client.removeProvider(account));
+    } else {
+      await (granted ? client.grantRole(role, account) : client.revokeRole(role, account));
+    }
+  };
+
+  const toggleRole = (member: Member, role: Role) => {
+    const granted = !member.roles.includes(role);
+    return run(
+      () => setRole(role, member.account, granted),
+      `${ROLE_LABELS[role]} role ${granted ? "granted to" : "revoked from"} ${shortAddress(member.account)}.`
+    );
+  };
+
+  const addMember = () => run(async () => {
+    const account = newMember.trim();
+    for (const role of newRoles) await setRole(role, account, true);
+    setNewMember("");
+  }, "Member added.");
+
+  const toggleNewRole = (role: Role) => {
+    setNewRoles(newRoles.includes(role) ? newRoles.filter(r => r !== role) : [...newRoles, role]);
+  };
+
+  // Only the owner may change who is an admin
+  const canEdit = (role: Role) => !busy && (role !== "admin" || isOwner);
+
+  return (
+    <div className="members-section">
+      <div className="section-header">
+        <h2>Members</h2>
+        <div className="header-actions">
+          <button onClick={load} className="refresh-btn tech-button" disabled={loading}>
+            {loading ? "Refreshing..." : "Refresh"}
+          </button>
+        </div>
+      </div>
+
+      {message && <p className="members-message">{message}</p>}
+
+      <div className="members-list tech-card">
+        <div className="member-row member-header">
+          <span>Account</span>
+          {ROLES.map(role => <span key={role}>{ROLE_LABELS[role]}</span>)}
+        </div>
+        {!loading && members.length === 0 && <p className="no-results">No members yet</p>}
+        {members.map(member => (
+          <div className="member-row" key={member.account}>
+            <span title={member.account}>{shortAddress(member.account)}</span>
+            {ROLES.map(role => (
+              <span key={role}>
+                <input
+                  type="checkbox"
+                  checked={member.roles.includes(role)}
+                  disabled={!canEdit(role)}
+                  onChange={() => toggleRole(member, role)}
+                />
+              </span>
+            ))}
+          </div>
+        ))}
+
+        <div className="member-form">
+          <input
+            type="text"
+            value={newMember}
+            onChange={(e) => setNewMember(e.target.value)}
+            placeholder="Member address (0x...)"
+            className="tech-input"
+          />
+          {ROLES.filter(role => role !== "admin" || isOwner).map(role => (
+            <label className="admin-checkbox" key={role}>
+              <input type="checkbox" checked={newRoles.includes(role)} onChange={() => toggleNewRole(role)} />
+              {ROLE_LABELS[role]}
+            </label>
+          ))}
+          <button
+            className="tech-button primary"
+            disabled={busy || !ethers.isAddress(newMember.trim()) || newRoles.length === 0}
+            onClick={addMember}
+          >
+            Add Member
+          </button>
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default MembersPanel;
@@ -0,0 +1,201 @@
+// MilestoneTimeline.tsx
+import React, { useEffect, useState } from "react";
+import { ethers } from "ethers";
+import { getDaoClientReadOnly, getTreasuryClientReadOnly, getTreasuryClientWithSigner } from "../contract";
+import { MilestoneSchedule } from "../treasury";
+
+interface MilestoneTimelineProps {
+  proposalId: bigint;
+  provider: string;
+  funded: boolean | null;
+  userAddress?: string;
+}
+
+interface DraftMilestone {
+  amount: string;
+  description: string;
+}
+
+const EMPTY_DRAFT: DraftMilestone = { amount: "", description: "" };
+
+const formatAmount = (amount: bigint) => `${ethers.formatEther(amount)} ETH`;
+
+const MilestoneTimeline: React.FC<MilestoneTimelineProps> = ({ proposalId, provider, funded, userAddress }) => {
+  const [loading, setLoading] = useState(true);
+  const [available, setAvailable] = useState(false);
+  const [schedule, setSchedule] = useState<MilestoneSchedule | null>(null);
+  const [requiredSignoffs, setRequiredSignoffs] = useState(1);
+  const [isTreasurer, setIsTreasurer] = useState(false);
+  const [isReviewer, setIsReviewer] = useState(false);
+  const [drafts, setDrafts] = useState<DraftMilestone[]>([EMPTY_DRAFT]);
+  const [evidence, setEvidence] = useState("");
+  const [busy, setBusy] = useState(false);
+  const [message, setMessage] = useState<string | null>(null);
+
+  const isProposer = !!userAddress && userAddress.toLowerCase() === provider.toLowerCase();
+
+  const load = async () => {
+    try {
+      const client = await getTreasuryClientReadOnly();
+      setAvailable(!!client);
+      if (!client) return;
+      const dao = await getDaoClientReadOnly();
+      const [loaded, required, owner, reviewer, daoTreasurer] = await Promise.all([
+        client.getScheduleFor(proposalId),
+        client.getRequiredSignoffs(),
+        client.owner(),
+        userAddress ? client.isReviewer(userAddress) : Promise.resolve(false),
+        userAddress && dao ? dao.hasRole("treasurer", userAddress) : Promise.resolve(false)
+      ]);
+      setSchedule(loaded);
+      setRequiredSignoffs(required);
+      // Schedules can be created by the treasury owner or a DAO treasurer
+      setIsTreasurer(!!userAddress && (owner.toLowerCase() === userAddress.toLowerCase() || daoTreasurer));
+      setIsReviewer(reviewer);
+    } catch (e) { console.error("Error loading milestone schedule:", e); }
+    finally { setLoading(false); }
+  };
+
+  useEffect(() => {
+    load();
+  }, [proposalId, provider, userAddress]);
+
+  const run = async (action: () => Promise<unknown>, success: string) => {
+    setBusy(true);
+    setMessage(null);
+    try {
+      await action();
+      setMessage(success);
+      await load();
+    } catch (e: any) {
+      setMessage("Treasury update failed: " + (e.message || "Unknown error"));
+    } finally { setBusy(false); }
+  };
+
+  const createSchedule = () => run(async () => {
+    const milestones = drafts.map(d => ({ amount: ethers.parseEther(d.amount || "0"), description: d.description.trim() }));
+    const client = await getTreasuryClientWithSigner();
+    await client.createSchedule(proposalId, provider, milestones);
+    setDrafts([EMPTY_DRAFT]);
+  }, "Milestone schedule created.");
+
+  const claimNext = () => run(async () => {
+    const client = await getTreasuryClientWithSigner();
+    await client.claimMilestone(schedule!.scheduleId, evidence);
+    setEvidence("");
+  }, "Milestone claimed. Waiting for reviewer sign-off.");
+
+  const review = (index: number, approve: boolean) => run(async () => {
+    const client = await getTreasuryClientWithSigner();
+    await client.reviewMilestone(schedule!.scheduleId, index, approve);
+  }, approve ? "Sign-off recorded." : "Rejection recorded.");
+
+  const updateDraft = (index: number, field: keyof DraftMilestone, value: string) => {
+    setDrafts(drafts.map((d, i) => i === index ? { ...d, [field]: value } : d));
+  };
+
+  if (loading || !available) return null;
+
+  if (!schedule) {
+    if (!isTreasurer || !funded) {
+      return (
+        <div className="milestone-section">
+          <h3>Milestones</h3>
+          <p className="no-results">{funded ? "Milestone schedule not created yet" : "Milestones are set up once the proposal is funded"}</p>
+        </div>
+      );
+    }
+    return (
+      <div className="milestone-section">
+        <h3>Create Milestone Schedule</h3>
+        {drafts.map((draft, index) => (
+          <div className="milestone-draft" key={index}>
+            <input
+              type="text"
+              value={draft.description}
+              onChange={(e) => updateDraft(index, "description", e.target.value)}
+              placeholder={`Milestone ${index + 1} deliverable...`}
+              className="tech-input"
+            />
+            <input
+              type="number"
+              value={draft.amount}
+              onChange={(e) => updateDraft(index, "amount", e.target.value)}
+              placeholder="ETH"
+              className="tech-input"
+              step="0.01"
+              min="0"
+            />
+          </div>
+        ))}
+        <div className="action-buttons">
+          <button className="tech-button" onClick={() => setDrafts([...drafts, EMPTY_DRAFT])}>Add Milestone</button>
+          <button
+            className="tech-button primary"
+            disabled={busy || drafts.some(d => !d.description.trim() || !(Number(d.amount) > 0))}
+            onClick={createSchedule}
+          >
+            {busy ? "Creating..." : "Create Schedule"}
+          </button>
+        </div>
+        {message && <p className="milestone-message">{message}</p>}
+      </div>
+    );
+  }
+
+  const locked = schedule.totalAmount - schedule.releasedAmount;
+  const releasedPercentage = schedule.totalAmount > 0n ? Number((schedule.releasedAmount * 100n) / schedule.totalAmount) : 0;
+
+  return (
+    <div className="milestone-section">
+      <h3>Milestones</h3>
+      <div className="milestone-summary">
+        <span>Released: <strong>{formatAmount(schedule.releasedAmount)}</strong></span>
+        <span>Locked: <strong>{formatAmount(locked)}</strong></span>
+      </div>
+      <div className="milestone-progress"><div className="milestone-progress-bar" style={{ width: `${releasedPercentage}%` }}></div></div>
+
+      <div className="milestone-timeline">
+        {schedule.milestones.map(milestone => (
+          <div className={`milestone-item ${milestone.status}`} key={milestone.index}>
+            <div className="milestone-marker"></div>
+            <div className="milestone-content">
+              <div className="milestone-header">
+                <strong>{milestone.index + 1}. {milestone.description}</strong>
+                <span>{formatAmount(milestone.amount)}</span>
+              </div>
+              <span className={`milestone-status ${milestone.status}`}>{milestone.status}</span>
+              {milestone.status === "claimed" && (
+                <>
+                  <p className="milestone-evidence">Evidence: {milestone.evidence || "none provided"}</p>
+                  <p className="milestone-signoffs">Sign-offs: {milestone.signoffs} of {requiredSignoffs} · Rejections: {milestone.rejections}</p>
+                  {isReviewer && !isProposer && (
+                    <div className="action-buttons">
+                      <button className="tech-button success" disabled={busy} onClick={() => review(milestone.index, true)}>Sign Off</button>
+                      <button className="tech-button danger" disabled={busy} onClick={() => review(milestone.index, false)}>Reject</button>
+                    </div>
+                  )}
+                </>
+              )}
+              {isProposer && milestone.index === schedule.nextMilestone && milestone.status === "pending" && (
+                <div className="milestone-claim">
+                  <input
+                    type="text"
+                    value={evidence}
+                    onChange={(e) => setEvidence(e.target.value)}
+                    placeholder="Link to deliverable or report..."
+                    className="tech-input"
+                  />
+                  <button className="tech-button primary" disabled={busy} onClick={claimNext}>Claim Milestone</button>
+                </div>
+              )}
+            </div>
+          </div>
+        ))}
+      </div>
+      {message && <p className="milestone-message">{message}</p>}
+    </div>
+  );
+};
+
+export default MilestoneTimeline;
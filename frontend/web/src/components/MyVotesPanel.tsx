@@ -0,0 +1,120 @@
+// MyVotesPanel.tsx
+import React, { useEffect, useState } from "react";
+import { getBrowserSigner, getDaoClientReadOnly } from "../contract";
+import { getActiveDeployment, scanFromBlock } from "../deployments";
+import { userDecrypt } from "../fheDecryption";
+import { BallotRef, Handle, parseProposalMetadata } from "../scienceDao";
+
+interface MyVotesPanelProps {
+  userAddress?: string;
+}
+
+interface MyBallot extends BallotRef {
+  title: string;
+  weight: number;
+  castBy: string;
+}
+
+const shortAddress = (address: string) => `${address.substring(0, 6)}...${address.substring(38)}`;
+
+const MyVotesPanel: React.FC<MyVotesPanelProps> = ({ userAddress }) => {
+  const [loading, setLoading] = useState(true);
+  const [ballots, setBallots] = useState<MyBallot[]>([]);
+  // Decrypted choices by handle; only ever held in this component
+  const [choices, setChoices] = useState<Record<Handle, boolean>>({});
+  const [decrypting, setDecrypting] = useState(false);
+  const [message, setMessage] = useState<string | null>(null);
+
+  const load = async () => {
+    setLoading(true);
+    try {
+      const client = await getDaoClientReadOnly();
+      if (!client || !userAddress) { setBallots([]); return; }
+      const refs = await client.getSubmittedVotes(scanFromBlock(), userAddress);
+      const loaded: MyBallot[] = await Promise.all(refs.map(async ref => {
+        const [proposal, vote] = await Promise.all([
+          client.getProposal(ref.proposalId),
+          client.getVote(ref.proposalId, ref.voter)
+        ]);
+        return {
+          ...ref,
+          title: parseProposalMetadata(proposal.metadata).title || "Untitled proposal",
+          weight: vote.weight,
+          castBy: vote.castBy
+        };
+      }));
+      loaded.sort((a, b) => Number(b.batchId - a.batchId));
+      setBallots(loaded);
+    } catch (e) { console.error("Error loading ballots:", e); }
+    finally { setLoading(false); }
+  };
+
+  useEffect(() => {
+    setChoices({});
+    load();
+  }, [userAddress]);
+
+  // One signed authorization covers every ballot handle
+  const decryptAll = async () => {
+    setDecrypting(true);
+    setMessage(null);
+    try {
+      const signer = await getBrowserSigner();
+      const values = await userDecrypt(signer, ballots.map(b => ({ handle: b.encryptedVote, contractAddress: getActiveDeployment().contractAddress })));
+      const decrypted: Record<Handle, boolean> = {};
+      for (const ballot of ballots) {
+        const value = values[ballot.encryptedVote];
+        if (value !== undefined) decrypted[ballot.encryptedVote] = value === true || value === 1n || value === "true";
+      }
+      setChoices(decrypted);
+    } catch (e: any) {
+      setMessage("Decryption failed: " + (e.message || "Unknown error"));
+    } finally { setDecrypting(false); }
+  };
+
+  const isDelegated = (ballot: MyBallot) => ballot.castBy.toLowerCase() !== ballot.voter.toLowerCase();
+
+  return (
+    <div className="my-votes-section">
+      <div className="section-header">
+        <h2>My Votes</h2>
+        <div className="header-actions">
+          {ballots.length > 0 && (
+            <button onClick={decryptAll} className="tech-button primary" disabled={decrypting}>
+              {decrypting ? "Decrypting..." : "Decrypt My Ballots"}
+            </button>
+          )}
+          <button onClick={load} className="refresh-btn tech-button" disabled={loading}>
+            {loading ? "Refreshing..." : "Refresh"}
+          </button>
+        </div>
+      </div>
+
+      {!userAddress && <p className="no-results">Connect a wallet to see your ballots</p>}
+      {message && <p className="my-votes-message">{message}</p>}
+
+      {userAddress && (
+        <div className="my-votes-list tech-card">
+          <p className="admin-hint">Ballots stay encrypted on-chain. Decrypting them uses your wallet signature and only shows the result to you.</p>
+          {!loading && ballots.length === 0 && <p className="no-results">You have not voted yet</p>}
+          {ballots.map(ballot => {
+            const choice = choices[ballot.encryptedVote];
+            return (
+              <div className="my-vote-row" key={ballot.proposalId.toString()}>
+                <span className="batch-id">Batch #{ballot.batchId.toString()}</span>
+                <span className="proposal-title">{ballot.title}</span>
+                <span>Weight {ballot.weight}</span>
+                <span className="my-vote-cast-by">{isDelegated(ballot) ? `Cast by delegate ${shortAddress(ballot.castBy)}` : "Cast by you"}</span>
+                {choice === undefined
+                  ? <span className="encrypted-total">Encrypted</span>
+                  : <span className={`status-badge ${choice ? "approved" : "rejected"}`}>{choice ? "Approve" : "Reject"}</span>}
+              </div>
+            );
+          })}
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default MyVotesPanel;
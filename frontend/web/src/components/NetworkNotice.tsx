@@ -0,0 +1,46 @@
+// NetworkNotice.tsx
+import React from "react";
+import { useAccount, useSwitchChain } from "wagmi";
+import { DEPLOYMENTS, abiMatches, findDeployment, getActiveDeployment } from "../deployments";
+
+// Warns when the wallet is on a chain without a deployment, or the deployment is not known to match the bundled ABI
+const NetworkNotice: React.FC = () => {
+  const { chainId, isConnected } = useAccount();
+  const { switchChain, isPending } = useSwitchChain();
+  const active = getActiveDeployment();
+
+  if (isConnected && chainId !== undefined && !findDeployment(chainId)) {
+    return (
+      <div className="network-notice">
+        <div className="warning-icon"></div>
+        <div>
+          <strong>Unsupported network</strong>
+          <p>Your wallet is on chain {chainId}, where ScienceDAO is not deployed. Showing {active.name} read-only until you switch.</p>
+          <div className="network-options">
+            {DEPLOYMENTS.map(d => (
+              <button key={d.chainId} className="tech-button" disabled={isPending} onClick={() => switchChain({ chainId: d.chainId })}>
+                Switch to {d.name}
+              </button>
+            ))}
+          </div>
+        </div>
+      </div>
+    );
+  }
+
+  if (!abiMatches(active)) {
+    return (
+      <div className="network-notice">
+        <div className="warning-icon"></div>
+        <div>
+          <strong>Contract version mismatch</strong>
+          <p>The {active.name} deployment does not record the contract ABI this app was built with; some views or actions may fail.</p>
+        </div>
+      </div>
+    );
+  }
+
+  return null;
+};
+
+export default NetworkNotice;
@@ -0,0 +1,123 @@
+// contentStore.ts
+import { ethers } from "ethers";
+import configJson from "./config.json";
+
+// Proposal bodies and attachments live off-chain, addressed by their sha256; only the hash goes on-chain
+export interface ContentStore {
+  put(data: Uint8Array): Promise<string>; // Resolves to the content hash
+  get(hash: string): Promise<Uint8Array | null>; // null when the store does not hold the hash
+}
+
+export const contentHashOf = (data: Uint8Array): string => ethers.sha256(data);
+
+// Development store: content only lives as long as the page
+export class MemoryContentStore implements ContentStore {
+  private readonly blobs = new Map<string, Uint8Array>();
+
+  async put(data: Uint8Array): Promise<string> {
+    const hash = contentHashOf(data);
+    this.blobs.set(hash, data.slice());
+    return hash;
+  }
+
+  async get(hash: string): Promise<Uint8Array | null> {
+    return this.blobs.get(hash.toLowerCase())?.slice() ?? null;
+  }
+}
+
+// Talks to content-store/server.ts, or any server with the same PUT/GET /content/<hash> routes
+export class HttpContentStore implements ContentStore {
+  constructor(private readonly baseUrl: string) {}
+
+  private urlOf(hash: string) {
+    return `${this.baseUrl.replace(/\/+$/, "")}/content/${hash.toLowerCase()}`;
+  }
+
+  async put(data: Uint8Array): Promise<string> {
+    const hash = contentHashOf(data);
+    const response = await fetch(this.urlOf(hash), { method: "PUT", body: new Uint8Array(data) });
+    if (!response.ok) throw new Error(`Content store rejected ${hash}: ${response.status} ${await response.text()}`);
+    return hash;
+  }
+
+  async get(hash: string): Promise<Uint8Array | null> {
+    const response = await fetch(this.urlOf(hash));
+    if (response.status === 404) return null;
+    if (!response.ok) throw new Error(`Content store failed to serve ${hash}: ${response.status}`);
+    return new Uint8Array(await response.arrayBuffer());
+  }
+}
+
+let store: ContentStore | null = null;
+
+// An empty `contentStoreUrl` keeps everything in memory, which is enough for local development
+export const getContentStore = (): ContentStore => {
+  if (!store) {
+    const url = (configJson as { contentStoreUrl?: string }).contentStoreUrl;
+    store = url ? new HttpContentStore(url) : new MemoryContentStore();
+  }
+  return store;
+};
+
+export interface ProposalAttachment {
+  name: string;
+  mimeType: string;
+  size: number; // Bytes
+  hash: string; // Content hash of the file itself
+}
+
+// The document the on-chain content hash commits to
+export interface ProposalContent {
+  version: 1;
+  title: string;
+  body: string; // Markdown
+  attachments: ProposalAttachment[];
+}
+
+// "verified": fetched and the hash matches; "mismatch": the store served different bytes; "missing": not in the store
+export type ContentIntegrity = "verified" | "mismatch" | "missing";
+
+export interface VerifiedContent<T> {
+  integrity: ContentIntegrity;
+  value: T | null; // Only set when verified
+}
+
+// Never trusts the store: the bytes are re-hashed before anything is returned
+export async function getVerified(store: ContentStore, hash: string): Promise<VerifiedContent<Uint8Array>> {
+  const data = await store.get(hash);
+  if (!data) return { integrity: "missing", value: null };
+  if (contentHashOf(data).toLowerCase() !== hash.toLowerCase()) return { integrity: "mismatch", value: null };
+  return { integrity: "verified", value: data };
+}
+
+// Uploads every new file, then the content document referencing them and any `kept` attachments already
+// in the store; resolves to the hash to record on-chain
+export async function publishProposalContent(
+  store: ContentStore,
+  title: string,
+  body: string,
+  files: File[],
+  kept: ProposalAttachment[] = []
+): Promise<string> {
+  const attachments: ProposalAttachment[] = [...kept];
+  for (const file of files) {
+    const hash = await store.put(new Uint8Array(await file.arrayBuffer()));
+    attachments.push({ name: file.name, mimeType: file.type || "application/octet-stream", size: file.size, hash });
+  }
+  const content: ProposalContent = { version: 1, title, body, attachments };
+  return store.put(ethers.toUtf8Bytes(JSON.stringify(content)));
+}
+
+// Proposals submitted before content was moved off-chain carry the zero hash
+export const hasContent = (contentHash: string) => !!contentHash && contentHash !== ethers.ZeroHash;
+
+export async function loadProposalContent(store: ContentStore, contentHash: string): Promise<VerifiedContent<ProposalContent>> {
+  const { integrity, value } = await getVerified(store, contentHash);
+  if (!value) return { integrity, value: null };
+  try {
+    return { integrity, value: JSON.parse(ethers.toUtf8String(value)) as ProposalContent };
+  } catch (e) {
+    // Hash matches but the document is not proposal content; treat it as unusable
+    return { integrity: "mismatch", value: null };
+  }
+}
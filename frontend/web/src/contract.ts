@@ -1,10 +1,14 @@
 // contract.ts
 import { ethers } from "ethers";
-import abiJson from "./abi/UniversalAdapter.json";
-import configJson from "./config.json";
+import { DAO_ABI, ScienceDaoClient } from "./scienceDao";
+import { ScienceTreasuryClient } from "./treasury";
+import { ResearchIPClient } from "./researchIP";
+import { GovernanceTokenClient } from "./governance";
+import { MulticallRunner } from "./multicall";
+import { DEFAULT_POOL_OPTIONS, QuorumRunner, RpcPool } from "./rpcPool";
+import { DEFAULT_CHAIN_ID, Deployment, getActiveDeployment, onDeploymentChange } from "./deployments";
 
-export const ABI = (abiJson as any).abi || abiJson;
-export const config = configJson;
+export const ABI = DAO_ABI;
 
 const retry = async <T>(fn: () => Promise<T>, retries = 3, delay = 1000): Promise<T> => {
   try {
@@ -18,62 +22,85 @@ const retry = async <T>(fn: () => Promise<T>, retries = 3, delay = 1000): Promis
   }
 };
 
-const getTestnetProvider = async () => {
-  const rpcUrls = [
-    "https://sepolia.infura.io/v3/96406da962744120afbe0cf64c8bd7b3",
-    "https://rpc.ankr.com/eth_sepolia/f5a86d4556184938f528d746ecfa1eabcf7e4b970fc86df257418084c9305ae4",
-    "https://rpc.sepolia.org",
-    "https://rpc2.sepolia.org",
-    "https://eth-sepolia.public.blastapi.io"
-  ];
-  
-  for (const url of rpcUrls) {
-    try {
-      const provider = new ethers.JsonRpcProvider(url, {
-        name: "sepolia",
-        chainId: 11155111
-      });
-      
-      const blockNumber = await Promise.race([
-        provider.getBlockNumber(),
-        new Promise((_, reject) => 
-          setTimeout(() => reject(new Error("RPC timeout")), 10000)
-        )
-      ]);
-      
-      return provider;
-    } catch (error) {
-    }
+// Hardhat's default; a chainId of 31337 without configured URLs talks to a local node
+export const LOCAL_HARDHAT_URL = "http://127.0.0.1:8545";
+
+// RPC_URLS (comma separated) and RPC_QUORUM override deployments.json for the default chain, e.g. to
+// point a build at a local node or at keyed endpoints that should not be committed
+const poolSettings = (deployment: Deployment) => {
+  const { chainId } = deployment;
+  const fromEnv = (process.env.RPC_URLS || "").split(",").map(url => url.trim()).filter(Boolean);
+  const urls = fromEnv.length > 0 && chainId === DEFAULT_CHAIN_ID ? fromEnv
+    : deployment.rpcUrls.length > 0 ? deployment.rpcUrls
+    : chainId === 31337 ? [LOCAL_HARDHAT_URL] : [];
+  const quorum = Number(process.env.RPC_QUORUM) || DEFAULT_POOL_OPTIONS.quorum;
+  return { urls, options: { ...DEFAULT_POOL_OPTIONS, chainId, quorum } };
+};
+
+let pool: RpcPool | null = null;
+
+// The pool for the active deployment's chain
+export const getRpcPool = (): RpcPool => {
+  if (!pool) {
+    const { urls, options } = poolSettings(getActiveDeployment());
+    pool = new RpcPool(urls, options);
+    pool.start();
   }
-  
-  throw new Error("All RPC providers failed");
+  return pool;
 };
 
-export async function getContractReadOnly() {
-  try {
-    const provider = await getTestnetProvider();
-    const contract = new ethers.Contract(config.contractAddress, ABI, provider);
-    
-    const code = await retry(() => provider.getCode(config.contractAddress));
-    if (code === "0x") {
-      return null;
-    }
-    
-    return contract;
-  } catch (error) {
-    console.error("Failed to create read-only contract:", error);
-    return null;
+let readRunner: Promise<MulticallRunner | null> | null = null;
+
+// Every read-only client shares one runner, so their view calls land in the same multicall batches
+const getReadRunner = (): Promise<MulticallRunner | null> => {
+  if (!readRunner) {
+    readRunner = (async () => {
+      try {
+        const provider = getRpcPool().provider;
+        const code = await retry(() => provider.getCode(getActiveDeployment().contractAddress));
+        if (code === "0x") {
+          return null;
+        }
+        return new MulticallRunner(provider);
+      } catch (error) {
+        console.error("Failed to create read-only contract:", error);
+        return null;
+      }
+    })();
+    // Failures are not cached; the next read tries again
+    readRunner.then(runner => { if (!runner) readRunner = null; });
   }
+  return readRunner;
+};
+
+// Another chain means other endpoints and other addresses; the next read starts over
+onDeploymentChange(() => {
+  pool?.stop();
+  pool = null;
+  readRunner = null;
+});
+
+export async function getContractReadOnly() {
+  const runner = await getReadRunner();
+  return runner ? new ethers.Contract(getActiveDeployment().contractAddress, ABI, runner) : null;
 }
 
-export async function getContractWithSigner() {
+export async function getBrowserSigner() {
   if (!(window as any).ethereum) {
     throw new Error("No injected wallet");
   }
+  const provider = new ethers.BrowserProvider((window as any).ethereum);
+  // A transaction on another chain would go to whatever lives at this deployment's addresses there
+  const { chainId, name } = getActiveDeployment();
+  const walletChainId = Number((await provider.getNetwork()).chainId);
+  if (walletChainId !== chainId) throw new Error(`Wallet is on chain ${walletChainId}; switch it to ${name} (${chainId})`);
+  return provider.getSigner();
+}
+
+export async function getContractWithSigner() {
   try {
-    const provider = new ethers.BrowserProvider((window as any).ethereum);
-    const signer = await provider.getSigner();
-    const contract = new ethers.Contract(config.contractAddress, ABI, signer);
+    const signer = await getBrowserSigner();
+    const contract = new ethers.Contract(getActiveDeployment().contractAddress, ABI, signer);
     return contract;
   } catch (error) {
     console.error("Failed to create contract with signer:", error);
@@ -81,6 +108,70 @@ export async function getContractWithSigner() {
   }
 }
 
+export async function getDaoClientReadOnly(): Promise<ScienceDaoClient | null> {
+  const contract = await getContractReadOnly();
+  if (!contract) return null;
+  return new ScienceDaoClient(getActiveDeployment().contractAddress, contract.runner!);
+}
+
+// For reads that gate what the user may do next (batch phase, roles): the RPC pool's quorum must agree
+export async function getDaoClientQuorum(): Promise<ScienceDaoClient | null> {
+  if (!await getReadRunner()) return null;
+  return new ScienceDaoClient(getActiveDeployment().contractAddress, new QuorumRunner(getRpcPool()));
+}
+
+export async function getDaoClientWithSigner(): Promise<ScienceDaoClient> {
+  const contract = await getContractWithSigner();
+  return new ScienceDaoClient(getActiveDeployment().contractAddress, contract.runner!);
+}
+
+// The treasury is optional: deployments without one leave `treasuryAddress` empty
+export async function getTreasuryClientReadOnly(): Promise<ScienceTreasuryClient | null> {
+  const { treasuryAddress } = getActiveDeployment();
+  if (!treasuryAddress) return null;
+  const contract = await getContractReadOnly();
+  if (!contract) return null;
+  return new ScienceTreasuryClient(treasuryAddress, contract.runner!);
+}
+
+export async function getTreasuryClientWithSigner(): Promise<ScienceTreasuryClient> {
+  const { treasuryAddress } = getActiveDeployment();
+  if (!treasuryAddress) throw new Error("No treasury configured");
+  const signer = await getBrowserSigner();
+  return new ScienceTreasuryClient(treasuryAddress, signer);
+}
+
+export async function getResearchIPClientReadOnly(): Promise<ResearchIPClient | null> {
+  const { researchIPAddress } = getActiveDeployment();
+  if (!researchIPAddress) return null;
+  const contract = await getContractReadOnly();
+  if (!contract) return null;
+  return new ResearchIPClient(researchIPAddress, contract.runner!);
+}
+
+export async function getResearchIPClientWithSigner(): Promise<ResearchIPClient> {
+  const { researchIPAddress } = getActiveDeployment();
+  if (!researchIPAddress) throw new Error("No research IP contract configured");
+  const signer = await getBrowserSigner();
+  return new ResearchIPClient(researchIPAddress, signer);
+}
+
+// Without a governance token the DAO falls back to one ballot per voter
+export async function getGovernanceTokenClientReadOnly(): Promise<GovernanceTokenClient | null> {
+  const { governanceTokenAddress } = getActiveDeployment();
+  if (!governanceTokenAddress) return null;
+  const contract = await getContractReadOnly();
+  if (!contract) return null;
+  return new GovernanceTokenClient(governanceTokenAddress, contract.runner!);
+}
+
+export async function getGovernanceTokenClientWithSigner(): Promise<GovernanceTokenClient> {
+  const { governanceTokenAddress } = getActiveDeployment();
+  if (!governanceTokenAddress) throw new Error("No governance token configured");
+  const signer = await getBrowserSigner();
+  return new GovernanceTokenClient(governanceTokenAddress, signer);
+}
+
 export function normAddr(a: string) { 
   return a ? a.toLowerCase() : a; 
 }
\ No newline at end of file
@@ -0,0 +1,232 @@
+// daoErrors.ts
+import { ethers } from "ethers";
+import daoAbiJson from "./abi/Science_DAO_FHE.json";
+import treasuryAbiJson from "./abi/ScienceTreasury.json";
+import researchIPAbiJson from "./abi/ResearchIP.json";
+
+const errorInterfaces = [daoAbiJson, treasuryAbiJson, researchIPAbiJson].map(json => new ethers.Interface(json.abi));
+
+// Custom errors declared by Science_DAO_FHE (and the FHE library it links in), ScienceTreasury and ResearchIP
+export type ScienceDaoRevert =
+  | { kind: "NotOwner" }
+  | { kind: "NotProvider" }
+  | { kind: "NotVoter" }
+  | { kind: "NotAdmin" }
+  | { kind: "NotTreasurer" }
+  | { kind: "SelfVote" }
+  | { kind: "Paused" }
+  | { kind: "CooldownActive" }
+  | { kind: "BatchNotOpen" }
+  | { kind: "ProposalDoesNotExist" }
+  | { kind: "ProposalExists" }
+  | { kind: "InvalidProposalState" }
+  | { kind: "VoteDoesNotExist" }
+  | { kind: "AlreadyVoted" }
+  | { kind: "InvalidBatchState" }
+  | { kind: "ReplayAttempt" }
+  | { kind: "StateMismatch" }
+  | { kind: "InvalidCleartextLength" }
+  | { kind: "InvalidWeights" }
+  | { kind: "NoVotingPower" }
+  | { kind: "WrongBatchMode" }
+  | { kind: "WrongPhase" }
+  | { kind: "InvalidSchedule" }
+  | { kind: "InvalidQuorum" }
+  | { kind: "NotDelegate" }
+  | { kind: "InvalidDelegate" }
+  | { kind: "NotReviewer" }
+  | { kind: "NotProposer" }
+  | { kind: "ProposalNotFunded" }
+  | { kind: "ScheduleExists" }
+  | { kind: "ScheduleDoesNotExist" }
+  | { kind: "InvalidMilestones" }
+  | { kind: "InsufficientTreasuryBalance" }
+  | { kind: "InvalidMilestoneState" }
+  | { kind: "AlreadyReviewed" }
+  | { kind: "InvalidSignoffThreshold" }
+  | { kind: "TransferFailed" }
+  | { kind: "NotDao" }
+  | { kind: "AlreadyMinted" }
+  | { kind: "InvalidShare" }
+  | { kind: "OfferDoesNotExist" }
+  | { kind: "OfferInactive" }
+  | { kind: "IncorrectPayment" }
+  | { kind: "NothingToWithdraw" }
+  | { kind: "InvalidKMSSignatures" }
+  | { kind: "HandlesAlreadySavedForRequestID" }
+  | { kind: "NoHandleFoundForRequestID" };
+
+export type ScienceDaoError =
+  | ScienceDaoRevert
+  | { kind: "UserRejected" }
+  | { kind: "Unknown"; message: string };
+
+export type ScienceDaoErrorKind = ScienceDaoError["kind"];
+
+const REVERT_KINDS: ReadonlySet<string> = new Set<ScienceDaoRevert["kind"]>([
+  "NotOwner",
+  "NotProvider",
+  "NotVoter",
+  "NotAdmin",
+  "NotTreasurer",
+  "SelfVote",
+  "Paused",
+  "CooldownActive",
+  "BatchNotOpen",
+  "ProposalDoesNotExist",
+  "ProposalExists",
+  "InvalidProposalState",
+  "VoteDoesNotExist",
+  "AlreadyVoted",
+  "InvalidBatchState",
+  "ReplayAttempt",
+  "StateMismatch",
+  "InvalidCleartextLength",
+  "InvalidWeights",
+  "NoVotingPower",
+  "WrongBatchMode",
+  "WrongPhase",
+  "InvalidSchedule",
+  "InvalidQuorum",
+  "NotDelegate",
+  "InvalidDelegate",
+  "NotReviewer",
+  "NotProposer",
+  "ProposalNotFunded",
+  "ScheduleExists",
+  "ScheduleDoesNotExist",
+  "InvalidMilestones",
+  "InsufficientTreasuryBalance",
+  "InvalidMilestoneState",
+  "AlreadyReviewed",
+  "InvalidSignoffThreshold",
+  "TransferFailed",
+  "NotDao",
+  "AlreadyMinted",
+  "InvalidShare",
+  "OfferDoesNotExist",
+  "OfferInactive",
+  "IncorrectPayment",
+  "NothingToWithdraw",
+  "InvalidKMSSignatures",
+  "HandlesAlreadySavedForRequestID",
+  "NoHandleFoundForRequestID"
+]);
+
+const ERROR_MESSAGES: Record<ScienceDaoErrorKind, string> = {
+  NotOwner: "Only the DAO owner can perform this action",
+  NotProvider: "Your address is not registered as a proposal provider",
+  NotVoter: "Your address does not hold the voter role",
+  NotAdmin: "Only DAO admins can perform this action",
+  NotTreasurer: "Only DAO treasurers can perform this action",
+  SelfVote: "You cannot vote on or fund your own proposal",
+  Paused: "The DAO contract is paused",
+  CooldownActive: "Please wait for the cooldown period before submitting again",
+  BatchNotOpen: "There is no open batch accepting proposals",
+  ProposalDoesNotExist: "Proposal does not exist or has been withdrawn",
+  ProposalExists: "This proposal has already been resubmitted",
+  InvalidProposalState: "The proposal cannot be amended, withdrawn or resubmitted in its current state",
+  VoteDoesNotExist: "You have no ballot of your own on this proposal",
+  AlreadyVoted: "You already voted on this proposal, update or withdraw your ballot instead",
+  InvalidBatchState: "The batch is not in the right state for this action",
+  ReplayAttempt: "Decryption result was already processed",
+  StateMismatch: "Encrypted state changed since decryption was requested",
+  InvalidCleartextLength: "Decryption oracle returned an unexpected result",
+  InvalidWeights: "Scoring weights must be positive and add up to at most 1000",
+  NoVotingPower: "You had no delegated governance tokens when this batch opened",
+  WrongBatchMode: "This batch uses a different funding mode",
+  WrongPhase: "The batch is not in the right phase for this action",
+  InvalidSchedule: "The submission phase must end in the future and before the voting phase",
+  InvalidQuorum: "The approval threshold must be between 0 and 100 percent",
+  NotDelegate: "You are not the delegate of every listed member for this category",
+  InvalidDelegate: "You cannot delegate your ballots to yourself",
+  NotReviewer: "Your address is not a registered milestone reviewer",
+  NotProposer: "Only the proposer can claim this milestone",
+  ProposalNotFunded: "The proposal has not been revealed as funded",
+  ScheduleExists: "A milestone schedule already exists for this proposal",
+  ScheduleDoesNotExist: "Milestone schedule does not exist",
+  InvalidMilestones: "Milestones need a description and a non-zero amount",
+  InsufficientTreasuryBalance: "The treasury does not hold enough uncommitted funds",
+  InvalidMilestoneState: "The milestone is not in the right state for this action",
+  AlreadyReviewed: "You already reviewed this milestone claim",
+  InvalidSignoffThreshold: "Required sign-offs must be between 1 and the number of reviewers",
+  TransferFailed: "Treasury transfer failed",
+  NotDao: "Only the DAO contract can mint research IP",
+  AlreadyMinted: "Research IP was already minted for this proposal",
+  InvalidShare: "Shares are expressed in basis points and cannot exceed 10000",
+  OfferDoesNotExist: "License offer does not exist",
+  OfferInactive: "License offer is no longer available",
+  IncorrectPayment: "Payment must match the license price",
+  NothingToWithdraw: "No licensing revenue to withdraw",
+  InvalidKMSSignatures: "Decryption proof signatures are invalid",
+  HandlesAlreadySavedForRequestID: "Decryption request id already in use",
+  NoHandleFoundForRequestID: "Unknown decryption request id",
+  UserRejected: "Transaction rejected by user",
+  Unknown: "Unknown error"
+};
+
+/**
+ * Thrown by the Science DAO client when a call or transaction fails.
+ * `error` carries the decoded reason so callers can switch on `error.kind`.
+ */
+export class ScienceDaoTxError extends Error {
+  readonly error: ScienceDaoError;
+
+  constructor(error: ScienceDaoError, cause?: unknown) {
+    super(describeScienceDaoError(error), { cause });
+    this.name = "ScienceDaoTxError";
+    this.error = error;
+  }
+}
+
+// Reads a property of an error of unknown shape
+const field = (value: unknown, key: string): unknown =>
+  typeof value === "object" && value !== null ? (value as Record<string, unknown>)[key] : undefined;
+
+const nonEmptyString = (value: unknown): string | null => (typeof value === "string" && value !== "" ? value : null);
+
+const findRevertData = (e: unknown): string | null => {
+  // ethers wraps provider errors differently depending on the transport,
+  // so walk the usual places the revert payload ends up in.
+  const sources = [e, field(e, "error"), field(field(e, "info"), "error")];
+  const candidates = sources.flatMap(source => [field(source, "data"), field(field(source, "data"), "data")]);
+  for (const candidate of candidates) {
+    if (typeof candidate === "string" && candidate.startsWith("0x") && candidate.length >= 10) return candidate;
+  }
+  return null;
+};
+
+const parseErrorName = (data: string): string | null => {
+  for (const iface of errorInterfaces) {
+    try {
+      const name = iface.parseError(data)?.name;
+      if (name) return name;
+    } catch { /* not declared by this contract */ }
+  }
+  return null;
+};
+
+export function decodeScienceDaoError(e: unknown): ScienceDaoError {
+  if (e instanceof ScienceDaoTxError) return e.error;
+  if (ethers.isError(e, "ACTION_REJECTED")) return { kind: "UserRejected" };
+
+  let name = ethers.isCallException(e) ? e.revert?.name ?? null : null;
+  if (!name) {
+    const data = findRevertData(e);
+    name = data ? parseErrorName(data) : null;
+  }
+  if (name && REVERT_KINDS.has(name)) return { kind: name } as ScienceDaoRevert;
+
+  const message = nonEmptyString(field(e, "shortMessage")) ?? nonEmptyString(field(e, "reason")) ?? nonEmptyString(field(e, "message")) ?? String(e);
+  if (message.includes("user rejected")) return { kind: "UserRejected" };
+  return { kind: "Unknown", message };
+}
+
+export function describeScienceDaoError(error: ScienceDaoError): string {
+  if (error.kind === "Unknown") return error.message || ERROR_MESSAGES.Unknown;
+  return ERROR_MESSAGES[error.kind];
+}
+
+export function isScienceDaoError<K extends ScienceDaoErrorKind>(e: unknown, kind: K): e is ScienceDaoTxError & { error: Extract<ScienceDaoError, { kind: K }> } {
+  return e instanceof ScienceDaoTxError && e.error.kind === kind;
+}
@@ -0,0 +1,41 @@
+// delegation.ts
+import { ethers } from "ethers";
+import { ScienceDaoClient } from "./scienceDao";
+
+// The empty category is the catch-all delegation, overridden by category-specific ones
+export const ALL_CATEGORIES = "";
+
+export interface Delegation {
+  delegator: string;
+  delegate: string;
+  category: string;
+}
+
+const delegationKey = (delegator: string, category: string) => `${delegator.toLowerCase()}-${category}`;
+
+/**
+ * Replays the DAO's DelegateSet events into the delegations currently in force.
+ * Revocations (delegate set to the zero address) drop the entry.
+ */
+export async function loadDelegations(client: ScienceDaoClient, fromBlock: number = 0): Promise<Delegation[]> {
+  const current = new Map<string, Delegation>();
+  for (const change of await client.getDelegateChanges(fromBlock)) {
+    const key = delegationKey(change.delegator, change.category);
+    if (change.delegate === ethers.ZeroAddress) current.delete(key);
+    else current.set(key, change);
+  }
+  return [...current.values()];
+}
+
+// Mirrors the contract's delegateFor: a category delegate wins over the catch-all one
+export function effectiveDelegate(delegations: Delegation[], delegator: string, category: string): string | null {
+  const own = delegations.filter(d => d.delegator.toLowerCase() === delegator.toLowerCase());
+  const match = own.find(d => d.category === category) ?? own.find(d => d.category === ALL_CATEGORIES);
+  return match ? match.delegate : null;
+}
+
+// Members whose ballot on a proposal in `category` the given delegate may cast
+export function delegatorsOf(delegations: Delegation[], delegate: string, category: string): string[] {
+  const delegators = new Set(delegations.map(d => d.delegator));
+  return [...delegators].filter(delegator => effectiveDelegate(delegations, delegator, category)?.toLowerCase() === delegate.toLowerCase());
+}
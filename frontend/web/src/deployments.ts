@@ -0,0 +1,80 @@
+// deployments.ts
+import { ethers } from "ethers";
+import registryJson from "./deployments.json";
+import { DAO_ABI } from "./scienceDao";
+
+// One entry per network of hardhat.config.ts in deployments.json, written by deploy/deploy.ts;
+// networks not deployed to yet are listed with empty addresses
+export interface Deployment {
+  chainId: number;
+  name: string; // The hardhat network it was deployed with
+  rpcUrls: string[];
+  contractAddress: string;
+  treasuryAddress: string; // Optional contracts are left empty
+  researchIPAddress: string;
+  governanceTokenAddress: string;
+  deployer: string;
+  deployBlock: number;
+  abiVersion: string; // abiVersionOf the DAO ABI it was deployed with; empty when not recorded, which counts as a mismatch
+  indexerUrl: string; // An indexer serves one deployment; empty reads history, search and stats from the chain
+  aclAddress: string; // The FHEVM ACL of the chain; empty uses the one of its relayer config
+}
+
+interface DeploymentRegistry {
+  defaultChainId: number;
+  deployments: Record<string, Omit<Deployment, "chainId">>;
+}
+
+const registry = registryJson as DeploymentRegistry;
+
+export const DEPLOYMENTS: Deployment[] = Object.entries(registry.deployments)
+  .map(([chainId, deployment]) => ({ ...deployment, chainId: Number(chainId) }))
+  .filter(deployment => deployment.contractAddress !== "");
+
+if (DEPLOYMENTS.length === 0) throw new Error("deployments.json lists no deployments; run deploy/deploy.ts first");
+
+export const findDeployment = (chainId: number | undefined): Deployment | null =>
+  DEPLOYMENTS.find(d => d.chainId === chainId) ?? null;
+
+// Must match abiVersionOf in deploy/deploy.ts
+export const abiVersionOf = (abi: unknown): string => ethers.id(JSON.stringify(abi)).slice(0, 18);
+
+export const BUNDLED_ABI_VERSION = abiVersionOf(DAO_ABI);
+
+// A deployment that records no ABI version cannot be shown to match the bundled ABI
+export const abiMatches = (deployment: Deployment): boolean =>
+  deployment.abiVersion !== "" && deployment.abiVersion === BUNDLED_ABI_VERSION;
+
+// RPC_CHAIN_ID picks the deployment read from until a connected wallet says otherwise
+export const DEFAULT_CHAIN_ID = Number(process.env.RPC_CHAIN_ID || registry.defaultChainId);
+
+let active: Deployment = findDeployment(DEFAULT_CHAIN_ID) ?? DEPLOYMENTS[0];
+const listeners = new Set<(deployment: Deployment) => void>();
+
+export const getActiveDeployment = (): Deployment => active;
+
+// The hardhat node; only it is expected to hold a deployment in its genesis block
+export const LOCAL_CHAIN_ID = 31337;
+// About four weeks of Sepolia blocks
+const UNKNOWN_DEPLOY_BLOCK_LOOKBACK = 200_000;
+
+// First block of the active deployment's event scans. A deployment registered without its block would
+// send public RPCs through the whole chain, so its scans cover only the most recent blocks instead;
+// ethers counts a negative block tag back from the chain head.
+export const scanFromBlock = (deployment: Deployment = active): number =>
+  deployment.deployBlock > 0 || deployment.chainId === LOCAL_CHAIN_ID ? deployment.deployBlock : -UNKNOWN_DEPLOY_BLOCK_LOOKBACK;
+
+// Switches every client to the chain's deployment; null, and no switch, when the chain has none
+export const selectDeployment = (chainId: number): Deployment | null => {
+  const deployment = findDeployment(chainId);
+  if (deployment && deployment !== active) {
+    active = deployment;
+    listeners.forEach(listener => listener(deployment));
+  }
+  return deployment;
+};
+
+export const onDeploymentChange = (listener: (deployment: Deployment) => void): (() => void) => {
+  listeners.add(listener);
+  return () => { listeners.delete(listener); };
+};
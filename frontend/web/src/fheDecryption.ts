@@ -0,0 +1,164 @@
+// fheDecryption.ts
+import { ethers } from "ethers";
+import { getActiveDeployment } from "./deployments";
+import { aclAddressOf, getFhevmInstance } from "./fheEncryption";
+import { Handle } from "./scienceDao";
+
+// How long a signed request stays usable, and so how long the wallet is not asked to sign again
+export const DEFAULT_DURATION_DAYS = 7;
+
+const STORAGE_PREFIX = "science-dao:decrypt-auth:";
+const SECONDS_PER_DAY = 86400;
+const ZERO_HANDLE = ethers.ZeroHash;
+
+const ACL_ABI = ["function persistAllowed(bytes32 handle, address account) view returns (bool)"];
+
+// A signed EIP-712 user-decryption request together with the keypair it authorises
+export interface DecryptionAuthorization {
+  publicKey: string;
+  privateKey: string;
+  signature: string;
+  userAddress: string;
+  contractAddresses: string[];
+  chainId: number;
+  startTimestamp: number;
+  durationDays: number;
+}
+
+export interface HandleRequest {
+  handle: Handle;
+  contractAddress: string;
+}
+
+export type DecryptedValues = Record<Handle, bigint | boolean | string>;
+
+const memoryCache = new Map<string, DecryptionAuthorization>();
+
+const cacheKey = (chainId: number, userAddress: string, contractAddresses: string[]) =>
+  `${STORAGE_PREFIX}${chainId}:${userAddress.toLowerCase()}:${contractAddresses.map(a => a.toLowerCase()).sort().join(",")}`;
+
+export const isAuthorizationValid = (auth: DecryptionAuthorization, now: number = Math.floor(Date.now() / 1000)) =>
+  now < auth.startTimestamp + auth.durationDays * SECONDS_PER_DAY;
+
+// Authorizations are kept in localStorage so a reload within their validity window needs no new
+// signature. The keypair only decrypts what the ACL lets this user see, and only until the window
+// ends, but any script running on the page can read it; keep durationDays short where that matters.
+const readCached = (key: string, durationDays: number): DecryptionAuthorization | null => {
+  let cached = memoryCache.get(key) ?? null;
+  if (!cached) {
+    try {
+      const raw = window.localStorage.getItem(key);
+      cached = raw ? JSON.parse(raw) : null;
+    } catch (e) {
+      return null;
+    }
+  }
+  if (cached && !isAuthorizationValid(cached)) {
+    writeCached(key, null);
+    return null;
+  }
+  // A request signed for a different window is replaced by a fresh signature
+  return cached && cached.durationDays === durationDays ? cached : null;
+};
+
+const writeCached = (key: string, auth: DecryptionAuthorization | null) => {
+  if (auth) memoryCache.set(key, auth); else memoryCache.delete(key);
+  try {
+    if (auth) window.localStorage.setItem(key, JSON.stringify(auth));
+    else window.localStorage.removeItem(key);
+  } catch (e) { /* storage unavailable, the in-memory copy still applies */ }
+};
+
+/**
+ * Returns a user-decryption authorization for `contractAddresses`, asking the wallet
+ * to sign a fresh EIP-712 request only when no cached one is still inside its validity window.
+ */
+export async function getDecryptionAuthorization(
+  signer: ethers.Signer,
+  contractAddresses: string[],
+  durationDays: number = DEFAULT_DURATION_DAYS
+): Promise<DecryptionAuthorization> {
+  const userAddress = await signer.getAddress();
+  const network = await signer.provider?.getNetwork();
+  const chainId = Number(network?.chainId ?? getActiveDeployment().chainId);
+  const key = cacheKey(chainId, userAddress, contractAddresses);
+
+  const cached = readCached(key, durationDays);
+  if (cached) return cached;
+
+  const instance = await getFhevmInstance();
+  const { publicKey, privateKey } = instance.generateKeypair();
+  const startTimestamp = Math.floor(Date.now() / 1000);
+  const eip712 = instance.createEIP712(publicKey, contractAddresses, startTimestamp, durationDays);
+  const signature = await signer.signTypedData(
+    eip712.domain,
+    { UserDecryptRequestVerification: eip712.types.UserDecryptRequestVerification },
+    eip712.message
+  );
+
+  const auth: DecryptionAuthorization = {
+    publicKey,
+    privateKey,
+    signature,
+    userAddress,
+    contractAddresses,
+    chainId,
+    startTimestamp,
+    durationDays
+  };
+  writeCached(key, auth);
+  return auth;
+}
+
+export function clearDecryptionAuthorization(chainId: number, userAddress: string, contractAddresses: string[]) {
+  writeCached(cacheKey(chainId, userAddress, contractAddresses), null);
+}
+
+/**
+ * Keeps only the handles the ACL lets `userAddress` decrypt; uninitialised handles are dropped too.
+ */
+export async function filterAllowedHandles(runner: ethers.ContractRunner, userAddress: string, requests: HandleRequest[]): Promise<HandleRequest[]> {
+  const acl = new ethers.Contract(aclAddressOf(getActiveDeployment()), ACL_ABI, runner);
+  const allowed = await Promise.all(requests.map(async request => {
+    if (request.handle === ZERO_HANDLE) return false;
+    try {
+      return await acl.persistAllowed(request.handle, userAddress) as boolean;
+    } catch (e) {
+      return false;
+    }
+  }));
+  return requests.filter((_, i) => allowed[i]);
+}
+
+/**
+ * Decrypts every requested handle the signer is allowed to see and returns the
+ * cleartexts keyed by handle. Handles the user may not decrypt are simply absent.
+ */
+export async function userDecrypt(signer: ethers.Signer, requests: HandleRequest[], durationDays: number = DEFAULT_DURATION_DAYS): Promise<DecryptedValues> {
+  if (requests.length === 0) return {};
+  const userAddress = await signer.getAddress();
+  const allowed = await filterAllowedHandles(signer, userAddress, requests);
+  if (allowed.length === 0) return {};
+
+  const contractAddresses = [...new Set(allowed.map(r => ethers.getAddress(r.contractAddress)))];
+  const auth = await getDecryptionAuthorization(signer, contractAddresses, durationDays);
+  const instance = await getFhevmInstance();
+  const results = await instance.userDecrypt(
+    allowed,
+    auth.privateKey,
+    auth.publicKey,
+    auth.signature,
+    auth.contractAddresses,
+    auth.userAddress,
+    auth.startTimestamp,
+    auth.durationDays
+  );
+
+  // Normalise keys so callers can look values up with the handle they passed in
+  const values: DecryptedValues = {};
+  for (const request of allowed) {
+    const value = results[request.handle] ?? results[request.handle.toLowerCase()];
+    if (value !== undefined) values[request.handle] = value;
+  }
+  return values;
+}
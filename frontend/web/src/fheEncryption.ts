@@ -0,0 +1,135 @@
+// fheEncryption.ts
+import { ethers } from "ethers";
+import { createInstance, initSDK, SepoliaConfig } from "@zama-fhe/relayer-sdk/web";
+import type { FhevmInstance, FhevmInstanceConfig } from "@zama-fhe/relayer-sdk/web";
+import { Deployment, LOCAL_CHAIN_ID, getActiveDeployment, onDeploymentChange } from "./deployments";
+import { EncryptedInput, EncryptedProposalInputs } from "./scienceDao";
+
+// Budgets are stored as whole milli-ETH so they fit in a euint32
+export const BUDGET_SCALE = 1000;
+
+const UINT32_MAX = 0xffffffff;
+
+// Must match MAX_CONTRIBUTION in the DAO, which clamps larger contributions
+export const MAX_CONTRIBUTION_UNITS = 0xffff;
+
+export interface ProposalValues {
+  fundingAmount: number;
+  impactScore: number;
+  feasibilityScore: number;
+  noveltyScore: number;
+}
+
+let instancePromise: Promise<FhevmInstance> | null = null;
+
+// Relayer configs of the chains Zama runs the FHEVM protocol on
+const RELAYER_CONFIGS: Record<number, FhevmInstanceConfig> = { 11155111: SepoliaConfig };
+
+// The ACL to check decryption rights against: the one recorded with the deployment, else the protocol's
+export const aclAddressOf = (deployment: Deployment): string => {
+  const address = deployment.aclAddress || RELAYER_CONFIGS[deployment.chainId]?.aclContractAddress;
+  if (!address) throw new Error(`No FHEVM ACL is known for chain ${deployment.chainId}`);
+  return address;
+};
+
+/**
+ * Lazily creates a single shared FHEVM instance for the active deployment's chain.
+ * A failed initialisation is not cached so the next call can retry.
+ */
+export function getFhevmInstance(): Promise<FhevmInstance> {
+  if (!instancePromise) {
+    const deployment = getActiveDeployment();
+    instancePromise = deployment.chainId === LOCAL_CHAIN_ID ? createLocalInstance(deployment.rpcUrls[0]) : createRelayerInstance(deployment.chainId);
+    instancePromise.catch(() => { instancePromise = null; });
+  }
+  return instancePromise;
+}
+
+async function createRelayerInstance(chainId: number): Promise<FhevmInstance> {
+  const config = RELAYER_CONFIGS[chainId];
+  if (!config) throw new Error(`No FHEVM relayer is configured for chain ${chainId}`);
+  await initSDK();
+  return createInstance({ ...config, network: window.ethereum ?? getActiveDeployment().rpcUrls[0] });
+}
+
+// A hardhat node running the FHEVM plugin mocks the coprocessor, the KMS and the relayer; its relayer
+// metadata names the protocol contracts it deployed. The mock library is only loaded for local chains.
+async function createLocalInstance(rpcUrl: string): Promise<FhevmInstance> {
+  const { MockFhevmInstance, contracts, relayer } = await import("@fhevm/mock-utils");
+  const provider = new ethers.JsonRpcProvider(rpcUrl);
+  const metadata = await relayer.requestRelayerMetadata(provider);
+  const repository = await contracts.FhevmContractsRepository.create(provider, {
+    aclContractAddress: metadata.ACLAddress,
+    kmsContractAddress: metadata.KMSVerifierAddress
+  });
+  const config = repository.getFhevmInstanceConfig({ chainId: metadata.chainId, relayerUrl: rpcUrl });
+  return MockFhevmInstance.create(provider, provider, { ...config, chainId: metadata.chainId });
+}
+
+onDeploymentChange(() => { instancePromise = null; });
+
+export function toBudgetUnits(eth: number): number {
+  return toUint32(Math.round(eth * BUDGET_SCALE), "funding amount");
+}
+
+export function fromBudgetUnits(units: bigint | number): number {
+  return Number(units) / BUDGET_SCALE;
+}
+
+const toUint32 = (value: number, label: string): number => {
+  if (!Number.isInteger(value) || value < 0 || value > UINT32_MAX) {
+    throw new Error(`${label} must be an integer between 0 and ${UINT32_MAX}`);
+  }
+  return value;
+};
+
+/**
+ * Encrypts the four proposal values in one input so they share a single proof.
+ * The ciphertexts are bound to `contractAddress` and can only be submitted by `userAddress`.
+ */
+export async function encryptProposalInputs(contractAddress: string, userAddress: string, values: ProposalValues): Promise<EncryptedProposalInputs> {
+  const instance = await getFhevmInstance();
+  const input = instance.createEncryptedInput(contractAddress, userAddress);
+  input.add32(toBudgetUnits(values.fundingAmount));
+  input.add32(toUint32(values.impactScore, "impact score"));
+  input.add32(toUint32(values.feasibilityScore, "feasibility score"));
+  input.add32(toUint32(values.noveltyScore, "novelty score"));
+  const { handles, inputProof } = await input.encrypt();
+  return {
+    handles: {
+      fundingAmount: ethers.hexlify(handles[0]),
+      impactScore: ethers.hexlify(handles[1]),
+      feasibilityScore: ethers.hexlify(handles[2]),
+      noveltyScore: ethers.hexlify(handles[3])
+    },
+    inputProof: ethers.hexlify(inputProof)
+  };
+}
+
+export async function encryptVote(contractAddress: string, userAddress: string, support: boolean): Promise<EncryptedInput> {
+  const instance = await getFhevmInstance();
+  const input = instance.createEncryptedInput(contractAddress, userAddress);
+  input.addBool(support);
+  const { handles, inputProof } = await input.encrypt();
+  return { handle: ethers.hexlify(handles[0]), inputProof: ethers.hexlify(inputProof) };
+}
+
+export function encryptBudget(contractAddress: string, userAddress: string, eth: number): Promise<EncryptedInput> {
+  return encryptEthAmount(contractAddress, userAddress, eth);
+}
+
+// Quadratic funding contributions use the same milli-ETH units as budgets
+export async function encryptContribution(contractAddress: string, userAddress: string, eth: number): Promise<EncryptedInput> {
+  if (toBudgetUnits(eth) > MAX_CONTRIBUTION_UNITS) {
+    throw new Error(`contribution must be at most ${fromBudgetUnits(MAX_CONTRIBUTION_UNITS)} ETH`);
+  }
+  return encryptEthAmount(contractAddress, userAddress, eth);
+}
+
+async function encryptEthAmount(contractAddress: string, userAddress: string, eth: number): Promise<EncryptedInput> {
+  const instance = await getFhevmInstance();
+  const input = instance.createEncryptedInput(contractAddress, userAddress);
+  input.add32(toBudgetUnits(eth));
+  const { handles, inputProof } = await input.encrypt();
+  return { handle: ethers.hexlify(handles[0]), inputProof: ethers.hexlify(inputProof) };
+}
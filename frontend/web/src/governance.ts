@@ -0,0 +1,51 @@
+// governance.ts
+import { ethers } from "ethers";
+import governanceAbiJson from "./abi/GovernanceToken.json";
+import { ContractClient, ScienceDaoClient, TxResult } from "./scienceDao";
+
+export const GOVERNANCE_TOKEN_ABI = governanceAbiJson.abi;
+
+// Typed wrapper around the checkpointed GovernanceToken
+export class GovernanceTokenClient extends ContractClient {
+  constructor(address: string, runner: ethers.ContractRunner) {
+    super(address, GOVERNANCE_TOKEN_ABI, runner);
+  }
+
+  balanceOf(account: string): Promise<bigint> {
+    return this.call(() => this.contract.balanceOf(account));
+  }
+
+  getVotes(account: string): Promise<bigint> {
+    return this.call(() => this.contract.getVotes(account));
+  }
+
+  delegates(account: string): Promise<string> {
+    return this.call(() => this.contract.delegates(account));
+  }
+
+  delegate(delegatee: string): Promise<TxResult> {
+    return this.send(() => this.contract.delegate(delegatee));
+  }
+}
+
+export interface VoterWeight {
+  weight: number; // Ballot weight in the batch, taken from the batch snapshot
+  balance: bigint; // Current token balance
+  currentVotes: bigint; // Current delegated voting power, applies from the next batch
+  delegatee: string | null; // null when the holder has not delegated yet
+}
+
+/**
+ * Describes how much a voter's ballot counts in `batchId`. Without a governance token
+ * every ballot weighs 1 and the token fields are zero.
+ */
+export async function getVoterWeight(dao: ScienceDaoClient, token: GovernanceTokenClient | null, batchId: bigint, voter: string): Promise<VoterWeight> {
+  const weight = await dao.votingWeightOf(batchId, voter);
+  if (!token) return { weight, balance: 0n, currentVotes: 0n, delegatee: null };
+  const [balance, currentVotes, delegatee] = await Promise.all([
+    token.balanceOf(voter),
+    token.getVotes(voter),
+    token.delegates(voter)
+  ]);
+  return { weight, balance, currentVotes, delegatee: delegatee === ethers.ZeroAddress ? null : delegatee };
+}
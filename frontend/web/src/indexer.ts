@@ -0,0 +1,147 @@
+// indexer.ts
+import { getActiveDeployment } from "./deployments";
+import { PROPOSAL_STATUSES, ProposalEvent, ProposalPage, ProposalStatus } from "./scienceDao";
+
+// Mirrors DaoStats from indexer/queries.ts
+export interface IndexerStats {
+  proposals: number;
+  byStatus: Record<ProposalStatus, number>;
+  ballots: number;
+  contributions: number;
+}
+
+export interface ProposalSearch {
+  q: string;
+  status?: ProposalStatus;
+  batchId?: bigint;
+  provider?: string;
+}
+
+// Mirrors IndexedProposal from indexer/queries.ts; ids are decimal strings
+interface IndexedProposalEntry {
+  proposalId: string;
+  batchId: string;
+  provider: string;
+  metadata: string;
+  category: string;
+  contentHash: string;
+  submittedAt: number;
+  version: number;
+  status: string; // A ProposalStatus, unless the indexer is newer than this app
+  ballots: number;
+  funded: boolean;
+  fromProposalId: string | null;
+}
+
+interface IndexedEventEntry {
+  name: string;
+  blockNumber: number;
+  timestamp: number;
+  args: Record<string, string | number | boolean>;
+}
+
+const isProposalStatus = (status: string): status is ProposalStatus =>
+  (PROPOSAL_STATUSES as readonly string[]).includes(status);
+
+// Largest page indexer/server.ts serves
+const MAX_PAGE = 100;
+
+// Talks to indexer/server.ts; every answer is as of the indexer's last synced block
+export class IndexerClient {
+  constructor(readonly baseUrl: string) {}
+
+  private async get<T>(route: string, params: Record<string, string | number | undefined> = {}): Promise<T> {
+    const query = new URLSearchParams();
+    for (const [key, value] of Object.entries(params)) {
+      if (value !== undefined && value !== "") query.set(key, String(value));
+    }
+    const response = await fetch(`${this.baseUrl.replace(/\/+$/, "")}${route}?${query}`);
+    if (!response.ok) throw new Error(`Indexer failed to serve ${route}: ${response.status}`);
+    return response.json();
+  }
+
+  getStats(): Promise<IndexerStats> {
+    return this.get("/stats");
+  }
+
+  // Searches title, description, category, provider and id, newest first; the other fields narrow it down
+  async searchProposals(filter: ProposalSearch, offset: number, limit: number): Promise<ProposalPage> {
+    const { q, status, batchId, provider } = filter;
+    const page = await this.get<{ items: IndexedProposalEntry[]; total: number }>("/proposals", { q, status, batchId: batchId?.toString(), provider, offset, limit });
+    return {
+      items: page.items.map(p => ({
+        proposalId: BigInt(p.proposalId),
+        batchId: BigInt(p.batchId),
+        provider: p.provider,
+        metadata: p.metadata,
+        category: p.category,
+        contentHash: p.contentHash,
+        submittedAt: BigInt(p.submittedAt),
+        version: p.version,
+        status: isProposalStatus(p.status) ? p.status : "pending",
+        ballots: p.ballots,
+        funded: p.funded
+      })),
+      total: page.total
+    };
+  }
+
+  // Same entries as ScienceDaoClient.getProposalHistory, without scanning the chain's logs
+  async getProposalHistory(provider: string): Promise<ProposalEvent[]> {
+    const entries: IndexedEventEntry[] = [];
+    for (let offset = 0; ; offset += MAX_PAGE) {
+      const page = await this.get<{ items: IndexedEventEntry[]; total: number }>("/events", { account: provider, offset, limit: MAX_PAGE });
+      entries.push(...page.items);
+      if (offset + MAX_PAGE >= page.total) break;
+    }
+    // Pages come newest first; a resubmission's ProposalSubmitted is folded into its ProposalResubmitted
+    const resubmitted = new Set(entries.filter(e => e.name === "ProposalResubmitted").map(e => String(e.args.proposalId)));
+    const events: ProposalEvent[] = [];
+    for (const entry of entries.reverse()) {
+      const { args } = entry;
+      if (String(args.provider).toLowerCase() !== provider.toLowerCase()) continue;
+      const event: ProposalEvent = {
+        kind: "submitted",
+        proposalId: BigInt(args.proposalId as string),
+        batchId: BigInt(args.batchId as string),
+        version: null,
+        note: "",
+        fromProposalId: null,
+        approved: null,
+        blockNumber: entry.blockNumber,
+        timestamp: entry.timestamp
+      };
+      switch (entry.name) {
+        case "ProposalSubmitted":
+          if (!resubmitted.has(String(args.proposalId))) events.push(event);
+          break;
+        case "ProposalAmended":
+          events.push({ ...event, kind: "amended", version: Number(args.version), note: args.note as string });
+          break;
+        case "ProposalWithdrawn":
+          events.push({ ...event, kind: "withdrawn" });
+          break;
+        case "ProposalResubmitted":
+          events.push({ ...event, kind: "resubmitted", fromProposalId: BigInt(args.fromProposalId as string), version: Number(args.version) });
+          break;
+        case "ProposalOutcomeRevealed":
+          events.push({ ...event, kind: "revealed", approved: args.approved as boolean });
+          break;
+        case "QuadraticMatchRevealed":
+          events.push({ ...event, kind: "revealed", approved: Number(args.contributed) + Number(args.matched) > 0 });
+          break;
+      }
+    }
+    return events;
+  }
+}
+
+let indexer: IndexerClient | null = null;
+
+// Null when the active deployment has no `indexerUrl`; callers then fall back to reading the contract directly
+export const getIndexer = (): IndexerClient | null => {
+  const url = getActiveDeployment().indexerUrl;
+  if (!url) return null;
+  if (indexer?.baseUrl !== url) indexer = new IndexerClient(url);
+  return indexer;
+};
@@ -0,0 +1,133 @@
+// lifecycle.ts
+import { VotingStage } from "./batchResults";
+import { ProposalEvent } from "./scienceDao";
+
+// draft → submitted → in_review → approved / rejected / withdrawn → funded → completed
+export const LIFECYCLE_STATES = ["draft", "submitted", "in_review", "approved", "rejected", "withdrawn", "funded", "completed"] as const;
+export type LifecycleState = typeof LIFECYCLE_STATES[number];
+
+export const LIFECYCLE_LABELS: Record<LifecycleState, string> = {
+  draft: "Draft",
+  submitted: "Submitted",
+  in_review: "In Review",
+  approved: "Approved",
+  rejected: "Rejected",
+  withdrawn: "Withdrawn",
+  funded: "Funded",
+  completed: "Completed"
+};
+
+export interface LifecycleInputs {
+  status: "pending" | "approved" | "rejected";
+  withdrawn: boolean;
+  funded: boolean | null;
+  completed: boolean; // Every milestone of the treasury schedule has been released
+  stage: VotingStage; // Stage of the proposal's batch
+}
+
+export function lifecycleStateOf(proposal: LifecycleInputs): LifecycleState {
+  if (proposal.withdrawn) return "withdrawn";
+  if (proposal.status === "rejected") return "rejected";
+  if (proposal.status === "approved") {
+    if (proposal.completed) return "completed";
+    return proposal.funded ? "funded" : "approved";
+  }
+  return proposal.stage === "submission" ? "submitted" : "in_review";
+}
+
+export interface TimelineEntry {
+  state: LifecycleState;
+  label: string;
+  detail: string;
+  timestamp: number | null; // Unix seconds, null when the chain does not record one
+}
+
+const entryOf = (event: ProposalEvent): TimelineEntry => {
+  const batch = `batch #${event.batchId}`;
+  switch (event.kind) {
+    case "amended":
+      return { state: "submitted", label: `Amended to v${event.version}`, detail: event.note, timestamp: event.timestamp };
+    case "withdrawn":
+      return { state: "withdrawn", label: `Withdrawn from ${batch}`, detail: "", timestamp: event.timestamp };
+    case "resubmitted":
+      return { state: "submitted", label: `Resubmitted to ${batch} as v${event.version}`, detail: `Carried over from proposal #${event.fromProposalId}`, timestamp: event.timestamp };
+    case "revealed":
+      return { state: event.approved ? "approved" : "rejected", label: `${event.approved ? "Approved" : "Rejected"} in ${batch}`, detail: "", timestamp: event.timestamp };
+    default:
+      return { state: "submitted", label: `Submitted to ${batch}`, detail: "", timestamp: event.timestamp };
+  }
+};
+
+/**
+ * Timeline of proposal `proposalId`, following resubmissions back to the proposal it
+ * was first submitted as. `votingStartOf` gives the end of a batch's submission phase,
+ * which is when a live proposal goes into review.
+ */
+export function buildTimeline(
+  events: ProposalEvent[],
+  proposalId: bigint,
+  votingStartOf: (batchId: bigint) => number | null,
+  outcome: { funded: boolean | null; completed: boolean },
+  now: number
+): TimelineEntry[] {
+  const chain = new Set<bigint>([proposalId]);
+  for (let current: bigint | null = proposalId; current !== null;) {
+    const resubmission: ProposalEvent | undefined = events.find(e => e.kind === "resubmitted" && e.proposalId === current);
+    current = resubmission && !chain.has(resubmission.fromProposalId!) ? resubmission.fromProposalId : null;
+    if (current !== null) chain.add(current);
+  }
+
+  const entries: TimelineEntry[] = [];
+  for (const id of chain) {
+    const ofProposal = events.filter(e => e.proposalId === id);
+    if (ofProposal.length === 0) continue;
+    entries.push(...ofProposal.map(entryOf));
+    // Only proposals still in the batch when voting opened were reviewed in it
+    const batch = ofProposal[0].batchId;
+    const votingStart = votingStartOf(batch);
+    const last = ofProposal.filter(e => votingStart !== null && e.timestamp < votingStart).pop();
+    if (votingStart !== null && votingStart <= now && last && last.kind !== "withdrawn") {
+      entries.push({ state: "in_review", label: `In review in batch #${batch}`, detail: "", timestamp: votingStart });
+    }
+  }
+  // A withdrawn or rejected proposal points forward to the proposal it was carried over as
+  for (const event of events.filter(e => e.kind === "resubmitted" && e.fromProposalId === proposalId)) {
+    entries.push({ ...entryOf(event), detail: `Continues as proposal #${event.proposalId} in batch #${event.batchId}` });
+  }
+  entries.sort((a, b) => (a.timestamp ?? Infinity) - (b.timestamp ?? Infinity));
+
+  const decided = entries.filter(e => e.state === "approved").pop();
+  if (decided && outcome.funded) entries.push({ state: "funded", label: "Funded", detail: "", timestamp: decided.timestamp });
+  if (decided && outcome.completed) entries.push({ state: "completed", label: "Completed", detail: "Every milestone released by the treasury", timestamp: null });
+  return entries;
+}
+
+// Unsubmitted proposals are kept in this browser only, never on-chain; attachments are not kept
+export interface ProposalDraft {
+  title: string;
+  description: string; // Markdown body
+  category: string;
+  budget: number;
+  impactScore: number;
+  feasibilityScore: number;
+  noveltyScore: number;
+  savedAt: number; // Unix seconds
+}
+
+const DRAFT_PREFIX = "science-dao:proposal-draft:";
+
+export const loadDraft = (account: string): ProposalDraft | null => {
+  try {
+    const raw = window.localStorage.getItem(DRAFT_PREFIX + account.toLowerCase());
+    return raw ? JSON.parse(raw) : null;
+  } catch (e) {
+    return null;
+  }
+};
+
+export const saveDraft = (account: string, draft: ProposalDraft | null) => {
+  try {
+    if (draft) window.localStorage.setItem(DRAFT_PREFIX + account.toLowerCase(), JSON.stringify(draft));
+    else window.localStorage.removeItem(DRAFT_PREFIX + account.toLowerCase());
+  } catch (e) { /* storage unavailable, the draft is simply not kept */ }
+};
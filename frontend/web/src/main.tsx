@@ -2,20 +2,54 @@ import React, { useEffect, useState } from 'react';
 import { createRoot } from 'react-dom/client';
 import App from './App';
 import { getDefaultConfig, RainbowKitProvider, lightTheme } from '@rainbow-me/rainbowkit';
-import { WagmiConfig } from 'wagmi';
+import { WagmiConfig, useAccount } from 'wagmi';
 import { QueryClient, QueryClientProvider } from '@tanstack/react-query';
 import '@rainbow-me/rainbowkit/styles.css';
-import { sepolia } from 'wagmi/chains';
+import { hardhat, mainnet, sepolia } from 'wagmi/chains';
+import { defineChain, type Chain } from 'viem';
 import { BrowserRouter } from 'react-router-dom';
+import { DEFAULT_CHAIN_ID, DEPLOYMENTS, Deployment, getActiveDeployment, onDeploymentChange, selectDeployment } from './deployments';
 
 const projectId = '4eeb32175359e6b21f4e3ceae163ccea';
 
+const KNOWN_CHAINS: Chain[] = [hardhat, sepolia, mainnet];
+
+// Chains wagmi has no definition for get one from their registry entry
+const chainOf = (deployment: Deployment): Chain =>
+  KNOWN_CHAINS.find(chain => chain.id === deployment.chainId) ?? defineChain({
+    id: deployment.chainId,
+    name: deployment.name,
+    nativeCurrency: { name: 'Ether', symbol: 'ETH', decimals: 18 },
+    rpcUrls: { default: { http: deployment.rpcUrls } },
+  });
+
+// Every chain with a deployment, the default one first
+const chains = [...DEPLOYMENTS]
+  .sort((a, b) => Number(b.chainId === DEFAULT_CHAIN_ID) - Number(a.chainId === DEFAULT_CHAIN_ID))
+  .map(chainOf) as [Chain, ...Chain[]];
+
 const config = getDefaultConfig({
   appName: '',
   projectId: projectId,
-  chains: [sepolia],
+  chains,
 });
 
+// Follows the wallet onto any chain with a deployment; on other chains the last deployment stays in
+// use and NetworkNotice asks to switch. The key remounts the app so nothing from the old chain lingers.
+// Switching runs in an effect: it notifies listeners that stop and reset the RPC pool.
+const DeploymentGate: React.FC = () => {
+  const { chainId, isConnected } = useAccount();
+  const [activeChainId, setActiveChainId] = useState(() => getActiveDeployment().chainId);
+
+  useEffect(() => onDeploymentChange(deployment => setActiveChainId(deployment.chainId)), []);
+
+  useEffect(() => {
+    if (isConnected && chainId !== undefined) selectDeployment(chainId);
+  }, [chainId, isConnected]);
+
+  return <App key={activeChainId} />;
+};
+
 const queryClient = new QueryClient();
 
 const calculateBrightness = (r: number, g: number, b: number) => {
@@ -122,7 +156,7 @@ createRoot(document.getElementById('root')!).render(
       <WagmiConfig config={config}>
         <BrowserRouter>
           <AdaptiveThemeProvider>
-            <App />
+            <DeploymentGate />
           </AdaptiveThemeProvider>
         </BrowserRouter>
       </WagmiConfig>
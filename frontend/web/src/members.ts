@@ -0,0 +1,31 @@
+// members.ts
+import { ROLES, Role, ScienceDaoClient } from "./scienceDao";
+
+export interface Member {
+  account: string;
+  roles: Role[];
+}
+
+export const ROLE_LABELS: Record<Role, string> = {
+  proposer: "Proposer",
+  voter: "Voter",
+  admin: "Admin",
+  treasurer: "Treasurer"
+};
+
+/**
+ * Replays RoleGranted/RoleRevoked into the current member list.
+ * Accounts whose roles were all revoked are left out.
+ */
+export async function loadMembers(client: ScienceDaoClient, fromBlock: number = 0): Promise<Member[]> {
+  const members = new Map<string, { account: string; roles: Set<Role> }>();
+  for (const change of await client.getRoleChanges(fromBlock)) {
+    const key = change.account.toLowerCase();
+    const member = members.get(key) ?? { account: change.account, roles: new Set<Role>() };
+    if (change.granted) member.roles.add(change.role); else member.roles.delete(change.role);
+    members.set(key, member);
+  }
+  return [...members.values()]
+    .filter(member => member.roles.size > 0)
+    .map(member => ({ account: member.account, roles: ROLES.filter(role => member.roles.has(role)) }));
+}
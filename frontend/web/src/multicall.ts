@@ -0,0 +1,121 @@
+// multicall.ts
+import { ethers } from "ethers";
+
+// Multicall3 is deployed at the same address on most chains; local hardhat nodes usually lack it
+export const MULTICALL3_ADDRESS = "0xcA11bde05977b3631167028862bE2a173976CA11";
+
+const MULTICALL3_ABI = [
+  "function aggregate3((address target, bool allowFailure, bytes callData)[] calls) payable returns ((bool success, bytes returnData)[] returnData)"
+];
+
+// Keeps a batch well under the gas cap RPC providers put on eth_call
+const MAX_BATCH = 100;
+
+interface PendingCall {
+  tx: ethers.TransactionRequest;
+  target: string;
+  data: string;
+  resolve: (result: string) => void;
+  reject: (error: unknown) => void;
+}
+
+/**
+ * Read-only runner for the contract clients. View calls issued in the same tick go out as one
+ * Multicall3 `aggregate3`, identical calls still in flight share one result, and chains without
+ * Multicall3 get the calls one after another. Loaders should start their reads together
+ * (Promise.all) rather than awaiting them in turn, or there is nothing to batch.
+ */
+export class MulticallRunner implements ethers.ContractRunner {
+  private readonly multicall = new ethers.Interface(MULTICALL3_ABI);
+  private readonly inFlight = new Map<string, Promise<string>>();
+  private queue: PendingCall[] = [];
+  private available: Promise<boolean> | null = null;
+
+  constructor(readonly provider: ethers.Provider) {}
+
+  resolveName(name: string): Promise<string | null> {
+    return this.provider.resolveName(name);
+  }
+
+  call(tx: ethers.TransactionRequest): Promise<string> {
+    // Only plain reads at the latest block can be batched; Multicall3 would change msg.sender and msg.value
+    const latest = tx.blockTag === undefined || tx.blockTag === "latest";
+    if (typeof tx.to !== "string" || !tx.data || tx.from || tx.value || !latest) return this.provider.call(tx);
+
+    const key = `${tx.to.toLowerCase()}:${tx.data}`;
+    const existing = this.inFlight.get(key);
+    if (existing) return existing;
+
+    const target = tx.to;
+    const data = tx.data;
+    const result = new Promise<string>((resolve, reject) => {
+      if (this.queue.length === 0) setTimeout(() => this.flush(), 0);
+      this.queue.push({ tx, target, data, resolve, reject });
+    }).finally(() => this.inFlight.delete(key));
+    this.inFlight.set(key, result);
+    return result;
+  }
+
+  private isAvailable(): Promise<boolean> {
+    if (!this.available) {
+      this.available = this.provider.getCode(MULTICALL3_ADDRESS).then(code => code !== "0x", () => false);
+    }
+    return this.available;
+  }
+
+  private async flush() {
+    const calls = this.queue;
+    this.queue = [];
+    try {
+      if (calls.length > 1 && await this.isAvailable()) {
+        const batches: Promise<void>[] = [];
+        for (let i = 0; i < calls.length; i += MAX_BATCH) batches.push(this.aggregate(calls.slice(i, i + MAX_BATCH)));
+        await Promise.all(batches);
+      } else {
+        await this.sequential(calls);
+      }
+    } catch (e) {
+      // Settled promises ignore a second settlement, so this only answers calls something left hanging
+      calls.forEach(call => call.reject(e));
+    }
+  }
+
+  private async sequential(calls: PendingCall[]) {
+    for (const call of calls) {
+      try {
+        call.resolve(await this.provider.call(call.tx));
+      } catch (e) {
+        call.reject(e);
+      }
+    }
+  }
+
+  private async aggregate(calls: PendingCall[]) {
+    let results: ethers.Result;
+    try {
+      const data = await this.provider.call({
+        to: MULTICALL3_ADDRESS,
+        data: this.multicall.encodeFunctionData("aggregate3", [calls.map(c => ({ target: c.target, allowFailure: true, callData: c.data }))])
+      });
+      [results] = this.multicall.decodeFunctionResult("aggregate3", data);
+      if (results.length !== calls.length) throw new Error(`aggregate3 returned ${results.length} results for ${calls.length} calls`);
+    } catch (e) {
+      // The batch as a whole failed (gas cap, response size); each call still deserves its own answer
+      await this.sequential(calls);
+      return;
+    }
+    results.forEach(([success, returnData]: [boolean, string], i: number) => {
+      const call = calls[i];
+      if (success) { call.resolve(returnData); return; }
+      // Shaped like a direct eth_call revert, so ethers decodes the contract's custom errors as usual
+      call.reject(ethers.makeError("execution reverted", "CALL_EXCEPTION", {
+        action: "call",
+        data: returnData,
+        reason: null,
+        transaction: { to: call.target, data: call.data },
+        invocation: null,
+        revert: null
+      }));
+    });
+  }
+}
@@ -0,0 +1,165 @@
+// researchIP.ts
+import { ethers } from "ethers";
+import researchIPAbiJson from "./abi/ResearchIP.json";
+import { ContractClient, TxResult } from "./scienceDao";
+
+export const RESEARCH_IP_ABI = researchIPAbiJson.abi;
+
+export interface ResearchIPToken {
+  tokenId: bigint;
+  proposalId: bigint;
+  batchId: bigint;
+  proposer: string;
+  contentHash: string; // sha256 of the approved off-chain proposal content
+  metadata: string;
+  mintedAt: number;
+  holder: string;
+}
+
+export const MAX_BPS = 10000;
+
+export interface LicenseOffer {
+  offerId: bigint;
+  tokenId: bigint;
+  terms: string;
+  price: bigint; // wei
+  duration: number; // seconds
+  active: boolean;
+}
+
+export interface License {
+  licenseId: bigint;
+  offerId: bigint;
+  tokenId: bigint;
+  licensee: string;
+  startsAt: number;
+  expiresAt: number;
+  pricePaid: bigint;
+}
+
+export interface LicenseRevenue {
+  total: bigint;
+  toTreasury: bigint;
+  toProposer: bigint;
+}
+
+export interface RoyaltyInfo {
+  receiver: string;
+  amount: bigint;
+}
+
+export const isLicenseActive = (license: License, now: number = Math.floor(Date.now() / 1000)) => now < license.expiresAt;
+
+// Typed wrapper around the ResearchIP ERC-721 contract
+export class ResearchIPClient extends ContractClient {
+  constructor(address: string, runner: ethers.ContractRunner) {
+    super(address, RESEARCH_IP_ABI, runner);
+  }
+
+  async getToken(tokenId: bigint): Promise<ResearchIPToken> {
+    const [record, holder] = await this.call(() => Promise.all([
+      this.contract.ipRecords(tokenId),
+      this.contract.ownerOf(tokenId)
+    ]));
+    return {
+      tokenId,
+      proposalId: record.proposalId,
+      batchId: record.batchId,
+      proposer: record.proposer,
+      contentHash: record.contentHash,
+      metadata: record.metadata,
+      mintedAt: Number(record.mintedAt),
+      holder
+    };
+  }
+
+  async getTokenFor(proposalId: bigint): Promise<ResearchIPToken | null> {
+    const tokenId: bigint = await this.call(() => this.contract.tokenOfProposal(proposalId));
+    return tokenId === 0n ? null : this.getToken(tokenId);
+  }
+
+  // Token ids are sequential from 1, so the portfolio is simply 1..totalMinted
+  async getMintedTokens(): Promise<ResearchIPToken[]> {
+    const total = Number(await this.call(() => this.contract.totalMinted()));
+    const tokenIds = Array.from({ length: total }, (_, i) => BigInt(total - i));
+    return Promise.all(tokenIds.map(tokenId => this.getToken(tokenId)));
+  }
+
+  tokenURI(tokenId: bigint): Promise<string> {
+    return this.call(() => this.contract.tokenURI(tokenId));
+  }
+
+  // Licensing
+
+  async getProposerShareBps(): Promise<number> {
+    return Number(await this.call(() => this.contract.proposerShareBps()));
+  }
+
+  async royaltyInfo(tokenId: bigint, salePrice: bigint): Promise<RoyaltyInfo> {
+    const [receiver, amount] = await this.call(() => this.contract.royaltyInfo(tokenId, salePrice));
+    return { receiver, amount };
+  }
+
+  async getOffers(tokenId: bigint): Promise<LicenseOffer[]> {
+    const ids: bigint[] = await this.call(() => this.contract.getTokenOfferIds(tokenId));
+    return this.call(() => Promise.all(ids.map(async offerId => {
+      const o = await this.contract.licenseOffers(offerId);
+      return { offerId, tokenId: o.tokenId, terms: o.terms, price: o.price, duration: Number(o.duration), active: o.active };
+    })));
+  }
+
+  async getLicenses(tokenId: bigint): Promise<License[]> {
+    const ids: bigint[] = await this.call(() => this.contract.getTokenLicenseIds(tokenId));
+    return this.call(() => Promise.all(ids.map(async licenseId => {
+      const l = await this.contract.licenses(licenseId);
+      return {
+        licenseId,
+        offerId: l.offerId,
+        tokenId: l.tokenId,
+        licensee: l.licensee,
+        startsAt: Number(l.startsAt),
+        expiresAt: Number(l.expiresAt),
+        pricePaid: l.pricePaid
+      };
+    })));
+  }
+
+  async getRevenue(tokenId: bigint): Promise<LicenseRevenue> {
+    const r = await this.call(() => this.contract.revenueOf(tokenId));
+    return { total: r.total, toTreasury: r.toTreasury, toProposer: r.toProposer };
+  }
+
+  pendingWithdrawal(account: string): Promise<bigint> {
+    return this.call(() => this.contract.pendingWithdrawals(account));
+  }
+
+  createLicenseOffer(tokenId: bigint, terms: string, price: bigint, durationSeconds: number): Promise<TxResult> {
+    return this.send(() => this.contract.createLicenseOffer(tokenId, terms, price, durationSeconds));
+  }
+
+  setLicenseOfferActive(offerId: bigint, active: boolean): Promise<TxResult> {
+    return this.send(() => this.contract.setLicenseOfferActive(offerId, active));
+  }
+
+  purchaseLicense(offer: LicenseOffer): Promise<TxResult> {
+    return this.send(() => this.contract.purchaseLicense(offer.offerId, { value: offer.price }));
+  }
+
+  withdrawRevenue(): Promise<TxResult> {
+    return this.send(() => this.contract.withdrawRevenue());
+  }
+
+  // Administration
+
+  owner(): Promise<string> {
+    return this.call(() => this.contract.owner());
+  }
+
+  setProposerShare(shareBps: number): Promise<TxResult> {
+    return this.send(() => this.contract.setProposerShare(shareBps));
+  }
+
+  setDefaultRoyalty(receiver: string, royaltyBps: number): Promise<TxResult> {
+    return this.send(() => this.contract.setDefaultRoyalty(receiver, royaltyBps));
+  }
+}
@@ -0,0 +1,231 @@
+// rpcPool.ts
+import { ethers } from "ethers";
+
+export interface RpcPoolOptions {
+  chainId: number;
+  timeoutMs: number; // A slower answer counts as a failure
+  healthCheckMs: number; // Interval between background probes of every endpoint
+  quorum: number; // Endpoints that must return the same answer for a quorum read
+  maxLagBlocks: number; // Endpoints further behind the best known head rank last
+}
+
+export const DEFAULT_POOL_OPTIONS: Omit<RpcPoolOptions, "chainId"> = {
+  timeoutMs: 10000,
+  healthCheckMs: 30000,
+  quorum: 2,
+  maxLagBlocks: 5
+};
+
+export interface EndpointStatus {
+  url: string;
+  latencyMs: number | null; // Moving average over successful requests
+  failures: number; // Consecutive; reset by the next success
+  blockNumber: number | null; // As of the last health check
+  wrongChain: boolean;
+  score: number; // Lower is better
+}
+
+// JSON-RPC errors that say "ask someone else" rather than answering the request
+const RETRYABLE_RPC_CODES = new Set([-32005, 429]); // Limit exceeded, too many requests
+
+const withTimeout = <T>(promise: Promise<T>, ms: number): Promise<T> => {
+  let timer: ReturnType<typeof setTimeout>;
+  const timeout = new Promise<never>((_, reject) => { timer = setTimeout(() => reject(new Error(`RPC timeout after ${ms}ms`)), ms); });
+  return Promise.race([promise, timeout]).finally(() => clearTimeout(timer));
+};
+
+// How the pool talks to one endpoint; tests hand in stubs
+export type ConnectEndpoint = (url: string, network: ethers.Network) => ethers.JsonRpcProvider;
+
+const connectJsonRpc: ConnectEndpoint = (url, network) =>
+  new ethers.JsonRpcProvider(url, network, { staticNetwork: network, batchMaxCount: 1 });
+
+const keyOf = (value: unknown): string => JSON.stringify(value, (_, v) => (typeof v === "bigint" ? v.toString() : v));
+
+class Endpoint {
+  readonly provider: ethers.JsonRpcProvider;
+  latencyMs: number | null = null;
+  failures = 0;
+  blockNumber: number | null = null;
+  wrongChain = false;
+  chainChecked = false;
+
+  constructor(readonly url: string, network: ethers.Network, connect: ConnectEndpoint) {
+    this.provider = connect(url, network);
+  }
+
+  recordSuccess(ms: number) {
+    this.latencyMs = this.latencyMs === null ? ms : Math.round(this.latencyMs * 0.7 + ms * 0.3);
+    this.failures = 0;
+  }
+}
+
+/**
+ * A set of RPC endpoints for one chain, ranked by latency, recent failures and how far behind the
+ * best head they are. Requests go to the best endpoint and fail over down the ranking; background
+ * health checks keep the ranking fresh, so an endpoint that recovers is picked up again.
+ */
+export class RpcPool {
+  readonly network: ethers.Network;
+  readonly provider: PooledProvider;
+  private readonly endpoints: Endpoint[];
+  private timer: ReturnType<typeof setInterval> | null = null;
+
+  constructor(urls: string[], readonly options: RpcPoolOptions, connect: ConnectEndpoint = connectJsonRpc) {
+    const unique = [...new Set(urls.map(url => url.trim()).filter(Boolean))];
+    if (unique.length === 0) throw new Error("No RPC endpoints configured");
+    this.network = ethers.Network.from(options.chainId);
+    this.endpoints = unique.map(url => new Endpoint(url, this.network, connect));
+    this.provider = new PooledProvider(this);
+  }
+
+  // Resolves once the first health check has ranked the endpoints; requests need not wait for it
+  async start() {
+    if (this.timer) return;
+    this.timer = setInterval(() => this.checkHealth(), this.options.healthCheckMs);
+    await this.checkHealth();
+  }
+
+  stop() {
+    if (this.timer) clearInterval(this.timer);
+    this.timer = null;
+  }
+
+  status(): EndpointStatus[] {
+    const head = this.bestHead();
+    return this.endpoints.map(e => ({
+      url: e.url,
+      latencyMs: e.latencyMs,
+      failures: e.failures,
+      blockNumber: e.blockNumber,
+      wrongChain: e.wrongChain,
+      score: this.scoreOf(e, head)
+    }));
+  }
+
+  // Runs `fn` on the best endpoint, failing over down the ranking when one errors or times out
+  async request<T>(fn: (provider: ethers.JsonRpcProvider) => Promise<T>): Promise<T> {
+    let lastError: unknown = new Error("No RPC endpoint serves the configured chain");
+    for (const endpoint of this.ranked()) {
+      try {
+        return await this.timed(endpoint, fn);
+      } catch (e) {
+        // A revert is the chain's answer; any other endpoint would give the same one
+        if (ethers.isError(e, "CALL_EXCEPTION")) throw e;
+        lastError = e;
+      }
+    }
+    throw lastError;
+  }
+
+  // For values a wrong answer would be costly for: asks the best `quorum` endpoints, then the others
+  // one at a time, until enough of them agree. With fewer endpoints than the quorum, all must agree.
+  async quorumRequest<T>(fn: (provider: ethers.JsonRpcProvider) => Promise<T>): Promise<T> {
+    const ranked = this.ranked();
+    const needed = Math.min(this.options.quorum, ranked.length);
+    const answers = new Map<string, { value: T; count: number }>();
+    let lastError: unknown = new Error("No RPC endpoint serves the configured chain");
+
+    const ask = async (endpoint: Endpoint) => {
+      try {
+        const value = await this.timed(endpoint, fn);
+        const key = keyOf(value);
+        const answer = answers.get(key) ?? { value, count: 0 };
+        answer.count++;
+        answers.set(key, answer);
+      } catch (e) {
+        lastError = e;
+      }
+    };
+    const agreed = () => [...answers.values()].find(a => a.count >= needed);
+
+    await Promise.all(ranked.slice(0, needed).map(ask));
+    for (let next = needed; !agreed() && next < ranked.length; next++) await ask(ranked[next]);
+
+    const answer = agreed();
+    if (answer) return answer.value;
+    if (answers.size > 1) throw new Error(`RPC endpoints disagree: no answer reached a quorum of ${needed}`);
+    throw lastError;
+  }
+
+  private async timed<T>(endpoint: Endpoint, fn: (provider: ethers.JsonRpcProvider) => Promise<T>): Promise<T> {
+    const started = Date.now();
+    try {
+      const result = await withTimeout(fn(endpoint.provider), this.options.timeoutMs);
+      endpoint.recordSuccess(Date.now() - started);
+      return result;
+    } catch (e) {
+      if (ethers.isError(e, "CALL_EXCEPTION")) endpoint.recordSuccess(Date.now() - started);
+      else endpoint.failures++;
+      throw e;
+    }
+  }
+
+  private async checkHealth() {
+    await Promise.all(this.endpoints.map(async endpoint => {
+      try {
+        if (!endpoint.chainChecked) {
+          const chainId = Number(await this.timed(endpoint, p => p.send("eth_chainId", [])));
+          endpoint.wrongChain = chainId !== this.options.chainId;
+          endpoint.chainChecked = true;
+          if (endpoint.wrongChain) console.warn(`${endpoint.url} serves chain ${chainId}, not ${this.options.chainId}; leaving it out`);
+        }
+        endpoint.blockNumber = await this.timed(endpoint, p => p.getBlockNumber());
+      } catch (e) {
+        // Already counted against the endpoint; the next check tries again
+      }
+    }));
+  }
+
+  private bestHead(): number | null {
+    const heads = this.endpoints.filter(e => !e.wrongChain && e.blockNumber !== null).map(e => e.blockNumber!);
+    return heads.length > 0 ? Math.max(...heads) : null;
+  }
+
+  // Latency, a second per consecutive failure, and a step down the ranking when lagging behind the head
+  private scoreOf(endpoint: Endpoint, head: number | null): number {
+    if (endpoint.wrongChain) return Infinity;
+    const latency = endpoint.latencyMs ?? this.options.timeoutMs / 2; // Unprobed endpoints rank mid-field
+    const lag = head !== null && endpoint.blockNumber !== null ? head - endpoint.blockNumber : 0;
+    return latency + endpoint.failures * 1000 + (lag > this.options.maxLagBlocks ? this.options.timeoutMs * 10 : 0);
+  }
+
+  private ranked(): Endpoint[] {
+    const head = this.bestHead();
+    return this.endpoints
+      .filter(e => !e.wrongChain)
+      .map(e => ({ endpoint: e, score: this.scoreOf(e, head) }))
+      .sort((a, b) => a.score - b.score)
+      .map(({ endpoint }) => endpoint);
+  }
+}
+
+// An ethers provider whose every JSON-RPC request goes through the pool
+export class PooledProvider extends ethers.JsonRpcApiProvider {
+  constructor(private readonly pool: RpcPool) {
+    super(pool.network, { staticNetwork: pool.network, batchMaxCount: 1 });
+  }
+
+  async _send(payload: ethers.JsonRpcPayload | ethers.JsonRpcPayload[]): Promise<Array<ethers.JsonRpcResult | ethers.JsonRpcError>> {
+    return this.pool.request(async provider => {
+      // JsonRpcProvider types its answers as results only, but error answers come back the same way
+      const results: Array<ethers.JsonRpcResult | ethers.JsonRpcError> = await provider._send(payload);
+      const limited = results.find((r): r is ethers.JsonRpcError => "error" in r && RETRYABLE_RPC_CODES.has(r.error.code));
+      if (limited) throw new Error(`Rate limited: ${limited.error.message}`);
+      return results;
+    });
+  }
+}
+
+// Contract runner whose view calls need `quorum` endpoints to agree
+export class QuorumRunner implements ethers.ContractRunner {
+  constructor(private readonly pool: RpcPool) {}
+
+  get provider(): ethers.Provider {
+    return this.pool.provider;
+  }
+
+  call(tx: ethers.TransactionRequest): Promise<string> {
+    return this.pool.quorumRequest(provider => provider.call(tx));
+  }
+}
@@ -0,0 +1,838 @@
+// scienceDao.ts
+import { ethers } from "ethers";
+import daoAbiJson from "./abi/Science_DAO_FHE.json";
+import { ScienceDaoTxError, decodeScienceDaoError } from "./daoErrors";
+// Typechain output of the root `npm run compile`
+import type { Science_DAO_FHE } from "../../../types/contracts/Science_DAO.sol/Science_DAO_FHE";
+
+export const DAO_ABI = daoAbiJson.abi;
+
+// Ciphertext handles are passed around as 0x-prefixed bytes32 hex strings
+export type Handle = string;
+
+export interface ProposalHandles {
+  fundingAmount: Handle;
+  impactScore: Handle;
+  feasibilityScore: Handle;
+  noveltyScore: Handle;
+}
+
+// Relayer-encrypted inputs: handles plus the proof binding them to contract and sender
+export interface EncryptedProposalInputs {
+  handles: ProposalHandles;
+  inputProof: string;
+}
+
+export interface EncryptedInput {
+  handle: Handle;
+  inputProof: string;
+}
+
+// Mirrors the on-chain Role enum, in declaration order
+export const ROLES = ["proposer", "voter", "admin", "treasurer"] as const;
+export type Role = typeof ROLES[number];
+
+export interface RoleChange {
+  role: Role;
+  account: string;
+  granted: boolean;
+}
+
+// Mirrors the on-chain ProposalStatus enum, in declaration order; derived on-chain from the revealed tally
+export const PROPOSAL_STATUSES = ["pending", "approved", "rejected", "withdrawn"] as const;
+export type ProposalStatus = typeof PROPOSAL_STATUSES[number];
+
+// Mirrors the on-chain BatchMode enum, in declaration order
+export const BATCH_MODES = ["approval", "quadratic"] as const;
+export type BatchMode = typeof BATCH_MODES[number];
+
+export const TALLY_PHASES = ["scoring", "ranking", "funding"] as const;
+export type TallyPhase = typeof TALLY_PHASES[number];
+
+// Unix timestamps (seconds) ending the submission and voting phases of a batch
+export interface BatchSchedule {
+  submissionEnd: bigint;
+  votingEnd: bigint;
+}
+
+export interface BatchState {
+  currentBatchId: bigint;
+  batchOpen: boolean;
+  paused: boolean;
+  cooldownSeconds: bigint;
+}
+
+export interface StoredProposal extends ProposalHandles {
+  proposalId: bigint;
+  batchId: bigint;
+  provider: string;
+  metadata: string;
+  category: string;
+  contentHash: string; // sha256 of the off-chain content, see contentStore.ts
+  submittedAt: bigint;
+  exists: boolean;
+  version: number; // Bumped by every amendment and resubmission
+  withdrawn: boolean;
+}
+
+// Public metadata submitted alongside the encrypted values, stored on-chain as JSON.
+// The body lives off-chain under the proposal's content hash; `description` is only set by older proposals.
+export interface ProposalMetadata {
+  title?: string;
+  description?: string;
+  category?: string;
+}
+
+export const RESEARCH_CATEGORIES = [
+  "Biology",
+  "Physics",
+  "Chemistry",
+  "Medicine",
+  "Computer Science",
+  "Engineering",
+  "Mathematics",
+  "Other"
+];
+
+export const parseProposalMetadata = (raw: string): ProposalMetadata => {
+  try {
+    const parsed = JSON.parse(raw);
+    return parsed && typeof parsed === "object" ? parsed : {};
+  } catch (e) {
+    return {};
+  }
+};
+
+export interface ProposalRef {
+  proposalId: bigint;
+  batchId: bigint;
+}
+
+// Public fields returned in bulk by the paginated views; the encrypted handles need getProposal
+export interface ProposalSummary extends ProposalRef {
+  provider: string;
+  metadata: string;
+  category: string;
+  contentHash: string;
+  submittedAt: bigint;
+  version: number;
+  status: ProposalStatus;
+  ballots: number;
+  funded: boolean;
+}
+
+// Newest first; `total` counts every match, not just this page
+export interface ProposalPage {
+  items: ProposalSummary[];
+  total: number;
+}
+
+export interface VoteRef extends ProposalRef {
+  voter: string;
+}
+
+// A ballot still counted, with the handle of its latest encrypted choice
+export interface BallotRef extends VoteRef {
+  encryptedVote: Handle;
+}
+
+export type ProposalEventKind = "submitted" | "amended" | "withdrawn" | "resubmitted" | "revealed";
+
+// One on-chain step in a proposal's history, newest last
+export interface ProposalEvent extends ProposalRef {
+  kind: ProposalEventKind;
+  version: number | null; // Not emitted with plain submissions and withdrawals
+  note: string; // Amendment note
+  fromProposalId: bigint | null; // Set on resubmissions
+  approved: boolean | null; // Set once the outcome is revealed
+  blockNumber: number;
+  timestamp: number; // Unix seconds of the block
+}
+
+export interface StoredBatchResult {
+  encryptedApprovedCount: Handle;
+  encryptedTotalFunding: Handle;
+  tallied: boolean;
+  decrypted: boolean;
+  decryptionPending: boolean; // The oracle has not answered the last request yet
+  approvedCount: bigint;
+  totalFunding: bigint;
+  tallyPhase: TallyPhase; // Where an approval tally running over several transactions has got to
+  tallyCursor: number; // Proposals or proposal pairs of tallyPhase already processed
+}
+
+export interface ProposalOutcome extends ProposalRef {
+  approved: boolean;
+  approvals: number; // Weight behind approve ballots
+  ballots: number;
+  totalWeight: number;
+  rank: number;
+  funded: boolean;
+}
+
+export interface StoredVote {
+  weight: number;
+  castBy: string; // The voter, or the delegate who cast the ballot for them
+  exists: boolean;
+}
+
+// `category` is "" for the catch-all delegation; `delegate` is the zero address once revoked
+export interface DelegateChange {
+  delegator: string;
+  delegate: string;
+  category: string;
+}
+
+export interface ContributionRef extends ProposalRef {
+  contributor: string;
+}
+
+// Revealed quadratic funding result for one proposal, amounts in budget units
+export interface QuadraticMatch extends ProposalRef {
+  contributed: bigint;
+  contributors: number;
+  sqrtSum: number;
+  matched: bigint;
+}
+
+// Approval batches only; all zero means no quorum and a simple majority
+export interface BatchQuorum {
+  minBallots: number;
+  minWeight: number;
+  approvalPercent: number; // Share of the cast weight that must approve, 0 for a strict majority
+}
+
+// Public participation in a proposal; the ballots themselves stay encrypted
+export interface ProposalParticipation {
+  ballots: number;
+  totalWeight: number;
+}
+
+export interface QuorumFailure extends ProposalRef, ProposalParticipation {}
+
+export interface ScoringConfig {
+  impactWeight: number;
+  feasibilityWeight: number;
+  noveltyWeight: number;
+  minCompositeScore: number;
+  maxScore: number;
+}
+
+// Funding cap for one batch; `cap` is only known in plaintext when the budget was not set encrypted
+export interface BatchBudget {
+  encryptedCap: Handle;
+  capSet: boolean;
+  encrypted: boolean;
+  cap: bigint;
+}
+
+export interface DecryptionContext {
+  batchId: bigint;
+  stateHash: string;
+  processed: boolean;
+}
+
+export interface TxResult {
+  hash: string;
+  receipt: ethers.TransactionReceipt | null;
+}
+
+export interface DecryptionRequestResult extends TxResult {
+  requestId: bigint | null;
+}
+
+export interface TallyStepResult extends DecryptionRequestResult {
+  published: boolean; // Results of a batch with nothing to decrypt were published without the oracle
+}
+
+export interface ProposalTxResult extends TxResult {
+  proposalId: bigint | null;
+}
+
+/**
+ * Shared plumbing for the typed contract clients.
+ * Every failing call is rethrown as a ScienceDaoTxError with the custom error decoded.
+ */
+export class ContractClient {
+  readonly contract: ethers.Contract;
+
+  constructor(address: string, abi: ethers.InterfaceAbi, runner: ethers.ContractRunner) {
+    this.contract = new ethers.Contract(address, abi, runner);
+  }
+
+  async getAddress(): Promise<string> {
+    return this.contract.getAddress();
+  }
+
+  protected findEvent(receipt: ethers.TransactionReceipt | null, name: string): ethers.LogDescription | null {
+    if (!receipt) return null;
+    for (const log of receipt.logs) {
+      try {
+        const parsed = this.contract.interface.parseLog(log);
+        if (parsed?.name === name) return parsed;
+      } catch { /* log emitted by another contract */ }
+    }
+    return null;
+  }
+
+  protected async call<T>(fn: () => Promise<T>): Promise<T> {
+    try {
+      return await fn();
+    } catch (e) {
+      throw new ScienceDaoTxError(decodeScienceDaoError(e), e);
+    }
+  }
+
+  protected async send(fn: () => Promise<ethers.ContractTransactionResponse>): Promise<TxResult> {
+    try {
+      const tx = await fn();
+      const receipt = await tx.wait();
+      return { hash: tx.hash, receipt };
+    } catch (e) {
+      throw new ScienceDaoTxError(decodeScienceDaoError(e), e);
+    }
+  }
+}
+
+// Typed wrapper around the Science_DAO_FHE contract
+export class ScienceDaoClient extends ContractClient {
+  constructor(address: string, runner: ethers.ContractRunner) {
+    super(address, DAO_ABI, runner);
+  }
+
+  // Views
+
+  owner(): Promise<string> {
+    return this.call(() => this.contract.owner());
+  }
+
+  isProvider(account: string): Promise<boolean> {
+    return this.call(() => this.contract.isProvider(account));
+  }
+
+  hasRole(role: Role, account: string): Promise<boolean> {
+    return this.call(() => this.contract.hasRole(ROLES.indexOf(role), account));
+  }
+
+  async getRoles(account: string): Promise<Role[]> {
+    const granted = await Promise.all(ROLES.map(role => this.hasRole(role, account)));
+    return ROLES.filter((_, i) => granted[i]);
+  }
+
+  async getBatchState(): Promise<BatchState> {
+    const [currentBatchId, batchOpen, paused, cooldownSeconds] = await this.call(() => Promise.all([
+      this.contract.currentBatchId(),
+      this.contract.batchOpen(),
+      this.contract.paused(),
+      this.contract.cooldownSeconds()
+    ]));
+    return { currentBatchId, batchOpen, paused, cooldownSeconds };
+  }
+
+  async getProposal(proposalId: bigint): Promise<StoredProposal> {
+    const p = await this.call(() => this.contract.proposals(proposalId));
+    return {
+      proposalId,
+      batchId: p.batchId,
+      provider: p.provider,
+      fundingAmount: p.encryptedFundingAmount,
+      impactScore: p.encryptedImpactScore,
+      feasibilityScore: p.encryptedFeasibilityScore,
+      noveltyScore: p.encryptedNoveltyScore,
+      metadata: p.metadata,
+      category: p.category,
+      contentHash: p.contentHash,
+      submittedAt: p.submittedAt,
+      exists: p.exists,
+      version: Number(p.version),
+      withdrawn: p.withdrawn
+    };
+  }
+
+  // Proposals still in the batch, in submission order; withdrawn ones are left out
+  getBatchProposalIds(batchId: bigint): Promise<bigint[]> {
+    return this.call(async () => [...await this.contract.getBatchProposalIds(batchId)]);
+  }
+
+  async proposalCount(): Promise<bigint> {
+    return BigInt(await this.call(() => this.contract.proposalCount()));
+  }
+
+  // Paginated views: one call per page however many proposals it holds
+
+  async getBatchProposalsPage(batchId: bigint, offset: number, limit: number): Promise<ProposalPage> {
+    return this.toPage(await this.call(() => this.contract.getBatchProposalsPage(batchId, offset, limit)));
+  }
+
+  async getProposerProposalsPage(proposer: string, offset: number, limit: number): Promise<ProposalPage> {
+    return this.toPage(await this.call(() => this.contract.getProposerProposalsPage(proposer, offset, limit)));
+  }
+
+  // Scans every proposal on-chain; a zero `limit` only counts them
+  async getProposalsByStatusPage(status: ProposalStatus, offset: number, limit: number): Promise<ProposalPage> {
+    return this.toPage(await this.call(() => this.contract.getProposalsByStatusPage(PROPOSAL_STATUSES.indexOf(status), offset, limit)));
+  }
+
+  private toPage([items, total]: [Science_DAO_FHE.ProposalViewStructOutput[], bigint]): ProposalPage {
+    return {
+      items: items.map(p => ({
+        proposalId: p.proposalId,
+        batchId: p.batchId,
+        provider: p.provider,
+        metadata: p.metadata,
+        category: p.category,
+        contentHash: p.contentHash,
+        submittedAt: p.submittedAt,
+        version: Number(p.version),
+        status: PROPOSAL_STATUSES[Number(p.status)],
+        ballots: Number(p.ballots),
+        funded: p.funded
+      })),
+      total: Number(total)
+    };
+  }
+
+  async getBatchResult(batchId: bigint): Promise<StoredBatchResult> {
+    const r = await this.call(() => this.contract.batchResults(batchId));
+    return {
+      encryptedApprovedCount: r.encryptedApprovedCount,
+      encryptedTotalFunding: r.encryptedTotalFunding,
+      tallied: r.tallied,
+      decrypted: r.decrypted,
+      decryptionPending: r.decryptionPending,
+      approvedCount: r.approvedCount,
+      totalFunding: r.totalFunding,
+      tallyPhase: TALLY_PHASES[Number(r.tallyPhase)],
+      tallyCursor: Number(r.tallyCursor)
+    };
+  }
+
+  isProposalFunded(proposalId: bigint, provider: string): Promise<boolean> {
+    return this.call(() => this.contract.isProposalFunded(proposalId, provider));
+  }
+
+  async votingWeightOf(batchId: bigint, voter: string): Promise<number> {
+    return Number(await this.call(() => this.contract.votingWeightOf(batchId, voter)));
+  }
+
+  governanceToken(): Promise<string> {
+    return this.call(() => this.contract.governanceToken());
+  }
+
+  researchIP(): Promise<string> {
+    return this.call(() => this.contract.researchIP());
+  }
+
+  async getScoringConfig(): Promise<ScoringConfig> {
+    const [weights, minCompositeScore, maxScore] = await this.call(() => Promise.all([
+      this.contract.scoringWeights(),
+      this.contract.minCompositeScore(),
+      this.contract.MAX_SCORE()
+    ]));
+    return {
+      impactWeight: Number(weights.impact),
+      feasibilityWeight: Number(weights.feasibility),
+      noveltyWeight: Number(weights.novelty),
+      minCompositeScore: Number(minCompositeScore),
+      maxScore: Number(maxScore)
+    };
+  }
+
+  async getBatchBudget(batchId: bigint): Promise<BatchBudget> {
+    const b = await this.call(() => this.contract.batchBudgets(batchId));
+    return { encryptedCap: b.encryptedCap, capSet: b.capSet, encrypted: b.encrypted, cap: b.cap };
+  }
+
+  async getVote(proposalId: bigint, voter: string): Promise<StoredVote> {
+    const v = await this.call(() => this.contract.proposalVotes(proposalId, voter));
+    return { weight: Number(v.weight), castBy: v.castBy, exists: v.exists };
+  }
+
+  async getProposalParticipation(proposalId: bigint): Promise<ProposalParticipation> {
+    const t = await this.call(() => this.contract.proposalTallies(proposalId));
+    return { ballots: Number(t.ballots), totalWeight: Number(t.totalWeight) };
+  }
+
+  delegateFor(delegator: string, category: string): Promise<string> {
+    return this.call(() => this.contract.delegateFor(delegator, category));
+  }
+
+  async getBatchMode(batchId: bigint): Promise<BatchMode> {
+    return BATCH_MODES[Number(await this.call(() => this.contract.batchModes(batchId)))];
+  }
+
+  async getBatchSchedule(batchId: bigint): Promise<BatchSchedule> {
+    const schedule = await this.call(() => this.contract.batchSchedules(batchId));
+    return { submissionEnd: BigInt(schedule.submissionEnd), votingEnd: BigInt(schedule.votingEnd) };
+  }
+
+  async getBatchQuorum(batchId: bigint): Promise<BatchQuorum> {
+    const q = await this.call(() => this.contract.batchQuorums(batchId));
+    return { minBallots: Number(q.minBallots), minWeight: Number(q.minWeight), approvalPercent: Number(q.approvalPercent) };
+  }
+
+  async getMatchingPool(batchId: bigint): Promise<bigint> {
+    return BigInt(await this.call(() => this.contract.matchingPools(batchId)));
+  }
+
+  async getDecryptionContext(requestId: bigint): Promise<DecryptionContext> {
+    const ctx = await this.call(() => this.contract.decryptionContexts(requestId));
+    return { batchId: ctx.batchId, stateHash: ctx.stateHash, processed: ctx.processed };
+  }
+
+  // Event history
+
+  async getSubmittedProposals(fromBlock: number = 0): Promise<ProposalRef[]> {
+    const logs = await this.call(() => this.contract.queryFilter(this.contract.filters.ProposalSubmitted(), fromBlock));
+    const refs: ProposalRef[] = [];
+    for (const log of logs) {
+      if (!("args" in log)) continue;
+      refs.push({ proposalId: log.args.proposalId as bigint, batchId: log.args.batchId as bigint });
+    }
+    return refs;
+  }
+
+  // Submissions, amendments, withdrawals, resubmissions and revealed outcomes of every proposal of one provider, in chain order
+  async getProposalHistory(provider: string, fromBlock: number = 0): Promise<ProposalEvent[]> {
+    const [submitted, amended, withdrawn, resubmitted, outcomes, matches] = await this.call(() => Promise.all([
+      this.contract.queryFilter(this.contract.filters.ProposalSubmitted(null, provider), fromBlock),
+      this.contract.queryFilter(this.contract.filters.ProposalAmended(null, provider), fromBlock),
+      this.contract.queryFilter(this.contract.filters.ProposalWithdrawn(null, provider), fromBlock),
+      this.contract.queryFilter(this.contract.filters.ProposalResubmitted(null, null, provider), fromBlock),
+      this.contract.queryFilter(this.contract.filters.ProposalOutcomeRevealed(null, null, provider), fromBlock),
+      this.contract.queryFilter(this.contract.filters.QuadraticMatchRevealed(null, null, provider), fromBlock)
+    ]));
+    // A resubmission also emits ProposalSubmitted; the resubmission entry stands for both
+    const resubmissionTxs = new Set(resubmitted.map(log => log.transactionHash));
+    const logs: Array<ethers.EventLog | ethers.Log> = [
+      ...submitted.filter(log => !resubmissionTxs.has(log.transactionHash)),
+      ...amended,
+      ...withdrawn,
+      ...resubmitted,
+      ...outcomes,
+      ...matches
+    ].sort((a, b) => a.blockNumber - b.blockNumber || a.index - b.index);
+
+    const timestamps = new Map<number, number>();
+    const events: ProposalEvent[] = [];
+    for (const log of logs) {
+      if (!("args" in log)) continue;
+      if (!timestamps.has(log.blockNumber)) timestamps.set(log.blockNumber, (await this.call(() => log.getBlock())).timestamp);
+      const event: ProposalEvent = {
+        kind: "submitted",
+        proposalId: log.args.proposalId as bigint,
+        batchId: log.args.batchId as bigint,
+        version: null,
+        note: "",
+        fromProposalId: null,
+        approved: null,
+        blockNumber: log.blockNumber,
+        timestamp: timestamps.get(log.blockNumber)!
+      };
+      switch (log.eventName) {
+        case "ProposalAmended":
+          events.push({ ...event, kind: "amended", version: Number(log.args.version), note: log.args.note as string });
+          break;
+        case "ProposalWithdrawn":
+          events.push({ ...event, kind: "withdrawn" });
+          break;
+        case "ProposalResubmitted":
+          events.push({ ...event, kind: "resubmitted", fromProposalId: log.args.fromProposalId as bigint, version: Number(log.args.version) });
+          break;
+        case "ProposalOutcomeRevealed":
+          events.push({ ...event, kind: "revealed", approved: log.args.approved as boolean });
+          break;
+        case "QuadraticMatchRevealed":
+          // Anything contributed or matched counts as funded
+          events.push({ ...event, kind: "revealed", approved: BigInt(log.args.contributed) + BigInt(log.args.matched) > 0n });
+          break;
+        default:
+          events.push(event);
+      }
+    }
+    return events;
+  }
+
+  // Pass `voter` to only replay the ballots counted for that account
+  async getSubmittedVotes(fromBlock: number = 0, voter?: string): Promise<BallotRef[]> {
+    const [submitted, withdrawn] = await this.call(() => Promise.all([
+      this.contract.queryFilter(this.contract.filters.VoteSubmitted(voter ?? null), fromBlock),
+      this.contract.queryFilter(this.contract.filters.VoteWithdrawn(voter ?? null), fromBlock)
+    ]));
+    // Replay both event kinds in chain order so a withdrawal only removes earlier ballots
+    const logs: Array<ethers.EventLog | ethers.Log> = [...submitted, ...withdrawn].sort((a, b) => a.blockNumber - b.blockNumber || a.index - b.index);
+    const seen = new Map<string, BallotRef>();
+    for (const log of logs) {
+      if (!("args" in log)) continue;
+      const ref = { proposalId: log.args.proposalId as bigint, batchId: log.args.batchId as bigint, voter: log.args.voter as string };
+      const key = `${ref.proposalId}-${ref.voter.toLowerCase()}`;
+      // An updated ballot replaces the earlier entry, so the handle is always the latest choice
+      if (log.eventName === "VoteWithdrawn") seen.delete(key); else seen.set(key, { ...ref, encryptedVote: log.args.encryptedVote as Handle });
+    }
+    return [...seen.values()];
+  }
+
+  async getRoleChanges(fromBlock: number = 0): Promise<RoleChange[]> {
+    const [granted, revoked] = await this.call(() => Promise.all([
+      this.contract.queryFilter(this.contract.filters.RoleGranted(), fromBlock),
+      this.contract.queryFilter(this.contract.filters.RoleRevoked(), fromBlock)
+    ]));
+    const logs: Array<ethers.EventLog | ethers.Log> = [...granted, ...revoked].sort((a, b) => a.blockNumber - b.blockNumber || a.index - b.index);
+    const changes: RoleChange[] = [];
+    for (const log of logs) {
+      if (!("args" in log)) continue;
+      changes.push({ role: ROLES[Number(log.args.role)], account: log.args.account as string, granted: log.eventName === "RoleGranted" });
+    }
+    return changes;
+  }
+
+  async getDelegateChanges(fromBlock: number = 0): Promise<DelegateChange[]> {
+    const logs = await this.call(() => this.contract.queryFilter(this.contract.filters.DelegateSet(), fromBlock));
+    const changes: DelegateChange[] = [];
+    for (const log of logs) {
+      if (!("args" in log)) continue;
+      changes.push({ delegator: log.args.delegator as string, delegate: log.args.delegate as string, category: log.args.category as string });
+    }
+    return changes;
+  }
+
+  async getSubmittedContributions(fromBlock: number = 0): Promise<ContributionRef[]> {
+    const logs = await this.call(() => this.contract.queryFilter(this.contract.filters.ContributionSubmitted(), fromBlock));
+    const seen = new Map<string, ContributionRef>();
+    for (const log of logs) {
+      if (!("args" in log)) continue;
+      const ref = { proposalId: log.args.proposalId as bigint, batchId: log.args.batchId as bigint, contributor: log.args.contributor as string };
+      // A new contribution replaces the previous one from the same member
+      seen.set(`${ref.proposalId}-${ref.contributor.toLowerCase()}`, ref);
+    }
+    return [...seen.values()];
+  }
+
+  async getQuadraticMatches(fromBlock: number = 0): Promise<QuadraticMatch[]> {
+    const logs = await this.call(() => this.contract.queryFilter(this.contract.filters.QuadraticMatchRevealed(), fromBlock));
+    const matches: QuadraticMatch[] = [];
+    for (const log of logs) {
+      if (!("args" in log)) continue;
+      matches.push({
+        proposalId: log.args.proposalId as bigint,
+        batchId: log.args.batchId as bigint,
+        contributed: BigInt(log.args.contributed),
+        contributors: Number(log.args.contributors),
+        sqrtSum: Number(log.args.sqrtSum),
+        matched: BigInt(log.args.matched)
+      });
+    }
+    return matches;
+  }
+
+  // Emitted when a batch is tallied, for every proposal that missed its batch quorum
+  async getQuorumFailures(fromBlock: number = 0): Promise<QuorumFailure[]> {
+    const logs = await this.call(() => this.contract.queryFilter(this.contract.filters.QuorumNotMet(), fromBlock));
+    const failures: QuorumFailure[] = [];
+    for (const log of logs) {
+      if (!("args" in log)) continue;
+      failures.push({
+        proposalId: log.args.proposalId as bigint,
+        batchId: log.args.batchId as bigint,
+        ballots: Number(log.args.ballots),
+        totalWeight: Number(log.args.totalWeight)
+      });
+    }
+    return failures;
+  }
+
+  async getProposalOutcomes(fromBlock: number = 0): Promise<ProposalOutcome[]> {
+    const logs = await this.call(() => this.contract.queryFilter(this.contract.filters.ProposalOutcomeRevealed(), fromBlock));
+    const outcomes: ProposalOutcome[] = [];
+    for (const log of logs) {
+      if (!("args" in log)) continue;
+      outcomes.push({
+        proposalId: log.args.proposalId as bigint,
+        batchId: log.args.batchId as bigint,
+        approved: log.args.approved as boolean,
+        approvals: Number(log.args.approvals),
+        ballots: Number(log.args.ballots),
+        totalWeight: Number(log.args.totalWeight),
+        rank: Number(log.args.rank),
+        funded: log.args.funded as boolean
+      });
+    }
+    return outcomes;
+  }
+
+  // Proposals and votes
+
+  // `contentHash` is the sha256 of the off-chain body the metadata points to
+  async submitProposal(inputs: EncryptedProposalInputs, metadata: string, category: string, contentHash: string): Promise<ProposalTxResult> {
+    const { handles, inputProof } = inputs;
+    const result = await this.send(() => this.contract.submitProposal(
+      handles.fundingAmount,
+      handles.impactScore,
+      handles.feasibilityScore,
+      handles.noveltyScore,
+      inputProof,
+      metadata,
+      category,
+      contentHash
+    ));
+    const event = this.findEvent(result.receipt, "ProposalSubmitted");
+    return { ...result, proposalId: event ? event.args.proposalId : null };
+  }
+
+  // Replaces one of the sender's live proposals in the current batch during the submission phase
+  amendProposal(proposalId: bigint, inputs: EncryptedProposalInputs, metadata: string, category: string, contentHash: string, note: string): Promise<TxResult> {
+    const { handles, inputProof } = inputs;
+    return this.send(() => this.contract.amendProposal(
+      proposalId,
+      handles.fundingAmount,
+      handles.impactScore,
+      handles.feasibilityScore,
+      handles.noveltyScore,
+      inputProof,
+      metadata,
+      category,
+      contentHash,
+      note
+    ));
+  }
+
+  withdrawProposal(proposalId: bigint): Promise<TxResult> {
+    return this.send(() => this.contract.withdrawProposal(proposalId));
+  }
+
+  // Carries a withdrawn or rejected proposal into the current batch under a new id
+  async resubmitProposal(fromProposalId: bigint): Promise<ProposalTxResult> {
+    const result = await this.send(() => this.contract.resubmitProposal(fromProposalId));
+    const event = this.findEvent(result.receipt, "ProposalResubmitted");
+    return { ...result, proposalId: event ? event.args.proposalId : null };
+  }
+
+  submitVote(proposalId: bigint, vote: EncryptedInput): Promise<TxResult> {
+    return this.send(() => this.contract.submitVote(proposalId, vote.handle, vote.inputProof));
+  }
+
+  updateVote(proposalId: bigint, vote: EncryptedInput): Promise<TxResult> {
+    return this.send(() => this.contract.updateVote(proposalId, vote.handle, vote.inputProof));
+  }
+
+  withdrawVote(proposalId: bigint): Promise<TxResult> {
+    return this.send(() => this.contract.withdrawVote(proposalId));
+  }
+
+  submitDelegatedVotes(proposalId: bigint, delegators: string[], vote: EncryptedInput): Promise<TxResult> {
+    return this.send(() => this.contract.submitDelegatedVotes(proposalId, delegators, vote.handle, vote.inputProof));
+  }
+
+  // Delegation
+
+  setDelegate(category: string, delegate: string): Promise<TxResult> {
+    return this.send(() => this.contract.setDelegate(category, delegate));
+  }
+
+  revokeDelegate(category: string): Promise<TxResult> {
+    return this.send(() => this.contract.setDelegate(category, ethers.ZeroAddress));
+  }
+
+  submitContribution(proposalId: bigint, amount: EncryptedInput): Promise<TxResult> {
+    return this.send(() => this.contract.submitContribution(proposalId, amount.handle, amount.inputProof));
+  }
+
+  // Batch lifecycle
+
+  openBatch(schedule: BatchSchedule, mode: BatchMode = "approval"): Promise<TxResult> {
+    return this.send(() => this.contract.openBatch(BATCH_MODES.indexOf(mode), schedule.submissionEnd, schedule.votingEnd));
+  }
+
+  closeBatch(): Promise<TxResult> {
+    return this.send(() => this.contract.closeBatch());
+  }
+
+  // Permissionless once the voting phase is over: closes the batch and runs the first chunk of its tally,
+  // which requests the results straight away when the batch is small enough
+  async finalizeBatch(): Promise<TallyStepResult> {
+    return this.tallyStepResult(await this.send(() => this.contract.finalizeBatch()));
+  }
+
+  // Permissionless: runs the next chunk of a closed batch's tally; requestId is set by the chunk that completes it
+  async tallyBatch(batchId: bigint): Promise<TallyStepResult> {
+    return this.tallyStepResult(await this.send(() => this.contract.tallyBatch(batchId)));
+  }
+
+  private tallyStepResult(result: TxResult): TallyStepResult {
+    const requested = this.findEvent(result.receipt, "DecryptionRequested");
+    const published = this.findEvent(result.receipt, "DecryptionCompleted");
+    return { ...result, requestId: requested ? requested.args.requestId : null, published: published !== null };
+  }
+
+  async requestBatchResultDecryption(batchId: bigint): Promise<DecryptionRequestResult> {
+    const result = await this.send(() => this.contract.requestBatchResultDecryption(batchId));
+    const event = this.findEvent(result.receipt, "DecryptionRequested");
+    return { ...result, requestId: event ? event.args.requestId : null };
+  }
+
+  // Administration
+
+  addProvider(provider: string): Promise<TxResult> {
+    return this.send(() => this.contract.addProvider(provider));
+  }
+
+  removeProvider(provider: string): Promise<TxResult> {
+    return this.send(() => this.contract.removeProvider(provider));
+  }
+
+  grantRole(role: Role, account: string): Promise<TxResult> {
+    return this.send(() => this.contract.grantRole(ROLES.indexOf(role), account));
+  }
+
+  revokeRole(role: Role, account: string): Promise<TxResult> {
+    return this.send(() => this.contract.revokeRole(ROLES.indexOf(role), account));
+  }
+
+  pause(): Promise<TxResult> {
+    return this.send(() => this.contract.pause());
+  }
+
+  unpause(): Promise<TxResult> {
+    return this.send(() => this.contract.unpause());
+  }
+
+  setCooldownSeconds(seconds: bigint): Promise<TxResult> {
+    return this.send(() => this.contract.setCooldownSeconds(seconds));
+  }
+
+  setScoringWeights(impact: number, feasibility: number, novelty: number): Promise<TxResult> {
+    return this.send(() => this.contract.setScoringWeights(impact, feasibility, novelty));
+  }
+
+  setMinCompositeScore(threshold: number): Promise<TxResult> {
+    return this.send(() => this.contract.setMinCompositeScore(threshold));
+  }
+
+  setGovernanceToken(token: string): Promise<TxResult> {
+    return this.send(() => this.contract.setGovernanceToken(token));
+  }
+
+  setResearchIP(researchIP: string): Promise<TxResult> {
+    return this.send(() => this.contract.setResearchIP(researchIP));
+  }
+
+  setBatchBudget(batchId: bigint, cap: number): Promise<TxResult> {
+    return this.send(() => this.contract.setBatchBudget(batchId, cap));
+  }
+
+  setEncryptedBatchBudget(batchId: bigint, cap: EncryptedInput): Promise<TxResult> {
+    return this.send(() => this.contract.setEncryptedBatchBudget(batchId, cap.handle, cap.inputProof));
+  }
+
+  setMatchingPool(batchId: bigint, pool: number): Promise<TxResult> {
+    return this.send(() => this.contract.setMatchingPool(batchId, pool));
+  }
+
+  setBatchQuorum(batchId: bigint, quorum: BatchQuorum): Promise<TxResult> {
+    return this.send(() => this.contract.setBatchQuorum(batchId, quorum.minBallots, quorum.minWeight, quorum.approvalPercent));
+  }
+
+  transferOwnership(newOwner: string): Promise<TxResult> {
+    return this.send(() => this.contract.transferOwnership(newOwner));
+  }
+}
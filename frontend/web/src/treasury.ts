@@ -0,0 +1,155 @@
+// treasury.ts
+import { ethers } from "ethers";
+import treasuryAbiJson from "./abi/ScienceTreasury.json";
+import { ContractClient, TxResult } from "./scienceDao";
+// Typechain output of the root `npm run compile`
+import type { ScienceTreasury } from "../../../types/contracts/ScienceTreasury.sol/ScienceTreasury";
+
+export const TREASURY_ABI = treasuryAbiJson.abi;
+
+// The treasury uses the zero address for native ETH
+export const ETH_TOKEN = ethers.ZeroAddress;
+
+export type MilestoneStatus = "pending" | "claimed" | "released";
+
+const MILESTONE_STATUSES: MilestoneStatus[] = ["pending", "claimed", "released"];
+
+export interface Milestone {
+  index: number;
+  amount: bigint;
+  description: string;
+  status: MilestoneStatus;
+  evidence: string;
+  claimedAt: number;
+  signoffs: number;
+  rejections: number;
+}
+
+export interface MilestoneSchedule {
+  scheduleId: bigint;
+  proposalId: bigint;
+  proposer: string;
+  token: string;
+  totalAmount: bigint;
+  releasedAmount: bigint;
+  nextMilestone: number;
+  milestones: Milestone[];
+}
+
+export interface MilestoneInput {
+  amount: bigint;
+  description: string;
+}
+
+// Typed wrapper around the ScienceTreasury contract
+export class ScienceTreasuryClient extends ContractClient {
+  constructor(address: string, runner: ethers.ContractRunner) {
+    super(address, TREASURY_ABI, runner);
+  }
+
+  // Views
+
+  owner(): Promise<string> {
+    return this.call(() => this.contract.owner());
+  }
+
+  isReviewer(account: string): Promise<boolean> {
+    return this.call(() => this.contract.isReviewer(account));
+  }
+
+  async getRequiredSignoffs(): Promise<number> {
+    return Number(await this.call(() => this.contract.requiredSignoffs()));
+  }
+
+  availableBalance(token: string = ETH_TOKEN): Promise<bigint> {
+    return this.call(() => this.contract.availableBalance(token));
+  }
+
+  lockedBalance(token: string = ETH_TOKEN): Promise<bigint> {
+    return this.call(() => this.contract.lockedBalance(token));
+  }
+
+  async getSchedule(scheduleId: bigint): Promise<MilestoneSchedule | null> {
+    const [s, milestones] = await this.call(() => Promise.all([
+      this.contract.schedules(scheduleId),
+      this.contract.getMilestones(scheduleId)
+    ]));
+    if (!s.exists) return null;
+    return {
+      scheduleId,
+      proposalId: s.proposalId,
+      proposer: s.proposer,
+      token: s.token,
+      totalAmount: s.totalAmount,
+      releasedAmount: s.releasedAmount,
+      nextMilestone: Number(s.nextMilestone),
+      milestones: milestones.map((m: ScienceTreasury.MilestoneStructOutput, index: number) => ({
+        index,
+        amount: m.amount,
+        description: m.description,
+        status: MILESTONE_STATUSES[Number(m.status)],
+        evidence: m.evidence,
+        claimedAt: Number(m.claimedAt),
+        signoffs: Number(m.signoffs),
+        rejections: Number(m.rejections)
+      }))
+    };
+  }
+
+  async getScheduleFor(proposalId: bigint): Promise<MilestoneSchedule | null> {
+    const scheduleId: bigint = await this.call(() => this.contract.scheduleIdOf(proposalId));
+    return scheduleId === 0n ? null : this.getSchedule(scheduleId);
+  }
+
+  // Milestones
+
+  async createSchedule(proposalId: bigint, proposer: string, milestones: MilestoneInput[], token: string = ETH_TOKEN): Promise<TxResult & { scheduleId: bigint | null }> {
+    const result = await this.send(() => this.contract.createSchedule(
+      proposalId,
+      proposer,
+      token,
+      milestones.map(m => m.amount),
+      milestones.map(m => m.description)
+    ));
+    const event = this.findEvent(result.receipt, "ScheduleCreated");
+    return { ...result, scheduleId: event ? event.args.scheduleId : null };
+  }
+
+  claimMilestone(scheduleId: bigint, evidence: string): Promise<TxResult> {
+    return this.send(() => this.contract.claimMilestone(scheduleId, evidence));
+  }
+
+  reviewMilestone(scheduleId: bigint, milestoneIndex: number, approve: boolean): Promise<TxResult> {
+    return this.send(() => this.contract.reviewMilestone(scheduleId, milestoneIndex, approve));
+  }
+
+  // Funds
+
+  async depositEth(amount: bigint): Promise<TxResult> {
+    const signer = this.contract.runner as ethers.Signer;
+    const to = await this.getAddress();
+    return this.send(() => signer.sendTransaction({ to, value: amount }) as Promise<ethers.ContractTransactionResponse>);
+  }
+
+  depositToken(token: string, amount: bigint): Promise<TxResult> {
+    return this.send(() => this.contract.depositToken(token, amount));
+  }
+
+  withdraw(token: string, to: string, amount: bigint): Promise<TxResult> {
+    return this.send(() => this.contract.withdraw(token, to, amount));
+  }
+
+  // Administration
+
+  addReviewer(reviewer: string): Promise<TxResult> {
+    return this.send(() => this.contract.addReviewer(reviewer));
+  }
+
+  removeReviewer(reviewer: string): Promise<TxResult> {
+    return this.send(() => this.contract.removeReviewer(reviewer));
+  }
+
+  setRequiredSignoffs(required: number): Promise<TxResult> {
+    return this.send(() => this.contract.setRequiredSignoffs(required));
+  }
+}
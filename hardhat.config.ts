@@ -6,12 +6,22 @@ import "@fhevm/hardhat-plugin";
 const config: HardhatUserConfig = {
   defaultNetwork: "hardhat",
   networks: {
+    // Every network deploy/deploy.ts runs against gets its own entry in frontend/web/src/deployments.json
     hardhat: {
       chainId: 31337,
     },
+    localhost: {
+      chainId: 31337,
+      url: "http://127.0.0.1:8545",
+    },
     sepolia: {
       chainId: 11155111,
-      url: "https://sepolia.drpc.org",
+      url: process.env.SEPOLIA_RPC_URL || "https://sepolia.drpc.org",
+      accounts: [],
+    },
+    mainnet: {
+      chainId: 1,
+      url: process.env.MAINNET_RPC_URL || "https://eth.drpc.org",
       accounts: [],
     },
   },
@@ -42,6 +52,7 @@ const config: HardhatUserConfig = {
   etherscan: {
     apiKey: {
       sepolia: "",
+      mainnet: "",
     },
   },
   gasReporter: {
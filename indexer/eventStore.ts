@@ -0,0 +1,117 @@
+// indexer/eventStore.ts
+import fs from "fs/promises";
+import path from "path";
+
+export const INDEXED_EVENTS = [
+  "BatchOpened",
+  "BatchClosed",
+  "ProposalSubmitted",
+  "ProposalAmended",
+  "ProposalWithdrawn",
+  "ProposalResubmitted",
+  "VoteSubmitted",
+  "VoteWithdrawn",
+  "ContributionSubmitted",
+  "DecryptionRequested",
+  "DecryptionCompleted",
+  "ProposalOutcomeRevealed",
+  "QuadraticMatchRevealed"
+] as const;
+export type IndexedEventName = typeof INDEXED_EVENTS[number];
+
+// uint256 arguments are kept as decimal strings, narrower integers as numbers
+export type EventArg = string | number | boolean;
+
+export interface IndexedEvent {
+  name: IndexedEventName;
+  blockNumber: number;
+  blockHash: string;
+  logIndex: number;
+  transactionHash: string;
+  timestamp: number;
+  args: Record<string, EventArg>;
+  // Read back from the contract for submissions and amendments, so proposals are searchable
+  proposal?: { metadata: string; category: string };
+}
+
+export interface BlockRef {
+  number: number;
+  hash: string;
+}
+
+// A store only ever holds the history of one DAO deployment
+export interface StoreIdentity {
+  chainId: number;
+  dao: string;
+  startBlock: number;
+}
+
+interface StoreFile extends StoreIdentity {
+  version: 1;
+  head: BlockRef | null; // Last block whose logs are all stored
+  checkpoints: BlockRef[]; // Recent block hashes in ascending order, to find the fork point after a reorg
+  events: IndexedEvent[]; // Chain order
+}
+
+// The whole history lives in one JSON file, rewritten after every synced range
+export class JsonEventStore {
+  private constructor(private readonly file: string, private state: StoreFile) {}
+
+  static async open(file: string, identity: StoreIdentity): Promise<JsonEventStore> {
+    const fresh: StoreFile = { version: 1, ...identity, dao: identity.dao.toLowerCase(), head: null, checkpoints: [], events: [] };
+    try {
+      const stored = JSON.parse(await fs.readFile(file, "utf8")) as StoreFile;
+      const sameDeployment = stored.version === 1 && stored.chainId === fresh.chainId && stored.dao === fresh.dao && stored.startBlock === fresh.startBlock;
+      if (sameDeployment) return new JsonEventStore(file, stored);
+      console.warn(`${file} indexes another deployment, starting over`);
+    } catch (e: unknown) {
+      if (!(e instanceof Error && "code" in e && e.code === "ENOENT")) throw e;
+    }
+    return new JsonEventStore(file, fresh);
+  }
+
+  get identity(): StoreIdentity {
+    const { chainId, dao, startBlock } = this.state;
+    return { chainId, dao, startBlock };
+  }
+
+  get head(): BlockRef | null {
+    return this.state.head;
+  }
+
+  get events(): readonly IndexedEvent[] {
+    return this.state.events;
+  }
+
+  // Newest first
+  get checkpoints(): readonly BlockRef[] {
+    return [...this.state.checkpoints].reverse();
+  }
+
+  // `blocks` are the hashes seen for the range, `head` its last block; checkpoints older than `keep` blocks are dropped
+  append(events: IndexedEvent[], blocks: BlockRef[], head: BlockRef, keep: number) {
+    this.state.events.push(...events);
+    const byNumber = new Map(this.state.checkpoints.map(c => [c.number, c]));
+    for (const block of [...blocks, head]) byNumber.set(block.number, block);
+    this.state.checkpoints = [...byNumber.values()]
+      .filter(c => c.number > head.number - keep)
+      .sort((a, b) => a.number - b.number);
+    this.state.head = head;
+  }
+
+  // Forgets everything after `to`, which must be a checkpoint still on the canonical chain; null starts over
+  rollback(to: BlockRef | null) {
+    const last = to ? to.number : -1;
+    this.state.events = this.state.events.filter(e => e.blockNumber <= last);
+    this.state.checkpoints = this.state.checkpoints.filter(c => c.number <= last);
+    this.state.head = to;
+  }
+
+  async flush() {
+    await fs.mkdir(path.dirname(this.file), { recursive: true });
+    // Write then rename so a crash never leaves a truncated store
+    const temp = `${this.file}.${process.pid}.tmp`;
+    await fs.writeFile(temp, JSON.stringify(this.state));
+    await fs.rename(temp, this.file);
+  }
+}
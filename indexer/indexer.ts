@@ -0,0 +1,149 @@
+// indexer/indexer.ts
+import { Interface, Log, LogDescription, Provider, TransactionDescription } from "ethers";
+import daoArtifact from "../frontend/web/src/abi/Science_DAO_FHE.json";
+import { EventArg, INDEXED_EVENTS, IndexedEvent, IndexedEventName, JsonEventStore } from "./eventStore";
+
+export interface IndexerOptions {
+  confirmations: number; // Blocks left between the chain head and the indexed head
+  blockRange: number; // Most blocks per eth_getLogs call
+  reorgDepth: number; // How far back block hashes are kept; deeper reorgs reindex from the start block
+  pollMs: number;
+}
+
+// Events whose proposal text is decoded from the calldata of their transaction; resubmissions emit ProposalSubmitted too
+const PROPOSAL_TEXT_EVENTS: IndexedEventName[] = ["ProposalSubmitted", "ProposalAmended"];
+
+type ProposalText = NonNullable<IndexedEvent["proposal"]>;
+
+const toArg = (type: string, value: unknown): EventArg => {
+  if (typeof value !== "bigint") return value as EventArg;
+  return type === "uint256" ? value.toString() : Number(value);
+};
+
+// Follows the DAO's events from the store's head, rolling back whatever a reorg orphaned
+export class DaoIndexer {
+  private readonly iface = new Interface(daoArtifact.abi);
+  private readonly topics: string[];
+  private stopped = false;
+
+  constructor(private readonly provider: Provider, private readonly store: JsonEventStore, private readonly options: IndexerOptions) {
+    this.topics = INDEXED_EVENTS.map(name => this.iface.getEvent(name)!.topicHash);
+  }
+
+  // Returns how many events were added
+  async syncOnce(): Promise<number> {
+    await this.handleReorg();
+    const target = (await this.provider.getBlockNumber()) - this.options.confirmations;
+    let from = this.store.head ? this.store.head.number + 1 : this.store.identity.startBlock;
+    let added = 0;
+    while (from <= target) {
+      const to = Math.min(from + this.options.blockRange - 1, target);
+      const logs = await this.provider.getLogs({ address: this.store.identity.dao, fromBlock: from, toBlock: to, topics: [this.topics] });
+      const events = await this.toEvents(logs);
+      const head = await this.provider.getBlock(to);
+      if (!head?.hash) throw new Error(`Block ${to} not available`);
+      const blocks = logs.map(log => ({ number: log.blockNumber, hash: log.blockHash }));
+      this.store.append(events, blocks, { number: to, hash: head.hash }, this.options.reorgDepth);
+      await this.store.flush();
+      added += events.length;
+      from = to + 1;
+    }
+    return added;
+  }
+
+  async run() {
+    while (!this.stopped) {
+      try {
+        const added = await this.syncOnce();
+        if (added > 0) console.log(`Indexed ${added} events up to block ${this.store.head?.number}`);
+      } catch (e) {
+        console.error("Indexer sync failed, retrying:", e);
+      }
+      await new Promise(resolve => setTimeout(resolve, this.options.pollMs));
+    }
+  }
+
+  stop() {
+    this.stopped = true;
+  }
+
+  // Walks the checkpoints from the newest until one is still canonical and drops everything after it
+  private async handleReorg() {
+    const checkpoints = this.store.checkpoints;
+    if (checkpoints.length === 0) return;
+    for (const [i, checkpoint] of checkpoints.entries()) {
+      const block = await this.provider.getBlock(checkpoint.number);
+      if (block?.hash !== checkpoint.hash) continue;
+      if (i > 0) {
+        console.warn(`Reorg detected, rolling back to block ${checkpoint.number}`);
+        this.store.rollback(checkpoint);
+        await this.store.flush();
+      }
+      return;
+    }
+    console.warn(`Reorg deeper than ${this.options.reorgDepth} blocks, reindexing from block ${this.store.identity.startBlock}`);
+    this.store.rollback(null);
+    await this.store.flush();
+  }
+
+  private async toEvents(logs: Log[]): Promise<IndexedEvent[]> {
+    const timestamps = new Map<number, number>();
+    const calls = new Map<string, TransactionDescription | null>();
+    const events: IndexedEvent[] = [];
+    for (const log of logs) {
+      let parsed: LogDescription | null = null;
+      try {
+        parsed = this.iface.parseLog(log);
+      } catch (e) {
+        console.warn(`Skipping undecodable log ${log.transactionHash}:${log.index}`);
+      }
+      if (!parsed) continue;
+
+      if (!timestamps.has(log.blockNumber)) {
+        const block = await this.provider.getBlock(log.blockNumber);
+        timestamps.set(log.blockNumber, block ? block.timestamp : 0);
+      }
+      const args: Record<string, EventArg> = {};
+      parsed.fragment.inputs.forEach((input, i) => { args[input.name] = toArg(input.type, parsed!.args[i]); });
+
+      const name = parsed.name as IndexedEventName;
+      const event: IndexedEvent = {
+        name,
+        blockNumber: log.blockNumber,
+        blockHash: log.blockHash,
+        logIndex: log.index,
+        transactionHash: log.transactionHash,
+        timestamp: timestamps.get(log.blockNumber)!,
+        args
+      };
+      if (PROPOSAL_TEXT_EVENTS.includes(name)) {
+        if (!calls.has(log.transactionHash)) calls.set(log.transactionHash, await this.daoCallOf(log.transactionHash));
+        event.proposal = this.proposalText(calls.get(log.transactionHash)!, events);
+        if (!event.proposal) console.warn(`No proposal text for ${name} in ${log.transactionHash}`);
+      }
+      events.push(event);
+    }
+    return events;
+  }
+
+  // The DAO function a transaction called directly; null when it went through another contract
+  private async daoCallOf(hash: string): Promise<TransactionDescription | null> {
+    const tx = await this.provider.getTransaction(hash);
+    if (!tx || tx.to?.toLowerCase() !== this.store.identity.dao.toLowerCase()) return null;
+    return this.iface.parseTransaction({ data: tx.data, value: tx.value });
+  }
+
+  // Reading proposals() at the event's block would need an archive node, so the text comes from the
+  // calldata; a resubmission copies the text of its source proposal, which is indexed before it
+  private proposalText(call: TransactionDescription | null, pending: IndexedEvent[]): ProposalText | undefined {
+    if (!call) return undefined;
+    if (call.name === "submitProposal" || call.name === "amendProposal") {
+      return { metadata: call.args._metadata, category: call.args._category };
+    }
+    if (call.name !== "resubmitProposal") return undefined;
+    const source = String(call.args.fromProposalId);
+    return [...this.store.events, ...pending]
+      .reverse()
+      .find(e => PROPOSAL_TEXT_EVENTS.includes(e.name) && e.args.proposalId === source && e.proposal)?.proposal;
+  }
+}
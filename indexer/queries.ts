@@ -0,0 +1,225 @@
+// indexer/queries.ts
+// Read models over the stored events. They are rebuilt per query, so a reorg rollback never leaves them stale.
+import { IndexedEvent, IndexedEventName } from "./eventStore";
+
+// Same statuses, in the same order, as the contract's ProposalStatus
+export const PROPOSAL_STATUSES = ["pending", "approved", "rejected", "withdrawn"] as const;
+export type ProposalStatus = typeof PROPOSAL_STATUSES[number];
+
+const BATCH_MODES = ["approval", "quadratic"] as const;
+
+// Field for field the contract's ProposalView, so the frontend reads both the same way
+export interface IndexedProposal {
+  proposalId: string;
+  batchId: string;
+  provider: string;
+  metadata: string;
+  category: string;
+  contentHash: string;
+  submittedAt: number;
+  version: number;
+  status: ProposalStatus;
+  ballots: number;
+  funded: boolean;
+  fromProposalId: string | null; // Set on resubmissions
+}
+
+export interface BatchStats {
+  batchId: string;
+  mode: typeof BATCH_MODES[number];
+  openedAt: number;
+  closedAt: number | null;
+  decryptedAt: number | null;
+  proposals: number;
+  ballots: number;
+  approved: number | null; // Only once decrypted
+  totalFunding: number | null; // Budget units, as revealed by DecryptionCompleted
+}
+
+export interface DaoStats {
+  proposals: number;
+  byStatus: Record<ProposalStatus, number>;
+  ballots: number;
+  contributions: number;
+  batches: BatchStats[];
+}
+
+export interface Page<T> {
+  items: T[];
+  total: number;
+}
+
+export interface EventFilter {
+  name?: IndexedEventName;
+  batchId?: string;
+  proposalId?: string;
+  account?: string; // Any address argument
+}
+
+export interface ProposalFilter {
+  q?: string; // Title, description, category, provider or id
+  batchId?: string;
+  provider?: string;
+  status?: ProposalStatus;
+}
+
+const str = (value: unknown) => String(value);
+
+const pageOf = <T>(items: T[], offset: number, limit: number): Page<T> =>
+  ({ items: items.slice(offset, offset + limit), total: items.length });
+
+// Newest first
+export function listEvents(events: readonly IndexedEvent[], filter: EventFilter, offset: number, limit: number): Page<IndexedEvent> {
+  const account = filter.account?.toLowerCase();
+  const matches = events.filter(e =>
+    (!filter.name || e.name === filter.name) &&
+    (!filter.batchId || str(e.args.batchId) === filter.batchId) &&
+    (!filter.proposalId || str(e.args.proposalId) === filter.proposalId || str(e.args.fromProposalId) === filter.proposalId) &&
+    (!account || Object.values(e.args).some(v => typeof v === "string" && v.toLowerCase() === account))
+  );
+  return pageOf(matches.reverse(), offset, limit);
+}
+
+// Every proposal as of the last indexed block, in id order
+export function buildProposals(events: readonly IndexedEvent[]): IndexedProposal[] {
+  const proposals = new Map<string, IndexedProposal>();
+  const voters = new Map<string, Map<string, boolean>>(); // proposalId => voter => ballot still counted
+
+  for (const e of events) {
+    const id = str(e.args.proposalId);
+    const proposal = proposals.get(id);
+    switch (e.name) {
+      case "ProposalSubmitted":
+        proposals.set(id, {
+          proposalId: id,
+          batchId: str(e.args.batchId),
+          provider: str(e.args.provider),
+          metadata: e.proposal?.metadata ?? "",
+          category: e.proposal?.category ?? "",
+          contentHash: str(e.args.contentHash),
+          submittedAt: e.timestamp,
+          version: 1,
+          status: "pending",
+          ballots: 0,
+          funded: false,
+          fromProposalId: null
+        });
+        break;
+      // Follows the ProposalSubmitted of the new proposal in the same transaction
+      case "ProposalResubmitted":
+        if (!proposal) break;
+        proposal.version = Number(e.args.version);
+        proposal.fromProposalId = str(e.args.fromProposalId);
+        break;
+      case "ProposalAmended":
+        if (!proposal) break;
+        proposal.version = Number(e.args.version);
+        proposal.contentHash = str(e.args.contentHash);
+        if (e.proposal) Object.assign(proposal, e.proposal);
+        break;
+      case "ProposalWithdrawn":
+        if (proposal) proposal.status = "withdrawn";
+        break;
+      case "VoteSubmitted":
+      case "VoteWithdrawn": {
+        const ballots = voters.get(id) ?? new Map<string, boolean>();
+        ballots.set(str(e.args.voter).toLowerCase(), e.name === "VoteSubmitted");
+        voters.set(id, ballots);
+        break;
+      }
+      case "ProposalOutcomeRevealed":
+        if (!proposal) break;
+        proposal.status = e.args.approved ? "approved" : "rejected";
+        proposal.funded = !!e.args.funded;
+        break;
+      case "QuadraticMatchRevealed":
+        if (!proposal) break;
+        // Anything contributed or matched counts as funded, as in QuadraticFunding
+        proposal.funded = Number(e.args.contributed) + Number(e.args.matched) > 0;
+        proposal.status = proposal.funded ? "approved" : "rejected";
+        break;
+    }
+  }
+
+  for (const [id, ballots] of voters) {
+    const proposal = proposals.get(id);
+    if (proposal) proposal.ballots = [...ballots.values()].filter(Boolean).length;
+  }
+  return [...proposals.values()].sort((a, b) => (BigInt(a.proposalId) < BigInt(b.proposalId) ? -1 : 1));
+}
+
+const textOf = (proposal: IndexedProposal): string => {
+  let title = "";
+  let description = "";
+  try {
+    const metadata = JSON.parse(proposal.metadata);
+    title = metadata?.title ?? "";
+    description = metadata?.description ?? "";
+  } catch (e) {
+    // Not JSON; the raw string is searched instead
+    title = proposal.metadata;
+  }
+  return [title, description, proposal.category, proposal.provider, proposal.proposalId].join("\n").toLowerCase();
+};
+
+// Newest first, like the contract's paginated views
+export function searchProposals(events: readonly IndexedEvent[], filter: ProposalFilter, offset: number, limit: number): Page<IndexedProposal> {
+  const q = filter.q?.trim().toLowerCase();
+  const provider = filter.provider?.toLowerCase();
+  const matches = buildProposals(events).filter(p =>
+    (!filter.batchId || p.batchId === filter.batchId) &&
+    (!provider || p.provider.toLowerCase() === provider) &&
+    (!filter.status || p.status === filter.status) &&
+    (!q || textOf(p).includes(q))
+  );
+  return pageOf(matches.reverse(), offset, limit);
+}
+
+export function statsOf(events: readonly IndexedEvent[]): DaoStats {
+  const proposals = buildProposals(events);
+  const byStatus = Object.fromEntries(PROPOSAL_STATUSES.map(s => [s, 0])) as Record<ProposalStatus, number>;
+  for (const p of proposals) byStatus[p.status]++;
+
+  const contributors = new Set<string>();
+  const batches = new Map<string, BatchStats>();
+  for (const e of events) {
+    const batch = batches.get(str(e.args.batchId));
+    if (e.name === "BatchOpened") {
+      batches.set(str(e.args.batchId), {
+        batchId: str(e.args.batchId),
+        mode: BATCH_MODES[Number(e.args.mode)],
+        openedAt: e.timestamp,
+        closedAt: null,
+        decryptedAt: null,
+        proposals: 0,
+        ballots: 0,
+        approved: null,
+        totalFunding: null
+      });
+    } else if (e.name === "BatchClosed" && batch) {
+      batch.closedAt = e.timestamp;
+    } else if (e.name === "DecryptionCompleted" && batch) {
+      batch.decryptedAt = e.timestamp;
+      batch.approved = Number(e.args.totalApprovedProposals);
+      batch.totalFunding = Number(e.args.totalFundingAmount);
+    } else if (e.name === "ContributionSubmitted") {
+      // A new contribution replaces the contributor's previous one
+      contributors.add(`${e.args.proposalId}:${str(e.args.contributor).toLowerCase()}`);
+    }
+  }
+  // Withdrawn proposals left their batch, as in getBatchProposalIds
+  for (const p of proposals) {
+    const batch = batches.get(p.batchId);
+    if (!batch || p.status === "withdrawn") continue;
+    batch.proposals++;
+    batch.ballots += p.ballots;
+  }
+
+  return {
+    proposals: proposals.length,
+    byStatus,
+    ballots: proposals.reduce((sum, p) => sum + p.ballots, 0),
+    contributions: contributors.size,
+    batches: [...batches.values()].sort((a, b) => (BigInt(b.batchId) < BigInt(a.batchId) ? -1 : 1))
+  };
+}
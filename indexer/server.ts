@@ -0,0 +1,106 @@
+// indexer/server.ts
+// Indexes the DAO's events into a local JSON store and serves them read-only:
+//   GET /status, GET /stats, GET /events?name&batchId&proposalId&account, GET /proposals?q&batchId&provider&status
+// List routes take offset/limit and answer newest first. Run with `npm run indexer` and point the
+// deployment's `indexerUrl` in frontend/web/src/deployments.json at it.
+import { JsonRpcProvider } from "ethers";
+import http from "http";
+import path from "path";
+import registry from "../frontend/web/src/deployments.json";
+import { INDEXED_EVENTS, IndexedEventName, JsonEventStore } from "./eventStore";
+import { DaoIndexer } from "./indexer";
+import { PROPOSAL_STATUSES, ProposalStatus, listEvents, searchProposals, statsOf } from "./queries";
+
+const PORT = Number(process.env.INDEXER_PORT || 8788);
+const RPC_URL = process.env.INDEXER_RPC_URL || "http://127.0.0.1:8545";
+const STORE_FILE = process.env.INDEXER_STORE || path.join(__dirname, "data", "events.json");
+const MAX_LIMIT = 100;
+
+const CORS_HEADERS = {
+  "Access-Control-Allow-Origin": "*",
+  "Access-Control-Allow-Methods": "GET, OPTIONS",
+  "Access-Control-Allow-Headers": "Content-Type"
+};
+
+const reply = (res: http.ServerResponse, status: number, body: unknown) => {
+  res.writeHead(status, { ...CORS_HEADERS, "Content-Type": "application/json" });
+  res.end(JSON.stringify(body));
+};
+
+const paging = (query: URLSearchParams) => ({
+  offset: Math.max(0, Number(query.get("offset")) || 0),
+  limit: Math.min(MAX_LIMIT, Math.max(0, Number(query.get("limit") ?? 20) || 0))
+});
+
+// Unset and empty parameters both mean "no filter"
+const param = (query: URLSearchParams, name: string) => query.get(name) || undefined;
+
+const main = async () => {
+  const provider = new JsonRpcProvider(RPC_URL);
+  const { chainId } = await provider.getNetwork();
+  // Defaults to the frontend's deployment on the RPC's chain
+  const deployments: Record<string, { contractAddress: string; deployBlock: number } | undefined> = registry.deployments;
+  const deployment = deployments[chainId.toString()];
+  const daoAddress = process.env.INDEXER_DAO_ADDRESS || deployment?.contractAddress;
+  if (!daoAddress) throw new Error(`No deployment on chain ${chainId} in deployments.json; set INDEXER_DAO_ADDRESS`);
+  const startBlock = Number(process.env.INDEXER_START_BLOCK ?? deployment?.deployBlock ?? 0);
+  if (startBlock === 0) console.warn("No deploy block recorded; indexing from genesis. Set INDEXER_START_BLOCK to skip ahead.");
+  const store = await JsonEventStore.open(STORE_FILE, { chainId: Number(chainId), dao: daoAddress, startBlock });
+  const indexer = new DaoIndexer(provider, store, {
+    confirmations: Number(process.env.INDEXER_CONFIRMATIONS || 0),
+    blockRange: Number(process.env.INDEXER_BLOCK_RANGE || 2000),
+    reorgDepth: Number(process.env.INDEXER_REORG_DEPTH || 64),
+    pollMs: Number(process.env.INDEXER_POLL_MS || 4000)
+  });
+
+  const handle = (req: http.IncomingMessage, res: http.ServerResponse) => {
+    if (req.method === "OPTIONS") { res.writeHead(204, CORS_HEADERS); res.end(); return; }
+    if (req.method !== "GET") { reply(res, 405, { error: "Method not allowed" }); return; }
+
+    const url = new URL(req.url || "/", "http://localhost");
+    const query = url.searchParams;
+    const { offset, limit } = paging(query);
+
+    switch (url.pathname) {
+      case "/status":
+        reply(res, 200, { ...store.identity, head: store.head, events: store.events.length });
+        return;
+      case "/stats":
+        reply(res, 200, statsOf(store.events));
+        return;
+      case "/events": {
+        const name = param(query, "name");
+        if (name && !INDEXED_EVENTS.includes(name as IndexedEventName)) { reply(res, 400, { error: `Unknown event ${name}` }); return; }
+        const filter = { name: name as IndexedEventName | undefined, batchId: param(query, "batchId"), proposalId: param(query, "proposalId"), account: param(query, "account") };
+        reply(res, 200, listEvents(store.events, filter, offset, limit));
+        return;
+      }
+      case "/proposals": {
+        const status = param(query, "status");
+        if (status && !PROPOSAL_STATUSES.includes(status as ProposalStatus)) { reply(res, 400, { error: `Unknown status ${status}` }); return; }
+        const filter = { q: param(query, "q"), batchId: param(query, "batchId"), provider: param(query, "provider"), status: status as ProposalStatus | undefined };
+        reply(res, 200, searchProposals(store.events, filter, offset, limit));
+        return;
+      }
+    }
+    reply(res, 404, { error: "Not found" });
+  };
+
+  http
+    .createServer((req, res) => {
+      try {
+        handle(req, res);
+      } catch (e) {
+        console.error("Indexer API error:", e);
+        if (!res.headersSent) reply(res, 500, { error: "Internal error" });
+      }
+    })
+    .listen(PORT, () => console.log(`Indexing ${daoAddress} on chain ${chainId} from block ${startBlock}; API on http://localhost:${PORT}`));
+
+  indexer.run();
+};
+
+main().catch(e => {
+  console.error(e);
+  process.exit(1);
+});
@@ -0,0 +1,162 @@
+import { expect } from "chai";
+import {
+  BatchMode,
+  DaoFixture,
+  Role,
+  deployDao,
+  endVoting,
+  grantRoles,
+  openBatch,
+  startVoting,
+  submitProposal,
+  vote,
+} from "./helpers";
+import { fhevm } from "hardhat";
+
+describe("ApprovalTally", function () {
+  let fixture: DaoFixture;
+
+  beforeEach(async function () {
+    if (!fhevm.isMock) this.skip();
+    fixture = await deployDao();
+    const [proposer, ...voters] = fixture.accounts;
+    await grantRoles(fixture.dao, Role.Proposer, [proposer]);
+    await grantRoles(fixture.dao, Role.Voter, voters.slice(0, 2));
+    await grantRoles(fixture.dao, Role.Treasurer, [fixture.owner]);
+  });
+
+  it("tallies a ten-proposal batch in bounded chunks and funds down the ranking", async function () {
+    const { dao, accounts } = fixture;
+    const [proposer, alice, bob] = accounts;
+    const batchId = await openBatch(dao, BatchMode.Approval);
+    await dao.setBatchBudget(batchId, 450);
+
+    // Impact 10..100: the later the submission, the higher the composite score
+    const ids: bigint[] = [];
+    for (let i = 0; i < 10; i++) {
+      ids.push(await submitProposal(fixture, proposer, { funding: 100, impact: (i + 1) * 10, feasibility: 50, novelty: 50 }));
+    }
+    await startVoting(dao);
+    for (const [index, id] of ids.entries()) {
+      await vote(fixture, alice, id, index !== 0);
+      await vote(fixture, bob, id, index !== 0);
+    }
+
+    await endVoting(dao);
+    await dao.finalizeBatch();
+    let calls = 1;
+    while (!(await dao.batchResults(batchId)).tallied) {
+      await dao.tallyBatch(batchId);
+      calls++;
+    }
+    expect(calls).to.be.greaterThan(1);
+    await fhevm.awaitDecryptionOracle();
+
+    const result = await dao.batchResults(batchId);
+    expect(result.decrypted).to.equal(true);
+    expect(result.approvedCount).to.equal(9n);
+    expect(result.totalFunding).to.equal(400n);
+    for (const [index, id] of ids.entries()) {
+      const ranking = await dao.proposalRankings(id);
+      expect(ranking.rank).to.equal(BigInt(9 - index));
+      // The four best fit the 450 budget; the fifth would take it to 500
+      expect(ranking.funded).to.equal(index >= 6);
+    }
+  });
+
+  it("breaks score ties in favour of the earlier submission", async function () {
+    const { dao, accounts } = fixture;
+    const [proposer, alice] = accounts;
+    await openBatch(dao, BatchMode.Approval);
+    const first = await submitProposal(fixture, proposer, { funding: 10, impact: 50, feasibility: 50, novelty: 50 });
+    const second = await submitProposal(fixture, proposer, { funding: 10, impact: 50, feasibility: 50, novelty: 50 });
+    await startVoting(dao);
+    await vote(fixture, alice, first, true);
+    await vote(fixture, alice, second, true);
+
+    await endVoting(dao);
+    const batchId = await dao.currentBatchId();
+    await dao.finalizeBatch();
+    while (!(await dao.batchResults(batchId)).tallied) await dao.tallyBatch(batchId);
+    await fhevm.awaitDecryptionOracle();
+
+    expect((await dao.proposalRankings(first)).rank).to.equal(0n);
+    expect((await dao.proposalRankings(second)).rank).to.equal(1n);
+  });
+
+  it("only tallies closed batches that are not tallied yet", async function () {
+    const { dao, accounts } = fixture;
+    const [proposer, alice] = accounts;
+    const batchId = await openBatch(dao, BatchMode.Approval);
+    const id = await submitProposal(fixture, proposer, { funding: 10, impact: 50, feasibility: 50, novelty: 50 });
+    await expect(dao.tallyBatch(batchId)).to.be.revertedWithCustomError(dao, "InvalidBatchState");
+    await expect(dao.tallyBatch(batchId + 1n)).to.be.revertedWithCustomError(dao, "InvalidBatchState");
+
+    await startVoting(dao);
+    await vote(fixture, alice, id, true);
+    await endVoting(dao);
+    await dao.finalizeBatch();
+    while (!(await dao.batchResults(batchId)).tallied) await dao.tallyBatch(batchId);
+    await expect(dao.tallyBatch(batchId)).to.be.revertedWithCustomError(dao, "InvalidBatchState");
+  });
+
+  it("fixes the budget, quorum and scoring of a batch once its tally has started", async function () {
+    const { dao, accounts } = fixture;
+    const [proposer, alice] = accounts;
+    const batchId = await openBatch(dao, BatchMode.Approval);
+    const ids: bigint[] = [];
+    for (let i = 0; i < 10; i++) {
+      ids.push(await submitProposal(fixture, proposer, { funding: 10, impact: 50, feasibility: 50, novelty: 50 }));
+    }
+    await startVoting(dao);
+    for (const id of ids) await vote(fixture, alice, id, true);
+
+    await endVoting(dao);
+    await dao.finalizeBatch();
+    expect((await dao.batchResults(batchId)).tallied).to.equal(false);
+    await expect(dao.setBatchBudget(batchId, 100)).to.be.revertedWithCustomError(dao, "InvalidBatchState");
+    await expect(dao.setBatchQuorum(batchId, 5, 0, 0)).to.be.revertedWithCustomError(dao, "InvalidBatchState");
+
+    // A threshold raised mid-tally no longer applies to this batch
+    await dao.setMinCompositeScore(10_000);
+    while (!(await dao.batchResults(batchId)).tallied) await dao.tallyBatch(batchId);
+    await fhevm.awaitDecryptionOracle();
+    for (const id of ids) expect((await dao.proposalRankings(id)).funded).to.equal(true);
+  });
+
+  describe("funding sums", function () {
+    // Tallies a batch of proposals, each approved by one ballot, listed from the highest score down
+    async function tallyFunding(requests: number[], cap?: number) {
+      const { dao, accounts } = fixture;
+      const [proposer, alice] = accounts;
+      const batchId = await openBatch(dao, BatchMode.Approval);
+      if (cap !== undefined) await dao.setBatchBudget(batchId, cap);
+      const ids: bigint[] = [];
+      for (const [index, funding] of requests.entries()) {
+        ids.push(await submitProposal(fixture, proposer, { funding, impact: 100 - index, feasibility: 50, novelty: 50 }));
+      }
+      await startVoting(dao);
+      for (const id of ids) await vote(fixture, alice, id, true);
+
+      await endVoting(dao);
+      await dao.finalizeBatch();
+      while (!(await dao.batchResults(batchId)).tallied) await dao.tallyBatch(batchId);
+      await fhevm.awaitDecryptionOracle();
+      const funded = await Promise.all(ids.map(async id => (await dao.proposalRankings(id)).funded));
+      return { result: await dao.batchResults(batchId), funded };
+    }
+
+    it("does not let requests above it wrap back under the budget cap", async function () {
+      // 2^31 + 2^31 wraps to 0 in 32 bits, which would have put the small request under the cap
+      const { result, funded } = await tallyFunding([2 ** 31, 2 ** 31, 10], 1000);
+      expect(funded).to.deep.equal([false, false, false]);
+      expect(result.totalFunding).to.equal(0n);
+    });
+
+    it("adds up uncapped funding beyond 32 bits", async function () {
+      const { result, funded } = await tallyFunding([2 ** 32 - 1, 2 ** 32 - 1]);
+      expect(funded).to.deep.equal([true, true]);
+      expect(result.totalFunding).to.equal(2n * (2n ** 32n - 1n));
+    });
+  });
+});
@@ -0,0 +1,80 @@
+import { expect } from "chai";
+import { time } from "@nomicfoundation/hardhat-network-helpers";
+import { fhevm } from "hardhat";
+import {
+  BatchMode,
+  DaoFixture,
+  Role,
+  as,
+  deployDao,
+  encryptBool,
+  endVoting,
+  grantRoles,
+  openBatch,
+  startVoting,
+  submitProposal,
+  vote,
+} from "./helpers";
+
+describe("BatchSchedule", function () {
+  let fixture: DaoFixture;
+
+  beforeEach(async function () {
+    if (!fhevm.isMock) this.skip();
+    fixture = await deployDao();
+    const [proposer, alice] = fixture.accounts;
+    await grantRoles(fixture.dao, Role.Proposer, [proposer]);
+    await grantRoles(fixture.dao, Role.Voter, [alice]);
+  });
+
+  it("only opens batches with a submission phase followed by a voting phase", async function () {
+    const { dao } = fixture;
+    const now = await time.latest();
+    await expect(dao.openBatch(BatchMode.Approval, now, now + 7200)).to.be.revertedWithCustomError(dao, "InvalidSchedule");
+    await expect(dao.openBatch(BatchMode.Approval, now + 3600, now + 3600)).to.be.revertedWithCustomError(dao, "InvalidSchedule");
+
+    const batchId = await openBatch(dao, BatchMode.Approval);
+    const schedule = await dao.batchSchedules(batchId);
+    expect(schedule.votingEnd - schedule.submissionEnd).to.equal(3600n);
+    await expect(openBatch(dao, BatchMode.Approval)).to.be.revertedWithCustomError(dao, "InvalidBatchState");
+  });
+
+  it("takes proposals until the submission deadline and ballots until the voting deadline", async function () {
+    const { dao, accounts } = fixture;
+    const [proposer, alice] = accounts;
+    await openBatch(dao, BatchMode.Approval);
+    const id = await submitProposal(fixture, proposer, { funding: 10, impact: 50, feasibility: 50, novelty: 50 });
+    const early = await encryptBool(fixture, alice, true);
+    await expect(as(dao, alice).submitVote(id, early.handles[0], early.inputProof)).to.be.revertedWithCustomError(dao, "WrongPhase");
+
+    await startVoting(dao);
+    await expect(submitProposal(fixture, proposer, { funding: 10, impact: 50, feasibility: 50, novelty: 50 })).to.be.revertedWithCustomError(dao, "WrongPhase");
+    await vote(fixture, alice, id, true);
+
+    await endVoting(dao);
+    const late = await encryptBool(fixture, alice, false);
+    await expect(as(dao, alice).updateVote(id, late.handles[0], late.inputProof)).to.be.revertedWithCustomError(dao, "WrongPhase");
+  });
+
+  it("lets anyone finalize the batch once voting has ended", async function () {
+    const { dao, accounts } = fixture;
+    const [, , outsider] = accounts;
+    const batchId = await openBatch(dao, BatchMode.Approval);
+    await startVoting(dao);
+    await expect(as(dao, outsider).finalizeBatch()).to.be.revertedWithCustomError(dao, "WrongPhase");
+
+    await endVoting(dao);
+    await expect(as(dao, outsider).finalizeBatch()).to.emit(dao, "BatchFinalized").withArgs(batchId, outsider.address);
+    expect(await dao.batchOpen()).to.equal(false);
+    await expect(dao.finalizeBatch()).to.be.revertedWithCustomError(dao, "WrongPhase");
+  });
+
+  it("lets admins close a batch before its deadlines", async function () {
+    const { dao, accounts } = fixture;
+    const [proposer] = accounts;
+    const batchId = await openBatch(dao, BatchMode.Approval);
+    await expect(as(dao, proposer).closeBatch()).to.be.revertedWithCustomError(dao, "NotAdmin");
+    await expect(dao.closeBatch()).to.emit(dao, "BatchClosed").withArgs(batchId);
+    await expect(submitProposal(fixture, proposer, { funding: 10, impact: 50, feasibility: 50, novelty: 50 })).to.be.revertedWithCustomError(dao, "BatchNotOpen");
+  });
+});
@@ -0,0 +1,121 @@
+import { expect } from "chai";
+import {
+  BatchMode,
+  DaoFixture,
+  Role,
+  as,
+  deployDao,
+  encryptBool,
+  endVoting,
+  finalizeAndReveal,
+  grantRoles,
+  openBatch,
+  startVoting,
+  submitProposal,
+  vote,
+} from "./helpers";
+import { fhevm } from "hardhat";
+
+describe("BatchTally", function () {
+  let fixture: DaoFixture;
+
+  beforeEach(async function () {
+    if (!fhevm.isMock) this.skip();
+    fixture = await deployDao();
+    const [proposer, ...voters] = fixture.accounts;
+    await grantRoles(fixture.dao, Role.Proposer, [proposer]);
+    await grantRoles(fixture.dao, Role.Voter, voters.slice(0, 3));
+  });
+
+  it("publishes the approved count and funding of the batch through the decryption callback", async function () {
+    const { dao, accounts } = fixture;
+    const [proposer, alice, bob, carol] = accounts;
+    await openBatch(dao, BatchMode.Approval);
+    const approved = await submitProposal(fixture, proposer, { funding: 120, impact: 60, feasibility: 60, novelty: 60 });
+    const rejected = await submitProposal(fixture, proposer, { funding: 80, impact: 60, feasibility: 60, novelty: 60 });
+    await startVoting(dao);
+    await vote(fixture, alice, approved, true);
+    await vote(fixture, bob, approved, true);
+    await vote(fixture, carol, approved, false);
+    await vote(fixture, alice, rejected, false);
+    await vote(fixture, bob, rejected, true);
+
+    const batchId = await finalizeAndReveal(dao);
+
+    const result = await dao.batchResults(batchId);
+    expect(result.tallied).to.equal(true);
+    expect(result.decrypted).to.equal(true);
+    expect(result.approvedCount).to.equal(1n);
+    expect(result.totalFunding).to.equal(120n);
+    const completed = await dao.queryFilter(dao.filters.DecryptionCompleted(undefined, batchId));
+    expect(completed).to.have.length(1);
+    expect((completed[0] as any).args.totalApprovedProposals).to.equal(1n);
+    expect((completed[0] as any).args.totalFundingAmount).to.equal(120n);
+  });
+
+  it("keeps every ballot encrypted and readable by its voter only", async function () {
+    const { dao, address, accounts } = fixture;
+    const [proposer, alice] = accounts;
+    await openBatch(dao, BatchMode.Approval);
+    const id = await submitProposal(fixture, proposer, { funding: 10, impact: 50, feasibility: 50, novelty: 50 });
+    await startVoting(dao);
+    await vote(fixture, alice, id, true);
+
+    const ballot = await dao.proposalVotes(id, alice.address);
+    expect(ballot.exists).to.equal(true);
+    expect(await fhevm.userDecryptEbool(ballot.encryptedVote, address, alice)).to.equal(true);
+  });
+
+  it("counts one ballot per voter and none from the proposer", async function () {
+    const { dao, accounts } = fixture;
+    const [proposer, alice] = accounts;
+    await grantRoles(dao, Role.Voter, [proposer]);
+    await openBatch(dao, BatchMode.Approval);
+    const id = await submitProposal(fixture, proposer, { funding: 10, impact: 50, feasibility: 50, novelty: 50 });
+    await startVoting(dao);
+    await vote(fixture, alice, id, true);
+
+    const again = await encryptBool(fixture, alice, false);
+    await expect(as(dao, alice).submitVote(id, again.handles[0], again.inputProof)).to.be.revertedWithCustomError(dao, "AlreadyVoted");
+    const own = await encryptBool(fixture, proposer, true);
+    await expect(as(dao, proposer).submitVote(id, own.handles[0], own.inputProof)).to.be.revertedWithCustomError(dao, "SelfVote");
+    expect((await dao.proposalTallies(id)).ballots).to.equal(1n);
+  });
+
+  it("only lets admins request the results of a closed batch, once", async function () {
+    const { dao, accounts } = fixture;
+    const [proposer, alice] = accounts;
+    const batchId = await openBatch(dao, BatchMode.Approval);
+    const id = await submitProposal(fixture, proposer, { funding: 10, impact: 50, feasibility: 50, novelty: 50 });
+    await expect(dao.requestBatchResultDecryption(batchId)).to.be.revertedWithCustomError(dao, "InvalidBatchState");
+    await expect(dao.requestBatchResultDecryption(batchId + 1n)).to.be.revertedWithCustomError(dao, "InvalidBatchState");
+    await expect(as(dao, alice).requestBatchResultDecryption(batchId)).to.be.revertedWithCustomError(dao, "NotAdmin");
+
+    await startVoting(dao);
+    await vote(fixture, alice, id, true);
+    await finalizeAndReveal(dao);
+    await expect(dao.requestBatchResultDecryption(batchId)).to.be.revertedWithCustomError(dao, "InvalidBatchState");
+  });
+
+  it("allows a single outstanding decryption request and a single callback per batch", async function () {
+    const { dao, accounts } = fixture;
+    const [proposer, alice] = accounts;
+    const batchId = await openBatch(dao, BatchMode.Approval);
+    const id = await submitProposal(fixture, proposer, { funding: 10, impact: 50, feasibility: 50, novelty: 50 });
+    await startVoting(dao);
+    await vote(fixture, alice, id, true);
+    await endVoting(dao);
+    await dao.finalizeBatch();
+    while (!(await dao.batchResults(batchId)).tallied) await dao.tallyBatch(batchId);
+
+    expect((await dao.batchResults(batchId)).decryptionPending).to.equal(true);
+    await expect(dao.requestBatchResultDecryption(batchId)).to.be.revertedWithCustomError(dao, "InvalidBatchState");
+    await fhevm.awaitDecryptionOracle();
+    expect((await dao.batchResults(batchId)).decryptionPending).to.equal(false);
+
+    const [requested] = await dao.queryFilter(dao.filters.DecryptionRequested(undefined, batchId));
+    await expect(dao.myCallback((requested as any).args.requestId, "0x", "0x")).to.be.revertedWithCustomError(dao, "ReplayAttempt");
+    expect(await dao.queryFilter(dao.filters.DecryptionCompleted(undefined, batchId))).to.have.length(1);
+    expect(await dao.queryFilter(dao.filters.ProposalOutcomeRevealed(batchId))).to.have.length(1);
+  });
+});
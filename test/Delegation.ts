@@ -0,0 +1,122 @@
+import { expect } from "chai";
+import { ZeroAddress } from "ethers";
+import { fhevm } from "hardhat";
+import { HardhatEthersSigner } from "@nomicfoundation/hardhat-ethers/signers";
+import {
+  BatchMode,
+  DaoFixture,
+  Role,
+  as,
+  deployDao,
+  encryptBool,
+  finalizeAndReveal,
+  grantRoles,
+  openBatch,
+  startVoting,
+  submitProposal,
+  vote,
+} from "./helpers";
+
+describe("Delegation", function () {
+  let fixture: DaoFixture;
+
+  beforeEach(async function () {
+    if (!fhevm.isMock) this.skip();
+    fixture = await deployDao();
+    const [proposer, ...voters] = fixture.accounts;
+    await grantRoles(fixture.dao, Role.Proposer, [proposer]);
+    await grantRoles(fixture.dao, Role.Voter, voters.slice(0, 4));
+  });
+
+  async function voteFor(delegate: HardhatEthersSigner, proposalId: bigint, delegators: HardhatEthersSigner[], approve: boolean) {
+    const ballot = await encryptBool(fixture, delegate, approve);
+    return as(fixture.dao, delegate).submitDelegatedVotes(proposalId, delegators.map(d => d.address), ballot.handles[0], ballot.inputProof);
+  }
+
+  it("casts one ballot for every delegator of the sender", async function () {
+    const { dao, accounts } = fixture;
+    const [proposer, delegate, alice, bob] = accounts;
+    await as(dao, alice).setDelegate("", delegate.address);
+    await as(dao, bob).setDelegate("", delegate.address);
+    await openBatch(dao, BatchMode.Approval);
+    const id = await submitProposal(fixture, proposer, { funding: 10, impact: 50, feasibility: 50, novelty: 50 });
+    await startVoting(dao);
+
+    await expect(voteFor(delegate, id, [alice, bob], true))
+      .to.emit(dao, "DelegatedVoteCast")
+      .withArgs(delegate.address, alice.address, await dao.currentBatchId(), id);
+    const ballot = await dao.proposalVotes(id, bob.address);
+    expect(ballot.castBy).to.equal(delegate.address);
+    expect((await dao.proposalTallies(id)).ballots).to.equal(2n);
+
+    await finalizeAndReveal(dao);
+    expect((await dao.proposalTallies(id)).approvals).to.equal(2n);
+  });
+
+  it("only lets voters delegate to someone else, and only delegates cast delegated ballots", async function () {
+    const { dao, accounts } = fixture;
+    const [proposer, delegate, alice, bob] = accounts;
+    await expect(as(dao, alice).setDelegate("", alice.address)).to.be.revertedWithCustomError(dao, "InvalidDelegate");
+    await expect(as(dao, proposer).setDelegate("", delegate.address)).to.be.revertedWithCustomError(dao, "NotVoter");
+    await as(dao, alice).setDelegate("", delegate.address);
+    await openBatch(dao, BatchMode.Approval);
+    const id = await submitProposal(fixture, proposer, { funding: 10, impact: 50, feasibility: 50, novelty: 50 });
+    await startVoting(dao);
+
+    await expect(voteFor(delegate, id, [alice, bob], true)).to.be.revertedWithCustomError(dao, "NotDelegate");
+    await expect(voteFor(bob, id, [alice], true)).to.be.revertedWithCustomError(dao, "NotDelegate");
+  });
+
+  it("never overrides a ballot the delegator cast themselves", async function () {
+    const { dao, accounts } = fixture;
+    const [proposer, delegate, alice, bob] = accounts;
+    await as(dao, alice).setDelegate("", delegate.address);
+    await as(dao, bob).setDelegate("", delegate.address);
+    await openBatch(dao, BatchMode.Approval);
+    const id = await submitProposal(fixture, proposer, { funding: 10, impact: 50, feasibility: 50, novelty: 50 });
+    await startVoting(dao);
+
+    await vote(fixture, alice, id, false);
+    await voteFor(delegate, id, [alice, bob], true);
+    expect((await dao.proposalVotes(id, alice.address)).castBy).to.equal(alice.address);
+    // A ballot of their own replaces the one their delegate cast
+    await vote(fixture, bob, id, false);
+    expect((await dao.proposalVotes(id, bob.address)).castBy).to.equal(bob.address);
+    expect((await dao.proposalTallies(id)).ballots).to.equal(2n);
+
+    await finalizeAndReveal(dao);
+    expect((await dao.proposalTallies(id)).approvals).to.equal(0n);
+  });
+
+  it("prefers a category delegate over the catch-all one", async function () {
+    const { dao, accounts } = fixture;
+    const [proposer, generalist, physicist, alice] = accounts;
+    await as(dao, alice).setDelegate("", generalist.address);
+    await as(dao, alice).setDelegate("physics", physicist.address);
+    expect(await dao.delegateFor(alice.address, "physics")).to.equal(physicist.address);
+    expect(await dao.delegateFor(alice.address, "biology")).to.equal(generalist.address);
+
+    await openBatch(dao, BatchMode.Approval);
+    const physics = await submitProposal(fixture, proposer, { funding: 10, impact: 50, feasibility: 50, novelty: 50, category: "physics" });
+    const biology = await submitProposal(fixture, proposer, { funding: 10, impact: 50, feasibility: 50, novelty: 50, category: "biology" });
+    await startVoting(dao);
+    await expect(voteFor(generalist, physics, [alice], true)).to.be.revertedWithCustomError(dao, "NotDelegate");
+    await voteFor(physicist, physics, [alice], true);
+    await expect(voteFor(physicist, biology, [alice], true)).to.be.revertedWithCustomError(dao, "NotDelegate");
+    await voteFor(generalist, biology, [alice], true);
+  });
+
+  it("stops counting a delegate's ballots as soon as the delegation changes", async function () {
+    const { dao, accounts } = fixture;
+    const [proposer, delegate, alice] = accounts;
+    await as(dao, alice).setDelegate("", delegate.address);
+    await openBatch(dao, BatchMode.Approval);
+    const id = await submitProposal(fixture, proposer, { funding: 10, impact: 50, feasibility: 50, novelty: 50 });
+    await startVoting(dao);
+    await voteFor(delegate, id, [alice], true);
+
+    await expect(as(dao, alice).setDelegate("", ZeroAddress)).to.emit(dao, "VoteWithdrawn").withArgs(alice.address, await dao.currentBatchId(), id);
+    expect((await dao.proposalVotes(id, alice.address)).exists).to.equal(false);
+    expect((await dao.proposalTallies(id)).ballots).to.equal(0n);
+  });
+});
@@ -0,0 +1,68 @@
+import { expect } from "chai";
+import { ethers, fhevm } from "hardhat";
+import {
+  BatchMode,
+  DaoFixture,
+  Role,
+  amendProposal,
+  as,
+  deployDao,
+  grantRoles,
+  openBatch,
+  submitProposal,
+} from "./helpers";
+
+describe("ProposalContent", function () {
+  let fixture: DaoFixture;
+
+  beforeEach(async function () {
+    if (!fhevm.isMock) this.skip();
+    fixture = await deployDao();
+    await grantRoles(fixture.dao, Role.Proposer, [fixture.accounts[0]]);
+  });
+
+  it("records only the hash of the off-chain content with the proposal", async function () {
+    const { dao, accounts } = fixture;
+    const [proposer] = accounts;
+    const metadata = JSON.stringify({ title: "Coral bleaching survey" });
+    const batchId = await openBatch(dao, BatchMode.Approval);
+    const id = await submitProposal(fixture, proposer, { funding: 10, impact: 50, feasibility: 50, novelty: 50, metadata });
+
+    const proposal = await dao.proposals(id);
+    expect(proposal.contentHash).to.equal(ethers.id(metadata));
+    const [submitted] = await dao.queryFilter(dao.filters.ProposalSubmitted(id));
+    expect((submitted as any).args.contentHash).to.equal(ethers.id(metadata));
+    expect((submitted as any).args.batchId).to.equal(batchId);
+  });
+
+  it("replaces the content hash when the proposal is amended", async function () {
+    const { dao, accounts } = fixture;
+    const [proposer] = accounts;
+    await openBatch(dao, BatchMode.Approval);
+    const id = await submitProposal(fixture, proposer, { funding: 10, impact: 50, feasibility: 50, novelty: 50 });
+    const before = (await dao.proposals(id)).contentHash;
+
+    const metadata = JSON.stringify({ title: "Proposal", revision: 2 });
+    await amendProposal(fixture, proposer, id, { funding: 10, impact: 50, feasibility: 50, novelty: 50, metadata }, "Added dataset");
+    const after = (await dao.proposals(id)).contentHash;
+    expect(after).to.not.equal(before);
+    expect(after).to.equal(ethers.id(metadata));
+  });
+
+  it("carries the content hash over to a resubmission", async function () {
+    const { dao, accounts } = fixture;
+    const [proposer] = accounts;
+    const metadata = JSON.stringify({ title: "Tidal energy model" });
+    await openBatch(dao, BatchMode.Approval);
+    const id = await submitProposal(fixture, proposer, { funding: 10, impact: 50, feasibility: 50, novelty: 50, metadata });
+    await as(dao, proposer).withdrawProposal(id);
+    await dao.closeBatch();
+
+    await openBatch(dao, BatchMode.Approval);
+    await as(dao, proposer).resubmitProposal(id);
+    const resubmitted = await dao.resubmittedAs(id);
+    expect((await dao.proposals(resubmitted)).contentHash).to.equal(ethers.id(metadata));
+    const [submitted] = await dao.queryFilter(dao.filters.ProposalSubmitted(resubmitted));
+    expect((submitted as any).args.contentHash).to.equal(ethers.id(metadata));
+  });
+});
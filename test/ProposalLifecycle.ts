@@ -0,0 +1,126 @@
+import { expect } from "chai";
+import { FhevmType } from "@fhevm/hardhat-plugin";
+import { ethers, fhevm } from "hardhat";
+import {
+  BatchMode,
+  DaoFixture,
+  Role,
+  as,
+  amendProposal,
+  deployDao,
+  encryptBool,
+  finalizeAndReveal,
+  grantRoles,
+  openBatch,
+  startVoting,
+  submitProposal,
+  vote,
+} from "./helpers";
+
+describe("ProposalLifecycle", function () {
+  let fixture: DaoFixture;
+
+  beforeEach(async function () {
+    if (!fhevm.isMock) this.skip();
+    fixture = await deployDao();
+    const [proposer, alice] = fixture.accounts;
+    await grantRoles(fixture.dao, Role.Proposer, [proposer]);
+    await grantRoles(fixture.dao, Role.Voter, [alice]);
+  });
+
+  describe("amendProposal", function () {
+    it("replaces the proposal and bumps its version during the submission phase", async function () {
+      const { dao, address, accounts } = fixture;
+      const [proposer] = accounts;
+      const batchId = await openBatch(dao, BatchMode.Approval);
+      const id = await submitProposal(fixture, proposer, { funding: 10, impact: 50, feasibility: 50, novelty: 50 });
+      expect((await dao.proposals(id)).version).to.equal(1n);
+
+      const metadata = JSON.stringify({ title: "Proposal", budget: "reduced" });
+      await expect(amendProposal(fixture, proposer, id, { funding: 25, impact: 50, feasibility: 50, novelty: 50, metadata, category: "physics" }, "Lower budget"))
+        .to.emit(dao, "ProposalAmended")
+        .withArgs(id, proposer.address, batchId, 2, ethers.id(metadata), "Lower budget");
+      const proposal = await dao.proposals(id);
+      expect(proposal.version).to.equal(2n);
+      expect(proposal.metadata).to.equal(metadata);
+      expect(proposal.category).to.equal("physics");
+      expect(await fhevm.userDecryptEuint(FhevmType.euint32, proposal.encryptedFundingAmount, address, proposer)).to.equal(25n);
+      expect(await dao.getBatchProposalIds(batchId)).to.deep.equal([id]);
+    });
+
+    it("only lets the provider amend a live proposal before voting starts", async function () {
+      const { dao, accounts } = fixture;
+      const [proposer] = accounts;
+      await grantRoles(dao, Role.Proposer, [accounts[2]]);
+      await openBatch(dao, BatchMode.Approval);
+      const id = await submitProposal(fixture, proposer, { funding: 10, impact: 50, feasibility: 50, novelty: 50 });
+      const withdrawn = await submitProposal(fixture, proposer, { funding: 10, impact: 50, feasibility: 50, novelty: 50 });
+      await as(dao, proposer).withdrawProposal(withdrawn);
+
+      const inputs = { funding: 20, impact: 50, feasibility: 50, novelty: 50 };
+      await expect(amendProposal(fixture, accounts[2], id, inputs)).to.be.revertedWithCustomError(dao, "NotProvider");
+      await expect(amendProposal(fixture, proposer, withdrawn, inputs)).to.be.revertedWithCustomError(dao, "InvalidProposalState");
+      await startVoting(dao);
+      await expect(amendProposal(fixture, proposer, id, inputs)).to.be.revertedWithCustomError(dao, "WrongPhase");
+    });
+  });
+
+  describe("withdrawProposal", function () {
+    it("takes the proposal out of its batch and its tally", async function () {
+      const { dao, accounts } = fixture;
+      const [proposer, alice] = accounts;
+      const batchId = await openBatch(dao, BatchMode.Approval);
+      const first = await submitProposal(fixture, proposer, { funding: 10, impact: 50, feasibility: 50, novelty: 50 });
+      const second = await submitProposal(fixture, proposer, { funding: 10, impact: 50, feasibility: 50, novelty: 50 });
+      const third = await submitProposal(fixture, proposer, { funding: 10, impact: 50, feasibility: 50, novelty: 50 });
+      await startVoting(dao);
+      await vote(fixture, alice, second, true);
+
+      await expect(as(dao, alice).withdrawProposal(second)).to.be.revertedWithCustomError(dao, "NotProvider");
+      await expect(as(dao, proposer).withdrawProposal(second)).to.emit(dao, "ProposalWithdrawn").withArgs(second, proposer.address, batchId);
+      expect(await dao.getBatchProposalIds(batchId)).to.deep.equal([first, third]);
+      expect((await dao.proposals(second)).withdrawn).to.equal(true);
+      await expect(as(dao, proposer).withdrawProposal(second)).to.be.revertedWithCustomError(dao, "InvalidProposalState");
+      const ballot = await encryptBool(fixture, alice, true);
+      await expect(as(dao, alice).submitVote(second, ballot.handles[0], ballot.inputProof)).to.be.revertedWithCustomError(dao, "ProposalDoesNotExist");
+
+      await finalizeAndReveal(dao);
+      expect((await dao.proposalTallies(second)).revealed).to.equal(false);
+      await expect(as(dao, proposer).withdrawProposal(first)).to.be.revertedWithCustomError(dao, "WrongPhase");
+    });
+  });
+
+  describe("resubmitProposal", function () {
+    it("carries a withdrawn or rejected proposal into a later batch, once", async function () {
+      const { dao, accounts } = fixture;
+      const [proposer, alice] = accounts;
+      await openBatch(dao, BatchMode.Approval);
+      const withdrawn = await submitProposal(fixture, proposer, { funding: 10, impact: 50, feasibility: 50, novelty: 50 });
+      const rejected = await submitProposal(fixture, proposer, { funding: 10, impact: 50, feasibility: 50, novelty: 50, category: "physics" });
+      const approved = await submitProposal(fixture, proposer, { funding: 10, impact: 50, feasibility: 50, novelty: 50 });
+      await as(dao, proposer).withdrawProposal(withdrawn);
+      await expect(as(dao, proposer).resubmitProposal(withdrawn)).to.be.revertedWithCustomError(dao, "InvalidProposalState");
+      await startVoting(dao);
+      await vote(fixture, alice, rejected, false);
+      await vote(fixture, alice, approved, true);
+      await finalizeAndReveal(dao);
+
+      const batchId = await openBatch(dao, BatchMode.Approval);
+      await expect(as(dao, proposer).resubmitProposal(approved)).to.be.revertedWithCustomError(dao, "InvalidProposalState");
+      await expect(as(dao, alice).resubmitProposal(rejected)).to.be.revertedWithCustomError(dao, "NotProvider");
+      await as(dao, proposer).resubmitProposal(withdrawn);
+      await expect(as(dao, proposer).resubmitProposal(rejected))
+        .to.emit(dao, "ProposalResubmitted")
+        .withArgs(approved + 2n, rejected, proposer.address, batchId, 2);
+
+      const carried = await dao.proposals(approved + 2n);
+      const source = await dao.proposals(rejected);
+      expect(carried.batchId).to.equal(batchId);
+      expect(carried.category).to.equal("physics");
+      expect(carried.encryptedFundingAmount).to.equal(source.encryptedFundingAmount);
+      expect(await dao.resubmittedAs(rejected)).to.equal(approved + 2n);
+      expect(await dao.getBatchProposalIds(batchId)).to.deep.equal([approved + 1n, approved + 2n]);
+      await expect(as(dao, proposer).resubmitProposal(rejected)).to.be.revertedWithCustomError(dao, "ProposalExists");
+    });
+  });
+});
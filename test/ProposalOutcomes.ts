@@ -0,0 +1,70 @@
+import { expect } from "chai";
+import {
+  BatchMode,
+  DaoFixture,
+  Role,
+  deployDao,
+  finalizeAndReveal,
+  grantRoles,
+  openBatch,
+  startVoting,
+  submitProposal,
+  vote,
+} from "./helpers";
+import { fhevm } from "hardhat";
+
+describe("ProposalOutcomes", function () {
+  let fixture: DaoFixture;
+
+  beforeEach(async function () {
+    if (!fhevm.isMock) this.skip();
+    fixture = await deployDao();
+    const [proposer, ...voters] = fixture.accounts;
+    await grantRoles(fixture.dao, Role.Proposer, [proposer]);
+    await grantRoles(fixture.dao, Role.Voter, voters.slice(0, 3));
+  });
+
+  it("reveals the outcome and approve count of every proposal in the batch", async function () {
+    const { dao, accounts } = fixture;
+    const [proposer, alice, bob, carol] = accounts;
+    await openBatch(dao, BatchMode.Approval);
+    const approved = await submitProposal(fixture, proposer, { funding: 50, impact: 80, feasibility: 80, novelty: 80 });
+    const tied = await submitProposal(fixture, proposer, { funding: 50, impact: 50, feasibility: 50, novelty: 50 });
+    const unvoted = await submitProposal(fixture, proposer, { funding: 50, impact: 50, feasibility: 50, novelty: 50 });
+    await startVoting(dao);
+    await vote(fixture, alice, approved, true);
+    await vote(fixture, bob, approved, true);
+    await vote(fixture, carol, approved, false);
+    // Half of the weight is not a majority
+    await vote(fixture, alice, tied, true);
+    await vote(fixture, bob, tied, false);
+
+    const batchId = await finalizeAndReveal(dao);
+
+    const events = await dao.queryFilter(dao.filters.ProposalOutcomeRevealed(batchId));
+    const outcomes = new Map(events.map((event: any) => [event.args.proposalId, event.args.toObject()]));
+    expect(outcomes.size).to.equal(3);
+    expect(outcomes.get(approved)).to.include({ provider: proposer.address, approved: true, approvals: 2n, ballots: 3n, totalWeight: 3n, funded: true });
+    expect(outcomes.get(tied)).to.include({ approved: false, approvals: 1n, ballots: 2n, funded: false });
+    expect(outcomes.get(unvoted)).to.include({ approved: false, approvals: 0n, ballots: 0n, funded: false });
+
+    const tally = await dao.proposalTallies(approved);
+    expect(tally.revealed).to.equal(true);
+    expect(tally.approved).to.equal(true);
+    expect(tally.approvals).to.equal(2n);
+  });
+
+  it("reports a proposal as funded to its provider only once the batch is revealed", async function () {
+    const { dao, accounts } = fixture;
+    const [proposer, alice] = accounts;
+    await openBatch(dao, BatchMode.Approval);
+    const id = await submitProposal(fixture, proposer, { funding: 50, impact: 80, feasibility: 80, novelty: 80 });
+    await startVoting(dao);
+    await vote(fixture, alice, id, true);
+    expect(await dao.isProposalFunded(id, proposer.address)).to.equal(false);
+
+    await finalizeAndReveal(dao);
+    expect(await dao.isProposalFunded(id, proposer.address)).to.equal(true);
+    expect(await dao.isProposalFunded(id, alice.address)).to.equal(false);
+  });
+});
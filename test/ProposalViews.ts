@@ -0,0 +1,98 @@
+import { expect } from "chai";
+import { fhevm } from "hardhat";
+import {
+  BatchMode,
+  DaoFixture,
+  Role,
+  as,
+  deployDao,
+  finalizeAndReveal,
+  grantRoles,
+  openBatch,
+  startVoting,
+  submitProposal,
+  vote,
+} from "./helpers";
+
+const ProposalStatus = { Pending: 0, Approved: 1, Rejected: 2, Withdrawn: 3 } as const;
+
+describe("ProposalViews", function () {
+  let fixture: DaoFixture;
+
+  beforeEach(async function () {
+    if (!fhevm.isMock) this.skip();
+    fixture = await deployDao();
+    const [lab, otherLab, alice] = fixture.accounts;
+    await grantRoles(fixture.dao, Role.Proposer, [lab, otherLab]);
+    await grantRoles(fixture.dao, Role.Voter, [alice]);
+  });
+
+  const idsOf = (page: any[]) => page.map(view => view.proposalId);
+
+  it("pages through a batch newest first", async function () {
+    const { dao, accounts } = fixture;
+    const [lab, otherLab] = accounts;
+    const batchId = await openBatch(dao, BatchMode.Approval);
+    const ids: bigint[] = [];
+    for (const provider of [lab, otherLab, lab, lab, otherLab]) {
+      ids.push(await submitProposal(fixture, provider, { funding: 10, impact: 50, feasibility: 50, novelty: 50 }));
+    }
+
+    const [first, total] = await dao.getBatchProposalsPage(batchId, 0, 2);
+    expect(total).to.equal(5n);
+    expect(idsOf(first)).to.deep.equal([ids[4], ids[3]]);
+    expect(first[0].provider).to.equal(otherLab.address);
+    expect(first[0].batchId).to.equal(batchId);
+    expect(first[0].status).to.equal(ProposalStatus.Pending);
+
+    expect(idsOf((await dao.getBatchProposalsPage(batchId, 4, 2))[0])).to.deep.equal([ids[0]]);
+    expect((await dao.getBatchProposalsPage(batchId, 5, 2))[0]).to.have.length(0);
+    expect((await dao.getBatchProposalsPage(batchId + 1n, 0, 2))[1]).to.equal(0n);
+  });
+
+  it("pages through the proposals of one proposer across batches", async function () {
+    const { dao, accounts } = fixture;
+    const [lab, otherLab] = accounts;
+    await openBatch(dao, BatchMode.Approval);
+    const early = await submitProposal(fixture, lab, { funding: 10, impact: 50, feasibility: 50, novelty: 50 });
+    await submitProposal(fixture, otherLab, { funding: 10, impact: 50, feasibility: 50, novelty: 50 });
+    await dao.closeBatch();
+    await openBatch(dao, BatchMode.Approval);
+    const late = await submitProposal(fixture, lab, { funding: 10, impact: 50, feasibility: 50, novelty: 50 });
+
+    const [page, total] = await dao.getProposerProposalsPage(lab.address, 0, 10);
+    expect(total).to.equal(2n);
+    expect(idsOf(page)).to.deep.equal([late, early]);
+  });
+
+  it("pages through the proposals with a given outcome", async function () {
+    const { dao, accounts } = fixture;
+    const [lab, , alice] = accounts;
+    await openBatch(dao, BatchMode.Approval);
+    const ids: bigint[] = [];
+    for (let i = 0; i < 5; i++) {
+      ids.push(await submitProposal(fixture, lab, { funding: 10, impact: 50, feasibility: 50, novelty: 50 }));
+    }
+    await as(dao, lab).withdrawProposal(ids[4]);
+    await startVoting(dao);
+    for (const [index, id] of ids.slice(0, 4).entries()) await vote(fixture, alice, id, index % 2 === 0);
+    await finalizeAndReveal(dao);
+    await openBatch(dao, BatchMode.Approval);
+    const pending = await submitProposal(fixture, lab, { funding: 10, impact: 50, feasibility: 50, novelty: 50 });
+
+    const [approved, approvedTotal] = await dao.getProposalsByStatusPage(ProposalStatus.Approved, 0, 10);
+    expect(approvedTotal).to.equal(2n);
+    expect(idsOf(approved)).to.deep.equal([ids[2], ids[0]]);
+    expect(approved[0].funded).to.equal(true);
+    expect(approved[0].ballots).to.equal(1n);
+
+    const [rejected, rejectedTotal] = await dao.getProposalsByStatusPage(ProposalStatus.Rejected, 1, 10);
+    expect(rejectedTotal).to.equal(2n);
+    expect(idsOf(rejected)).to.deep.equal([ids[1]]);
+    const [withdrawn] = await dao.getProposalsByStatusPage(ProposalStatus.Withdrawn, 0, 10);
+    expect(idsOf(withdrawn)).to.deep.equal([ids[4]]);
+    const [stillPending, pendingTotal] = await dao.getProposalsByStatusPage(ProposalStatus.Pending, 0, 10);
+    expect(pendingTotal).to.equal(1n);
+    expect(idsOf(stillPending)).to.deep.equal([pending]);
+  });
+});
@@ -0,0 +1,96 @@
+import { expect } from "chai";
+import { FhevmType } from "@fhevm/hardhat-plugin";
+import { BatchMode, DaoFixture, Role, as, deployDao, encryptUint32, endVoting, finalizeAndReveal, grantRoles, openBatch, startVoting, submitProposal } from "./helpers";
+import { fhevm } from "hardhat";
+
+describe("QuadraticFunding", function () {
+  let fixture: DaoFixture;
+
+  beforeEach(async function () {
+    if (!fhevm.isMock) this.skip();
+    fixture = await deployDao();
+    const [proposer, ...contributors] = fixture.accounts;
+    await grantRoles(fixture.dao, Role.Proposer, [proposer]);
+    await grantRoles(fixture.dao, Role.Voter, contributors.slice(0, 3));
+  });
+
+  async function contribute(proposalId: bigint, contributor: (typeof fixture.accounts)[number], amount: number) {
+    const encrypted = await encryptUint32(fixture, contributor, amount);
+    await as(fixture.dao, contributor).submitContribution(proposalId, encrypted.handles[0], encrypted.inputProof);
+  }
+
+  it("records the floored square root of each contribution", async function () {
+    const { dao, address, accounts } = fixture;
+    const [proposer, alice, bob] = accounts;
+    await openBatch(dao, BatchMode.Quadratic);
+    const id = await submitProposal(fixture, proposer, { funding: 0, impact: 50, feasibility: 50, novelty: 50 });
+    await startVoting(dao);
+    await contribute(id, alice, 100);
+    await contribute(id, bob, 99);
+
+    const contribution = await dao.contributions(id, bob.address);
+    expect(await fhevm.userDecryptEuint(FhevmType.euint32, contribution.encryptedAmount, address, bob)).to.equal(99n);
+
+    await finalizeAndReveal(dao);
+    const tally = await dao.quadraticTallies(id);
+    expect(tally.contributors).to.equal(2n);
+    expect(tally.total).to.equal(199n);
+    expect(tally.sqrtSum).to.equal(10n + 9n);
+  });
+
+  it("clamps contributions to MAX_CONTRIBUTION", async function () {
+    const { dao, address, accounts } = fixture;
+    const [proposer, alice] = accounts;
+    await openBatch(dao, BatchMode.Quadratic);
+    const id = await submitProposal(fixture, proposer, { funding: 0, impact: 50, feasibility: 50, novelty: 50 });
+    await startVoting(dao);
+    await contribute(id, alice, 1_000_000);
+
+    const max = await dao.MAX_CONTRIBUTION();
+    const contribution = await dao.contributions(id, alice.address);
+    expect(await fhevm.userDecryptEuint(FhevmType.euint32, contribution.encryptedAmount, address, alice)).to.equal(max);
+
+    await finalizeAndReveal(dao);
+    const tally = await dao.quadraticTallies(id);
+    expect(tally.total).to.equal(max);
+    expect(tally.sqrtSum).to.equal(255n);
+  });
+
+  it("replaces an earlier contribution from the same contributor", async function () {
+    const { dao, accounts } = fixture;
+    const [proposer, alice] = accounts;
+    await openBatch(dao, BatchMode.Quadratic);
+    const id = await submitProposal(fixture, proposer, { funding: 0, impact: 50, feasibility: 50, novelty: 50 });
+    await startVoting(dao);
+    await contribute(id, alice, 400);
+    await contribute(id, alice, 16);
+
+    await finalizeAndReveal(dao);
+    const tally = await dao.quadraticTallies(id);
+    expect(tally.contributors).to.equal(1n);
+    expect(tally.total).to.equal(16n);
+    expect(tally.sqrtSum).to.equal(4n);
+  });
+
+  it("publishes empty results for a batch without proposals", async function () {
+    const { dao } = fixture;
+    const batchId = await openBatch(dao, BatchMode.Quadratic);
+    await endVoting(dao);
+    await expect(dao.finalizeBatch()).to.emit(dao, "DecryptionCompleted").withArgs(0n, batchId, 0n, 0n);
+
+    const result = await dao.batchResults(batchId);
+    expect(result.tallied).to.equal(true);
+    expect(result.decrypted).to.equal(true);
+  });
+
+  it("publishes empty results once every proposal has been withdrawn", async function () {
+    const { dao, accounts } = fixture;
+    const [proposer] = accounts;
+    const batchId = await openBatch(dao, BatchMode.Quadratic);
+    const id = await submitProposal(fixture, proposer, { funding: 0, impact: 50, feasibility: 50, novelty: 50 });
+    await as(dao, proposer).withdrawProposal(id);
+    await endVoting(dao);
+    await expect(dao.finalizeBatch()).to.emit(dao, "DecryptionCompleted").withArgs(0n, batchId, 0n, 0n);
+    expect((await dao.batchResults(batchId)).decrypted).to.equal(true);
+  });
+});
@@ -0,0 +1,91 @@
+import { expect } from "chai";
+import { fhevm } from "hardhat";
+import {
+  BatchMode,
+  DaoFixture,
+  Role,
+  deployDao,
+  finalizeAndReveal,
+  grantRoles,
+  openBatch,
+  startVoting,
+  submitProposal,
+  vote,
+} from "./helpers";
+
+describe("Quorum", function () {
+  let fixture: DaoFixture;
+
+  beforeEach(async function () {
+    if (!fhevm.isMock) this.skip();
+    fixture = await deployDao();
+    const [proposer, ...voters] = fixture.accounts;
+    await grantRoles(fixture.dao, Role.Proposer, [proposer]);
+    await grantRoles(fixture.dao, Role.Voter, voters.slice(0, 3));
+  });
+
+  // Submits one proposal per ballot list, in which `true` approves and `false` rejects, and reveals the batch
+  async function runBatch(ballots: boolean[][], quorum?: [number, number, number]) {
+    const { dao, accounts } = fixture;
+    const [proposer, ...voters] = accounts;
+    const batchId = await openBatch(dao, BatchMode.Approval);
+    if (quorum) await dao.setBatchQuorum(batchId, ...quorum);
+    const ids: bigint[] = [];
+    for (let i = 0; i < ballots.length; i++) {
+      ids.push(await submitProposal(fixture, proposer, { funding: 10, impact: 50, feasibility: 50, novelty: 50 }));
+    }
+    await startVoting(dao);
+    for (const [index, id] of ids.entries()) {
+      for (const [voter, approve] of ballots[index].entries()) await vote(fixture, voters[voter], id, approve);
+    }
+    await finalizeAndReveal(dao);
+    const missed = await dao.queryFilter(dao.filters.QuorumNotMet(batchId));
+    const approved = await Promise.all(ids.map(async id => (await dao.proposalTallies(id)).approved));
+    return { ids, approved, missed: missed.map((event: any) => event.args.proposalId) };
+  }
+
+  it("rejects proposals with fewer ballots than the quorum, however they voted", async function () {
+    const { ids, approved, missed } = await runBatch([[true], [true, true]], [2, 0, 0]);
+    expect(approved).to.deep.equal([false, true]);
+    expect(missed).to.deep.equal([ids[0]]);
+  });
+
+  it("rejects proposals with less ballot weight than the quorum", async function () {
+    const { ids, approved, missed } = await runBatch([[true, true], [true, true, false]], [0, 3, 0]);
+    expect(approved).to.deep.equal([false, true]);
+    expect(missed).to.deep.equal([ids[0]]);
+  });
+
+  it("approves at the configured share of the weight instead of a simple majority", async function () {
+    expect((await runBatch([[true, false], [true, true, false]])).approved).to.deep.equal([false, true]);
+    // At least half approving is enough at 50%, two of three is not at 70%
+    expect((await runBatch([[true, false]], [0, 0, 50])).approved).to.deep.equal([true]);
+    expect((await runBatch([[true, true, false]], [0, 0, 70])).approved).to.deep.equal([false]);
+  });
+
+  it("only accepts approval thresholds up to 100%", async function () {
+    const { dao } = fixture;
+    const batchId = await openBatch(dao, BatchMode.Approval);
+    await expect(dao.setBatchQuorum(batchId, 0, 0, 101)).to.be.revertedWithCustomError(dao, "InvalidQuorum");
+    await expect(dao.setBatchQuorum(batchId, 1, 2, 100)).to.emit(dao, "BatchQuorumSet").withArgs(batchId, 1, 2, 100);
+  });
+
+  it("fixes the quorum, budget and matching pool once the submission phase ends", async function () {
+    const { dao, accounts } = fixture;
+    const [proposer, alice] = accounts;
+    const batchId = await openBatch(dao, BatchMode.Approval);
+    const id = await submitProposal(fixture, proposer, { funding: 10, impact: 50, feasibility: 50, novelty: 50 });
+    await startVoting(dao);
+    await vote(fixture, alice, id, true);
+
+    // Ballot counts are public while voting, so none of these may be tuned to them
+    await expect(dao.setBatchQuorum(batchId, 2, 0, 0)).to.be.revertedWithCustomError(dao, "WrongPhase");
+    await expect(dao.setBatchBudget(batchId, 5)).to.be.revertedWithCustomError(dao, "WrongPhase");
+    await expect(dao.setMatchingPool(batchId, 5)).to.be.revertedWithCustomError(dao, "WrongPhase");
+    // The next batch can still be prepared
+    await expect(dao.setBatchQuorum(batchId + 1n, 2, 0, 0)).to.emit(dao, "BatchQuorumSet");
+
+    await dao.closeBatch();
+    await expect(dao.setBatchQuorum(batchId, 2, 0, 0)).to.be.revertedWithCustomError(dao, "InvalidBatchState");
+  });
+});
@@ -0,0 +1,137 @@
+import { expect } from "chai";
+import { impersonateAccount, setBalance, time } from "@nomicfoundation/hardhat-network-helpers";
+import { Contract, ZeroHash, parseEther } from "ethers";
+import { ethers, fhevm } from "hardhat";
+import {
+  BatchMode,
+  DaoFixture,
+  Role,
+  as,
+  deployDao,
+  finalizeAndReveal,
+  grantRoles,
+  openBatch,
+  startVoting,
+  submitProposal,
+  vote,
+} from "./helpers";
+
+describe("ResearchIP", function () {
+  let fixture: DaoFixture;
+  let researchIP: Contract;
+  let treasuryAddress: string;
+
+  beforeEach(async function () {
+    if (!fhevm.isMock) this.skip();
+    fixture = await deployDao();
+    const [proposer, alice] = fixture.accounts;
+    await grantRoles(fixture.dao, Role.Proposer, [proposer]);
+    await grantRoles(fixture.dao, Role.Voter, [alice]);
+    const treasury = await ethers.deployContract("ScienceTreasury", [fixture.address]);
+    treasuryAddress = await treasury.getAddress();
+    researchIP = (await ethers.deployContract("ResearchIP", [fixture.address, treasuryAddress])) as unknown as Contract;
+    await fixture.dao.setResearchIP(await researchIP.getAddress());
+  });
+
+  it("mints a token to the treasury for every proposal a batch approves", async function () {
+    const { dao, accounts } = fixture;
+    const [proposer, alice] = accounts;
+    const metadata = JSON.stringify({ title: "Soil microbiome atlas", category: "biology" });
+    const batchId = await openBatch(dao, BatchMode.Approval);
+    const approved = await submitProposal(fixture, proposer, { funding: 100, impact: 80, feasibility: 80, novelty: 80, metadata });
+    const rejected = await submitProposal(fixture, proposer, { funding: 100, impact: 80, feasibility: 80, novelty: 80 });
+    await startVoting(dao);
+    await vote(fixture, alice, approved, true);
+    await vote(fixture, alice, rejected, false);
+    await finalizeAndReveal(dao);
+
+    expect(await researchIP.totalMinted()).to.equal(1n);
+    expect(await researchIP.tokenOfProposal(rejected)).to.equal(0n);
+    const tokenId = await researchIP.tokenOfProposal(approved);
+    expect(tokenId).to.equal(1n);
+    expect(await researchIP.ownerOf(tokenId)).to.equal(treasuryAddress);
+
+    const record = await researchIP.ipRecords(tokenId);
+    expect(record.proposalId).to.equal(approved);
+    expect(record.batchId).to.equal(batchId);
+    expect(record.proposer).to.equal(proposer.address);
+    expect(record.metadata).to.equal(metadata);
+    expect(record.contentHash).to.equal(ethers.id(metadata));
+
+    const uri: string = await researchIP.tokenURI(tokenId);
+    const json = JSON.parse(Buffer.from(uri.replace("data:application/json;base64,", ""), "base64").toString());
+    expect(json.name).to.equal("Research IP #1");
+    expect(json.attributes).to.deep.include({ trait_type: "Proposal", value: Number(approved) });
+    expect(json.attributes).to.deep.include({ trait_type: "Content Hash", value: ethers.id(metadata) });
+  });
+
+  it("only mints for the DAO, once per proposal", async function () {
+    const [proposer] = fixture.accounts;
+    await expect(as(researchIP, proposer).mint(1, 2, proposer.address, "{}", ZeroHash)).to.be.revertedWithCustomError(researchIP, "NotDao");
+
+    await impersonateAccount(fixture.address);
+    await setBalance(fixture.address, parseEther("1"));
+    const dao = await ethers.getSigner(fixture.address);
+    await as(researchIP, dao).mint(1, 2, proposer.address, "{}", ZeroHash);
+    await expect(as(researchIP, dao).mint(1, 2, proposer.address, "{}", ZeroHash)).to.be.revertedWithCustomError(researchIP, "AlreadyMinted");
+  });
+
+  describe("licensing", function () {
+    let tokenId: bigint;
+
+    // Mints a token as the DAO would on approval, without running a batch
+    beforeEach(async function () {
+      const [proposer] = fixture.accounts;
+      await impersonateAccount(fixture.address);
+      await setBalance(fixture.address, parseEther("1"));
+      await as(researchIP, await ethers.getSigner(fixture.address)).mint(1, 2, proposer.address, "{}", ZeroHash);
+      tokenId = await researchIP.tokenOfProposal(1);
+    });
+
+    it("pays the treasury ERC-2981 royalties on resales", async function () {
+      const [, , receiver] = fixture.accounts;
+      const [royaltyReceiver, royalty] = await researchIP.royaltyInfo(tokenId, parseEther("2"));
+      expect(royaltyReceiver).to.equal(treasuryAddress);
+      expect(royalty).to.equal(parseEther("0.1"));
+      expect(await researchIP.supportsInterface("0x2a55205a")).to.equal(true);
+
+      await researchIP.setDefaultRoyalty(receiver.address, 1000);
+      expect(await researchIP.royaltyInfo(tokenId, parseEther("2"))).to.deep.equal([receiver.address, parseEther("0.2")]);
+      await expect(researchIP.setDefaultRoyalty(receiver.address, 10_001)).to.be.revertedWithCustomError(researchIP, "InvalidShare");
+    });
+
+    it("splits license revenue between the treasury and the proposer", async function () {
+      const [proposer, licensee] = fixture.accounts;
+      await researchIP.createLicenseOffer(tokenId, "Non-commercial use", parseEther("1"), 3600);
+      const offerId = 0n;
+
+      await expect(as(researchIP, licensee).purchaseLicense(offerId, { value: parseEther("0.5") })).to.be.revertedWithCustomError(researchIP, "IncorrectPayment");
+      await expect(as(researchIP, licensee).purchaseLicense(offerId, { value: parseEther("1") }))
+        .to.changeEtherBalances([licensee, treasuryAddress], [-parseEther("1"), parseEther("0.7")]);
+
+      const revenue = await researchIP.revenueOf(tokenId);
+      expect(revenue.total).to.equal(parseEther("1"));
+      expect(revenue.toTreasury).to.equal(parseEther("0.7"));
+      expect(revenue.toProposer).to.equal(parseEther("0.3"));
+      expect(await researchIP.getTokenLicenseIds(tokenId)).to.deep.equal([0n]);
+      expect(await researchIP.isLicenseActive(0)).to.equal(true);
+
+      await expect(as(researchIP, proposer).withdrawRevenue()).to.changeEtherBalance(proposer, parseEther("0.3"));
+      await expect(as(researchIP, proposer).withdrawRevenue()).to.be.revertedWithCustomError(researchIP, "NothingToWithdraw");
+    });
+
+    it("stops selling licenses once an offer is deactivated, and lets sold ones expire", async function () {
+      const [, licensee] = fixture.accounts;
+      await researchIP.createLicenseOffer(tokenId, "Evaluation", 0, 60);
+      await as(researchIP, licensee).purchaseLicense(0);
+      await researchIP.setLicenseOfferActive(0, false);
+      await expect(as(researchIP, licensee).purchaseLicense(0)).to.be.revertedWithCustomError(researchIP, "OfferInactive");
+      await expect(as(researchIP, licensee).purchaseLicense(1)).to.be.revertedWithCustomError(researchIP, "OfferDoesNotExist");
+      // Called statically: Hardhat cannot trace this revert of the via-IR build, and the FHEVM provider then fails on the node error
+      await expect(as(researchIP, licensee).createLicenseOffer.staticCall(tokenId, "Any", 0, 60)).to.be.revertedWithCustomError(researchIP, "NotOwner");
+
+      await time.increase(60);
+      expect(await researchIP.isLicenseActive(0)).to.equal(false);
+    });
+  });
+});
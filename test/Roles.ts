@@ -0,0 +1,77 @@
+import { expect } from "chai";
+import { fhevm } from "hardhat";
+import {
+  BatchMode,
+  DaoFixture,
+  Role,
+  as,
+  deployDao,
+  encryptBool,
+  grantRoles,
+  openBatch,
+  startVoting,
+  submitProposal,
+} from "./helpers";
+
+describe("Roles", function () {
+  let fixture: DaoFixture;
+
+  beforeEach(async function () {
+    if (!fhevm.isMock) this.skip();
+    fixture = await deployDao();
+  });
+
+  it("keeps proposing and voting with separate roles", async function () {
+    const { dao, accounts } = fixture;
+    const [proposer, voter] = accounts;
+    await grantRoles(dao, Role.Proposer, [proposer]);
+    await grantRoles(dao, Role.Voter, [voter]);
+    await openBatch(dao, BatchMode.Approval);
+
+    await expect(submitProposal(fixture, voter, { funding: 10, impact: 50, feasibility: 50, novelty: 50 })).to.be.revertedWithCustomError(dao, "NotProvider");
+    const id = await submitProposal(fixture, proposer, { funding: 10, impact: 50, feasibility: 50, novelty: 50 });
+    await startVoting(dao);
+    const ballot = await encryptBool(fixture, proposer, true);
+    await expect(as(dao, proposer).submitVote(id, ballot.handles[0], ballot.inputProof)).to.be.revertedWithCustomError(dao, "NotVoter");
+  });
+
+  it("lets admins manage members and revoke their roles", async function () {
+    const { dao, accounts } = fixture;
+    const [admin, member, outsider] = accounts;
+    // Role checks are asserted statically: Hardhat cannot trace some reverts of the via-IR build, and the
+    // FHEVM provider then fails on the untraced node error instead of passing the revert data on
+    await expect(as(dao, outsider).grantRole.staticCall(Role.Voter, member.address)).to.be.revertedWithCustomError(dao, "NotAdmin");
+    await dao.grantRole(Role.Admin, admin.address);
+
+    await expect(as(dao, admin).grantRole(Role.Voter, member.address)).to.emit(dao, "RoleGranted").withArgs(Role.Voter, member.address);
+    await as(dao, admin).addProvider(member.address);
+    expect(await dao.hasRole(Role.Voter, member.address)).to.equal(true);
+    expect(await dao.isProvider(member.address)).to.equal(true);
+
+    await expect(as(dao, admin).revokeRole(Role.Voter, member.address)).to.emit(dao, "RoleRevoked").withArgs(Role.Voter, member.address);
+    await as(dao, admin).removeProvider(member.address);
+    expect(await dao.hasRole(Role.Voter, member.address)).to.equal(false);
+    expect(await dao.isProvider(member.address)).to.equal(false);
+  });
+
+  it("only lets the owner grant or revoke the admin role", async function () {
+    const { dao, owner, accounts } = fixture;
+    const [admin, member] = accounts;
+    await dao.grantRole(Role.Admin, admin.address);
+    await expect(as(dao, admin).grantRole.staticCall(Role.Admin, member.address)).to.be.revertedWithCustomError(dao, "NotOwner");
+    await expect(as(dao, admin).revokeRole.staticCall(Role.Admin, owner.address)).to.be.revertedWithCustomError(dao, "NotOwner");
+
+    await dao.revokeRole(Role.Admin, admin.address);
+    expect(await dao.hasRole(Role.Admin, admin.address)).to.equal(false);
+  });
+
+  it("reserves budgets for treasurers", async function () {
+    const { dao, accounts } = fixture;
+    const [treasurer] = accounts;
+    const batchId = await openBatch(dao, BatchMode.Approval);
+    await expect(as(dao, treasurer).setBatchBudget.staticCall(batchId, 100)).to.be.revertedWithCustomError(dao, "NotTreasurer");
+    await grantRoles(dao, Role.Treasurer, [treasurer]);
+    expect(await dao.isTreasurer(treasurer.address)).to.equal(true);
+    await expect(as(dao, treasurer).setBatchBudget(batchId, 100)).to.emit(dao, "BatchBudgetSet").withArgs(batchId, false, 100);
+  });
+});
@@ -0,0 +1,134 @@
+import { expect } from "chai";
+import { Contract, ZeroAddress, parseEther } from "ethers";
+import { ethers, fhevm } from "hardhat";
+import {
+  BatchMode,
+  DaoFixture,
+  Role,
+  as,
+  deployDao,
+  finalizeAndReveal,
+  grantRoles,
+  openBatch,
+  startVoting,
+  submitProposal,
+  vote,
+} from "./helpers";
+
+const MilestoneStatus = { Pending: 0, Claimed: 1, Released: 2 } as const;
+
+describe("ScienceTreasury", function () {
+  let fixture: DaoFixture;
+  let treasury: Contract;
+
+  beforeEach(async function () {
+    if (!fhevm.isMock) this.skip();
+    fixture = await deployDao();
+    const [proposer, alice] = fixture.accounts;
+    await grantRoles(fixture.dao, Role.Proposer, [proposer]);
+    await grantRoles(fixture.dao, Role.Voter, [alice]);
+    treasury = (await ethers.deployContract("ScienceTreasury", [fixture.address])) as unknown as Contract;
+    await fixture.owner.sendTransaction({ to: await treasury.getAddress(), value: parseEther("10") });
+  });
+
+  // Runs a batch in which the proposal is approved and funded, or rejected
+  async function revealedProposal(approve: boolean): Promise<bigint> {
+    const { dao, accounts } = fixture;
+    const [proposer, alice] = accounts;
+    await openBatch(fixture.dao, BatchMode.Approval);
+    const id = await submitProposal(fixture, proposer, { funding: 100, impact: 80, feasibility: 80, novelty: 80 });
+    await startVoting(dao);
+    await vote(fixture, alice, id, approve);
+    await finalizeAndReveal(dao);
+    return id;
+  }
+
+  async function createSchedule(proposalId: bigint, amounts: bigint[]): Promise<bigint> {
+    const [proposer] = fixture.accounts;
+    const descriptions = amounts.map((_, index) => `Milestone ${index + 1}`);
+    await treasury.createSchedule(proposalId, proposer.address, ZeroAddress, amounts, descriptions);
+    return treasury.scheduleIdOf(proposalId);
+  }
+
+  it("only schedules payouts for funded proposals", async function () {
+    const [proposer] = fixture.accounts;
+    const rejected = await revealedProposal(false);
+    await expect(treasury.createSchedule(rejected, proposer.address, ZeroAddress, [parseEther("1")], ["Data"]))
+      .to.be.revertedWithCustomError(treasury, "ProposalNotFunded");
+
+    const funded = await revealedProposal(true);
+    await expect(treasury.createSchedule(funded, proposer.address, ZeroAddress, [parseEther("11")], ["Data"]))
+      .to.be.revertedWithCustomError(treasury, "InsufficientTreasuryBalance");
+    await expect(treasury.createSchedule(funded, proposer.address, ZeroAddress, [], []))
+      .to.be.revertedWithCustomError(treasury, "InvalidMilestones");
+    // Called statically: Hardhat cannot trace this revert of the via-IR build, and the FHEVM provider then fails on the node error
+    await expect(as(treasury, proposer).createSchedule.staticCall(funded, proposer.address, ZeroAddress, [parseEther("1")], ["Data"]))
+      .to.be.revertedWithCustomError(treasury, "NotTreasurer");
+
+    await createSchedule(funded, [parseEther("2"), parseEther("3")]);
+    await expect(treasury.createSchedule(funded, proposer.address, ZeroAddress, [parseEther("1")], ["Data"]))
+      .to.be.revertedWithCustomError(treasury, "ScheduleExists");
+    expect(await treasury.lockedBalance(ZeroAddress)).to.equal(parseEther("5"));
+    expect(await treasury.availableBalance(ZeroAddress)).to.equal(parseEther("5"));
+  });
+
+  it("releases milestones in order once reviewers sign off on the claim", async function () {
+    const { accounts, owner } = fixture;
+    const [proposer, , reviewer] = accounts;
+    const scheduleId = await createSchedule(await revealedProposal(true), [parseEther("2"), parseEther("3")]);
+    await treasury.addReviewer(reviewer.address);
+    await treasury.setRequiredSignoffs(2);
+
+    await expect(treasury.claimMilestone(scheduleId, "ipfs://data")).to.be.revertedWithCustomError(treasury, "NotProposer");
+    await expect(treasury.reviewMilestone(scheduleId, 0, true)).to.be.revertedWithCustomError(treasury, "InvalidMilestoneState");
+    await as(treasury, proposer).claimMilestone(scheduleId, "ipfs://data");
+    await treasury.reviewMilestone(scheduleId, 0, true);
+    await expect(treasury.reviewMilestone(scheduleId, 0, true)).to.be.revertedWithCustomError(treasury, "AlreadyReviewed");
+    expect((await treasury.getMilestones(scheduleId))[0].status).to.equal(MilestoneStatus.Claimed);
+
+    await expect(as(treasury, reviewer).reviewMilestone(scheduleId, 0, true)).to.changeEtherBalance(proposer, parseEther("2"));
+    const [first, second] = await treasury.getMilestones(scheduleId);
+    expect(first.status).to.equal(MilestoneStatus.Released);
+    expect(first.evidence).to.equal("ipfs://data");
+    expect(second.status).to.equal(MilestoneStatus.Pending);
+    expect((await treasury.schedules(scheduleId)).releasedAmount).to.equal(parseEther("2"));
+    expect(await treasury.lockedBalance(ZeroAddress)).to.equal(parseEther("3"));
+    await expect(as(treasury, accounts[3]).reviewMilestone(scheduleId, 1, true)).to.be.revertedWithCustomError(treasury, "NotReviewer");
+    expect(await treasury.isReviewer(owner.address)).to.equal(true);
+  });
+
+  it("sends a rejected milestone back for a new claim without carrying over earlier sign-offs", async function () {
+    const [proposer, , reviewer, secondReviewer] = fixture.accounts;
+    const scheduleId = await createSchedule(await revealedProposal(true), [parseEther("2")]);
+    await treasury.addReviewer(reviewer.address);
+    await treasury.addReviewer(secondReviewer.address);
+    await treasury.setRequiredSignoffs(2);
+
+    await as(treasury, proposer).claimMilestone(scheduleId, "ipfs://draft");
+    await treasury.reviewMilestone(scheduleId, 0, true);
+    await as(treasury, reviewer).reviewMilestone(scheduleId, 0, false);
+    await expect(as(treasury, secondReviewer).reviewMilestone(scheduleId, 0, false)).to.emit(treasury, "MilestoneRejected").withArgs(scheduleId, 0);
+    expect((await treasury.getMilestones(scheduleId))[0].status).to.equal(MilestoneStatus.Pending);
+
+    await as(treasury, proposer).claimMilestone(scheduleId, "ipfs://final");
+    await treasury.reviewMilestone(scheduleId, 0, true);
+    expect((await treasury.getMilestones(scheduleId))[0].status).to.equal(MilestoneStatus.Claimed);
+    await as(treasury, reviewer).reviewMilestone(scheduleId, 0, true);
+    expect((await treasury.getMilestones(scheduleId))[0].status).to.equal(MilestoneStatus.Released);
+    await expect(as(treasury, proposer).claimMilestone(scheduleId, "ipfs://more")).to.be.revertedWithCustomError(treasury, "InvalidMilestoneState");
+  });
+
+  it("only withdraws funds no schedule has committed", async function () {
+    const { accounts, dao } = fixture;
+    const [, alice, treasurer] = accounts;
+    await createSchedule(await revealedProposal(true), [parseEther("6")]);
+
+    await expect(treasury.withdraw(ZeroAddress, alice.address, parseEther("5"))).to.be.revertedWithCustomError(treasury, "InsufficientTreasuryBalance");
+    await expect(as(treasury, treasurer).withdraw.staticCall(ZeroAddress, alice.address, parseEther("1"))).to.be.revertedWithCustomError(treasury, "NotTreasurer");
+    await grantRoles(dao, Role.Treasurer, [treasurer]);
+    await expect(as(treasury, treasurer).withdraw(ZeroAddress, alice.address, parseEther("4")))
+      .to.emit(treasury, "Withdrawn")
+      .withArgs(ZeroAddress, alice.address, parseEther("4"));
+    expect(await treasury.availableBalance(ZeroAddress)).to.equal(0n);
+  });
+});
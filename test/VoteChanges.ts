@@ -0,0 +1,98 @@
+import { expect } from "chai";
+import { fhevm } from "hardhat";
+import { HardhatEthersSigner } from "@nomicfoundation/hardhat-ethers/signers";
+import {
+  BatchMode,
+  DaoFixture,
+  Role,
+  as,
+  deployDao,
+  encryptBool,
+  finalizeAndReveal,
+  grantRoles,
+  openBatch,
+  startVoting,
+  submitProposal,
+  vote,
+} from "./helpers";
+
+describe("VoteChanges", function () {
+  let fixture: DaoFixture;
+
+  beforeEach(async function () {
+    if (!fhevm.isMock) this.skip();
+    fixture = await deployDao();
+    const [proposer, ...voters] = fixture.accounts;
+    await grantRoles(fixture.dao, Role.Proposer, [proposer]);
+    await grantRoles(fixture.dao, Role.Voter, voters.slice(0, 2));
+  });
+
+  async function updateVote(voter: HardhatEthersSigner, proposalId: bigint, approve: boolean) {
+    const ballot = await encryptBool(fixture, voter, approve);
+    return as(fixture.dao, voter).updateVote(proposalId, ballot.handles[0], ballot.inputProof);
+  }
+
+  it("counts only the latest choice of a voter who changes their ballot", async function () {
+    const { dao, address, accounts } = fixture;
+    const [proposer, alice, bob] = accounts;
+    await openBatch(dao, BatchMode.Approval);
+    const id = await submitProposal(fixture, proposer, { funding: 10, impact: 50, feasibility: 50, novelty: 50 });
+    await startVoting(dao);
+    await vote(fixture, alice, id, false);
+    await vote(fixture, bob, id, true);
+
+    await updateVote(alice, id, true);
+    expect(await fhevm.userDecryptEbool((await dao.proposalVotes(id, alice.address)).encryptedVote, address, alice)).to.equal(true);
+    expect((await dao.proposalTallies(id)).ballots).to.equal(2n);
+
+    await finalizeAndReveal(dao);
+    const tally = await dao.proposalTallies(id);
+    expect(tally.approved).to.equal(true);
+    expect(tally.approvals).to.equal(2n);
+  });
+
+  it("takes a withdrawn ballot out of the tally", async function () {
+    const { dao, accounts } = fixture;
+    const [proposer, alice, bob] = accounts;
+    const batchId = await openBatch(dao, BatchMode.Approval);
+    const id = await submitProposal(fixture, proposer, { funding: 10, impact: 50, feasibility: 50, novelty: 50 });
+    await startVoting(dao);
+    await vote(fixture, alice, id, false);
+    await vote(fixture, bob, id, true);
+
+    await expect(as(dao, alice).withdrawVote(id)).to.emit(dao, "VoteWithdrawn").withArgs(alice.address, batchId, id);
+    expect((await dao.proposalVotes(id, alice.address)).exists).to.equal(false);
+    const tally = await dao.proposalTallies(id);
+    expect(tally.ballots).to.equal(1n);
+    expect(tally.totalWeight).to.equal(1n);
+
+    await finalizeAndReveal(dao);
+    expect((await dao.proposalTallies(id)).approved).to.equal(true);
+  });
+
+  it("lets a voter vote again after withdrawing", async function () {
+    const { dao, accounts } = fixture;
+    const [proposer, alice] = accounts;
+    await openBatch(dao, BatchMode.Approval);
+    const id = await submitProposal(fixture, proposer, { funding: 10, impact: 50, feasibility: 50, novelty: 50 });
+    await startVoting(dao);
+    await vote(fixture, alice, id, true);
+    await as(dao, alice).withdrawVote(id);
+    await vote(fixture, alice, id, false);
+
+    await finalizeAndReveal(dao);
+    const tally = await dao.proposalTallies(id);
+    expect(tally.ballots).to.equal(1n);
+    expect(tally.approvals).to.equal(0n);
+  });
+
+  it("only changes ballots that exist", async function () {
+    const { dao, accounts } = fixture;
+    const [proposer, alice] = accounts;
+    await openBatch(dao, BatchMode.Approval);
+    const id = await submitProposal(fixture, proposer, { funding: 10, impact: 50, feasibility: 50, novelty: 50 });
+    await startVoting(dao);
+    await expect(updateVote(alice, id, true)).to.be.revertedWithCustomError(dao, "VoteDoesNotExist");
+    await expect(as(dao, alice).withdrawVote(id)).to.be.revertedWithCustomError(dao, "VoteDoesNotExist");
+  });
+});
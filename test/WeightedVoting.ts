@@ -0,0 +1,123 @@
+import { expect } from "chai";
+import { Contract, parseEther } from "ethers";
+import { ethers, fhevm } from "hardhat";
+import {
+  BatchMode,
+  DaoFixture,
+  Role,
+  as,
+  deployDao,
+  encryptBool,
+  finalizeAndReveal,
+  grantRoles,
+  openBatch,
+  startVoting,
+  submitProposal,
+  vote,
+} from "./helpers";
+
+describe("WeightedVoting", function () {
+  let fixture: DaoFixture;
+  let token: Contract;
+
+  beforeEach(async function () {
+    if (!fhevm.isMock) this.skip();
+    fixture = await deployDao();
+    const [proposer, ...voters] = fixture.accounts;
+    await grantRoles(fixture.dao, Role.Proposer, [proposer]);
+    await grantRoles(fixture.dao, Role.Voter, voters.slice(0, 4));
+    token = (await ethers.deployContract("GovernanceToken", [0])) as unknown as Contract;
+    await fixture.dao.setGovernanceToken(await token.getAddress());
+  });
+
+  // Mints whole tokens and self-delegates them so they count as voting power
+  async function stake(holders: [(typeof fixture.accounts)[number], string][]) {
+    for (const [holder, amount] of holders) {
+      await token.mint(holder.address, parseEther(amount));
+      await as(token, holder).delegate(holder.address);
+    }
+  }
+
+  it("weights each encrypted ballot by the voter's power at the batch snapshot", async function () {
+    const { dao, accounts } = fixture;
+    const [proposer, alice, bob, carol] = accounts;
+    await stake([[alice, "3"], [bob, "1"], [carol, "1.5"]]);
+    const batchId = await openBatch(dao, BatchMode.Approval);
+    // Tokens moved after the batch opened do not change its weights
+    await as(token, carol).transfer(bob.address, parseEther("1.5"));
+
+    expect(await dao.votingWeightOf(batchId, alice.address)).to.equal(3n);
+    expect(await dao.votingWeightOf(batchId, bob.address)).to.equal(1n);
+    // Fractions of a token carry no weight
+    expect(await dao.votingWeightOf(batchId, carol.address)).to.equal(1n);
+
+    const id = await submitProposal(fixture, proposer, { funding: 10, impact: 50, feasibility: 50, novelty: 50 });
+    await startVoting(dao);
+    await vote(fixture, alice, id, true);
+    await vote(fixture, bob, id, false);
+    await vote(fixture, carol, id, false);
+    const tally = await dao.proposalTallies(id);
+    expect(tally.ballots).to.equal(3n);
+    expect(tally.totalWeight).to.equal(5n);
+
+    await finalizeAndReveal(dao);
+    const revealed = await dao.proposalTallies(id);
+    expect(revealed.approved).to.equal(true);
+    expect(revealed.approvals).to.equal(3n);
+  });
+
+  it("needs a majority of the weight rather than of the ballots", async function () {
+    const { dao, accounts } = fixture;
+    const [proposer, alice, bob, carol, dave] = accounts;
+    await stake([[alice, "3"], [bob, "1"], [carol, "1"], [dave, "1"]]);
+    await openBatch(dao, BatchMode.Approval);
+    const id = await submitProposal(fixture, proposer, { funding: 10, impact: 50, feasibility: 50, novelty: 50 });
+    await startVoting(dao);
+    await vote(fixture, alice, id, false);
+    await vote(fixture, bob, id, true);
+    await vote(fixture, carol, id, true);
+    await vote(fixture, dave, id, true);
+
+    await finalizeAndReveal(dao);
+    // Three ballots of four, but three of six weight is not a majority
+    const revealed = await dao.proposalTallies(id);
+    expect(revealed.approved).to.equal(false);
+    expect(revealed.approvals).to.equal(3n);
+  });
+
+  it("sums weights beyond 32 bits when whales vote on the same proposal", async function () {
+    const { dao, accounts } = fixture;
+    const [proposer, alice, bob, carol] = accounts;
+    // Each holder is above the per-voter cap, so every ballot carries the largest uint32 weight
+    await stake([[alice, "5000000000"], [bob, "5000000000"], [carol, "5000000000"]]);
+    const batchId = await openBatch(dao, BatchMode.Approval);
+    const cap = 2n ** 32n - 1n;
+    expect(await dao.votingWeightOf(batchId, alice.address)).to.equal(cap);
+
+    const id = await submitProposal(fixture, proposer, { funding: 10, impact: 50, feasibility: 50, novelty: 50 });
+    await startVoting(dao);
+    await vote(fixture, alice, id, true);
+    await vote(fixture, bob, id, true);
+    await vote(fixture, carol, id, false);
+    expect((await dao.proposalTallies(id)).totalWeight).to.equal(3n * cap);
+
+    await finalizeAndReveal(dao);
+    const revealed = await dao.proposalTallies(id);
+    expect(revealed.approved).to.equal(true);
+    expect(revealed.approvals).to.equal(2n * cap);
+  });
+
+  it("rejects ballots from voters without delegated power at the snapshot", async function () {
+    const { dao, accounts } = fixture;
+    const [proposer, alice, bob] = accounts;
+    await stake([[alice, "1"]]);
+    // Bob holds tokens but never delegated them
+    await token.mint(bob.address, parseEther("5"));
+    await openBatch(dao, BatchMode.Approval);
+    const id = await submitProposal(fixture, proposer, { funding: 10, impact: 50, feasibility: 50, novelty: 50 });
+    await startVoting(dao);
+
+    const ballot = await encryptBool(fixture, bob, true);
+    await expect(as(dao, bob).submitVote(id, ballot.handles[0], ballot.inputProof)).to.be.revertedWithCustomError(dao, "NoVotingPower");
+  });
+});
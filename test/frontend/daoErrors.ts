@@ -0,0 +1,66 @@
+import { expect } from "chai";
+import { Interface } from "ethers";
+import daoAbiJson from "../../frontend/web/src/abi/Science_DAO_FHE.json";
+import researchIPAbiJson from "../../frontend/web/src/abi/ResearchIP.json";
+import treasuryAbiJson from "../../frontend/web/src/abi/ScienceTreasury.json";
+import {
+  ScienceDaoTxError,
+  decodeScienceDaoError,
+  describeScienceDaoError,
+  isScienceDaoError,
+} from "../../frontend/web/src/daoErrors";
+
+describe("decodeScienceDaoError", function () {
+  const dao = new Interface(daoAbiJson.abi);
+  const wrongPhase = dao.encodeErrorResult("WrongPhase", []);
+
+  it("passes through errors the client already decoded", function () {
+    const decoded = new ScienceDaoTxError({ kind: "NotAdmin" });
+    expect(decodeScienceDaoError(decoded)).to.deep.equal({ kind: "NotAdmin" });
+    expect(isScienceDaoError(decoded, "NotAdmin")).to.equal(true);
+    expect(isScienceDaoError(decoded, "NotOwner")).to.equal(false);
+  });
+
+  it("recognizes rejections by the wallet", function () {
+    expect(decodeScienceDaoError({ code: "ACTION_REJECTED", message: "user rejected action" })).to.deep.equal({ kind: "UserRejected" });
+    expect(decodeScienceDaoError(new Error("MetaMask Tx Signature: user rejected transaction"))).to.deep.equal({ kind: "UserRejected" });
+  });
+
+  it("uses the revert ethers already decoded from the contract ABI", function () {
+    const error = { code: "CALL_EXCEPTION", revert: { name: "AlreadyVoted", signature: "AlreadyVoted()", args: [] } };
+    expect(decodeScienceDaoError(error)).to.deep.equal({ kind: "AlreadyVoted" });
+  });
+
+  it("finds raw revert data wherever the transport put it", function () {
+    const wrapped = [
+      { data: wrongPhase },
+      { error: { data: wrongPhase } },
+      { error: { data: { data: wrongPhase } } },
+      { info: { error: { data: wrongPhase } } },
+      { info: { error: { data: { data: wrongPhase } } } },
+    ];
+    for (const error of wrapped) expect(decodeScienceDaoError(error)).to.deep.equal({ kind: "WrongPhase" });
+  });
+
+  it("decodes errors declared by the treasury and the research IP contracts", function () {
+    const treasury = new Interface(treasuryAbiJson.abi);
+    const researchIP = new Interface(researchIPAbiJson.abi);
+    expect(decodeScienceDaoError({ data: treasury.encodeErrorResult("InsufficientTreasuryBalance", []) })).to.deep.equal({ kind: "InsufficientTreasuryBalance" });
+    expect(decodeScienceDaoError({ data: researchIP.encodeErrorResult("OfferInactive", []) })).to.deep.equal({ kind: "OfferInactive" });
+  });
+
+  it("falls back to the error message for anything it cannot decode", function () {
+    expect(decodeScienceDaoError({ data: "0xdeadbeef", shortMessage: "execution reverted" })).to.deep.equal({ kind: "Unknown", message: "execution reverted" });
+    // Declared in the ABI, but not one of the DAO's own errors
+    const researchIP = new Interface(researchIPAbiJson.abi);
+    const nonexistent = researchIP.encodeErrorResult("ERC721NonexistentToken", [7]);
+    expect(decodeScienceDaoError({ data: nonexistent, reason: "token missing" })).to.deep.equal({ kind: "Unknown", message: "token missing" });
+    expect(decodeScienceDaoError("network down")).to.deep.equal({ kind: "Unknown", message: "network down" });
+  });
+
+  it("describes every decoded error for display", function () {
+    expect(describeScienceDaoError({ kind: "WrongPhase" })).to.equal("The batch is not in the right phase for this action");
+    expect(describeScienceDaoError({ kind: "Unknown", message: "" })).to.equal("Unknown error");
+    expect(new ScienceDaoTxError({ kind: "UserRejected" }).message).to.equal("Transaction rejected by user");
+  });
+});
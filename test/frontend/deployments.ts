@@ -0,0 +1,72 @@
+import { expect } from "chai";
+import registryJson from "../../frontend/web/src/deployments.json";
+import {
+  BUNDLED_ABI_VERSION,
+  DEPLOYMENTS,
+  Deployment,
+  abiMatches,
+  findDeployment,
+  getActiveDeployment,
+  onDeploymentChange,
+  scanFromBlock,
+  selectDeployment,
+} from "../../frontend/web/src/deployments";
+
+describe("deployments", function () {
+  const local = findDeployment(31337) as Deployment;
+
+  it("lists only the registered networks that have a deployment", function () {
+    expect(Object.keys(registryJson.deployments)).to.include.members(["1", "31337", "11155111"]);
+    expect(DEPLOYMENTS.map(d => d.chainId)).to.deep.equal([31337]);
+    expect(local.contractAddress).to.not.equal("");
+    expect(findDeployment(11155111)).to.equal(null);
+    expect(findDeployment(undefined)).to.equal(null);
+  });
+
+  describe("selectDeployment", function () {
+    it("returns the deployment of the active chain without notifying listeners", function () {
+      const seen: number[] = [];
+      const stop = onDeploymentChange(deployment => seen.push(deployment.chainId));
+      try {
+        expect(getActiveDeployment()).to.equal(local);
+        expect(selectDeployment(31337)).to.equal(local);
+        expect(seen).to.deep.equal([]);
+      } finally {
+        stop();
+      }
+    });
+
+    it("stays on the active deployment for a chain without one", function () {
+      const seen: number[] = [];
+      const stop = onDeploymentChange(deployment => seen.push(deployment.chainId));
+      try {
+        expect(selectDeployment(11155111)).to.equal(null);
+        expect(selectDeployment(5)).to.equal(null);
+        expect(getActiveDeployment()).to.equal(local);
+        expect(seen).to.deep.equal([]);
+      } finally {
+        stop();
+      }
+    });
+  });
+
+  describe("scanFromBlock", function () {
+    it("starts at the recorded deploy block", function () {
+      expect(scanFromBlock()).to.equal(local.deployBlock);
+      expect(scanFromBlock({ ...local, chainId: 11155111, deployBlock: 4_200_000 })).to.equal(4_200_000);
+    });
+
+    it("looks back from the chain head when a public chain's deploy block is unknown", function () {
+      expect(scanFromBlock({ ...local, chainId: 11155111, deployBlock: 0 })).to.equal(-200_000);
+      expect(scanFromBlock({ ...local, deployBlock: 0 })).to.equal(0);
+    });
+  });
+
+  describe("abiMatches", function () {
+    it("accepts only a deployment recorded with the bundled ABI version", function () {
+      expect(abiMatches({ ...local, abiVersion: BUNDLED_ABI_VERSION })).to.equal(true);
+      expect(abiMatches({ ...local, abiVersion: "0x0000000000000000" })).to.equal(false);
+      expect(abiMatches({ ...local, abiVersion: "" })).to.equal(false);
+    });
+  });
+});
@@ -0,0 +1,123 @@
+import { expect } from "chai";
+import { ethers } from "ethers";
+import { MULTICALL3_ADDRESS, MulticallRunner } from "../../frontend/web/src/multicall";
+
+const multicall = new ethers.Interface([
+  "function aggregate3((address target, bool allowFailure, bytes callData)[] calls) payable returns ((bool success, bytes returnData)[] returnData)"
+]);
+const reader = new ethers.Interface(["function scoreOf(uint256 id) view returns (uint256)", "error WrongPhase()"]);
+const TARGET = "0x00000000000000000000000000000000000000aa";
+
+const readCall = (id: number): ethers.TransactionRequest => ({ to: TARGET, data: reader.encodeFunctionData("scoreOf", [id]) });
+
+// Answers scoreOf(id) with id * 10 and reverts with WrongPhase for ids above 1000, directly or through aggregate3
+class StubProvider {
+  calls: ethers.TransactionRequest[] = [];
+  multicallDeployed = true;
+  failAggregate = false;
+
+  async getCode(address: string) {
+    return address === MULTICALL3_ADDRESS && this.multicallDeployed ? "0x6080" : "0x";
+  }
+
+  async resolveName(name: string) {
+    return name;
+  }
+
+  async call(tx: ethers.TransactionRequest): Promise<string> {
+    this.calls.push(tx);
+    if (tx.to === MULTICALL3_ADDRESS) {
+      if (this.failAggregate) throw new Error("response size exceeded");
+      const [calls] = multicall.decodeFunctionData("aggregate3", tx.data!);
+      const results: { success: boolean; data: string }[] = calls.map((c: ethers.Result) => this.answer(c.callData));
+      return multicall.encodeFunctionResult("aggregate3", [results.map(r => [r.success, r.data])]);
+    }
+    const { success, data } = this.answer(tx.data!);
+    if (!success) throw ethers.makeError("execution reverted", "CALL_EXCEPTION", { action: "call", data, reason: null, transaction: { to: TARGET, data: tx.data! }, invocation: null, revert: null });
+    return data;
+  }
+
+  get aggregateCalls() {
+    return this.calls.filter(tx => tx.to === MULTICALL3_ADDRESS).map(tx => multicall.decodeFunctionData("aggregate3", tx.data!)[0].length);
+  }
+
+  private answer(data: string): { success: boolean; data: string } {
+    const id = Number(reader.decodeFunctionData("scoreOf", data)[0]);
+    if (id > 1000) return { success: false, data: reader.encodeErrorResult("WrongPhase", []) };
+    return { success: true, data: reader.encodeFunctionResult("scoreOf", [id * 10]) };
+  }
+}
+
+describe("MulticallRunner", function () {
+  let provider: StubProvider;
+  let runner: MulticallRunner;
+
+  beforeEach(function () {
+    provider = new StubProvider();
+    runner = new MulticallRunner(provider as unknown as ethers.Provider);
+  });
+
+  const scoreOf = (data: string) => Number(reader.decodeFunctionResult("scoreOf", data)[0]);
+
+  it("sends the reads of one tick as a single aggregate3", async function () {
+    const results = await Promise.all([1, 2, 3].map(id => runner.call(readCall(id))));
+    expect(results.map(scoreOf)).to.deep.equal([10, 20, 30]);
+    expect(provider.aggregateCalls).to.deep.equal([3]);
+    expect(provider.calls).to.have.length(1);
+  });
+
+  it("splits large batches to stay under the eth_call gas cap", async function () {
+    const ids = Array.from({ length: 150 }, (_, i) => i);
+    const results = await Promise.all(ids.map(id => runner.call(readCall(id))));
+    expect(results.map(scoreOf)).to.deep.equal(ids.map(id => id * 10));
+    expect(provider.aggregateCalls).to.deep.equal([100, 50]);
+  });
+
+  it("shares one result between identical calls in flight", async function () {
+    const first = runner.call(readCall(7));
+    const second = runner.call(readCall(7));
+    expect(second).to.equal(first);
+    await Promise.all([first, second, runner.call(readCall(8))]);
+    expect(provider.aggregateCalls).to.deep.equal([2]);
+
+    // Settled calls are not cached
+    expect(scoreOf(await runner.call(readCall(7)))).to.equal(70);
+    expect(provider.calls).to.have.length(2);
+  });
+
+  it("rejects a failed call of a batch like a direct revert so its custom error decodes", async function () {
+    const contract = new ethers.Contract(TARGET, reader, runner);
+    const [ok, failed] = await Promise.allSettled([contract.scoreOf(4), contract.scoreOf(4000)]);
+    expect(ok).to.deep.equal({ status: "fulfilled", value: 40n });
+    expect(failed.status).to.equal("rejected");
+    const error = (failed as PromiseRejectedResult).reason;
+    expect(ethers.isCallException(error)).to.equal(true);
+    expect(error.data).to.equal(reader.encodeErrorResult("WrongPhase", []));
+    expect(error.revert?.name).to.equal("WrongPhase");
+    expect(provider.aggregateCalls).to.deep.equal([2]);
+  });
+
+  it("calls one after another where Multicall3 is not deployed", async function () {
+    provider.multicallDeployed = false;
+    const [ok, failed] = await Promise.allSettled([runner.call(readCall(1)), runner.call(readCall(2000))]);
+    expect(ok.status === "fulfilled" && scoreOf(ok.value)).to.equal(10);
+    expect(failed.status === "rejected" && ethers.isCallException(failed.reason)).to.equal(true);
+    expect(provider.calls.map(tx => tx.to)).to.deep.equal([TARGET, TARGET]);
+  });
+
+  it("falls back to separate calls when the aggregate call itself fails", async function () {
+    provider.failAggregate = true;
+    const results = await Promise.all([1, 2].map(id => runner.call(readCall(id))));
+    expect(results.map(scoreOf)).to.deep.equal([10, 20]);
+    expect(provider.calls.map(tx => tx.to)).to.deep.equal([MULTICALL3_ADDRESS, TARGET, TARGET]);
+  });
+
+  it("sends calls with a sender, a value or a past block straight to the provider", async function () {
+    await runner.call({ ...readCall(1), from: TARGET });
+    await runner.call({ ...readCall(2), value: 1n });
+    await runner.call({ ...readCall(3), blockTag: 5 });
+    const lone = await runner.call(readCall(4));
+    expect(scoreOf(lone)).to.equal(40);
+    expect(provider.calls.map(tx => tx.to)).to.deep.equal([TARGET, TARGET, TARGET, TARGET]);
+  });
+});
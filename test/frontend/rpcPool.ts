@@ -0,0 +1,176 @@
+import { expect } from "chai";
+import { ethers } from "ethers";
+import { RpcPool, RpcPoolOptions } from "../../frontend/web/src/rpcPool";
+
+const CHAIN_ID = 11155111;
+const OPTIONS: RpcPoolOptions = { chainId: CHAIN_ID, timeoutMs: 200, healthCheckMs: 60_000, quorum: 2, maxLagBlocks: 5 };
+const REVERT_DATA = new ethers.Interface(["error WrongPhase()"]).encodeErrorResult("WrongPhase", []);
+
+interface Behaviour {
+  chainId: number;
+  blockNumber: number;
+  delayMs: number;
+  down: boolean; // Every request fails at the transport
+  rateLimited: boolean; // Every request gets a -32005 error answer
+  callResult: string; // What eth_call returns; "revert" answers with WrongPhase
+}
+
+// Scripted JSON-RPC endpoint that records the methods it was asked
+class StubEndpoint extends ethers.JsonRpcProvider {
+  readonly methods: string[] = [];
+
+  constructor(readonly url: string, network: ethers.Network, public behaviour: Behaviour) {
+    super(undefined, network, { staticNetwork: network, batchMaxCount: 1 });
+  }
+
+  async _send(payload: ethers.JsonRpcPayload | ethers.JsonRpcPayload[]): Promise<ethers.JsonRpcResult[]> {
+    const request = Array.isArray(payload) ? payload[0] : payload;
+    this.methods.push(request.method);
+    const { chainId, blockNumber, delayMs, down, rateLimited, callResult } = this.behaviour;
+    if (delayMs > 0) await new Promise(resolve => setTimeout(resolve, delayMs));
+    if (down) throw new Error(`${this.url} is down`);
+    // Error answers travel in the results array, typed as results by JsonRpcProvider
+    const answer = (body: object) => [{ id: request.id, ...body }] as ethers.JsonRpcResult[];
+    if (rateLimited) return answer({ error: { code: -32005, message: "limit exceeded" } });
+    switch (request.method) {
+      case "eth_chainId": return answer({ result: ethers.toQuantity(chainId) });
+      case "eth_blockNumber": return answer({ result: ethers.toQuantity(blockNumber) });
+      case "eth_call":
+        if (callResult === "revert") return answer({ error: { code: 3, message: "execution reverted", data: REVERT_DATA } });
+        return answer({ result: callResult });
+    }
+    return answer({ error: { code: -32601, message: `${request.method} not supported` } });
+  }
+}
+
+const healthy = (overrides: Partial<Behaviour> = {}): Behaviour =>
+  ({ chainId: CHAIN_ID, blockNumber: 1000, delayMs: 0, down: false, rateLimited: false, callResult: "0x01", ...overrides });
+
+describe("RpcPool", function () {
+  let endpoints: Map<string, StubEndpoint>;
+  let pool: RpcPool;
+
+  // Endpoints are named by their behaviour; the pool connects to them in the given order
+  const poolOf = (behaviours: Record<string, Behaviour>, options: Partial<RpcPoolOptions> = {}) => {
+    endpoints = new Map();
+    pool = new RpcPool(Object.keys(behaviours), { ...OPTIONS, ...options }, (url, network) => {
+      const endpoint = new StubEndpoint(url, network, behaviours[url]);
+      endpoints.set(url, endpoint);
+      return endpoint;
+    });
+    return pool;
+  };
+
+  const callsOf = (url: string) => endpoints.get(url)!.methods.filter(m => m === "eth_call").length;
+  const call = () => pool.provider.call({ to: ethers.ZeroAddress, data: "0x" });
+
+  afterEach(function () {
+    pool?.stop();
+  });
+
+  describe("health scoring", function () {
+    it("ranks endpoints by latency and sends lagging ones to the back", async function () {
+      poolOf({ slow: healthy({ delayMs: 60 }), lagging: healthy({ blockNumber: 900 }), fast: healthy() });
+      await pool.start();
+
+      const byUrl = Object.fromEntries(pool.status().map(s => [s.url, s]));
+      expect(byUrl.fast.blockNumber).to.equal(1000);
+      expect(byUrl.lagging.blockNumber).to.equal(900);
+      expect(byUrl.fast.score).to.be.lessThan(byUrl.slow.score);
+      expect(byUrl.slow.score).to.be.lessThan(byUrl.lagging.score);
+
+      await call();
+      expect([callsOf("fast"), callsOf("slow"), callsOf("lagging")]).to.deep.equal([1, 0, 0]);
+    });
+
+    it("leaves out endpoints that serve another chain", async function () {
+      poolOf({ mainnet: healthy({ chainId: 1 }), sepolia: healthy({ delayMs: 20 }) });
+      await pool.start();
+
+      const [mainnet] = pool.status();
+      expect(mainnet.wrongChain).to.equal(true);
+      expect(mainnet.score).to.equal(Infinity);
+      await call();
+      expect(callsOf("mainnet")).to.equal(0);
+      expect(callsOf("sepolia")).to.equal(1);
+    });
+
+    it("picks an endpoint up again once a background check finds it recovered", async function () {
+      poolOf({ flaky: healthy({ down: true }), steady: healthy({ delayMs: 20 }) }, { healthCheckMs: 30 });
+      await pool.start();
+      expect(pool.status()[0].failures).to.be.greaterThan(0);
+      await call();
+      expect(callsOf("flaky")).to.equal(0);
+
+      endpoints.get("flaky")!.behaviour = healthy();
+      await new Promise(resolve => setTimeout(resolve, 100));
+      expect(pool.status()[0].failures).to.equal(0);
+      await call();
+      expect(callsOf("flaky")).to.equal(1);
+    });
+  });
+
+  describe("failover", function () {
+    it("moves down the ranking past endpoints that fail, time out or are rate limited", async function () {
+      poolOf({ down: healthy({ down: true }), hanging: healthy({ delayMs: 1000 }), limited: healthy({ rateLimited: true }), last: healthy() });
+
+      expect(await call()).to.equal("0x01");
+      expect([callsOf("down"), callsOf("hanging"), callsOf("limited"), callsOf("last")]).to.deep.equal([1, 1, 1, 1]);
+      const failures = Object.fromEntries(pool.status().map(s => [s.url, s.failures]));
+      expect(failures).to.deep.equal({ down: 1, hanging: 1, limited: 1, last: 0 });
+
+      // The next request starts with the endpoint that answered
+      await call();
+      expect(callsOf("last")).to.equal(2);
+      expect(callsOf("down")).to.equal(1);
+    });
+
+    it("does not fail over a revert, which every endpoint would return", async function () {
+      poolOf({ first: healthy({ callResult: "revert" }), second: healthy() });
+
+      const error = await call().then(() => null, e => e);
+      expect(ethers.isError(error, "CALL_EXCEPTION")).to.equal(true);
+      expect(error.data).to.equal(REVERT_DATA);
+      expect(callsOf("second")).to.equal(0);
+      expect(pool.status()[0].failures).to.equal(0);
+    });
+
+    it("gives up with the last error once every endpoint failed", async function () {
+      poolOf({ a: healthy({ down: true }), b: healthy({ down: true }) });
+      const error = await pool.request(provider => provider.getBlockNumber()).then(() => null, e => e);
+      expect(error?.message).to.include("b is down");
+    });
+  });
+
+  describe("quorumRequest", function () {
+    const quorumCall = () => pool.quorumRequest(provider => provider.call({ to: ethers.ZeroAddress, data: "0x" }));
+
+    it("returns the answer the best endpoints agree on without asking the rest", async function () {
+      poolOf({ a: healthy(), b: healthy(), c: healthy({ callResult: "0x02", delayMs: 60 }) });
+      await pool.start();
+      expect(await quorumCall()).to.equal("0x01");
+      expect(callsOf("a") + callsOf("b") + callsOf("c")).to.equal(2);
+    });
+
+    it("asks further endpoints until an answer reaches the quorum", async function () {
+      poolOf({ a: healthy(), b: healthy({ callResult: "0x02" }), c: healthy({ callResult: "0x02", delayMs: 60 }) });
+      await pool.start();
+      expect(await quorumCall()).to.equal("0x02");
+      expect([callsOf("a"), callsOf("b"), callsOf("c")]).to.deep.equal([1, 1, 1]);
+    });
+
+    it("refuses to pick between answers that never reach the quorum", async function () {
+      poolOf({ a: healthy(), b: healthy({ callResult: "0x02" }), c: healthy({ down: true }) });
+      const error = await quorumCall().then(() => null, e => e);
+      expect(error?.message).to.equal("RPC endpoints disagree: no answer reached a quorum of 2");
+    });
+
+    it("needs every endpoint to agree when there are fewer than the quorum", async function () {
+      poolOf({ only: healthy() }, { quorum: 3 });
+      expect(await quorumCall()).to.equal("0x01");
+      poolOf({ only: healthy({ down: true }) }, { quorum: 3 });
+      const error = await quorumCall().then(() => null, e => e);
+      expect(error?.message).to.include("only is down");
+    });
+  });
+});
@@ -0,0 +1,117 @@
+// test/helpers.ts
+import { time } from "@nomicfoundation/hardhat-network-helpers";
+import { HardhatEthersSigner } from "@nomicfoundation/hardhat-ethers/signers";
+import { Contract } from "ethers";
+import { ethers, fhevm } from "hardhat";
+
+export const BatchMode = { Approval: 0, Quadratic: 1 } as const;
+export const Role = { Proposer: 0, Voter: 1, Admin: 2, Treasurer: 3 } as const;
+
+export const SUBMISSION_SECONDS = 3600;
+export const VOTING_SECONDS = 3600;
+
+export interface DaoFixture {
+  dao: Contract;
+  address: string;
+  owner: HardhatEthersSigner;
+  accounts: HardhatEthersSigner[]; // Every other signer, without roles
+}
+
+// The DAO with its linked libraries, no cooldown and every signer but the owner left without roles
+export async function deployDao(): Promise<DaoFixture> {
+  const [owner, ...accounts] = await ethers.getSigners();
+  const libraries: Record<string, string> = {};
+  for (const name of ["ApprovalTally", "QuadraticFunding", "ProposalViews"]) {
+    const library = await ethers.deployContract(name);
+    libraries[name] = await library.getAddress();
+  }
+  const factory = await ethers.getContractFactory("Science_DAO_FHE", { libraries });
+  const dao = (await factory.deploy()) as unknown as Contract;
+  await dao.waitForDeployment();
+  await dao.setCooldownSeconds(0);
+  return { dao, address: await dao.getAddress(), owner, accounts };
+}
+
+// Contract.connect is typed as returning a BaseContract, which loses the ABI methods
+export const as = (dao: Contract, signer: HardhatEthersSigner): Contract => dao.connect(signer) as Contract;
+
+export async function grantRoles(dao: Contract, role: number, accounts: HardhatEthersSigner[]) {
+  for (const account of accounts) await dao.grantRole(role, account.address);
+}
+
+// Opens the next batch with a submission and a voting phase of an hour each
+export async function openBatch(dao: Contract, mode: number = BatchMode.Approval): Promise<bigint> {
+  const now = await time.latest();
+  await dao.openBatch(mode, now + SUBMISSION_SECONDS, now + SUBMISSION_SECONDS + VOTING_SECONDS);
+  return dao.currentBatchId();
+}
+
+export async function startVoting(dao: Contract) {
+  const { submissionEnd } = await dao.batchSchedules(await dao.currentBatchId());
+  await time.increaseTo(submissionEnd);
+}
+
+export async function endVoting(dao: Contract) {
+  const { votingEnd } = await dao.batchSchedules(await dao.currentBatchId());
+  await time.increaseTo(votingEnd);
+}
+
+export interface ProposalInputs {
+  funding: number;
+  impact: number;
+  feasibility: number;
+  novelty: number;
+  metadata?: string;
+  category?: string;
+}
+
+// The encrypted inputs and public text of a submission or amendment, with the content hash taken from the metadata
+async function proposalArgs(fixture: DaoFixture, provider: HardhatEthersSigner, inputs: ProposalInputs) {
+  const encrypted = await fhevm
+    .createEncryptedInput(fixture.address, provider.address)
+    .add32(inputs.funding)
+    .add32(inputs.impact)
+    .add32(inputs.feasibility)
+    .add32(inputs.novelty)
+    .encrypt();
+  const metadata = inputs.metadata ?? JSON.stringify({ title: "Proposal" });
+  const category = inputs.category ?? "biology";
+  return [...encrypted.handles.slice(0, 4), encrypted.inputProof, metadata, category, ethers.id(metadata)];
+}
+
+// Submits a proposal as `provider` and returns its id
+export async function submitProposal(fixture: DaoFixture, provider: HardhatEthersSigner, inputs: ProposalInputs): Promise<bigint> {
+  const { dao } = fixture;
+  const tx = await as(dao, provider).submitProposal(...(await proposalArgs(fixture, provider, inputs)));
+  const receipt = await tx.wait();
+  const event = receipt!.logs.map((log: any) => dao.interface.parseLog(log)).find((parsed: any) => parsed?.name === "ProposalSubmitted");
+  return event!.args.proposalId;
+}
+
+export async function amendProposal(fixture: DaoFixture, provider: HardhatEthersSigner, proposalId: bigint, inputs: ProposalInputs, note = "") {
+  return as(fixture.dao, provider).amendProposal(proposalId, ...(await proposalArgs(fixture, provider, inputs)), note);
+}
+
+export async function encryptBool(fixture: DaoFixture, sender: HardhatEthersSigner, value: boolean) {
+  return fhevm.createEncryptedInput(fixture.address, sender.address).addBool(value).encrypt();
+}
+
+export async function encryptUint32(fixture: DaoFixture, sender: HardhatEthersSigner, value: number) {
+  return fhevm.createEncryptedInput(fixture.address, sender.address).add32(value).encrypt();
+}
+
+export async function vote(fixture: DaoFixture, voter: HardhatEthersSigner, proposalId: bigint, approve: boolean) {
+  const encrypted = await encryptBool(fixture, voter, approve);
+  await as(fixture.dao, voter).submitVote(proposalId, encrypted.handles[0], encrypted.inputProof);
+}
+
+// Finalizes the current batch once voting has ended, advances its tally until it is complete and
+// lets the mocked oracle deliver the decryption
+export async function finalizeAndReveal(dao: Contract): Promise<bigint> {
+  const batchId: bigint = await dao.currentBatchId();
+  await endVoting(dao);
+  await dao.finalizeBatch();
+  while (!(await dao.batchResults(batchId)).tallied) await dao.tallyBatch(batchId);
+  await fhevm.awaitDecryptionOracle();
+  return batchId;
+}
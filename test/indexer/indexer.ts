@@ -0,0 +1,104 @@
+import { expect } from "chai";
+import { takeSnapshot } from "@nomicfoundation/hardhat-network-helpers";
+import fs from "fs/promises";
+import { ethers, fhevm } from "hardhat";
+import os from "os";
+import path from "path";
+import { IndexedEvent, JsonEventStore, StoreIdentity } from "../../indexer/eventStore";
+import { DaoIndexer, IndexerOptions } from "../../indexer/indexer";
+import { BatchMode, DaoFixture, Role, deployDao, grantRoles, openBatch, submitProposal } from "../helpers";
+
+const OPTIONS: IndexerOptions = { confirmations: 0, blockRange: 2000, reorgDepth: 64, pollMs: 0 };
+
+const titlesOf = (events: readonly IndexedEvent[]) =>
+  events.filter(e => e.name === "ProposalSubmitted").map(e => JSON.parse(e.proposal!.metadata).title);
+
+describe("DaoIndexer", function () {
+  let fixture: DaoFixture;
+  let file: string;
+  let identity: StoreIdentity;
+
+  beforeEach(async function () {
+    if (!fhevm.isMock) this.skip();
+    fixture = await deployDao();
+    await grantRoles(fixture.dao, Role.Proposer, [fixture.accounts[0]]);
+    file = path.join(await fs.mkdtemp(path.join(os.tmpdir(), "dao-indexer-")), "events.json");
+    const deployBlock = (await fixture.dao.deploymentTransaction()!.wait())!.blockNumber;
+    identity = { chainId: 31337, dao: fixture.address, startBlock: deployBlock };
+  });
+
+  afterEach(async function () {
+    if (file) await fs.rm(path.dirname(file), { recursive: true, force: true });
+  });
+
+  const submit = (title: string) =>
+    submitProposal(fixture, fixture.accounts[0], { funding: 10, impact: 50, feasibility: 50, novelty: 50, metadata: JSON.stringify({ title }) });
+
+  it("indexes the DAO's events with the text of each proposal", async function () {
+    const batchId = await openBatch(fixture.dao, BatchMode.Approval);
+    const id = await submit("Coral bleaching survey");
+
+    const store = await JsonEventStore.open(file, identity);
+    expect(await new DaoIndexer(ethers.provider, store, OPTIONS).syncOnce()).to.equal(2);
+    const [opened, submitted] = store.events;
+    expect(opened.name).to.equal("BatchOpened");
+    expect(opened.args.batchId).to.equal(batchId.toString());
+    expect(submitted.name).to.equal("ProposalSubmitted");
+    expect(submitted.args.proposalId).to.equal(id.toString());
+    expect(submitted.proposal).to.deep.equal({ metadata: JSON.stringify({ title: "Coral bleaching survey" }), category: "biology" });
+    expect(store.head!.number).to.equal(await ethers.provider.getBlockNumber());
+  });
+
+  it("rolls back the events of blocks a reorg orphaned", async function () {
+    await openBatch(fixture.dao, BatchMode.Approval);
+    await submit("Kept");
+    const store = await JsonEventStore.open(file, identity);
+    const indexer = new DaoIndexer(ethers.provider, store, OPTIONS);
+    await indexer.syncOnce();
+
+    const fork = await takeSnapshot();
+    await submit("Orphaned");
+    await indexer.syncOnce();
+    expect(titlesOf(store.events)).to.deep.equal(["Kept", "Orphaned"]);
+    const orphanedHead = store.head!;
+
+    // Replaces the orphaned block with another one at the same height
+    await fork.restore();
+    await submit("Canonical");
+    const head = (await ethers.provider.getBlock("latest"))!;
+    expect(head.number).to.equal(orphanedHead.number);
+    expect(head.hash).to.not.equal(orphanedHead.hash);
+
+    expect(await indexer.syncOnce()).to.equal(1);
+    expect(titlesOf(store.events)).to.deep.equal(["Kept", "Canonical"]);
+    expect(store.head).to.deep.equal({ number: head.number, hash: head.hash });
+  });
+
+  it("resumes from the stored head after a restart", async function () {
+    await openBatch(fixture.dao, BatchMode.Approval);
+    await submit("Before restart");
+    const first = await JsonEventStore.open(file, identity);
+    await new DaoIndexer(ethers.provider, first, OPTIONS).syncOnce();
+
+    await submit("After restart");
+    const reopened = await JsonEventStore.open(file, identity);
+    expect(reopened.head).to.deep.equal(first.head);
+    expect(reopened.checkpoints).to.deep.equal(first.checkpoints);
+
+    const indexer = new DaoIndexer(ethers.provider, reopened, OPTIONS);
+    expect(await indexer.syncOnce()).to.equal(1);
+    expect(await indexer.syncOnce()).to.equal(0);
+    expect(titlesOf(reopened.events)).to.deep.equal(["Before restart", "After restart"]);
+  });
+
+  it("starts over when the store file indexes another deployment", async function () {
+    await openBatch(fixture.dao, BatchMode.Approval);
+    const store = await JsonEventStore.open(file, identity);
+    await new DaoIndexer(ethers.provider, store, OPTIONS).syncOnce();
+    expect(store.events).to.have.length(1);
+
+    const other = await JsonEventStore.open(file, { ...identity, dao: fixture.owner.address });
+    expect(other.head).to.equal(null);
+    expect(other.events).to.have.length(0);
+  });
+});
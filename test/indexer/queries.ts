@@ -0,0 +1,89 @@
+import { expect } from "chai";
+import { IndexedEvent, IndexedEventName } from "../../indexer/eventStore";
+import { buildProposals, listEvents, searchProposals, statsOf } from "../../indexer/queries";
+
+const LAB = "0x8ba1f109551bD432803012645Ac136ddd64DBA72";
+const OTHER_LAB = "0xAb5801a7D398351b8bE11C439e05C5B3259aeC9B";
+const VOTER = "0x3000000000000000000000000000000000000003";
+
+// A small history in chain order: two batches, the first one revealed
+function history(): IndexedEvent[] {
+  let block = 10;
+  const event = (name: IndexedEventName, args: IndexedEvent["args"], proposal?: IndexedEvent["proposal"]): IndexedEvent => {
+    block++;
+    return { name, blockNumber: block, blockHash: `0x${block.toString(16)}`, logIndex: 0, transactionHash: `0x${block.toString(16)}`, timestamp: block * 12, args, proposal };
+  };
+  const submitted = (proposalId: number, batchId: number, provider: string, title: string, category: string) =>
+    event("ProposalSubmitted", { proposalId: String(proposalId), provider, batchId: String(batchId), contentHash: "0x" }, {
+      metadata: JSON.stringify({ title, description: `About ${title.toLowerCase()}` }),
+      category
+    });
+  return [
+    event("BatchOpened", { batchId: "1", mode: 0 }),
+    submitted(1, 1, LAB, "Coral bleaching survey", "biology"),
+    submitted(2, 1, OTHER_LAB, "Tidal energy model", "physics"),
+    submitted(3, 1, LAB, "Coral reef restoration", "biology"),
+    event("ProposalWithdrawn", { proposalId: "3", provider: LAB, batchId: "1" }),
+    event("VoteSubmitted", { voter: VOTER, batchId: "1", proposalId: "1" }),
+    event("BatchClosed", { batchId: "1" }),
+    event("ProposalOutcomeRevealed", { proposalId: "1", batchId: "1", approved: true, funded: true, approvals: 1, totalWeight: 1 }),
+    event("ProposalOutcomeRevealed", { proposalId: "2", batchId: "1", approved: false, funded: false, approvals: 0, totalWeight: 0 }),
+    event("BatchOpened", { batchId: "2", mode: 0 }),
+    submitted(4, 2, OTHER_LAB, "Coral genome atlas", "biology"),
+    submitted(5, 2, LAB, "Solar cell coatings", "chemistry")
+  ];
+}
+
+const idsOf = (items: { proposalId: string }[]) => items.map(p => p.proposalId);
+
+describe("indexer queries", function () {
+  const events = history();
+
+  describe("searchProposals", function () {
+    it("pages through every proposal newest first", function () {
+      const first = searchProposals(events, {}, 0, 2);
+      expect(first.total).to.equal(5);
+      expect(idsOf(first.items)).to.deep.equal(["5", "4"]);
+      expect(idsOf(searchProposals(events, {}, 2, 2).items)).to.deep.equal(["3", "2"]);
+      expect(idsOf(searchProposals(events, {}, 4, 2).items)).to.deep.equal(["1"]);
+      expect(searchProposals(events, {}, 5, 2)).to.deep.equal({ items: [], total: 5 });
+    });
+
+    it("matches the query against title, description, category, provider and id", function () {
+      expect(idsOf(searchProposals(events, { q: "  CORAL " }, 0, 10).items)).to.deep.equal(["4", "3", "1"]);
+      expect(idsOf(searchProposals(events, { q: "about tidal" }, 0, 10).items)).to.deep.equal(["2"]);
+      expect(idsOf(searchProposals(events, { q: "chemistry" }, 0, 10).items)).to.deep.equal(["5"]);
+      expect(idsOf(searchProposals(events, { q: OTHER_LAB.toLowerCase() }, 0, 10).items)).to.deep.equal(["4", "2"]);
+      expect(searchProposals(events, { q: "fusion" }, 0, 10).total).to.equal(0);
+    });
+
+    it("narrows down by batch, provider and status", function () {
+      expect(idsOf(searchProposals(events, { batchId: "2" }, 0, 10).items)).to.deep.equal(["5", "4"]);
+      expect(idsOf(searchProposals(events, { provider: LAB.toLowerCase() }, 0, 10).items)).to.deep.equal(["5", "3", "1"]);
+      expect(idsOf(searchProposals(events, { status: "approved" }, 0, 10).items)).to.deep.equal(["1"]);
+      expect(idsOf(searchProposals(events, { status: "withdrawn" }, 0, 10).items)).to.deep.equal(["3"]);
+      expect(idsOf(searchProposals(events, { status: "pending" }, 0, 10).items)).to.deep.equal(["5", "4"]);
+
+      const combined = searchProposals(events, { q: "coral", batchId: "1", status: "approved" }, 0, 10);
+      expect(combined.total).to.equal(1);
+      expect(combined.items[0]).to.include({ proposalId: "1", provider: LAB, category: "biology", ballots: 1, funded: true });
+    });
+  });
+
+  it("lists events newest first, filtered by name and by any address argument", function () {
+    const page = listEvents(events, { account: LAB.toLowerCase() }, 0, 2);
+    expect(page.total).to.equal(4);
+    expect(page.items.map(e => e.args.proposalId)).to.deep.equal(["5", "3"]);
+    expect(page.items[1].name).to.equal("ProposalWithdrawn");
+    expect(listEvents(events, { name: "BatchOpened" }, 0, 10).items.map(e => e.args.batchId)).to.deep.equal(["2", "1"]);
+  });
+
+  it("counts proposals, ballots and batches as of the last event", function () {
+    expect(buildProposals(events).map(p => p.status)).to.deep.equal(["approved", "rejected", "withdrawn", "pending", "pending"]);
+    const stats = statsOf(events);
+    expect(stats.proposals).to.equal(5);
+    expect(stats.byStatus).to.deep.equal({ pending: 2, approved: 1, rejected: 1, withdrawn: 1 });
+    expect(stats.ballots).to.equal(1);
+    expect(stats.batches.map(b => [b.batchId, b.proposals])).to.deep.equal([["2", 2], ["1", 2]]);
+  });
+});